@@ -16,14 +16,57 @@ export type {
   AddHeadingSectionOutput,
   AddHeadingSectionError,
   AddHeadingSectionResult,
+  AddHeadingSectionsInput,
+  AddHeadingSectionsResult,
   GetHeadingSectionsInput,
   GetHeadingSectionsOutput,
   GetHeadingSectionsError,
   GetHeadingSectionsResult,
+  UpdateHeadingSectionTagsInput,
+  UpdateHeadingSectionTagsResult,
+  UpdateHeadingSectionInput,
+  UpdateHeadingSectionResult,
+  GetCollectionsResult,
+  CreateCollectionInput,
+  RenameCollectionInput,
+  DeleteCollectionInput,
+  SetActiveCollectionInput,
+  CheckSectionFreshnessInput,
+  CheckSectionFreshnessResult,
+  AddClipInput,
+  GetClipsInput,
+  RemoveClipInput,
+  ExportBackupResult,
+  BackupConflictStrategy,
+  ImportBackupInput,
+  ImportBackupResult,
+  CreateSavedSearchInput,
+  CreateSavedSearchResult,
+  GetSavedSearchesResult,
+  DeleteSavedSearchInput,
 } from "./usecases/heading-collection";
 
 export {
   AddHeadingSectionUseCase,
+  AddHeadingSectionsUseCase,
   GetHeadingSectionsUseCase,
+  searchQueryToInput,
+  UpdateHeadingSectionTagsUseCase,
+  UpdateHeadingSectionUseCase,
+  GetCollectionsUseCase,
+  CreateCollectionUseCase,
+  RenameCollectionUseCase,
+  DeleteCollectionUseCase,
+  SetActiveCollectionUseCase,
+  CheckSectionFreshnessUseCase,
+  AddClipUseCase,
+  GetClipsUseCase,
+  RemoveClipUseCase,
+  ExportBackupUseCase,
+  ImportBackupUseCase,
+  CreateSavedSearchUseCase,
+  GetSavedSearchesUseCase,
+  savedSearchToInput,
+  DeleteSavedSearchUseCase,
   InputValidationError,
 } from "./usecases/heading-collection";
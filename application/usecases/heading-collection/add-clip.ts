@@ -0,0 +1,194 @@
+import {
+  Clip,
+  IClipRepository,
+  TextAnchor,
+  createClip,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+import { addSvgClass } from "../../../shared/html/add-svg-class";
+import { sanitizeHtml } from "../../../shared/html/html-sanitizer";
+
+/**
+ * Input DTO for saving a text selection as a clip
+ */
+export interface AddClipInput {
+  /** URL of the page the selection was made on */
+  sourceUrl: string;
+  /** HTML of the selected DOM range */
+  contentHtml: string;
+  /** Position of the selection in the page text */
+  anchor: TextAnchor;
+  /** Nearest heading before the selection, if any */
+  heading?: {
+    level: number;
+    title: string;
+    /** Titles of the enclosing headings, outermost first */
+    headingPath?: string[];
+  };
+  /** Collections the clip is added to (defaults to the default collection) */
+  collectionIds?: string[];
+}
+
+/**
+ * Output DTO for saving a clip
+ */
+export interface AddClipOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The saved clip */
+  clip: Clip;
+}
+
+/**
+ * Error response for saving a clip
+ */
+export interface AddClipError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode: "INVALID_INPUT" | "REPOSITORY_ERROR" | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of saving a clip
+ */
+export type AddClipResult = AddClipOutput | AddClipError;
+
+/**
+ * Use case for saving an arbitrary text selection from a page
+ *
+ * Responsibilities:
+ * - Validate input parameters
+ * - Create the clip entity linked to its nearest heading
+ * - Persist the clip via repository
+ * - Handle and categorize errors appropriately
+ */
+export class AddClipUseCase {
+  constructor(private readonly repository: IClipRepository) {}
+
+  /**
+   * Executes the use case to save a clip
+   *
+   * @param input - The selection to save
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: AddClipInput): Promise<AddClipResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // Step 2: Create clip entity
+      const clip = createClip({
+        sourceUrl: input.sourceUrl,
+        contentHtml: addSvgClass(sanitizeHtml(input.contentHtml)),
+        anchor: input.anchor,
+        heading: input.heading && {
+          level: input.heading.level,
+          titleText: input.heading.title,
+          headingPath: input.heading.headingPath,
+        },
+        collectionIds: input.collectionIds,
+      });
+
+      // Step 3: Persist the clip
+      const addResult = await this.repository.addClip(clip);
+      if (!addResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save clip",
+          details: addResult.error,
+        };
+      }
+
+      // Step 4: Return success result
+      return {
+        success: true,
+        clip,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Validates the input parameters
+   *
+   * @param input - The input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: AddClipInput): void {
+    if (!input.sourceUrl || typeof input.sourceUrl !== "string") {
+      throw new ValidationError("Source URL is required and must be a string");
+    }
+
+    if (typeof input.contentHtml !== "string") {
+      throw new ValidationError("Clip content must be a string");
+    }
+
+    if (!input.anchor || typeof input.anchor !== "object") {
+      throw new ValidationError("Text anchor is required");
+    }
+
+    if (
+      input.heading !== undefined &&
+      (typeof input.heading.level !== "number" ||
+        typeof input.heading.title !== "string")
+    ) {
+      throw new ValidationError("Invalid heading for clip");
+    }
+
+    if (
+      input.collectionIds !== undefined &&
+      (!Array.isArray(input.collectionIds) ||
+        !input.collectionIds.every((id) => typeof id === "string"))
+    ) {
+      throw new ValidationError("Collection IDs must be an array of strings");
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): AddClipError {
+    console.error("Error in AddClipUseCase:", error);
+
+    // Handle validation errors (including an invalid anchor)
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    // Handle repository errors
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while saving clip: ${error.message}`,
+        details: error,
+      };
+    }
+
+    // Handle unknown errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to save clip: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
@@ -1,12 +1,18 @@
 import {
   HeadingSection,
   IHeadingSectionRepository,
+  addSectionVersion,
+  completeHeadingPath,
   createHeadingSection,
+  getSectionCollectionIds,
   isHeadingSection,
+  markSectionUpstream,
+  updateSectionCollections,
 } from "../../../domain/heading-collection";
 
 import { RepositoryError, ValidationError } from "../../../domain/shared";
 import { addSvgClass } from "../../../shared/html/add-svg-class";
+import { sanitizeHtml } from "../../../shared/html/html-sanitizer";
 
 /**
  * Input DTO for adding a heading section
@@ -22,6 +28,14 @@ export interface AddHeadingSectionInput {
   sourceUrl: string;
   /** Optional custom section ID (if not provided, will be auto-generated) */
   id?: string;
+  /** Optional user-defined tags */
+  tags?: string[];
+  /** Collections to add the section to (default: the default collection) */
+  collectionIds?: string[];
+  /** Index of the heading among the headings of the page */
+  position?: number;
+  /** Titles of the enclosing headings, outermost first */
+  headingPath?: string[];
 }
 
 /**
@@ -32,6 +46,13 @@ export interface AddHeadingSectionOutput {
   sectionId: string;
   /** Indicates whether the operation was successful */
   success: true;
+  /**
+   * What happened to the collection:
+   * - "created": a new section was stored
+   * - "newVersion": an existing section was re-captured with changed content
+   * - "addedToCollection": an existing, unchanged section joined more collections
+   */
+  status: "created" | "newVersion" | "addedToCollection";
 }
 
 /**
@@ -78,6 +99,7 @@ export class InputValidationError extends Error {
  * Responsibilities:
  * - Validate input parameters
  * - Create a valid HeadingSection entity
+ * - Record a new version when an already collected section is re-captured
  * - Persist the section via repository
  * - Handle and categorize errors appropriately
  * - Return structured results for UI consumption
@@ -96,16 +118,46 @@ export class AddHeadingSectionUseCase {
   ): Promise<AddHeadingSectionResult> {
     try {
       // Step 1: Validate input
-      this.validateInput(input);
+      validateAddHeadingSectionInput(input);
 
-      // Step 2: Check for content-based duplicates BEFORE creating the section
+      // Step 2: Look the heading up by its stable ID BEFORE creating the section
       const duplicateSection = await this.repository.findDuplicateSection({
         sourceUrl: input.sourceUrl,
         level: input.level,
         titleText: input.title.trim(),
+        ...(input.headingPath && { headingPath: input.headingPath }),
       });
 
       if (duplicateSection) {
+        // Re-capturing a known section records changed content as a new
+        // version and adds the section to any new collections
+        const newCollectionIds = (input.collectionIds ?? []).filter(
+          (id) => !getSectionCollectionIds(duplicateSection).includes(id)
+        );
+        const contentHtml = prepareSectionContent(input);
+        // Sections saved before captures were sanitized are compared as a
+        // capture would store them now
+        const saved: HeadingSection = {
+          ...duplicateSection,
+          contentHtml: toStoredContent(duplicateSection.contentHtml),
+        };
+        const identified = await this.completeHeadingPath(
+          saved,
+          input.headingPath
+        );
+
+        if (contentHtml !== saved.contentHtml || newCollectionIds.length > 0) {
+          return this.recapture(
+            duplicateSection.sectionId,
+            identified,
+            contentHtml,
+            newCollectionIds
+          );
+        }
+        if (identified !== saved) {
+          await this.saveSection(duplicateSection.sectionId, identified);
+        }
+
         return {
           success: false,
           errorCode: "INVALID_INPUT",
@@ -123,7 +175,7 @@ export class AddHeadingSectionUseCase {
       }
 
       // Step 3: Create heading section entity
-      const section = this.createHeadingSection(input);
+      const section = buildHeadingSection(input);
 
       // Step 4: Check if section ID already exists (fallback check)
       const exists = await this.repository.sectionExists(section.sectionId);
@@ -143,6 +195,7 @@ export class AddHeadingSectionUseCase {
       return {
         success: true,
         sectionId: section.sectionId,
+        status: "created",
       };
     } catch (error) {
       return this.handleError(error);
@@ -150,101 +203,98 @@ export class AddHeadingSectionUseCase {
   }
 
   /**
-   * Validates the input parameters
+   * Applies a re-capture to an already collected section
    *
    * @private
-   * @param input - Input to validate
-   * @throws InputValidationError if validation fails
+   * @param storedId - The ID the existing section is stored under
+   * @param section - The existing section
+   * @param contentHtml - The newly captured content
+   * @param collectionIds - Collections the section is not yet part of
+   * @returns Success result with the existing section's ID
+   * @throws RepositoryError if the section cannot be updated
    */
-  private validateInput(input: AddHeadingSectionInput): void {
-    // Validate level
-    if (!Number.isInteger(input.level) || input.level < 1 || input.level > 6) {
-      throw new InputValidationError(
-        "Heading level must be an integer between 1 and 6",
-        "level"
-      );
-    }
-
-    // Validate title
-    if (
-      !input.title ||
-      typeof input.title !== "string" ||
-      input.title.trim().length === 0
-    ) {
-      throw new InputValidationError(
-        "Title must be a non-empty string",
-        "title"
-      );
-    }
+  private async recapture(
+    storedId: string,
+    section: HeadingSection,
+    contentHtml: string,
+    collectionIds: string[]
+  ): Promise<AddHeadingSectionResult> {
+    // The captured content reflects the live page, so any stale mark is cleared
+    const versioned = markSectionUpstream(
+      addSectionVersion(section, contentHtml),
+      null
+    );
+    const updated = updateSectionCollections(versioned, [
+      ...getSectionCollectionIds(section),
+      ...collectionIds,
+    ]);
 
-    // Validate source URL
-    if (!input.sourceUrl || typeof input.sourceUrl !== "string") {
-      throw new InputValidationError(
-        "Source URL must be a non-empty string",
-        "sourceUrl"
-      );
-    }
+    await this.saveSection(storedId, updated);
 
-    try {
-      new URL(input.sourceUrl);
-    } catch {
-      throw new InputValidationError(
-        "Source URL must be a valid URL",
-        "sourceUrl"
-      );
-    }
+    return {
+      success: true,
+      sectionId: section.sectionId,
+      status: versioned !== section ? "newVersion" : "addedToCollection",
+    };
+  }
 
-    // Validate content if provided
-    if (input.content !== undefined && typeof input.content !== "string") {
-      throw new InputValidationError(
-        "Content must be a string if provided",
-        "content"
-      );
+  /**
+   * Completes the heading path of a section stored with a partial one, so
+   * that it gets the ID a fresh capture of the heading gets
+   *
+   * @private
+   * @param section - The existing section
+   * @param headingPath - The heading path of the capture
+   * @returns The section to store, unchanged when the path cannot be completed
+   */
+  private async completeHeadingPath(
+    section: HeadingSection,
+    headingPath: string[] | undefined
+  ): Promise<HeadingSection> {
+    if (!headingPath) {
+      return section;
     }
 
-    // Validate custom ID if provided
+    const completed = completeHeadingPath(section, headingPath);
+    // Another section already has that ID: keep the partial path for now
     if (
-      input.id !== undefined &&
-      (typeof input.id !== "string" || input.id.trim().length === 0)
+      completed.sectionId !== section.sectionId &&
+      (await this.repository.sectionExists(completed.sectionId))
     ) {
-      throw new InputValidationError(
-        "Custom ID must be a non-empty string if provided",
-        "id"
-      );
+      return section;
     }
+    return completed;
   }
 
   /**
-   * Creates a HeadingSection entity from validated input
+   * Stores an updated section, moving it to its new ID when that changed
    *
    * @private
-   * @param input - Validated input parameters
-   * @returns HeadingSection entity
-   * @throws Error if entity creation fails
+   * @param storedId - The ID the section is stored under
+   * @param section - The updated section
+   * @throws RepositoryError if the section cannot be stored
    */
-  private createHeadingSection(input: AddHeadingSectionInput): HeadingSection {
-    const rawContent =
-      input.content?.trim() ||
-      `<h${input.level}>${input.title.trim()}</h${input.level}>`;
-
-    const sectionData = {
-      level: input.level,
-      tagName: `H${input.level}`,
-      titleText: input.title.trim(),
-      contentHtml: addSvgClass(rawContent), // Add CSS class to Mermaid SVG elements
-      sourceUrl: input.sourceUrl,
-      // Use custom ID if provided
-      ...(input.id && { sectionId: input.id.trim() }),
-    };
-
-    const section = createHeadingSection(sectionData);
-
-    // Double-check with type guard
-    if (!isHeadingSection(section)) {
-      throw new Error("Failed to create valid HeadingSection entity");
+  private async saveSection(
+    storedId: string,
+    section: HeadingSection
+  ): Promise<void> {
+    if (section.sectionId === storedId) {
+      const updateResult = await this.repository.updateSection(section);
+      if (!updateResult.success) {
+        throw updateResult.error;
+      }
+      return;
     }
 
-    return section;
+    // Added before the old entry is removed, so a failure keeps the section
+    const addResult = await this.repository.addSection(section);
+    if (!addResult.success) {
+      throw addResult.error;
+    }
+    const removeResult = await this.repository.removeSection(storedId);
+    if (!removeResult.success) {
+      throw removeResult.error;
+    }
   }
 
   /**
@@ -302,3 +352,172 @@ export class AddHeadingSectionUseCase {
     };
   }
 }
+
+/**
+ * Validates the input for adding a heading section
+ *
+ * @param input - Input to validate
+ * @throws InputValidationError if validation fails
+ */
+export function validateAddHeadingSectionInput(
+  input: AddHeadingSectionInput
+): void {
+  // Validate level
+  if (!Number.isInteger(input.level) || input.level < 1 || input.level > 6) {
+    throw new InputValidationError(
+      "Heading level must be an integer between 1 and 6",
+      "level"
+    );
+  }
+
+  // Validate title
+  if (
+    !input.title ||
+    typeof input.title !== "string" ||
+    input.title.trim().length === 0
+  ) {
+    throw new InputValidationError("Title must be a non-empty string", "title");
+  }
+
+  // Validate source URL
+  if (!input.sourceUrl || typeof input.sourceUrl !== "string") {
+    throw new InputValidationError(
+      "Source URL must be a non-empty string",
+      "sourceUrl"
+    );
+  }
+
+  try {
+    new URL(input.sourceUrl);
+  } catch {
+    throw new InputValidationError(
+      "Source URL must be a valid URL",
+      "sourceUrl"
+    );
+  }
+
+  // Validate content if provided
+  if (input.content !== undefined && typeof input.content !== "string") {
+    throw new InputValidationError(
+      "Content must be a string if provided",
+      "content"
+    );
+  }
+
+  // Validate tags if provided
+  if (
+    input.tags !== undefined &&
+    (!Array.isArray(input.tags) ||
+      !input.tags.every((tag) => typeof tag === "string"))
+  ) {
+    throw new InputValidationError(
+      "Tags must be an array of strings if provided",
+      "tags"
+    );
+  }
+
+  // Validate collection IDs if provided
+  if (
+    input.collectionIds !== undefined &&
+    (!Array.isArray(input.collectionIds) ||
+      input.collectionIds.length === 0 ||
+      !input.collectionIds.every(
+        (id) => typeof id === "string" && id.trim().length > 0
+      ))
+  ) {
+    throw new InputValidationError(
+      "Collection IDs must be a non-empty array of strings if provided",
+      "collectionIds"
+    );
+  }
+
+  // Validate position if provided
+  if (
+    input.position !== undefined &&
+    (!Number.isInteger(input.position) || input.position < 0)
+  ) {
+    throw new InputValidationError(
+      "Position must be a non-negative integer if provided",
+      "position"
+    );
+  }
+
+  // Validate heading path if provided
+  if (
+    input.headingPath !== undefined &&
+    (!Array.isArray(input.headingPath) ||
+      !input.headingPath.every((title) => typeof title === "string"))
+  ) {
+    throw new InputValidationError(
+      "Heading path must be an array of strings if provided",
+      "headingPath"
+    );
+  }
+
+  // Validate custom ID if provided
+  if (
+    input.id !== undefined &&
+    (typeof input.id !== "string" || input.id.trim().length === 0)
+  ) {
+    throw new InputValidationError(
+      "Custom ID must be a non-empty string if provided",
+      "id"
+    );
+  }
+}
+
+/**
+ * Creates a HeadingSection entity from validated input
+ *
+ * @param input - Validated input parameters
+ * @returns HeadingSection entity
+ * @throws Error if entity creation fails
+ */
+export function buildHeadingSection(
+  input: AddHeadingSectionInput
+): HeadingSection {
+  const sectionData = {
+    level: input.level,
+    tagName: `H${input.level}`,
+    titleText: input.title.trim(),
+    contentHtml: prepareSectionContent(input),
+    sourceUrl: input.sourceUrl,
+    tags: input.tags ?? [],
+    ...(input.collectionIds && { collectionIds: input.collectionIds }),
+    ...(input.position !== undefined && { position: input.position }),
+    ...(input.headingPath && { headingPath: input.headingPath }),
+    // Use custom ID if provided
+    ...(input.id && { sectionId: input.id.trim() }),
+  };
+
+  const section = createHeadingSection(sectionData);
+
+  // Double-check with type guard
+  if (!isHeadingSection(section)) {
+    throw new Error("Failed to create valid HeadingSection entity");
+  }
+
+  return section;
+}
+
+/**
+ * Builds the HTML content to store from validated input
+ *
+ * @param input - Validated input parameters
+ * @returns Sanitized content HTML with Mermaid SVG elements marked
+ */
+export function prepareSectionContent(input: AddHeadingSectionInput): string {
+  const rawContent =
+    input.content?.trim() ||
+    `<h${input.level}>${input.title.trim()}</h${input.level}>`;
+
+  return toStoredContent(rawContent);
+}
+
+/**
+ * HTML as sections store it
+ */
+function toStoredContent(html: string): string {
+  // Captured HTML is not trusted: it reproduces content of any repository
+  return addSvgClass(sanitizeHtml(html)); // Add CSS class to Mermaid SVG elements
+}
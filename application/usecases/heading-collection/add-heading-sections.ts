@@ -0,0 +1,284 @@
+import {
+  HeadingSection,
+  IHeadingSectionRepository,
+  hasSectionId,
+  isSectionOfHeading,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+import {
+  AddHeadingSectionInput,
+  InputValidationError,
+  buildHeadingSection,
+  validateAddHeadingSectionInput,
+} from "./add-heading-section";
+
+/**
+ * Input DTO for adding several heading sections at once
+ */
+export interface AddHeadingSectionsInput {
+  /** The heading sections to add, in page order */
+  sections: AddHeadingSectionInput[];
+  /** Collections for every section that does not specify its own */
+  collectionIds?: string[];
+}
+
+/**
+ * A section that was added by the batch
+ */
+export interface AddedHeadingSection {
+  sectionId: string;
+  title: string;
+  level: number;
+}
+
+/**
+ * A section of the batch that was not added
+ */
+export interface SkippedHeadingSection {
+  /** Position of the section in the input */
+  index: number;
+  title: string;
+  level: number;
+  /**
+   * Why the section was skipped:
+   * - "duplicate": the heading is already collected or appears twice in the batch
+   * - "invalid": the section failed validation
+   */
+  reason: "duplicate" | "invalid";
+  /** Human-readable explanation */
+  message: string;
+  /** The already collected section, for duplicates of stored sections */
+  existingSectionId?: string;
+}
+
+/**
+ * Output DTO for adding several heading sections at once
+ */
+export interface AddHeadingSectionsOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** Sections that were stored */
+  added: AddedHeadingSection[];
+  /** Sections that were left out */
+  skipped: SkippedHeadingSection[];
+}
+
+/**
+ * Error response for adding several heading sections at once
+ */
+export interface AddHeadingSectionsError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "STORAGE_QUOTA_EXCEEDED"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of adding several heading sections at once
+ */
+export type AddHeadingSectionsResult =
+  | AddHeadingSectionsOutput
+  | AddHeadingSectionsError;
+
+/**
+ * Use case for adding many heading sections of a page in one operation
+ *
+ * Every section is validated and checked for duplicates on its own, so one bad
+ * section does not fail the batch. Unlike adding a single section, headings
+ * that are already collected are skipped rather than re-captured.
+ *
+ * Responsibilities:
+ * - Validate each section of the batch
+ * - Skip headings that are already collected or repeated in the batch
+ * - Persist all new sections with a single storage write
+ * - Report which sections were added and which were skipped
+ */
+export class AddHeadingSectionsUseCase {
+  constructor(private readonly repository: IHeadingSectionRepository) {}
+
+  /**
+   * Executes the use case to add several heading sections
+   *
+   * @param input - The sections to add
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: AddHeadingSectionsInput
+  ): Promise<AddHeadingSectionsResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // Step 2: Load the collected sections once for duplicate checks
+      const existing = await this.repository.getAllSections();
+
+      // Step 3: Build the sections to add
+      const toAdd: HeadingSection[] = [];
+      const skipped: SkippedHeadingSection[] = [];
+
+      input.sections.forEach((item, index) => {
+        const sectionInput: AddHeadingSectionInput = {
+          ...item,
+          collectionIds: item.collectionIds ?? input.collectionIds,
+        };
+        const title = typeof item.title === "string" ? item.title.trim() : "";
+        const level = item.level;
+
+        let section: HeadingSection;
+        try {
+          validateAddHeadingSectionInput(sectionInput);
+          section = buildHeadingSection(sectionInput);
+        } catch (error) {
+          if (
+            !(error instanceof InputValidationError) &&
+            !(error instanceof ValidationError)
+          ) {
+            throw error;
+          }
+          skipped.push({
+            index,
+            title,
+            level,
+            reason: "invalid",
+            message: error.message,
+          });
+          return;
+        }
+
+        const heading = {
+          sourceUrl: sectionInput.sourceUrl,
+          level,
+          titleText: title,
+          headingPath: sectionInput.headingPath,
+        };
+
+        const duplicate = existing.find(
+          (s) =>
+            isSectionOfHeading(s, heading) || hasSectionId(s, section.sectionId)
+        );
+        if (duplicate) {
+          skipped.push({
+            index,
+            title,
+            level,
+            reason: "duplicate",
+            message: "This section is already in the collection",
+            existingSectionId: duplicate.sectionId,
+          });
+          return;
+        }
+
+        if (toAdd.some((s) => s.sectionId === section.sectionId)) {
+          skipped.push({
+            index,
+            title,
+            level,
+            reason: "duplicate",
+            message: "This section appears more than once in the batch",
+          });
+          return;
+        }
+
+        toAdd.push(section);
+      });
+
+      // Step 4: Persist all new sections at once
+      if (toAdd.length > 0) {
+        const addResult = await this.repository.addSections(toAdd);
+        if (!addResult.success) {
+          throw addResult.error;
+        }
+      }
+
+      // Step 5: Return success result
+      return {
+        success: true,
+        added: toAdd.map((section) => ({
+          sectionId: section.sectionId,
+          title: section.titleText,
+          level: section.level,
+        })),
+        skipped,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Validates the shape of the batch; the sections are validated one by one
+   *
+   * @private
+   * @param input - Input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: AddHeadingSectionsInput): void {
+    if (!input || !Array.isArray(input.sections)) {
+      throw new ValidationError("Sections must be an array");
+    }
+
+    if (input.sections.length === 0) {
+      throw new ValidationError("At least one section must be provided");
+    }
+
+    if (
+      input.collectionIds !== undefined &&
+      (!Array.isArray(input.collectionIds) ||
+        input.collectionIds.length === 0 ||
+        !input.collectionIds.every(
+          (id) => typeof id === "string" && id.trim().length > 0
+        ))
+    ) {
+      throw new ValidationError(
+        "Collection IDs must be a non-empty array of strings if provided"
+      );
+    }
+  }
+
+  /**
+   * Handles and categorizes errors into structured error responses
+   *
+   * @private
+   * @param error - The error to handle
+   * @returns Structured error response
+   */
+  private handleError(error: unknown): AddHeadingSectionsError {
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      const isQuotaError = error.message.toLowerCase().includes("quota");
+
+      return {
+        success: false,
+        errorCode: isQuotaError ? "STORAGE_QUOTA_EXCEEDED" : "REPOSITORY_ERROR",
+        message: isQuotaError
+          ? "Storage quota exceeded. Please remove some sections and try again."
+          : "Failed to save sections to storage",
+        details: { originalError: error.message },
+      };
+    }
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: "An unexpected error occurred while adding the sections",
+      details: {
+        originalError: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
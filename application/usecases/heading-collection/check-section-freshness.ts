@@ -0,0 +1,284 @@
+import {
+  HeadingSection,
+  IHeadingSectionRepository,
+  UpstreamStatus,
+  isSectionOfHeading,
+  markSectionUpstream,
+} from "../../../domain/heading-collection";
+import {
+  RepositoryError,
+  ValidationError,
+  getPageUrl,
+} from "../../../domain/shared";
+import { sanitizeHtml } from "../../../shared/html/html-sanitizer";
+import { htmlToPlainText } from "../../../shared/html/html-to-text";
+
+/**
+ * A heading section as currently rendered on the live page
+ */
+export interface LiveHeadingSection {
+  /** The heading level (1-6) */
+  level: number;
+  /** The heading title text */
+  title: string;
+  /** The HTML content of the section */
+  content?: string;
+  /** Titles of the enclosing headings, outermost first */
+  headingPath?: string[];
+}
+
+/**
+ * A live heading with the page URL, as matched against saved sections
+ */
+interface LiveHeading {
+  sourceUrl: string;
+  level: number;
+  titleText: string;
+  headingPath?: string[];
+  content: string;
+}
+
+/**
+ * Input DTO for comparing saved sections with the live page
+ */
+export interface CheckSectionFreshnessInput {
+  /** URL of the page the live sections were extracted from */
+  sourceUrl: string;
+  /** All heading sections currently found on the page */
+  liveSections: LiveHeadingSection[];
+}
+
+/**
+ * Output DTO for comparing saved sections with the live page
+ */
+export interface CheckSectionFreshnessOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** Number of saved sections from this page that were compared */
+  checkedCount: number;
+  /** Saved sections whose content differs from the live page */
+  changedSectionIds: string[];
+  /** Saved sections whose heading no longer exists on the live page */
+  removedSectionIds: string[];
+}
+
+/**
+ * Error response for comparing saved sections with the live page
+ */
+export interface CheckSectionFreshnessError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode: "INVALID_INPUT" | "REPOSITORY_ERROR" | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of comparing saved sections with the live page
+ */
+export type CheckSectionFreshnessResult =
+  | CheckSectionFreshnessOutput
+  | CheckSectionFreshnessError;
+
+/**
+ * Use case for detecting saved sections that went stale upstream
+ *
+ * Saved and live sections are matched by stable ID (page, enclosing headings,
+ * heading level and title) and compared as plain text, so markup-only
+ * differences such as generated SVG attributes are not reported.
+ *
+ * Responsibilities:
+ * - Validate input parameters
+ * - Mark saved sections as changed or removed upstream
+ * - Clear the mark from sections that match the live page again
+ * - Persist only the sections whose status changed
+ */
+export class CheckSectionFreshnessUseCase {
+  constructor(private readonly repository: IHeadingSectionRepository) {}
+
+  /**
+   * Executes the use case to compare saved sections with the live page
+   *
+   * @param input - The page URL and the sections currently on it
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: CheckSectionFreshnessInput
+  ): Promise<CheckSectionFreshnessResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // An empty page usually means it has not rendered yet; marking every
+      // saved section as removed would be wrong
+      if (input.liveSections.length === 0) {
+        return {
+          success: true,
+          checkedCount: 0,
+          changedSectionIds: [],
+          removedSectionIds: [],
+        };
+      }
+
+      // Step 2: Collect saved sections from the same page
+      const pageUrl = getPageUrl(input.sourceUrl);
+      const savedSections = (await this.repository.getAllSections()).filter(
+        (section) => getPageUrl(section.sourceUrl) === pageUrl
+      );
+
+      // Step 3: Describe the live headings as captures would
+      const liveHeadings = input.liveSections.map((live) => ({
+        sourceUrl: input.sourceUrl,
+        level: live.level,
+        titleText: live.title,
+        headingPath: live.headingPath,
+        content: live.content ?? "",
+      }));
+
+      // Step 4: Compare and persist status changes
+      const changedSectionIds: string[] = [];
+      const removedSectionIds: string[] = [];
+      const detectedAt = new Date();
+
+      for (const section of savedSections) {
+        const status = this.compare(section, liveHeadings);
+        if (status === "changed") {
+          changedSectionIds.push(section.sectionId);
+        } else if (status === "removed") {
+          removedSectionIds.push(section.sectionId);
+        }
+
+        const updated = markSectionUpstream(section, status, detectedAt);
+        if (updated === section) {
+          continue;
+        }
+
+        const updateResult = await this.repository.updateSection(updated);
+        if (!updateResult.success) {
+          return {
+            success: false,
+            errorCode: "REPOSITORY_ERROR",
+            message: "Failed to save section status",
+            details: updateResult.error,
+          };
+        }
+      }
+
+      // Step 5: Return success result
+      return {
+        success: true,
+        checkedCount: savedSections.length,
+        changedSectionIds,
+        removedSectionIds,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Determines the upstream status of a saved section
+   *
+   * @returns null when the section matches the live page
+   */
+  private compare(
+    section: HeadingSection,
+    liveHeadings: ReadonlyArray<LiveHeading>
+  ): UpstreamStatus | null {
+    const live = liveHeadings.find((heading) =>
+      isSectionOfHeading(section, heading)
+    );
+
+    if (!live) {
+      return "removed";
+    }
+
+    return toComparableText(section.contentHtml) ===
+      toComparableText(live.content)
+      ? null
+      : "changed";
+  }
+
+  /**
+   * Validates the input parameters
+   *
+   * @param input - The input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: CheckSectionFreshnessInput): void {
+    if (!input.sourceUrl || typeof input.sourceUrl !== "string") {
+      throw new ValidationError("Source URL is required and must be a string");
+    }
+
+    if (!Array.isArray(input.liveSections)) {
+      throw new ValidationError("Live sections must be an array");
+    }
+
+    for (const live of input.liveSections) {
+      if (
+        !live ||
+        typeof live.level !== "number" ||
+        typeof live.title !== "string" ||
+        (live.content !== undefined && typeof live.content !== "string") ||
+        (live.headingPath !== undefined &&
+          (!Array.isArray(live.headingPath) ||
+            !live.headingPath.every((title) => typeof title === "string")))
+      ) {
+        throw new ValidationError("Invalid live section");
+      }
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): CheckSectionFreshnessError {
+    console.error("Error in CheckSectionFreshnessUseCase:", error);
+
+    // Handle validation errors
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    // Handle repository errors
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while checking sections: ${error.message}`,
+        details: error,
+      };
+    }
+
+    // Handle unknown errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to check sections: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
+
+/**
+ * Text of content as it is stored: live content is sanitized on capture, and
+ * sections saved before that are sanitized alike, so that neither counts
+ * removed elements as a change
+ */
+function toComparableText(html: string): string {
+  return htmlToPlainText(sanitizeHtml(html));
+}
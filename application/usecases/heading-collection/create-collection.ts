@@ -0,0 +1,148 @@
+import {
+  Collection,
+  ICollectionRepository,
+  createCollection,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for creating a collection
+ */
+export interface CreateCollectionInput {
+  /** The display name of the new collection */
+  name: string;
+  /** Whether to make the new collection the active one (default: false) */
+  makeActive?: boolean;
+}
+
+/**
+ * Output DTO for creating a collection
+ */
+export interface CreateCollectionOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The newly created collection */
+  collection: Collection;
+}
+
+/**
+ * Error response for creating a collection
+ */
+export interface CreateCollectionError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "DUPLICATE_NAME"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of creating a collection
+ */
+export type CreateCollectionResult =
+  | CreateCollectionOutput
+  | CreateCollectionError;
+
+/**
+ * Use case for creating a new named collection
+ *
+ * Responsibilities:
+ * - Validate and normalize the collection name
+ * - Reject names already used by another collection (case-insensitive)
+ * - Persist the collection and optionally make it active
+ */
+export class CreateCollectionUseCase {
+  constructor(private readonly repository: ICollectionRepository) {}
+
+  /**
+   * Executes the use case to create a collection
+   *
+   * @param input - The collection name and options
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: CreateCollectionInput): Promise<CreateCollectionResult> {
+    try {
+      // Step 1: Create the entity (validates the name)
+      const collection = createCollection({ name: input.name });
+
+      // Step 2: Check for a collection with the same name
+      const existing = await this.repository.getAllCollections();
+      const duplicate = existing.find(
+        (c) => c.name.toLowerCase() === collection.name.toLowerCase()
+      );
+      if (duplicate) {
+        return {
+          success: false,
+          errorCode: "DUPLICATE_NAME",
+          message: `A collection named "${duplicate.name}" already exists`,
+          details: { collectionId: duplicate.collectionId },
+        };
+      }
+
+      // Step 3: Persist the collection
+      const addResult = await this.repository.addCollection(collection);
+      if (!addResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save collection",
+          details: addResult.error,
+        };
+      }
+
+      // Step 4: Optionally switch to the new collection
+      if (input.makeActive) {
+        await this.repository.setActiveCollectionId(collection.collectionId);
+      }
+
+      return { success: true, collection };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): CreateCollectionError {
+    console.error("Error in CreateCollectionUseCase:", error);
+
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while creating collection: ${error.message}`,
+        details: error,
+      };
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to create collection: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  ISavedSearchRepository,
+  SavedSearch,
+  SavedSearchSortField,
+  TagMatchMode,
+  createSavedSearch,
+} from "../../../domain/heading-collection";
+import {
+  ParseError,
+  RepositoryError,
+  ValidationError,
+} from "../../../domain/shared";
+
+/**
+ * Input DTO for saving a search
+ */
+export interface CreateSavedSearchInput {
+  /** The display name of the smart collection */
+  name: string;
+  /** Search box text; relative dates such as after:30d stay relative */
+  query?: string;
+  /** Heading level filter */
+  level?: number;
+  /** Tag filter */
+  tags?: string[];
+  /** Whether sections must have any or all of the tags */
+  tagMatch?: TagMatchMode;
+  /** Whether text also matches section content */
+  searchInContent?: boolean;
+  /** Sort order of the results */
+  sortBy?: SavedSearchSortField;
+  /** Sort direction */
+  sortOrder?: "asc" | "desc";
+}
+
+/**
+ * Output DTO for saving a search
+ */
+export interface CreateSavedSearchOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The newly saved search */
+  savedSearch: SavedSearch;
+}
+
+/**
+ * Error response for saving a search
+ */
+export interface CreateSavedSearchError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "DUPLICATE_NAME"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of saving a search
+ */
+export type CreateSavedSearchResult =
+  | CreateSavedSearchOutput
+  | CreateSavedSearchError;
+
+/**
+ * Use case for saving a named search, shown as a smart collection
+ *
+ * Responsibilities:
+ * - Validate the name, the query syntax and the filters
+ * - Reject names already used by another saved search (case-insensitive)
+ * - Persist the saved search
+ */
+export class CreateSavedSearchUseCase {
+  constructor(private readonly repository: ISavedSearchRepository) {}
+
+  /**
+   * Executes the use case to save a search
+   *
+   * @param input - The name, query and filters of the search
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: CreateSavedSearchInput
+  ): Promise<CreateSavedSearchResult> {
+    try {
+      // Step 1: Create the entity (validates the name, query and filters)
+      const savedSearch = createSavedSearch(input);
+
+      // Step 2: Check for a saved search with the same name
+      const existing = await this.repository.getAllSavedSearches();
+      const duplicate = existing.find(
+        (s) => s.name.toLowerCase() === savedSearch.name.toLowerCase()
+      );
+      if (duplicate) {
+        return {
+          success: false,
+          errorCode: "DUPLICATE_NAME",
+          message: `A saved search named "${duplicate.name}" already exists`,
+          details: { savedSearchId: duplicate.savedSearchId },
+        };
+      }
+
+      // Step 3: Persist the saved search
+      const addResult = await this.repository.addSavedSearch(savedSearch);
+      if (!addResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save search",
+          details: addResult.error,
+        };
+      }
+
+      return { success: true, savedSearch };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): CreateSavedSearchError {
+    console.error("Error in CreateSavedSearchUseCase:", error);
+
+    if (error instanceof ValidationError || error instanceof ParseError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while saving search: ${error.message}`,
+        details: error,
+      };
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to save search: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
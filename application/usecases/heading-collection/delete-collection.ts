@@ -0,0 +1,218 @@
+import {
+  IClipRepository,
+  ICollectionRepository,
+  IHeadingSectionRepository,
+  getSectionCollectionIds,
+  isClipInCollection,
+  isDefaultCollection,
+  isSectionInCollection,
+  removeClipFromCollection,
+  removeSectionFromCollection,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for deleting a collection
+ */
+export interface DeleteCollectionInput {
+  /** The ID of the collection to delete */
+  collectionId: string;
+}
+
+/**
+ * Output DTO for deleting a collection
+ */
+export interface DeleteCollectionOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The ID of the deleted collection */
+  collectionId: string;
+  /** Number of sections that belonged to no other collection and were moved to the default collection */
+  movedToDefaultCount: number;
+}
+
+/**
+ * Error response for deleting a collection
+ */
+export interface DeleteCollectionError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "COLLECTION_NOT_FOUND"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of deleting a collection
+ */
+export type DeleteCollectionResult =
+  | DeleteCollectionOutput
+  | DeleteCollectionError;
+
+/**
+ * Use case for deleting a collection
+ *
+ * Sections are never deleted along with a collection: they are detached from
+ * it, and sections that belonged only to the deleted collection are moved to
+ * the default collection. The default collection itself cannot be deleted.
+ */
+export class DeleteCollectionUseCase {
+  constructor(
+    private readonly collectionRepository: ICollectionRepository,
+    private readonly sectionRepository: IHeadingSectionRepository,
+    private readonly clipRepository?: IClipRepository
+  ) {}
+
+  /**
+   * Executes the use case to delete a collection
+   *
+   * @param input - The ID of the collection to delete
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: DeleteCollectionInput): Promise<DeleteCollectionResult> {
+    try {
+      // Step 1: Validate input
+      if (!input.collectionId || typeof input.collectionId !== "string") {
+        throw new ValidationError(
+          "Collection ID is required and must be a string"
+        );
+      }
+      if (isDefaultCollection(input.collectionId)) {
+        throw new ValidationError("The default collection cannot be deleted");
+      }
+
+      // Step 2: Check if the collection exists
+      const collection = await this.collectionRepository.getCollectionById(
+        input.collectionId
+      );
+      if (!collection) {
+        return {
+          success: false,
+          errorCode: "COLLECTION_NOT_FOUND",
+          message: `Collection with ID '${input.collectionId}' not found`,
+        };
+      }
+
+      // Step 3: Detach the collection's sections
+      const sections = await this.sectionRepository.getAllSections();
+      let movedToDefaultCount = 0;
+
+      for (const section of sections) {
+        if (!isSectionInCollection(section, input.collectionId)) {
+          continue;
+        }
+
+        const updated = removeSectionFromCollection(
+          section,
+          input.collectionId
+        );
+        if (getSectionCollectionIds(section).length === 1) {
+          movedToDefaultCount++;
+        }
+
+        const updateResult = await this.sectionRepository.updateSection(
+          updated
+        );
+        if (!updateResult.success) {
+          return {
+            success: false,
+            errorCode: "REPOSITORY_ERROR",
+            message: `Failed to detach section '${section.sectionId}' from the collection`,
+            details: updateResult.error,
+          };
+        }
+      }
+
+      // Step 4: Detach the collection's clips the same way
+      const clipRepository = this.clipRepository;
+      const clips = clipRepository ? await clipRepository.getAllClips() : [];
+      for (const clip of clips) {
+        if (!clipRepository || !isClipInCollection(clip, input.collectionId)) {
+          continue;
+        }
+
+        const updateResult = await clipRepository.updateClip(
+          removeClipFromCollection(clip, input.collectionId)
+        );
+        if (!updateResult.success) {
+          return {
+            success: false,
+            errorCode: "REPOSITORY_ERROR",
+            message: `Failed to detach clip '${clip.clipId}' from the collection`,
+            details: updateResult.error,
+          };
+        }
+      }
+
+      // Step 5: Remove the collection itself
+      const removeResult = await this.collectionRepository.removeCollection(
+        input.collectionId
+      );
+      if (!removeResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to delete collection",
+          details: removeResult.error,
+        };
+      }
+
+      return {
+        success: true,
+        collectionId: input.collectionId,
+        movedToDefaultCount,
+      };
+    } catch (error) {
+      return this.handleError(error, input.collectionId);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @param collectionId - The collection ID that was being processed
+   * @returns Categorized error result
+   */
+  private handleError(
+    error: unknown,
+    collectionId: string
+  ): DeleteCollectionError {
+    console.error("Error in DeleteCollectionUseCase:", error);
+
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while deleting collection '${collectionId}': ${error.message}`,
+        details: error,
+      };
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to delete collection '${collectionId}': ${errorMessage}`,
+      details: error,
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { ISavedSearchRepository } from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for deleting a saved search
+ */
+export interface DeleteSavedSearchInput {
+  /** The ID of the saved search to delete */
+  savedSearchId: string;
+}
+
+/**
+ * Output DTO for deleting a saved search
+ */
+export interface DeleteSavedSearchOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The ID of the deleted saved search */
+  savedSearchId: string;
+}
+
+/**
+ * Error response for deleting a saved search
+ */
+export interface DeleteSavedSearchError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "SAVED_SEARCH_NOT_FOUND"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of deleting a saved search
+ */
+export type DeleteSavedSearchResult =
+  | DeleteSavedSearchOutput
+  | DeleteSavedSearchError;
+
+/**
+ * Use case for deleting a saved search; the sections it matched are kept
+ */
+export class DeleteSavedSearchUseCase {
+  constructor(private readonly repository: ISavedSearchRepository) {}
+
+  /**
+   * Executes the use case to delete a saved search
+   *
+   * @param input - The ID of the saved search to delete
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: DeleteSavedSearchInput
+  ): Promise<DeleteSavedSearchResult> {
+    try {
+      // Step 1: Validate input
+      if (!input.savedSearchId || typeof input.savedSearchId !== "string") {
+        throw new ValidationError(
+          "Saved search ID is required and must be a string"
+        );
+      }
+
+      // Step 2: Remove the saved search
+      const removeResult = await this.repository.removeSavedSearch(
+        input.savedSearchId
+      );
+      if (!removeResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to delete saved search",
+          details: removeResult.error,
+        };
+      }
+
+      if (!removeResult.data) {
+        return {
+          success: false,
+          errorCode: "SAVED_SEARCH_NOT_FOUND",
+          message: `Saved search with ID '${input.savedSearchId}' not found`,
+        };
+      }
+
+      return { success: true, savedSearchId: input.savedSearchId };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): DeleteSavedSearchError {
+    console.error("Error in DeleteSavedSearchUseCase:", error);
+
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while deleting saved search: ${error.message}`,
+        details: error,
+      };
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to delete saved search: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
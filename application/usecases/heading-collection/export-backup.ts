@@ -0,0 +1,91 @@
+import {
+  ICollectionRepository,
+  IHeadingSectionRepository,
+  SectionBackup,
+  createSectionBackup,
+} from "../../../domain/heading-collection";
+import { RepositoryError } from "../../../domain/shared";
+
+/**
+ * Output DTO for exporting a backup
+ */
+export interface ExportBackupOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** Backup of all sections and collections, ready to be written as JSON */
+  backup: SectionBackup;
+}
+
+/**
+ * Error response for exporting a backup
+ */
+export interface ExportBackupError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode: "REPOSITORY_ERROR" | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of exporting a backup
+ */
+export type ExportBackupResult = ExportBackupOutput | ExportBackupError;
+
+/**
+ * Use case for backing up every section of every collection
+ */
+export class ExportBackupUseCase {
+  constructor(
+    private readonly sectionRepository: IHeadingSectionRepository,
+    private readonly collectionRepository: ICollectionRepository
+  ) {}
+
+  /**
+   * Executes the use case to create a backup
+   *
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(): Promise<ExportBackupResult> {
+    try {
+      const sections = await this.sectionRepository.getAllSections();
+      const collections = await this.collectionRepository.getAllCollections();
+
+      return {
+        success: true,
+        backup: createSectionBackup(sections, collections),
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): ExportBackupError {
+    console.error("Error in ExportBackupUseCase:", error);
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: "Failed to read sections from storage",
+        details: error,
+      };
+    }
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: "An unexpected error occurred while creating the backup",
+      details: error,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  Clip,
+  IClipRepository,
+  isClipInCollection,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for retrieving clips
+ */
+export interface GetClipsInput {
+  /** Only clips captured from this page (query and fragment are ignored) */
+  sourceUrl?: string;
+  /** Only clips in this collection */
+  collectionId?: string;
+}
+
+/**
+ * Output DTO for retrieving clips
+ */
+export interface GetClipsOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** Matching clips, newest first */
+  clips: Clip[];
+}
+
+/**
+ * Error response for retrieving clips
+ */
+export interface GetClipsError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode: "INVALID_INPUT" | "REPOSITORY_ERROR" | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of retrieving clips
+ */
+export type GetClipsResult = GetClipsOutput | GetClipsError;
+
+/**
+ * Use case for listing saved clips of a page or a collection
+ */
+export class GetClipsUseCase {
+  constructor(private readonly repository: IClipRepository) {}
+
+  /**
+   * Executes the use case to retrieve clips
+   *
+   * @param input - Optional page and collection filters
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: GetClipsInput = {}): Promise<GetClipsResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // Step 2: Retrieve clips
+      let clips = input.sourceUrl
+        ? await this.repository.findClipsByUrl(input.sourceUrl)
+        : await this.repository.getAllClips();
+
+      // Step 3: Apply the collection filter
+      if (input.collectionId) {
+        const collectionId = input.collectionId;
+        clips = clips.filter((clip) => isClipInCollection(clip, collectionId));
+      }
+
+      // Step 4: Return success result
+      return {
+        success: true,
+        clips: [...clips].sort(
+          (a, b) => b.addedAt.getTime() - a.addedAt.getTime()
+        ),
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Validates the input parameters
+   *
+   * @param input - The input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: GetClipsInput): void {
+    if (input.sourceUrl !== undefined && typeof input.sourceUrl !== "string") {
+      throw new ValidationError("Source URL must be a string");
+    }
+
+    if (
+      input.collectionId !== undefined &&
+      typeof input.collectionId !== "string"
+    ) {
+      throw new ValidationError("Collection ID must be a string");
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): GetClipsError {
+    console.error("Error in GetClipsUseCase:", error);
+
+    // Handle validation errors
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    // Handle repository errors
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while retrieving clips: ${error.message}`,
+        details: error,
+      };
+    }
+
+    // Handle unknown errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to retrieve clips: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
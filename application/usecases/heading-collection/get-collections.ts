@@ -0,0 +1,112 @@
+import {
+  Collection,
+  ICollectionRepository,
+  IHeadingSectionRepository,
+  getSectionCollectionIds,
+} from "../../../domain/heading-collection";
+import { Id, RepositoryError } from "../../../domain/shared";
+
+/**
+ * Output DTO for retrieving collections
+ */
+export interface GetCollectionsOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** All collections, default collection first */
+  collections: Collection[];
+  /** Number of sections in each collection, keyed by collection ID */
+  sectionCounts: Record<Id, number>;
+  /** The collection newly captured sections are added to */
+  activeCollectionId: Id;
+}
+
+/**
+ * Error response for retrieving collections
+ */
+export interface GetCollectionsError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode: "REPOSITORY_ERROR" | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of retrieving collections
+ */
+export type GetCollectionsResult = GetCollectionsOutput | GetCollectionsError;
+
+/**
+ * Use case for listing collections together with their section counts and
+ * the currently active collection
+ */
+export class GetCollectionsUseCase {
+  constructor(
+    private readonly collectionRepository: ICollectionRepository,
+    private readonly sectionRepository: IHeadingSectionRepository
+  ) {}
+
+  /**
+   * Executes the use case to retrieve collections
+   *
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(): Promise<GetCollectionsResult> {
+    try {
+      const collections = await this.collectionRepository.getAllCollections();
+      const activeCollectionId =
+        await this.collectionRepository.getActiveCollectionId();
+      const sections = await this.sectionRepository.getAllSections();
+
+      const sectionCounts: Record<Id, number> = {};
+      for (const collection of collections) {
+        sectionCounts[collection.collectionId] = 0;
+      }
+      for (const section of sections) {
+        for (const collectionId of getSectionCollectionIds(section)) {
+          if (collectionId in sectionCounts) {
+            sectionCounts[collectionId]++;
+          }
+        }
+      }
+
+      return {
+        success: true,
+        collections,
+        sectionCounts,
+        activeCollectionId,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): GetCollectionsError {
+    console.error("Error in GetCollectionsUseCase:", error);
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: "Failed to retrieve collections from storage",
+        details: error,
+      };
+    }
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: "An unexpected error occurred while retrieving collections",
+      details: error,
+    };
+  }
+}
@@ -1,30 +1,57 @@
 import {
   HeadingSection,
   IHeadingSectionRepository,
+  SearchQuery,
+  TagMatchMode,
+  isSectionInCollection,
+  sectionMatchesTags,
 } from "../../../domain/heading-collection";
 
 import { RepositoryError } from "../../../domain/shared";
+import {
+  SEARCH_FIELDS,
+  SectionSearchIndex,
+} from "../../../shared/search/section-search-index";
+import { hasTextQuery, runTextQuery } from "../../../shared/search/text-query";
+import { parseDeepWikiUrl } from "../../../shared/url/deepwiki-url";
 
 /**
  * Input DTO for retrieving heading sections
  */
 export interface GetHeadingSectionsInput {
+  /** Optional filter by collection */
+  collectionId?: string;
   /** Optional filter by source URL */
   sourceUrl?: string;
+  /** Optional filter by repository ("owner/name") of the source URL */
+  repo?: string;
   /** Optional filter by heading level */
   level?: number;
   /** Optional date range filter - start date */
   startDate?: Date;
   /** Optional date range filter - end date */
   endDate?: Date;
-  /** Optional search text to filter by title content */
+  /** Optional search text to filter by title and note content; every word must match */
   searchText?: string;
+  /** Optional text that must appear as written (ignoring case) */
+  phrases?: string[];
+  /** Optional words or text that must not appear */
+  excludedText?: string[];
   /** Whether to search in content HTML as well (default: false) */
   searchInContent?: boolean;
+  /** Optional filter by tags */
+  tags?: string[];
+  /** Whether sections must have any or all of the tags (default: "any") */
+  tagMatch?: TagMatchMode;
   /** Maximum number of sections to return (default: no limit) */
   limit?: number;
-  /** Sort order for results */
-  sortBy?: "addedAt" | "level" | "titleText" | "sourceUrl";
+  /** Number of matching sections to skip, for paging (default: 0) */
+  offset?: number;
+  /**
+   * Sort order for results; "relevance" ranks search matches best first
+   * (default when searching)
+   */
+  sortBy?: "addedAt" | "level" | "titleText" | "sourceUrl" | "relevance";
   /** Sort direction */
   sortOrder?: "asc" | "desc";
 }
@@ -37,13 +64,18 @@ export interface GetHeadingSectionsOutput {
   sections: HeadingSection[];
   /** Total count of sections that match the criteria (before limit) */
   totalCount: number;
+  /**
+   * Indexed terms each returned section matched, by section ID, when text
+   * was searched; for highlighting
+   */
+  matchedTerms?: Record<string, string[]>;
   /** Indicates whether the operation was successful */
   success: true;
   /** Metadata about the query */
   metadata: {
     /** Whether any filters were applied */
     hasFilters: boolean;
-    /** Whether results were limited */
+    /** Whether more sections match after the returned ones */
     wasLimited: boolean;
     /** The applied sort criteria */
     sortBy?: string;
@@ -85,9 +117,21 @@ export type GetHeadingSectionsResult =
  * - Sort and limit results as requested
  * - Handle repository errors gracefully
  * - Return structured results with metadata
+ *
+ * Search text is looked up in a full-text index that lives as long as the use
+ * case and is brought up to date with storage on each search, so only added
+ * and changed sections are tokenized; see SectionSearchIndex.upsert for how
+ * changes are told.
+ *
+ * A page of results (limit, with an optional offset) is taken by the
+ * repository when no text is searched; search results are ranked over all
+ * sections and paged afterwards.
  */
 export class GetHeadingSectionsUseCase {
-  constructor(private readonly repository: IHeadingSectionRepository) {}
+  constructor(
+    private readonly repository: IHeadingSectionRepository,
+    private readonly searchIndex: SectionSearchIndex = new SectionSearchIndex()
+  ) {}
 
   /**
    * Executes the use case to retrieve heading sections
@@ -102,36 +146,73 @@ export class GetHeadingSectionsUseCase {
       // Step 1: Validate input
       this.validateInput(input);
 
-      // Step 2: Retrieve sections based on filters
-      let sections = await this.retrieveFilteredSections(input);
-
-      // Step 3: Get total count before limiting
-      const totalCount = sections.length;
-
-      // Step 4: Apply sorting
-      sections = this.applySorting(sections, input.sortBy, input.sortOrder);
-
-      // Step 5: Apply limit if specified
-      const wasLimited =
-        input.limit !== undefined && sections.length > input.limit;
-      if (input.limit !== undefined) {
-        sections = sections.slice(0, input.limit);
+      // Step 2: Determine the sort order (search results are already ranked)
+      const isSearch = !!(
+        input.searchText?.trim() || input.phrases?.some((p) => p.trim())
+      );
+      const sortBy = isSearch
+        ? input.sortBy ?? "relevance"
+        : input.sortBy === "relevance"
+        ? undefined
+        : input.sortBy;
+      const offset = input.offset ?? 0;
+
+      let sections: HeadingSection[];
+      let totalCount: number;
+      let matchedTerms: Map<string, string[]> | undefined;
+      if (
+        input.limit !== undefined &&
+        !hasTextQuery(this.getTextQuery(input))
+      ) {
+        // Step 3: Let the repository filter, sort and page the sections
+        const page = await this.repository.getSectionsPage(
+          offset,
+          input.limit,
+          {
+            filter: this.createSectionFilter(input, false),
+            compare: this.createComparator(sortBy, input.sortOrder),
+          }
+        );
+        sections = page.sections;
+        totalCount = page.total;
+      } else {
+        // Step 3: Retrieve, sort and page the filtered sections
+        ({ sections, matchedTerms } = await this.retrieveFilteredSections(
+          input
+        ));
+        totalCount = sections.length;
+        sections = this.applySorting(sections, sortBy, input.sortOrder);
+        sections = sections.slice(
+          offset,
+          input.limit !== undefined ? offset + input.limit : undefined
+        );
       }
 
-      // Step 6: Prepare metadata
+      // Step 4: Check whether more sections follow the page
+      const wasLimited = offset + sections.length < totalCount;
+
+      // Step 5: Prepare metadata
       const hasFilters = this.hasAnyFilters(input);
       const metadata = {
         hasFilters,
         wasLimited,
-        sortBy: input.sortBy,
+        sortBy,
         sortOrder: input.sortOrder,
       };
 
-      // Step 7: Return success result
+      // Step 6: Return success result
       return {
         success: true,
         sections,
         totalCount,
+        ...(matchedTerms && {
+          matchedTerms: Object.fromEntries(
+            sections.map((section) => [
+              section.sectionId,
+              matchedTerms!.get(section.sectionId) ?? [],
+            ])
+          ),
+        }),
         metadata,
       };
     } catch (error) {
@@ -147,6 +228,14 @@ export class GetHeadingSectionsUseCase {
    * @throws Error if validation fails
    */
   private validateInput(input: GetHeadingSectionsInput): void {
+    // Validate collection ID if provided
+    if (
+      input.collectionId !== undefined &&
+      (typeof input.collectionId !== "string" || !input.collectionId.trim())
+    ) {
+      throw new Error("Collection ID must be a non-empty string");
+    }
+
     // Validate level if provided
     if (input.level !== undefined) {
       if (
@@ -192,16 +281,64 @@ export class GetHeadingSectionsUseCase {
       throw new Error("Search text must be a string");
     }
 
-    // Validate limit if provided
+    // Validate repository if provided
+    if (
+      input.repo !== undefined &&
+      (typeof input.repo !== "string" || !input.repo.includes("/"))
+    ) {
+      throw new Error('Repository must be a string like "owner/name"');
+    }
+
+    // Validate phrases and excluded text if provided
+    for (const [name, list] of [
+      ["Phrases", input.phrases],
+      ["Excluded text", input.excludedText],
+    ] as const) {
+      if (
+        list !== undefined &&
+        (!Array.isArray(list) ||
+          !list.every((item) => typeof item === "string"))
+      ) {
+        throw new Error(`${name} must be an array of strings`);
+      }
+    }
+
+    // Validate tags if provided
+    if (input.tags !== undefined) {
+      if (
+        !Array.isArray(input.tags) ||
+        !input.tags.every((tag) => typeof tag === "string")
+      ) {
+        throw new Error("Tags must be an array of strings");
+      }
+    }
+    if (input.tagMatch !== undefined) {
+      if (!["any", "all"].includes(input.tagMatch)) {
+        throw new Error('Tag match must be either "any" or "all"');
+      }
+    }
+
+    // Validate limit and offset if provided
     if (input.limit !== undefined) {
       if (!Number.isInteger(input.limit) || input.limit < 1) {
         throw new Error("Limit must be a positive integer");
       }
     }
+    if (input.offset !== undefined) {
+      if (!Number.isInteger(input.offset) || input.offset < 0) {
+        throw new Error("Offset must be a non-negative integer");
+      }
+    }
 
     // Validate sort parameters
     if (input.sortBy !== undefined) {
-      const validSortFields = ["addedAt", "level", "titleText", "sourceUrl"];
+      const validSortFields = [
+        "addedAt",
+        "level",
+        "titleText",
+        "sourceUrl",
+        "relevance",
+      ];
       if (!validSortFields.includes(input.sortBy)) {
         throw new Error(
           `Sort field must be one of: ${validSortFields.join(", ")}`
@@ -220,13 +357,25 @@ export class GetHeadingSectionsUseCase {
    *
    * @private
    * @param input - Filter parameters
-   * @returns Promise resolving to filtered sections
+   * @returns Promise resolving to filtered sections, with the terms they
+   *   matched when text is searched
    */
   private async retrieveFilteredSections(
     input: GetHeadingSectionsInput
-  ): Promise<HeadingSection[]> {
+  ): Promise<{
+    sections: HeadingSection[];
+    matchedTerms?: Map<string, string[]>;
+  }> {
     let sections: HeadingSection[];
 
+    // The search index covers all sections so that removed ones drop out
+    const allSectionsForSearch = hasTextQuery(this.getTextQuery(input))
+      ? await this.repository.getAllSections()
+      : null;
+    if (allSectionsForSearch) {
+      this.searchIndex.sync(allSectionsForSearch);
+    }
+
     // Use repository's optimized filtering when possible
     if (input.sourceUrl) {
       sections = await this.repository.findSectionsByUrl(input.sourceUrl);
@@ -240,18 +389,19 @@ export class GetHeadingSectionsUseCase {
           section.addedAt >= input.startDate! &&
           section.addedAt <= input.endDate!
       );
-    } else if (input.searchText) {
-      // Text search: Use the repository method if available, otherwise get all and filter
-      sections = await this.repository.searchSectionsByTitle(input.searchText);
+    } else if (input.tags?.length) {
+      sections = await this.repository.findSectionsByTags(
+        input.tags,
+        input.tagMatch ?? "any"
+      );
     } else {
       // No specific filters, get all sections
-      sections = await this.repository.getAllSections();
+      sections =
+        allSectionsForSearch ?? (await this.repository.getAllSections());
     }
 
     // Apply additional client-side filters if multiple criteria are specified
-    sections = this.applyAdditionalFilters(sections, input);
-
-    return sections;
+    return this.applyAdditionalFilters(sections, input);
   }
 
   /**
@@ -260,51 +410,105 @@ export class GetHeadingSectionsUseCase {
    * @private
    * @param sections - Sections to filter
    * @param input - Filter criteria
-   * @returns Filtered sections
+   * @returns Filtered sections, with the terms they matched when text is
+   *   searched
    */
   private applyAdditionalFilters(
     sections: HeadingSection[],
     input: GetHeadingSectionsInput
-  ): HeadingSection[] {
-    let filtered = sections;
-
-    // Apply source URL filter if not already applied at repository level
-    if (input.sourceUrl && !this.wasRepositoryFiltered("sourceUrl", input)) {
-      filtered = filtered.filter(
-        (section) => section.sourceUrl === input.sourceUrl
-      );
-    }
-
-    // Apply level filter if not already applied at repository level
-    if (input.level && !this.wasRepositoryFiltered("level", input)) {
-      filtered = filtered.filter((section) => section.level === input.level);
+  ): { sections: HeadingSection[]; matchedTerms?: Map<string, string[]> } {
+    const filtered = sections.filter(this.createSectionFilter(input, true));
+
+    // Apply search filter (titles and notes, optionally content), keeping
+    // the ranking of the index
+    const textQuery = this.getTextQuery(input);
+    if (!hasTextQuery(textQuery)) {
+      return { sections: filtered };
     }
+    const matches = runTextQuery(
+      this.searchIndex,
+      filtered,
+      textQuery,
+      input.searchInContent ? SEARCH_FIELDS : ["title", "note"]
+    );
+    return {
+      sections: matches.map((match) => match.section),
+      matchedTerms: new Map(
+        matches.map((match) => [match.section.sectionId, match.matchedTerms])
+      ),
+    };
+  }
 
-    // Apply date range filter if not already applied at repository level
-    if (
-      (input.startDate || input.endDate) &&
-      !this.wasRepositoryFiltered("dateRange", input)
-    ) {
-      filtered = filtered.filter((section) => {
+  /**
+   * Creates a predicate checking the criteria of the input other than text
+   *
+   * @private
+   * @param input - Filter criteria
+   * @param repositoryFiltered - Whether the sections come from an optimized
+   *   repository lookup, whose criterion need not be checked again
+   * @returns Whether a section matches the criteria
+   */
+  private createSectionFilter(
+    input: GetHeadingSectionsInput,
+    repositoryFiltered: boolean
+  ): (section: HeadingSection) => boolean {
+    const skip = (filterType: string) =>
+      repositoryFiltered && this.wasRepositoryFiltered(filterType, input);
+    const checkSourceUrl = !!input.sourceUrl && !skip("sourceUrl");
+    const checkLevel = !!input.level && !skip("level");
+    const checkDateRange =
+      !!(input.startDate || input.endDate) && !skip("dateRange");
+    const checkTags = !!input.tags?.length && !skip("tags");
+    const repo = input.repo?.toLowerCase();
+
+    return (section) => {
+      // Collection filter (always in-memory)
+      if (
+        input.collectionId &&
+        !isSectionInCollection(section, input.collectionId)
+      ) {
+        return false;
+      }
+      if (checkSourceUrl && section.sourceUrl !== input.sourceUrl) {
+        return false;
+      }
+      if (checkLevel && section.level !== input.level) {
+        return false;
+      }
+      if (checkDateRange) {
         if (input.startDate && section.addedAt < input.startDate) return false;
         if (input.endDate && section.addedAt > input.endDate) return false;
-        return true;
-      });
-    }
-
-    // Apply search filter if not already applied at repository level
-    if (input.searchText && !this.wasRepositoryFiltered("search", input)) {
-      const searchTerm = input.searchText.toLowerCase();
-      filtered = filtered.filter((section) => {
-        const titleMatch = section.titleText.toLowerCase().includes(searchTerm);
-        const contentMatch =
-          input.searchInContent &&
-          section.contentHtml.toLowerCase().includes(searchTerm);
-        return titleMatch || contentMatch;
-      });
-    }
+      }
+      if (
+        checkTags &&
+        !sectionMatchesTags(section, input.tags!, input.tagMatch ?? "any")
+      ) {
+        return false;
+      }
+      // Repository filter (always in-memory)
+      if (
+        repo &&
+        parseDeepWikiUrl(section.sourceUrl).repo.toLowerCase() !== repo
+      ) {
+        return false;
+      }
+      return true;
+    };
+  }
 
-    return filtered;
+  /**
+   * Collects the text to search for from the input
+   *
+   * @private
+   * @param input - Input parameters
+   * @returns Words, phrases and excluded text
+   */
+  private getTextQuery(input: GetHeadingSectionsInput) {
+    return {
+      terms: input.searchText ? [input.searchText] : [],
+      phrases: input.phrases ?? [],
+      excluded: input.excludedText ?? [],
+    };
   }
 
   /**
@@ -325,7 +529,7 @@ export class GetHeadingSectionsUseCase {
       input.sourceUrl,
       input.level,
       input.startDate && input.endDate,
-      input.searchText,
+      input.tags?.length,
     ].filter(Boolean).length;
 
     if (filterCount !== 1) return false;
@@ -337,8 +541,8 @@ export class GetHeadingSectionsUseCase {
         return !!input.level;
       case "dateRange":
         return !!(input.startDate && input.endDate);
-      case "search":
-        return !!input.searchText;
+      case "tags":
+        return !!input.tags?.length;
       default:
         return false;
     }
@@ -358,14 +562,34 @@ export class GetHeadingSectionsUseCase {
     sortBy?: string,
     sortOrder: "asc" | "desc" = "desc"
   ): HeadingSection[] {
+    const compare = this.createComparator(sortBy, sortOrder);
+
+    // Search results come ranked by the index
+    return compare ? [...sections].sort(compare) : sections;
+  }
+
+  /**
+   * Creates the comparison function of a sort order
+   *
+   * @private
+   * @param sortBy - Field to sort by
+   * @param sortOrder - Sort direction
+   * @returns The comparison function, or undefined to keep the ranking
+   */
+  private createComparator(
+    sortBy?: string,
+    sortOrder: "asc" | "desc" = "desc"
+  ): ((a: HeadingSection, b: HeadingSection) => number) | undefined {
+    if (sortBy === "relevance") {
+      return undefined;
+    }
+
     if (!sortBy) {
       // Default sort by addedAt descending (newest first)
-      return [...sections].sort(
-        (a, b) => b.addedAt.getTime() - a.addedAt.getTime()
-      );
+      return (a, b) => b.addedAt.getTime() - a.addedAt.getTime();
     }
 
-    return [...sections].sort((a, b) => {
+    return (a, b) => {
       let comparison = 0;
 
       switch (sortBy) {
@@ -386,7 +610,7 @@ export class GetHeadingSectionsUseCase {
       }
 
       return sortOrder === "asc" ? comparison : -comparison;
-    });
+    };
   }
 
   /**
@@ -398,11 +622,16 @@ export class GetHeadingSectionsUseCase {
    */
   private hasAnyFilters(input: GetHeadingSectionsInput): boolean {
     return !!(
+      input.collectionId ||
       input.sourceUrl ||
       input.level ||
       input.startDate ||
       input.endDate ||
       input.searchText ||
+      input.repo ||
+      input.phrases?.length ||
+      input.excludedText?.length ||
+      input.tags?.length ||
       input.limit
     );
   }
@@ -445,3 +674,29 @@ export class GetHeadingSectionsUseCase {
     };
   }
 }
+
+/**
+ * Maps a query parsed from the search box onto the use case input
+ *
+ * Tags of a query must all be present. The date range includes the "after"
+ * day and ends before the "before" day.
+ *
+ * @param query - The parsed query
+ * @returns Input with the filters of the query
+ */
+export function searchQueryToInput(
+  query: SearchQuery
+): GetHeadingSectionsInput {
+  return {
+    ...(query.level !== undefined && { level: query.level }),
+    ...(query.repo !== undefined && { repo: query.repo }),
+    ...(query.after !== undefined && { startDate: query.after }),
+    ...(query.before !== undefined && {
+      endDate: new Date(query.before.getTime() - 1),
+    }),
+    ...(query.tags.length > 0 && { tags: [...query.tags], tagMatch: "all" }),
+    ...(query.terms.length > 0 && { searchText: query.terms.join(" ") }),
+    ...(query.phrases.length > 0 && { phrases: [...query.phrases] }),
+    ...(query.excluded.length > 0 && { excludedText: [...query.excluded] }),
+  };
+}
@@ -0,0 +1,154 @@
+import {
+  ISavedSearchRepository,
+  SavedSearch,
+  parseSearchQuery,
+} from "../../../domain/heading-collection";
+import { Id, RepositoryError } from "../../../domain/shared";
+import {
+  GetHeadingSectionsInput,
+  GetHeadingSectionsUseCase,
+  searchQueryToInput,
+} from "./get-heading-sections";
+
+/**
+ * Input DTO for retrieving saved searches
+ */
+export interface GetSavedSearchesInput {
+  /** Time that relative dates count back from (default: now) */
+  now?: Date;
+}
+
+/**
+ * Output DTO for retrieving saved searches
+ */
+export interface GetSavedSearchesOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** All saved searches, by name */
+  savedSearches: SavedSearch[];
+  /** Number of sections each search matches now, keyed by saved search ID */
+  sectionCounts: Record<Id, number>;
+}
+
+/**
+ * Error response for retrieving saved searches
+ */
+export interface GetSavedSearchesError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode: "REPOSITORY_ERROR" | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of retrieving saved searches
+ */
+export type GetSavedSearchesResult =
+  | GetSavedSearchesOutput
+  | GetSavedSearchesError;
+
+/**
+ * Use case for listing saved searches with the number of sections each one
+ * matches at the time of the call
+ */
+export class GetSavedSearchesUseCase {
+  constructor(
+    private readonly repository: ISavedSearchRepository,
+    private readonly getHeadingSections: GetHeadingSectionsUseCase
+  ) {}
+
+  /**
+   * Executes the use case to retrieve saved searches
+   *
+   * @param input - Optional time for relative dates
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: GetSavedSearchesInput = {}
+  ): Promise<GetSavedSearchesResult> {
+    try {
+      const now = input.now ?? new Date();
+      const savedSearches = [
+        ...(await this.repository.getAllSavedSearches()),
+      ].sort((a, b) => a.name.localeCompare(b.name));
+
+      // A search that fails to run counts as matching nothing
+      const sectionCounts: Record<Id, number> = {};
+      for (const savedSearch of savedSearches) {
+        const result = await this.getHeadingSections.execute(
+          savedSearchToInput(savedSearch, now)
+        );
+        sectionCounts[savedSearch.savedSearchId] = result.success
+          ? result.totalCount
+          : 0;
+      }
+
+      return { success: true, savedSearches, sectionCounts };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): GetSavedSearchesError {
+    console.error("Error in GetSavedSearchesUseCase:", error);
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: "Failed to retrieve saved searches from storage",
+        details: error,
+      };
+    }
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: "An unexpected error occurred while retrieving saved searches",
+      details: error,
+    };
+  }
+}
+
+/**
+ * Turns a saved search into the input of GetHeadingSectionsUseCase
+ *
+ * The query is parsed now, so relative dates resolve against the given time.
+ * As in the search box, fields of the query override the saved filters.
+ *
+ * @param savedSearch - The saved search to run
+ * @param now - Time that relative dates count back from
+ * @returns Input matching the sections of the search, over all collections
+ * @throws ParseError if the saved query is no longer valid
+ */
+export function savedSearchToInput(
+  savedSearch: SavedSearch,
+  now: Date = new Date()
+): GetHeadingSectionsInput {
+  return {
+    ...(savedSearch.level !== undefined && { level: savedSearch.level }),
+    ...(savedSearch.tags &&
+      savedSearch.tags.length > 0 && {
+        tags: [...savedSearch.tags],
+        tagMatch: savedSearch.tagMatch ?? "any",
+      }),
+    ...(savedSearch.searchInContent !== undefined && {
+      searchInContent: savedSearch.searchInContent,
+    }),
+    ...(savedSearch.sortBy !== undefined && { sortBy: savedSearch.sortBy }),
+    ...(savedSearch.sortOrder !== undefined && {
+      sortOrder: savedSearch.sortOrder,
+    }),
+    ...searchQueryToInput(parseSearchQuery(savedSearch.query, now)),
+  };
+}
@@ -0,0 +1,307 @@
+import {
+  DEFAULT_COLLECTION_ID,
+  HeadingSection,
+  ICollectionRepository,
+  IHeadingSectionRepository,
+  RejectedBackupEntry,
+  getSectionCollectionIds,
+  hasSectionId,
+  readSectionBackup,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+import { sanitizeHtml } from "../../../shared/html/html-sanitizer";
+
+/**
+ * How to handle a backed up section whose ID is already stored:
+ * - "skip": keep the stored section
+ * - "overwrite": replace the stored section with the backed up one
+ * - "keep-both": keep the stored section and add the backed up one with a new ID
+ */
+export type BackupConflictStrategy = "skip" | "overwrite" | "keep-both";
+
+export const BACKUP_CONFLICT_STRATEGIES: ReadonlyArray<BackupConflictStrategy> =
+  ["skip", "overwrite", "keep-both"];
+
+/**
+ * Input DTO for importing a backup
+ */
+export interface ImportBackupInput {
+  /** Parsed content of the backup file */
+  backup: unknown;
+  /** How to handle sections whose ID is already stored */
+  conflictStrategy: BackupConflictStrategy;
+}
+
+/**
+ * Output DTO for importing a backup
+ */
+export interface ImportBackupOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** Sections added, including copies kept next to stored sections */
+  added: number;
+  /** Stored sections replaced by their backed up version */
+  overwritten: number;
+  /** Backed up sections left out because their ID is already stored */
+  skipped: number;
+  /** Collections of the backup that did not exist yet */
+  collectionsAdded: number;
+  /** Entries of the backup that could not be restored */
+  rejected: RejectedBackupEntry[];
+}
+
+/**
+ * Error response for importing a backup
+ */
+export interface ImportBackupError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "STORAGE_QUOTA_EXCEEDED"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of importing a backup
+ */
+export type ImportBackupResult = ImportBackupOutput | ImportBackupError;
+
+/**
+ * Use case for restoring sections and collections from a backup
+ *
+ * Each backed up section is validated on its own; invalid ones are reported
+ * instead of failing the import. Collections missing from storage are
+ * created, and sections keep only collections that exist afterwards.
+ *
+ * Responsibilities:
+ * - Validate the backup and each of its sections
+ * - Sanitize the content of the restored sections
+ * - Resolve ID collisions with the chosen strategy
+ * - Persist the merged sections with a single storage write
+ * - Report what was restored and which entries were rejected
+ */
+export class ImportBackupUseCase {
+  constructor(
+    private readonly sectionRepository: IHeadingSectionRepository,
+    private readonly collectionRepository: ICollectionRepository
+  ) {}
+
+  /**
+   * Executes the use case to import a backup
+   *
+   * @param input - The backup and the conflict strategy
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: ImportBackupInput): Promise<ImportBackupResult> {
+    try {
+      // Step 1: Validate input and read the backup
+      this.validateInput(input);
+      const content = readSectionBackup(input.backup);
+      const rejected = [...content.rejected];
+
+      // Step 2: Create the collections that do not exist yet
+      const collections = await this.collectionRepository.getAllCollections();
+      const collectionIds = new Set(collections.map((c) => c.collectionId));
+      let collectionsAdded = 0;
+
+      for (const collection of content.collections) {
+        if (collectionIds.has(collection.collectionId)) {
+          continue;
+        }
+        const addResult = await this.collectionRepository.addCollection(
+          collection
+        );
+        if (!addResult.success) {
+          throw addResult.error;
+        }
+        collectionIds.add(collection.collectionId);
+        collectionsAdded++;
+      }
+
+      // Step 3: Merge the backed up sections into the stored ones
+      const merged = await this.sectionRepository.getAllSections();
+      const importedIds = new Set<string>();
+      let added = 0;
+      let overwritten = 0;
+      let skipped = 0;
+
+      for (const { index, section: backedUp } of content.sections) {
+        if (importedIds.has(backedUp.sectionId)) {
+          rejected.push({
+            index,
+            sectionId: backedUp.sectionId,
+            title: backedUp.titleText,
+            reason: "The backup contains this section ID more than once",
+          });
+          continue;
+        }
+        importedIds.add(backedUp.sectionId);
+
+        const section = this.keepKnownCollections(
+          sanitizeSectionContent(backedUp),
+          collectionIds
+        );
+        const existingIndex = merged.findIndex((s) =>
+          hasSectionId(s, section.sectionId)
+        );
+
+        if (existingIndex === -1) {
+          merged.push(section);
+          added++;
+        } else if (input.conflictStrategy === "overwrite") {
+          merged[existingIndex] = section;
+          overwritten++;
+        } else if (input.conflictStrategy === "keep-both") {
+          merged.push(this.withFreeId(section, merged));
+          added++;
+        } else {
+          skipped++;
+        }
+      }
+
+      // Step 4: Persist the merged sections at once
+      if (added > 0 || overwritten > 0) {
+        const replaceResult = await this.sectionRepository.replaceAllSections(
+          merged
+        );
+        if (!replaceResult.success) {
+          throw replaceResult.error;
+        }
+      }
+
+      // Step 5: Return the import report
+      return {
+        success: true,
+        added,
+        overwritten,
+        skipped,
+        collectionsAdded,
+        rejected: rejected.sort((a, b) => a.index - b.index),
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Drops collections that do not exist; sections left without any belong to
+   * the default collection
+   */
+  private keepKnownCollections(
+    section: HeadingSection,
+    collectionIds: ReadonlySet<string>
+  ): HeadingSection {
+    const known = getSectionCollectionIds(section).filter((id) =>
+      collectionIds.has(id)
+    );
+    return {
+      ...section,
+      collectionIds: known.length > 0 ? known : [DEFAULT_COLLECTION_ID],
+    };
+  }
+
+  /**
+   * Gives a copy of a section the first free numbered ID. The copy does not
+   * take over legacy IDs, so they keep resolving to the stored section.
+   */
+  private withFreeId(
+    section: HeadingSection,
+    sections: ReadonlyArray<HeadingSection>
+  ): HeadingSection {
+    const taken = (id: string) => sections.some((s) => hasSectionId(s, id));
+    let suffix = 2;
+    while (taken(`${section.sectionId}-${suffix}`)) {
+      suffix++;
+    }
+
+    return {
+      ...section,
+      sectionId: `${section.sectionId}-${suffix}`,
+      legacyIds: undefined,
+    };
+  }
+
+  /**
+   * Validates the input
+   *
+   * @private
+   * @param input - Input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: ImportBackupInput): void {
+    if (!input || input.backup === undefined || input.backup === null) {
+      throw new ValidationError("A backup must be provided");
+    }
+
+    if (!BACKUP_CONFLICT_STRATEGIES.includes(input.conflictStrategy)) {
+      throw new ValidationError(
+        `Conflict strategy must be one of: ${BACKUP_CONFLICT_STRATEGIES.join(
+          ", "
+        )}`
+      );
+    }
+  }
+
+  /**
+   * Handles and categorizes errors into structured error responses
+   *
+   * @private
+   * @param error - The error to handle
+   * @returns Structured error response
+   */
+  private handleError(error: unknown): ImportBackupError {
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      const isQuotaError = error.message.toLowerCase().includes("quota");
+
+      return {
+        success: false,
+        errorCode: isQuotaError ? "STORAGE_QUOTA_EXCEEDED" : "REPOSITORY_ERROR",
+        message: isQuotaError
+          ? "Storage quota exceeded. Please remove some sections and try again."
+          : "Failed to save the restored sections to storage",
+        details: { originalError: error.message },
+      };
+    }
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: "An unexpected error occurred while importing the backup",
+      details: {
+        originalError: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+/**
+ * Sanitizes the content and the earlier versions of an imported section,
+ * since a backup file may have been edited or come from someone else
+ */
+function sanitizeSectionContent(section: HeadingSection): HeadingSection {
+  return {
+    ...section,
+    contentHtml: sanitizeHtml(section.contentHtml),
+    ...(section.versions && {
+      versions: section.versions.map((version) => ({
+        ...version,
+        contentHtml: sanitizeHtml(version.contentHtml),
+      })),
+    }),
+  };
+}
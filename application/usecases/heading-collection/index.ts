@@ -3,9 +3,26 @@
 
 // Use Cases
 export * from "./add-heading-section";
+export * from "./add-heading-sections";
 export * from "./get-heading-sections";
 export * from "./remove-heading-section";
 export * from "./clear-all-heading-sections";
+export * from "./update-heading-section-tags";
+export * from "./update-heading-section";
+export * from "./get-collections";
+export * from "./create-collection";
+export * from "./rename-collection";
+export * from "./delete-collection";
+export * from "./set-active-collection";
+export * from "./check-section-freshness";
+export * from "./add-clip";
+export * from "./get-clips";
+export * from "./remove-clip";
+export * from "./export-backup";
+export * from "./import-backup";
+export * from "./create-saved-search";
+export * from "./get-saved-searches";
+export * from "./delete-saved-search";
 
 // Re-exports for convenience
 export type {
@@ -15,6 +32,15 @@ export type {
   AddHeadingSectionResult,
 } from "./add-heading-section";
 
+export type {
+  AddHeadingSectionsInput,
+  AddedHeadingSection,
+  SkippedHeadingSection,
+  AddHeadingSectionsOutput,
+  AddHeadingSectionsError,
+  AddHeadingSectionsResult,
+} from "./add-heading-sections";
+
 export type {
   GetHeadingSectionsInput,
   GetHeadingSectionsOutput,
@@ -36,13 +62,165 @@ export type {
   ClearAllHeadingSectionsResult,
 } from "./clear-all-heading-sections";
 
+export type {
+  UpdateHeadingSectionTagsInput,
+  UpdateHeadingSectionTagsOutput,
+  UpdateHeadingSectionTagsError,
+  UpdateHeadingSectionTagsResult,
+} from "./update-heading-section-tags";
+
+export type {
+  UpdateHeadingSectionInput,
+  UpdateHeadingSectionOutput,
+  UpdateHeadingSectionError,
+  UpdateHeadingSectionResult,
+} from "./update-heading-section";
+
+export type {
+  GetCollectionsOutput,
+  GetCollectionsError,
+  GetCollectionsResult,
+} from "./get-collections";
+
+export type {
+  CreateCollectionInput,
+  CreateCollectionOutput,
+  CreateCollectionError,
+  CreateCollectionResult,
+} from "./create-collection";
+
+export type {
+  RenameCollectionInput,
+  RenameCollectionOutput,
+  RenameCollectionError,
+  RenameCollectionResult,
+} from "./rename-collection";
+
+export type {
+  DeleteCollectionInput,
+  DeleteCollectionOutput,
+  DeleteCollectionError,
+  DeleteCollectionResult,
+} from "./delete-collection";
+
+export type {
+  SetActiveCollectionInput,
+  SetActiveCollectionOutput,
+  SetActiveCollectionError,
+  SetActiveCollectionResult,
+} from "./set-active-collection";
+
+export type {
+  LiveHeadingSection,
+  CheckSectionFreshnessInput,
+  CheckSectionFreshnessOutput,
+  CheckSectionFreshnessError,
+  CheckSectionFreshnessResult,
+} from "./check-section-freshness";
+
+export type {
+  AddClipInput,
+  AddClipOutput,
+  AddClipError,
+  AddClipResult,
+} from "./add-clip";
+
+export type {
+  GetClipsInput,
+  GetClipsOutput,
+  GetClipsError,
+  GetClipsResult,
+} from "./get-clips";
+
+export type {
+  RemoveClipInput,
+  RemoveClipOutput,
+  RemoveClipError,
+  RemoveClipResult,
+} from "./remove-clip";
+
+export type {
+  ExportBackupOutput,
+  ExportBackupError,
+  ExportBackupResult,
+} from "./export-backup";
+
+export type {
+  BackupConflictStrategy,
+  ImportBackupInput,
+  ImportBackupOutput,
+  ImportBackupError,
+  ImportBackupResult,
+} from "./import-backup";
+
+export type {
+  CreateSavedSearchInput,
+  CreateSavedSearchOutput,
+  CreateSavedSearchError,
+  CreateSavedSearchResult,
+} from "./create-saved-search";
+
+export type {
+  GetSavedSearchesInput,
+  GetSavedSearchesOutput,
+  GetSavedSearchesError,
+  GetSavedSearchesResult,
+} from "./get-saved-searches";
+
+export type {
+  DeleteSavedSearchInput,
+  DeleteSavedSearchOutput,
+  DeleteSavedSearchError,
+  DeleteSavedSearchResult,
+} from "./delete-saved-search";
+
 export {
   AddHeadingSectionUseCase,
   InputValidationError,
 } from "./add-heading-section";
 
-export { GetHeadingSectionsUseCase } from "./get-heading-sections";
+export { AddHeadingSectionsUseCase } from "./add-heading-sections";
+
+export {
+  GetHeadingSectionsUseCase,
+  searchQueryToInput,
+} from "./get-heading-sections";
 
 export { RemoveHeadingSectionUseCase } from "./remove-heading-section";
 
 export { ClearAllHeadingSectionsUseCase } from "./clear-all-heading-sections";
+
+export { UpdateHeadingSectionTagsUseCase } from "./update-heading-section-tags";
+
+export { UpdateHeadingSectionUseCase } from "./update-heading-section";
+
+export { GetCollectionsUseCase } from "./get-collections";
+
+export { CreateCollectionUseCase } from "./create-collection";
+
+export { RenameCollectionUseCase } from "./rename-collection";
+
+export { DeleteCollectionUseCase } from "./delete-collection";
+
+export { SetActiveCollectionUseCase } from "./set-active-collection";
+
+export { CheckSectionFreshnessUseCase } from "./check-section-freshness";
+
+export { AddClipUseCase } from "./add-clip";
+
+export { GetClipsUseCase } from "./get-clips";
+
+export { RemoveClipUseCase } from "./remove-clip";
+
+export { ExportBackupUseCase } from "./export-backup";
+
+export { ImportBackupUseCase } from "./import-backup";
+
+export { CreateSavedSearchUseCase } from "./create-saved-search";
+
+export {
+  GetSavedSearchesUseCase,
+  savedSearchToInput,
+} from "./get-saved-searches";
+
+export { DeleteSavedSearchUseCase } from "./delete-saved-search";
@@ -0,0 +1,144 @@
+import { IClipRepository } from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for removing a clip
+ */
+export interface RemoveClipInput {
+  /** The ID of the clip to remove */
+  clipId: string;
+}
+
+/**
+ * Output DTO for removing a clip
+ */
+export interface RemoveClipOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The ID of the removed clip */
+  removedClipId: string;
+}
+
+/**
+ * Error response for removing a clip
+ */
+export interface RemoveClipError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "CLIP_NOT_FOUND"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of removing a clip
+ */
+export type RemoveClipResult = RemoveClipOutput | RemoveClipError;
+
+/**
+ * Use case for removing a saved clip
+ */
+export class RemoveClipUseCase {
+  constructor(private readonly repository: IClipRepository) {}
+
+  /**
+   * Executes the use case to remove a clip
+   *
+   * @param input - The ID of the clip to remove
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: RemoveClipInput): Promise<RemoveClipResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // Step 2: Remove the clip
+      const removeResult = await this.repository.removeClip(input.clipId);
+      if (!removeResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to remove clip from repository",
+          details: removeResult.error,
+        };
+      }
+
+      if (!removeResult.data) {
+        return {
+          success: false,
+          errorCode: "CLIP_NOT_FOUND",
+          message: `Clip with ID '${input.clipId}' not found`,
+        };
+      }
+
+      // Step 3: Return success result
+      return {
+        success: true,
+        removedClipId: input.clipId,
+      };
+    } catch (error) {
+      return this.handleError(error, input.clipId);
+    }
+  }
+
+  /**
+   * Validates the input parameters
+   *
+   * @param input - The input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: RemoveClipInput): void {
+    if (!input.clipId || typeof input.clipId !== "string") {
+      throw new ValidationError("Clip ID is required and must be a string");
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @param clipId - The clip ID that was being processed
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown, clipId: string): RemoveClipError {
+    console.error("Error in RemoveClipUseCase:", error);
+
+    // Handle validation errors
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    // Handle repository errors
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while removing clip '${clipId}': ${error.message}`,
+        details: error,
+      };
+    }
+
+    // Handle unknown errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to remove clip '${clipId}': ${errorMessage}`,
+      details: error,
+    };
+  }
+}
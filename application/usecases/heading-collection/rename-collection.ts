@@ -0,0 +1,163 @@
+import {
+  Collection,
+  ICollectionRepository,
+  renameCollection,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for renaming a collection
+ */
+export interface RenameCollectionInput {
+  /** The ID of the collection to rename */
+  collectionId: string;
+  /** The new display name */
+  name: string;
+}
+
+/**
+ * Output DTO for renaming a collection
+ */
+export interface RenameCollectionOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The collection after the rename */
+  collection: Collection;
+}
+
+/**
+ * Error response for renaming a collection
+ */
+export interface RenameCollectionError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "COLLECTION_NOT_FOUND"
+    | "DUPLICATE_NAME"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of renaming a collection
+ */
+export type RenameCollectionResult =
+  | RenameCollectionOutput
+  | RenameCollectionError;
+
+/**
+ * Use case for renaming an existing collection
+ */
+export class RenameCollectionUseCase {
+  constructor(private readonly repository: ICollectionRepository) {}
+
+  /**
+   * Executes the use case to rename a collection
+   *
+   * @param input - The collection ID and its new name
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(input: RenameCollectionInput): Promise<RenameCollectionResult> {
+    try {
+      if (!input.collectionId || typeof input.collectionId !== "string") {
+        throw new ValidationError(
+          "Collection ID is required and must be a string"
+        );
+      }
+
+      // Step 1: Check if the collection exists
+      const collections = await this.repository.getAllCollections();
+      const existing = collections.find(
+        (c) => c.collectionId === input.collectionId
+      );
+      if (!existing) {
+        return {
+          success: false,
+          errorCode: "COLLECTION_NOT_FOUND",
+          message: `Collection with ID '${input.collectionId}' not found`,
+        };
+      }
+
+      // Step 2: Apply the new name (validates it)
+      const renamed = renameCollection(existing, input.name);
+
+      // Step 3: Check that no other collection uses the name
+      const duplicate = collections.find(
+        (c) =>
+          c.collectionId !== renamed.collectionId &&
+          c.name.toLowerCase() === renamed.name.toLowerCase()
+      );
+      if (duplicate) {
+        return {
+          success: false,
+          errorCode: "DUPLICATE_NAME",
+          message: `A collection named "${duplicate.name}" already exists`,
+          details: { collectionId: duplicate.collectionId },
+        };
+      }
+
+      // Step 4: Persist the collection
+      const updateResult = await this.repository.updateCollection(renamed);
+      if (!updateResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save collection",
+          details: updateResult.error,
+        };
+      }
+
+      return { success: true, collection: renamed };
+    } catch (error) {
+      return this.handleError(error, input.collectionId);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @param collectionId - The collection ID that was being processed
+   * @returns Categorized error result
+   */
+  private handleError(
+    error: unknown,
+    collectionId: string
+  ): RenameCollectionError {
+    console.error("Error in RenameCollectionUseCase:", error);
+
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while renaming collection '${collectionId}': ${error.message}`,
+        details: error,
+      };
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to rename collection '${collectionId}': ${errorMessage}`,
+      details: error,
+    };
+  }
+}
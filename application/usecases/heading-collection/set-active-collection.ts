@@ -0,0 +1,135 @@
+import { ICollectionRepository } from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for switching the active collection
+ */
+export interface SetActiveCollectionInput {
+  /** The ID of the collection newly captured sections should go to */
+  collectionId: string;
+}
+
+/**
+ * Output DTO for switching the active collection
+ */
+export interface SetActiveCollectionOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The ID of the now active collection */
+  activeCollectionId: string;
+}
+
+/**
+ * Error response for switching the active collection
+ */
+export interface SetActiveCollectionError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "COLLECTION_NOT_FOUND"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of switching the active collection
+ */
+export type SetActiveCollectionResult =
+  | SetActiveCollectionOutput
+  | SetActiveCollectionError;
+
+/**
+ * Use case for choosing the collection that the content script adds to
+ */
+export class SetActiveCollectionUseCase {
+  constructor(private readonly repository: ICollectionRepository) {}
+
+  /**
+   * Executes the use case to switch the active collection
+   *
+   * @param input - The ID of the collection to activate
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: SetActiveCollectionInput
+  ): Promise<SetActiveCollectionResult> {
+    try {
+      if (!input.collectionId || typeof input.collectionId !== "string") {
+        throw new ValidationError(
+          "Collection ID is required and must be a string"
+        );
+      }
+
+      const collection = await this.repository.getCollectionById(
+        input.collectionId
+      );
+      if (!collection) {
+        return {
+          success: false,
+          errorCode: "COLLECTION_NOT_FOUND",
+          message: `Collection with ID '${input.collectionId}' not found`,
+        };
+      }
+
+      const setResult = await this.repository.setActiveCollectionId(
+        input.collectionId
+      );
+      if (!setResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save the active collection",
+          details: setResult.error,
+        };
+      }
+
+      return { success: true, activeCollectionId: input.collectionId };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @returns Categorized error result
+   */
+  private handleError(error: unknown): SetActiveCollectionError {
+    console.error("Error in SetActiveCollectionUseCase:", error);
+
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while switching collection: ${error.message}`,
+        details: error,
+      };
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to switch collection: ${errorMessage}`,
+      details: error,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  IHeadingSectionRepository,
+  updateSectionTags,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for adding or removing tags on a heading section
+ */
+export interface UpdateHeadingSectionTagsInput {
+  /** The ID of the section to tag */
+  sectionId: string;
+  /** Tags to add to the section */
+  addTags?: string[];
+  /** Tags to remove from the section */
+  removeTags?: string[];
+}
+
+/**
+ * Output DTO for updating heading section tags
+ */
+export interface UpdateHeadingSectionTagsOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The ID of the updated section */
+  sectionId: string;
+  /** The section's tags after the update */
+  tags: string[];
+}
+
+/**
+ * Error response for updating heading section tags
+ */
+export interface UpdateHeadingSectionTagsError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "SECTION_NOT_FOUND"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of updating heading section tags
+ */
+export type UpdateHeadingSectionTagsResult =
+  | UpdateHeadingSectionTagsOutput
+  | UpdateHeadingSectionTagsError;
+
+/**
+ * Use case for adding and removing user-defined tags on a heading section
+ *
+ * Responsibilities:
+ * - Validate input parameters
+ * - Normalize tags and apply the changes to the existing section
+ * - Persist the updated section via repository
+ * - Handle and categorize errors appropriately
+ */
+export class UpdateHeadingSectionTagsUseCase {
+  constructor(private readonly repository: IHeadingSectionRepository) {}
+
+  /**
+   * Executes the use case to update a section's tags
+   *
+   * @param input - The section ID and the tags to add and remove
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: UpdateHeadingSectionTagsInput
+  ): Promise<UpdateHeadingSectionTagsResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // Step 2: Check if section exists
+      const existingSection = await this.repository.getSectionById(
+        input.sectionId
+      );
+      if (!existingSection) {
+        return {
+          success: false,
+          errorCode: "SECTION_NOT_FOUND",
+          message: `Section with ID '${input.sectionId}' not found`,
+        };
+      }
+
+      // Step 3: Apply tag changes (normalizes and validates each tag)
+      const updatedSection = updateSectionTags(existingSection, {
+        add: input.addTags,
+        remove: input.removeTags,
+      });
+
+      // Step 4: Persist the section
+      const updateResult = await this.repository.updateSection(updatedSection);
+      if (!updateResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save section tags",
+          details: updateResult.error,
+        };
+      }
+
+      // Step 5: Return success result
+      return {
+        success: true,
+        sectionId: updatedSection.sectionId,
+        tags: [...(updatedSection.tags ?? [])],
+      };
+    } catch (error) {
+      return this.handleError(error, input.sectionId);
+    }
+  }
+
+  /**
+   * Validates the input parameters
+   *
+   * @param input - The input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: UpdateHeadingSectionTagsInput): void {
+    if (!input.sectionId || typeof input.sectionId !== "string") {
+      throw new ValidationError("Section ID is required and must be a string");
+    }
+
+    for (const [field, tags] of [
+      ["addTags", input.addTags],
+      ["removeTags", input.removeTags],
+    ] as const) {
+      if (
+        tags !== undefined &&
+        (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string"))
+      ) {
+        throw new ValidationError(`${field} must be an array of strings`);
+      }
+    }
+
+    if (!input.addTags?.length && !input.removeTags?.length) {
+      throw new ValidationError(
+        "At least one tag to add or remove is required"
+      );
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @param sectionId - The section ID that was being processed
+   * @returns Categorized error result
+   */
+  private handleError(
+    error: unknown,
+    sectionId: string
+  ): UpdateHeadingSectionTagsError {
+    console.error("Error in UpdateHeadingSectionTagsUseCase:", error);
+
+    // Handle validation errors (including invalid tags)
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    // Handle repository errors
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while tagging section '${sectionId}': ${error.message}`,
+        details: error,
+      };
+    }
+
+    // Handle unknown errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to update tags for section '${sectionId}': ${errorMessage}`,
+      details: error,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  HeadingSection,
+  IHeadingSectionRepository,
+  updateSectionCollections,
+  updateSectionNote,
+} from "../../../domain/heading-collection";
+import { RepositoryError, ValidationError } from "../../../domain/shared";
+
+/**
+ * Input DTO for updating user-editable fields of a heading section
+ */
+export interface UpdateHeadingSectionInput {
+  /** The ID of the section to update */
+  sectionId: string;
+  /** Personal markdown note; an empty string clears the note */
+  note?: string;
+  /** Collections the section belongs to (replaces the current memberships) */
+  collectionIds?: string[];
+}
+
+/**
+ * Output DTO for updating a heading section
+ */
+export interface UpdateHeadingSectionOutput {
+  /** Indicates whether the operation was successful */
+  success: true;
+  /** The section after the update */
+  section: HeadingSection;
+}
+
+/**
+ * Error response for updating a heading section
+ */
+export interface UpdateHeadingSectionError {
+  /** Indicates the operation failed */
+  success: false;
+  /** Error code for programmatic handling */
+  errorCode:
+    | "INVALID_INPUT"
+    | "SECTION_NOT_FOUND"
+    | "REPOSITORY_ERROR"
+    | "UNKNOWN_ERROR";
+  /** Human-readable error message */
+  message: string;
+  /** Optional additional error details */
+  details?: unknown;
+}
+
+/**
+ * Union type for the result of updating a heading section
+ */
+export type UpdateHeadingSectionResult =
+  | UpdateHeadingSectionOutput
+  | UpdateHeadingSectionError;
+
+/**
+ * Use case for editing user-owned fields (such as the note) of a saved section
+ *
+ * Responsibilities:
+ * - Validate input parameters
+ * - Apply only the fields present in the input to the existing section
+ * - Persist the updated section via repository
+ * - Handle and categorize errors appropriately
+ */
+export class UpdateHeadingSectionUseCase {
+  constructor(private readonly repository: IHeadingSectionRepository) {}
+
+  /**
+   * Executes the use case to update a section
+   *
+   * @param input - The section ID and the fields to change
+   * @returns Promise resolving to either success or error result
+   */
+  async execute(
+    input: UpdateHeadingSectionInput
+  ): Promise<UpdateHeadingSectionResult> {
+    try {
+      // Step 1: Validate input
+      this.validateInput(input);
+
+      // Step 2: Check if section exists
+      const existingSection = await this.repository.getSectionById(
+        input.sectionId
+      );
+      if (!existingSection) {
+        return {
+          success: false,
+          errorCode: "SECTION_NOT_FOUND",
+          message: `Section with ID '${input.sectionId}' not found`,
+        };
+      }
+
+      // Step 3: Apply the requested changes
+      let updatedSection = existingSection;
+      if (input.note !== undefined) {
+        updatedSection = updateSectionNote(updatedSection, input.note);
+      }
+      if (input.collectionIds !== undefined) {
+        updatedSection = updateSectionCollections(
+          updatedSection,
+          input.collectionIds
+        );
+      }
+
+      // Step 4: Persist the section
+      const updateResult = await this.repository.updateSection(updatedSection);
+      if (!updateResult.success) {
+        return {
+          success: false,
+          errorCode: "REPOSITORY_ERROR",
+          message: "Failed to save section",
+          details: updateResult.error,
+        };
+      }
+
+      // Step 5: Return success result
+      return {
+        success: true,
+        section: updatedSection,
+      };
+    } catch (error) {
+      return this.handleError(error, input.sectionId);
+    }
+  }
+
+  /**
+   * Validates the input parameters
+   *
+   * @param input - The input to validate
+   * @throws ValidationError if validation fails
+   */
+  private validateInput(input: UpdateHeadingSectionInput): void {
+    if (!input.sectionId || typeof input.sectionId !== "string") {
+      throw new ValidationError("Section ID is required and must be a string");
+    }
+
+    if (input.note !== undefined && typeof input.note !== "string") {
+      throw new ValidationError("Note must be a string");
+    }
+
+    if (
+      input.collectionIds !== undefined &&
+      (!Array.isArray(input.collectionIds) ||
+        !input.collectionIds.every((id) => typeof id === "string"))
+    ) {
+      throw new ValidationError("Collection IDs must be an array of strings");
+    }
+
+    if (input.note === undefined && input.collectionIds === undefined) {
+      throw new ValidationError("At least one field to update is required");
+    }
+  }
+
+  /**
+   * Handles and categorizes errors appropriately
+   *
+   * @param error - The error that occurred
+   * @param sectionId - The section ID that was being processed
+   * @returns Categorized error result
+   */
+  private handleError(
+    error: unknown,
+    sectionId: string
+  ): UpdateHeadingSectionError {
+    console.error("Error in UpdateHeadingSectionUseCase:", error);
+
+    // Handle validation errors (including an over-long note)
+    if (error instanceof ValidationError) {
+      return {
+        success: false,
+        errorCode: "INVALID_INPUT",
+        message: error.message,
+        details: error,
+      };
+    }
+
+    // Handle repository errors
+    if (error instanceof RepositoryError) {
+      return {
+        success: false,
+        errorCode: "REPOSITORY_ERROR",
+        message: `Repository error while updating section '${sectionId}': ${error.message}`,
+        details: error,
+      };
+    }
+
+    // Handle unknown errors
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      errorCode: "UNKNOWN_ERROR",
+      message: `Failed to update section '${sectionId}': ${errorMessage}`,
+      details: error,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Repository interface for clips
+ */
+
+import { Clip } from "./clip";
+import { Id, Result } from "../shared";
+
+export interface IClipRepository {
+  /**
+   * Retrieves all clips
+   */
+  getAllClips(): Promise<Clip[]>;
+
+  /**
+   * Retrieves a specific clip by ID
+   */
+  getClipById(clipId: Id): Promise<Clip | null>;
+
+  /**
+   * Finds clips captured from the given page URL
+   */
+  findClipsByUrl(sourceUrl: string): Promise<Clip[]>;
+
+  /**
+   * Adds a new clip to the repository
+   */
+  addClip(clip: Clip): Promise<Result<void>>;
+
+  /**
+   * Updates an existing clip
+   */
+  updateClip(clip: Clip): Promise<Result<void>>;
+
+  /**
+   * Removes a clip from the repository
+   */
+  removeClip(clipId: Id): Promise<Result<boolean>>;
+}
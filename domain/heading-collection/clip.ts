@@ -0,0 +1,273 @@
+/**
+ * Clip Domain Entity
+ * An arbitrary text selection saved from a page, linked to its nearest heading
+ */
+
+import { ValidationError, Id, generateId, getPageUrl } from "../shared";
+import { DEFAULT_COLLECTION_ID } from "./collection";
+import {
+  HeadingSection,
+  generateSectionId,
+  isSameHeading,
+  isSectionOfHeading,
+  isStableSectionId,
+  isValidHeadingLevel,
+  normalizeCollectionIds,
+} from "./heading-section";
+import { TextAnchor, isTextAnchor } from "./text-anchor";
+
+export const MAX_CLIP_TEXT_LENGTH = 20000;
+
+/**
+ * The heading a clip was selected under
+ */
+export interface ClipHeading {
+  readonly level: number;
+  readonly titleText: string;
+  /** Titles of the enclosing headings, outermost first */
+  readonly headingPath?: ReadonlyArray<string>;
+  /** Stable ID shared with a saved section of the same heading */
+  readonly sectionKey: string;
+}
+
+/**
+ * Domain entity representing a saved text selection
+ */
+export interface Clip {
+  readonly clipId: Id;
+  readonly sourceUrl: string;
+  /** HTML of the selected DOM range */
+  readonly contentHtml: string;
+  /** Position of the selection in the page text, used for re-highlighting */
+  readonly anchor: TextAnchor;
+  /** Nearest heading before the selection (absent above the first heading) */
+  readonly heading?: ClipHeading;
+  readonly addedAt: Date;
+  readonly collectionIds?: ReadonlyArray<Id>;
+}
+
+/**
+ * Factory function to create a new Clip instance
+ */
+export function createClip(params: {
+  sourceUrl: string;
+  contentHtml: string;
+  anchor: TextAnchor;
+  heading?: {
+    level: number;
+    titleText: string;
+    headingPath?: ReadonlyArray<string>;
+  };
+  collectionIds?: ReadonlyArray<Id>;
+  clipId?: Id;
+}): Clip {
+  if (!params.sourceUrl?.trim()) {
+    throw new ValidationError("Clip source URL cannot be empty");
+  }
+  if (!isTextAnchor(params.anchor)) {
+    throw new ValidationError("Invalid text anchor");
+  }
+  if (params.anchor.exact.length > MAX_CLIP_TEXT_LENGTH) {
+    throw new ValidationError(
+      `Clip text exceeds ${MAX_CLIP_TEXT_LENGTH} characters`
+    );
+  }
+
+  return {
+    clipId: params.clipId?.trim() || generateId(),
+    sourceUrl: params.sourceUrl.trim(),
+    contentHtml: params.contentHtml.trim(),
+    anchor: params.anchor,
+    ...(params.heading && {
+      heading: createClipHeading(params.sourceUrl.trim(), params.heading),
+    }),
+    addedAt: new Date(),
+    collectionIds: normalizeCollectionIds(
+      params.collectionIds ?? [DEFAULT_COLLECTION_ID]
+    ),
+  };
+}
+
+/**
+ * Gets the collections a clip belongs to
+ */
+export function getClipCollectionIds(clip: Clip): ReadonlyArray<Id> {
+  return clip.collectionIds?.length
+    ? clip.collectionIds
+    : [DEFAULT_COLLECTION_ID];
+}
+
+/**
+ * Checks whether a clip belongs to the given collection
+ */
+export function isClipInCollection(clip: Clip, collectionId: Id): boolean {
+  return getClipCollectionIds(clip).includes(collectionId);
+}
+
+/**
+ * Returns a copy of the clip without the given collection, falling back to
+ * the default collection when no other membership remains
+ */
+export function removeClipFromCollection(clip: Clip, collectionId: Id): Clip {
+  const remaining = getClipCollectionIds(clip).filter(
+    (id) => id !== collectionId
+  );
+  return {
+    ...clip,
+    collectionIds: remaining.length ? remaining : [DEFAULT_COLLECTION_ID],
+  };
+}
+
+/**
+ * Checks whether a clip was selected under the heading of the given section
+ */
+export function isClipOfSection(clip: Clip, section: HeadingSection): boolean {
+  if (!clip.heading) {
+    return false;
+  }
+
+  // Clips saved before stable IDs have a key without the enclosing headings
+  if (!isStableSectionId(clip.heading.sectionKey)) {
+    return (
+      getPageUrl(clip.sourceUrl) === getPageUrl(section.sourceUrl) &&
+      isSameHeading(section, { ...clip.heading, sourceUrl: section.sourceUrl })
+    );
+  }
+
+  return isSectionOfHeading(section, {
+    ...clip.heading,
+    sourceUrl: clip.sourceUrl,
+  });
+}
+
+/**
+ * Type guard to check if an object is a valid Clip
+ */
+export function isClip(obj: any): obj is Clip {
+  return (
+    obj !== null &&
+    obj !== undefined &&
+    typeof obj === "object" &&
+    typeof obj.clipId === "string" &&
+    typeof obj.sourceUrl === "string" &&
+    typeof obj.contentHtml === "string" &&
+    isTextAnchor(obj.anchor) &&
+    (obj.heading === undefined || isClipHeading(obj.heading)) &&
+    obj.addedAt instanceof Date &&
+    (obj.collectionIds === undefined ||
+      (Array.isArray(obj.collectionIds) &&
+        obj.collectionIds.every((id: unknown) => typeof id === "string")))
+  );
+}
+
+/**
+ * Serializes a Clip for storage or transmission
+ */
+export function serializeClip(clip: Clip): Record<string, any> {
+  return {
+    clipId: clip.clipId,
+    sourceUrl: clip.sourceUrl,
+    contentHtml: clip.contentHtml,
+    anchor: { ...clip.anchor },
+    ...(clip.heading && { heading: { ...clip.heading } }),
+    addedAt: clip.addedAt.toISOString(),
+    collectionIds: [...getClipCollectionIds(clip)],
+  };
+}
+
+/**
+ * Deserializes a Clip from stored data
+ */
+export function deserializeClip(data: any): Clip {
+  if (!data || typeof data !== "object") {
+    throw new ValidationError("Invalid data for Clip deserialization");
+  }
+
+  if (typeof data.clipId !== "string" || !data.clipId.trim()) {
+    throw new ValidationError(`Invalid clipId: ${data.clipId}`);
+  }
+
+  if (!isTextAnchor(data.anchor)) {
+    throw new ValidationError(`Invalid anchor for clip: ${data.clipId}`);
+  }
+
+  if (data.heading !== undefined && !isClipHeading(data.heading)) {
+    throw new ValidationError(`Invalid heading for clip: ${data.clipId}`);
+  }
+
+  const addedAt = new Date(data.addedAt);
+  if (isNaN(addedAt.getTime())) {
+    throw new ValidationError(`Invalid date: ${data.addedAt}`);
+  }
+
+  if (
+    data.collectionIds !== undefined &&
+    (!Array.isArray(data.collectionIds) ||
+      !data.collectionIds.every((id: unknown) => typeof id === "string"))
+  ) {
+    throw new ValidationError(
+      `Invalid collectionIds: ${JSON.stringify(data.collectionIds)}`
+    );
+  }
+
+  return {
+    clipId: data.clipId,
+    sourceUrl: String(data.sourceUrl ?? ""),
+    contentHtml: String(data.contentHtml ?? ""),
+    anchor: { ...data.anchor },
+    ...(data.heading && { heading: { ...data.heading } }),
+    addedAt,
+    collectionIds: normalizeCollectionIds(
+      data.collectionIds?.length ? data.collectionIds : [DEFAULT_COLLECTION_ID]
+    ),
+  };
+}
+
+function createClipHeading(
+  sourceUrl: string,
+  heading: {
+    level: number;
+    titleText: string;
+    headingPath?: ReadonlyArray<string>;
+  }
+): ClipHeading {
+  if (!isValidHeadingLevel(heading.level)) {
+    throw new ValidationError(`Invalid heading level: ${heading.level}`);
+  }
+  if (
+    heading.headingPath !== undefined &&
+    (!Array.isArray(heading.headingPath) ||
+      !heading.headingPath.every((title) => typeof title === "string"))
+  ) {
+    throw new ValidationError("Heading path must be an array of strings");
+  }
+
+  const titleText = heading.titleText.trim();
+  const headingPath = heading.headingPath?.map((title) => title.trim()) ?? [];
+  return {
+    level: heading.level,
+    titleText,
+    headingPath,
+    sectionKey: generateSectionId({
+      sourceUrl,
+      level: heading.level,
+      titleText,
+      headingPath,
+    }),
+  };
+}
+
+function isClipHeading(obj: any): obj is ClipHeading {
+  return (
+    obj !== null &&
+    typeof obj === "object" &&
+    isValidHeadingLevel(obj.level) &&
+    typeof obj.titleText === "string" &&
+    (obj.headingPath === undefined ||
+      (Array.isArray(obj.headingPath) &&
+        obj.headingPath.every(
+          (title: unknown) => typeof title === "string"
+        ))) &&
+    typeof obj.sectionKey === "string"
+  );
+}
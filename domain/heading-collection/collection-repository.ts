@@ -0,0 +1,43 @@
+/**
+ * Repository interface for collections
+ */
+
+import { Collection } from "./collection";
+import { Id, Result } from "../shared";
+
+export interface ICollectionRepository {
+  /**
+   * Retrieves all collections (always including the default collection)
+   */
+  getAllCollections(): Promise<Collection[]>;
+
+  /**
+   * Retrieves a specific collection by ID
+   */
+  getCollectionById(collectionId: Id): Promise<Collection | null>;
+
+  /**
+   * Adds a new collection to the repository
+   */
+  addCollection(collection: Collection): Promise<Result<void>>;
+
+  /**
+   * Updates an existing collection
+   */
+  updateCollection(collection: Collection): Promise<Result<void>>;
+
+  /**
+   * Removes a collection from the repository
+   */
+  removeCollection(collectionId: Id): Promise<Result<boolean>>;
+
+  /**
+   * Gets the ID of the collection that newly captured sections are added to
+   */
+  getActiveCollectionId(): Promise<Id>;
+
+  /**
+   * Sets the collection that newly captured sections are added to
+   */
+  setActiveCollectionId(collectionId: Id): Promise<Result<void>>;
+}
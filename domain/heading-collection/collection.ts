@@ -0,0 +1,137 @@
+/**
+ * Collection Domain Entity
+ * A named group of heading sections (a section may belong to several)
+ */
+
+import { ValidationError, Id, generateId } from "../shared";
+
+/**
+ * The collection that always exists and receives sections stored before
+ * collections were introduced
+ */
+export const DEFAULT_COLLECTION_ID = "default";
+export const DEFAULT_COLLECTION_NAME = "Default";
+
+export const MAX_COLLECTION_NAME_LENGTH = 60;
+
+/**
+ * Domain entity representing a named collection of heading sections
+ */
+export interface Collection {
+  readonly collectionId: Id;
+  readonly name: string;
+  readonly createdAt: Date;
+}
+
+/**
+ * Factory function to create a new Collection instance
+ */
+export function createCollection(params: {
+  name: string;
+  collectionId?: Id;
+}): Collection {
+  return {
+    collectionId: params.collectionId?.trim() || generateId(),
+    name: normalizeCollectionName(params.name),
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Creates the built-in default collection
+ */
+export function createDefaultCollection(): Collection {
+  return createCollection({
+    name: DEFAULT_COLLECTION_NAME,
+    collectionId: DEFAULT_COLLECTION_ID,
+  });
+}
+
+/**
+ * Checks whether the given ID refers to the built-in default collection
+ */
+export function isDefaultCollection(collectionId: Id): boolean {
+  return collectionId === DEFAULT_COLLECTION_ID;
+}
+
+/**
+ * Normalizes a collection name: trims and collapses inner whitespace
+ */
+export function normalizeCollectionName(name: string): string {
+  if (typeof name !== "string") {
+    throw new ValidationError(`Collection name must be a string: ${name}`);
+  }
+
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    throw new ValidationError("Collection name cannot be empty");
+  }
+  if (normalized.length > MAX_COLLECTION_NAME_LENGTH) {
+    throw new ValidationError(
+      `Collection name exceeds ${MAX_COLLECTION_NAME_LENGTH} characters`
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Returns a copy of the collection with a new name
+ */
+export function renameCollection(
+  collection: Collection,
+  name: string
+): Collection {
+  return { ...collection, name: normalizeCollectionName(name) };
+}
+
+/**
+ * Type guard to check if an object is a valid Collection
+ */
+export function isCollection(obj: any): obj is Collection {
+  return (
+    obj !== null &&
+    obj !== undefined &&
+    typeof obj === "object" &&
+    typeof obj.collectionId === "string" &&
+    typeof obj.name === "string" &&
+    obj.createdAt instanceof Date
+  );
+}
+
+/**
+ * Serializes a Collection for storage or transmission
+ */
+export function serializeCollection(
+  collection: Collection
+): Record<string, any> {
+  return {
+    collectionId: collection.collectionId,
+    name: collection.name,
+    createdAt: collection.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Deserializes a Collection from stored data
+ */
+export function deserializeCollection(data: any): Collection {
+  if (!data || typeof data !== "object") {
+    throw new ValidationError("Invalid data for Collection deserialization");
+  }
+
+  if (typeof data.collectionId !== "string" || !data.collectionId.trim()) {
+    throw new ValidationError(`Invalid collectionId: ${data.collectionId}`);
+  }
+
+  const createdAt = new Date(data.createdAt);
+  if (isNaN(createdAt.getTime())) {
+    throw new ValidationError(`Invalid date: ${data.createdAt}`);
+  }
+
+  return {
+    collectionId: data.collectionId,
+    name: normalizeCollectionName(data.name),
+    createdAt,
+  };
+}
@@ -59,12 +59,30 @@ export class HeadingParser {
     const headings = container.querySelectorAll(HEADING_SELECTOR);
     const sections: HeadingSection[] = [];
     const warnings: string[] = [];
+    // Enclosing headings of the current one, outermost first
+    const ancestors: { level: number; title: string }[] = [];
 
     for (let i = 0; i < headings.length; i++) {
       const heading = headings[i] as HTMLElement;
+      const level = getHeadingLevelFromTag(heading.tagName) ?? 0;
+
+      while (
+        ancestors.length > 0 &&
+        ancestors[ancestors.length - 1].level >= level
+      ) {
+        ancestors.pop();
+      }
+      const headingPath = ancestors.map((ancestor) => ancestor.title);
+      ancestors.push({ level, title: this.extractTitleText(heading) });
 
       try {
-        const section = this.parseHeadingSection(heading, container, sourceUrl);
+        const section = this.parseHeadingSection(
+          heading,
+          container,
+          sourceUrl,
+          i,
+          headingPath
+        );
         sections.push(section);
       } catch (error) {
         warnings.push(
@@ -88,7 +106,9 @@ export class HeadingParser {
   private parseHeadingSection(
     heading: HTMLElement,
     container: Element,
-    sourceUrl: string
+    sourceUrl: string,
+    position: number,
+    headingPath: string[]
   ): HeadingSection {
     const level = getHeadingLevelFromTag(heading.tagName);
     if (level === null) {
@@ -104,6 +124,8 @@ export class HeadingParser {
       titleText,
       contentHtml,
       sourceUrl,
+      position,
+      headingPath,
     });
   }
 
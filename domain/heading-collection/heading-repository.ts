@@ -2,9 +2,19 @@
  * Repository interface for heading sections
  */
 
-import { HeadingSection } from "./heading-section";
+import { HeadingSection, TagMatchMode } from "./heading-section";
 import { Id, Result } from "../shared";
 
+/**
+ * Which sections a page is taken from, and in which order
+ */
+export interface SectionPageQuery {
+  /** Keeps only the sections this returns true for */
+  filter?: (section: HeadingSection) => boolean;
+  /** Orders the sections before the page is taken (default: stored order) */
+  compare?: (a: HeadingSection, b: HeadingSection) => number;
+}
+
 export interface IHeadingSectionRepository {
   /**
    * Retrieves all stored heading sections
@@ -21,6 +31,11 @@ export interface IHeadingSectionRepository {
    */
   addSection(section: HeadingSection): Promise<Result<void>>;
 
+  /**
+   * Adds multiple heading sections to the repository in a single write
+   */
+  addSections(sections: HeadingSection[]): Promise<Result<void>>;
+
   /**
    * Removes a heading section from the repository
    */
@@ -31,6 +46,11 @@ export interface IHeadingSectionRepository {
    */
   removeSections(sectionIds: Id[]): Promise<Result<number>>;
 
+  /**
+   * Replaces all stored heading sections in a single write
+   */
+  replaceAllSections(sections: HeadingSection[]): Promise<Result<void>>;
+
   /**
    * Clears all heading sections from the repository
    */
@@ -46,17 +66,26 @@ export interface IHeadingSectionRepository {
    */
   findSectionsByLevel(level: number): Promise<HeadingSection[]>;
 
+  /**
+   * Finds sections tagged with any or all of the given tags
+   */
+  findSectionsByTags(
+    tags: string[],
+    match: TagMatchMode
+  ): Promise<HeadingSection[]>;
+
   /**
    * Searches sections by title text
    */
   searchSectionsByTitle(searchTerm: string): Promise<HeadingSection[]>;
 
   /**
-   * Gets sections with pagination
+   * Gets sections with pagination, optionally filtered and ordered first
    */
   getSectionsPage(
     offset: number,
-    limit: number
+    limit: number,
+    query?: SectionPageQuery
   ): Promise<{
     sections: HeadingSection[];
     total: number;
@@ -74,13 +103,15 @@ export interface IHeadingSectionRepository {
   sectionExists(sectionId: Id): Promise<boolean>;
 
   /**
-   * Finds a section with the same content (URL, level, title)
+   * Finds the section captured from a heading (URL, enclosing headings,
+   * level, title), by its stable ID or a legacy one
    * Used for duplicate detection before adding new sections
    */
   findDuplicateSection(params: {
     sourceUrl: string;
     level: number;
     titleText: string;
+    headingPath?: ReadonlyArray<string>;
   }): Promise<HeadingSection | null>;
 
   /**
@@ -3,7 +3,15 @@
  * Consolidated implementation with entity, factory, validation, and serialization
  */
 
-import { ValidationError, Id, HtmlContent, Url, generateId } from "../shared";
+import {
+  ValidationError,
+  Id,
+  HtmlContent,
+  Url,
+  getPageUrl,
+  sha256Hex,
+} from "../shared";
+import { DEFAULT_COLLECTION_ID } from "./collection";
 
 /**
  * Constants for heading section collection feature
@@ -24,7 +32,42 @@ export const HEADING_SELECTOR = HEADING_TAGS.map((tag) =>
   tag.toLowerCase()
 ).join(",");
 
-export const TITLE_SLUG_LENGTH_LIMIT = 50;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_SECTION = 20;
+export const MAX_NOTE_LENGTH = 20000;
+export const MAX_SECTION_VERSIONS = 10;
+export const SECTION_ID_PREFIX = "sec-";
+export const SECTION_ID_HASH_LENGTH = 32;
+
+/**
+ * How a set of tags is matched against a section's tags
+ * - "any": the section has at least one of the tags
+ * - "all": the section has every one of the tags
+ */
+export type TagMatchMode = "any" | "all";
+
+/**
+ * How a stored section differs from the live page it was captured from
+ * - "changed": the heading still exists but its content changed
+ * - "removed": the heading no longer exists on the page
+ */
+export type UpstreamStatus = "changed" | "removed";
+
+/**
+ * Result of the last comparison with the live page that found a difference
+ */
+export interface UpstreamState {
+  readonly status: UpstreamStatus;
+  readonly detectedAt: Date;
+}
+
+/**
+ * A captured state of a section's content
+ */
+export interface SectionVersion {
+  readonly contentHtml: HtmlContent;
+  readonly capturedAt: Date;
+}
 
 /**
  * Domain entity representing a heading section extracted from a DeepWiki page
@@ -37,6 +80,29 @@ export interface HeadingSection {
   readonly sourceUrl: Url;
   readonly addedAt: Date;
   readonly sectionId: Id;
+  /** User-defined tags (absent on sections stored before tagging existed) */
+  readonly tags?: ReadonlyArray<string>;
+  /** Personal markdown note attached after capture */
+  readonly note?: string;
+  /** Collections the section belongs to (absent means the default collection) */
+  readonly collectionIds?: ReadonlyArray<Id>;
+  /** Earlier captures of the content, oldest first */
+  readonly versions?: ReadonlyArray<SectionVersion>;
+  /** When the current content was captured (absent means addedAt) */
+  readonly updatedAt?: Date;
+  /** Set when the live page no longer matches the stored content */
+  readonly upstream?: UpstreamState;
+  /** Index of the heading among the headings of its page, in document order */
+  readonly position?: number;
+  /** Titles of the headings enclosing this one on the page, outermost first */
+  readonly headingPath?: ReadonlyArray<string>;
+  /**
+   * Set when the heading path was derived from the collected sections of the
+   * page alone and may lack enclosing headings that were not collected
+   */
+  readonly headingPathPartial?: boolean;
+  /** IDs the section had before stable IDs were introduced */
+  readonly legacyIds?: ReadonlyArray<Id>;
 }
 
 /**
@@ -49,18 +115,27 @@ export function createHeadingSection(params: {
   contentHtml: HtmlContent;
   sourceUrl: Url;
   sectionId?: Id;
+  tags?: ReadonlyArray<string>;
+  note?: string;
+  collectionIds?: ReadonlyArray<Id>;
+  position?: number;
+  headingPath?: ReadonlyArray<string>;
 }): HeadingSection {
   // Validation
   validateHeadingLevel(params.level);
   validateTagName(params.tagName, params.level);
   validateRequiredFields(params);
+  validatePosition(params.position);
+  validateHeadingPath(params.headingPath);
 
+  const headingPath = params.headingPath?.map((title) => title.trim());
   const sectionId =
     params.sectionId?.trim() ||
-    generateUniqueSectionId({
+    generateSectionId({
       sourceUrl: params.sourceUrl,
       level: params.level,
-      titleText: params.titleText.trim(),
+      titleText: params.titleText,
+      headingPath,
     });
 
   return {
@@ -71,6 +146,13 @@ export function createHeadingSection(params: {
     sourceUrl: params.sourceUrl,
     addedAt: new Date(),
     sectionId: sectionId,
+    tags: normalizeTags(params.tags ?? []),
+    note: normalizeNote(params.note ?? ""),
+    collectionIds: normalizeCollectionIds(
+      params.collectionIds ?? [DEFAULT_COLLECTION_ID]
+    ),
+    ...(params.position !== undefined && { position: params.position }),
+    ...(headingPath && { headingPath }),
   };
 }
 
@@ -90,7 +172,31 @@ export function isHeadingSection(obj: any): obj is HeadingSection {
     typeof obj.contentHtml === "string" &&
     typeof obj.sourceUrl === "string" &&
     obj.addedAt instanceof Date &&
-    typeof obj.sectionId === "string"
+    typeof obj.sectionId === "string" &&
+    (obj.tags === undefined ||
+      (Array.isArray(obj.tags) &&
+        obj.tags.every((tag: unknown) => typeof tag === "string"))) &&
+    (obj.note === undefined || typeof obj.note === "string") &&
+    (obj.collectionIds === undefined ||
+      (Array.isArray(obj.collectionIds) &&
+        obj.collectionIds.every((id: unknown) => typeof id === "string"))) &&
+    (obj.versions === undefined ||
+      (Array.isArray(obj.versions) &&
+        obj.versions.every(
+          (version: any) =>
+            typeof version?.contentHtml === "string" &&
+            version.capturedAt instanceof Date
+        ))) &&
+    (obj.updatedAt === undefined || obj.updatedAt instanceof Date) &&
+    (obj.upstream === undefined ||
+      ((obj.upstream.status === "changed" ||
+        obj.upstream.status === "removed") &&
+        obj.upstream.detectedAt instanceof Date)) &&
+    (obj.position === undefined || isValidPosition(obj.position)) &&
+    (obj.headingPath === undefined || isStringArray(obj.headingPath)) &&
+    (obj.headingPathPartial === undefined ||
+      typeof obj.headingPathPartial === "boolean") &&
+    (obj.legacyIds === undefined || isStringArray(obj.legacyIds))
   );
 }
 
@@ -108,6 +214,24 @@ export function serializeHeadingSection(
     sourceUrl: section.sourceUrl,
     addedAt: section.addedAt.toISOString(),
     sectionId: section.sectionId,
+    tags: [...(section.tags ?? [])],
+    note: section.note ?? "",
+    collectionIds: [...getSectionCollectionIds(section)],
+    versions: (section.versions ?? []).map((version) => ({
+      contentHtml: version.contentHtml,
+      capturedAt: version.capturedAt.toISOString(),
+    })),
+    ...(section.updatedAt && { updatedAt: section.updatedAt.toISOString() }),
+    ...(section.upstream && {
+      upstream: {
+        status: section.upstream.status,
+        detectedAt: section.upstream.detectedAt.toISOString(),
+      },
+    }),
+    ...(section.position !== undefined && { position: section.position }),
+    ...(section.headingPath && { headingPath: [...section.headingPath] }),
+    ...(section.headingPathPartial && { headingPathPartial: true }),
+    ...(section.legacyIds?.length && { legacyIds: [...section.legacyIds] }),
   };
 }
 
@@ -157,6 +281,58 @@ export function deserializeHeadingSection(data: any): HeadingSection {
     throw new ValidationError(`Invalid date: ${data.addedAt}`);
   }
 
+  // Tags are optional: data stored before tagging existed has none
+  if (
+    data.tags !== undefined &&
+    (!Array.isArray(data.tags) ||
+      !data.tags.every((tag: unknown) => typeof tag === "string"))
+  ) {
+    throw new ValidationError(`Invalid tags: ${data.tags}`);
+  }
+
+  if (data.note !== undefined && typeof data.note !== "string") {
+    throw new ValidationError(`Invalid note: ${data.note}`);
+  }
+
+  // Sections stored before collections existed belong to the default one
+  if (
+    data.collectionIds !== undefined &&
+    (!Array.isArray(data.collectionIds) ||
+      !data.collectionIds.every((id: unknown) => typeof id === "string"))
+  ) {
+    throw new ValidationError(`Invalid collectionIds: ${data.collectionIds}`);
+  }
+
+  if (data.position !== undefined && !isValidPosition(data.position)) {
+    throw new ValidationError(`Invalid position: ${data.position}`);
+  }
+
+  if (data.headingPath !== undefined && !isStringArray(data.headingPath)) {
+    throw new ValidationError(`Invalid headingPath: ${data.headingPath}`);
+  }
+
+  if (
+    data.headingPathPartial !== undefined &&
+    typeof data.headingPathPartial !== "boolean"
+  ) {
+    throw new ValidationError(
+      `Invalid headingPathPartial: ${data.headingPathPartial}`
+    );
+  }
+
+  if (data.legacyIds !== undefined && !isStringArray(data.legacyIds)) {
+    throw new ValidationError(`Invalid legacyIds: ${data.legacyIds}`);
+  }
+
+  const versions = deserializeVersions(data.versions);
+  const upstream = deserializeUpstream(data.upstream);
+
+  const updatedAt =
+    data.updatedAt !== undefined ? new Date(data.updatedAt) : undefined;
+  if (updatedAt && isNaN(updatedAt.getTime())) {
+    throw new ValidationError(`Invalid date: ${data.updatedAt}`);
+  }
+
   return {
     level: data.level,
     tagName: data.tagName,
@@ -165,9 +341,311 @@ export function deserializeHeadingSection(data: any): HeadingSection {
     sourceUrl: data.sourceUrl,
     addedAt: addedAt,
     sectionId: data.sectionId,
+    tags: data.tags ? normalizeTags(data.tags) : [],
+    note: data.note ?? "",
+    collectionIds: data.collectionIds?.length
+      ? normalizeCollectionIds(data.collectionIds)
+      : [DEFAULT_COLLECTION_ID],
+    versions,
+    ...(updatedAt && { updatedAt }),
+    ...(upstream && { upstream }),
+    ...(data.position !== undefined && { position: data.position }),
+    ...(data.headingPath && { headingPath: data.headingPath }),
+    ...(data.headingPathPartial && { headingPathPartial: true }),
+    ...(data.legacyIds?.length && { legacyIds: data.legacyIds }),
   };
 }
 
+/**
+ * Deserializes the stored upstream state of a section
+ */
+function deserializeUpstream(data: any): UpstreamState | undefined {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+
+  const detectedAt = new Date(data.detectedAt);
+  if (
+    (data.status !== "changed" && data.status !== "removed") ||
+    isNaN(detectedAt.getTime())
+  ) {
+    throw new ValidationError(
+      `Invalid upstream state: ${JSON.stringify(data)}`
+    );
+  }
+
+  return { status: data.status, detectedAt };
+}
+
+/**
+ * Returns a copy of the section with the given upstream status; null marks the
+ * section as matching the live page again. The detection time is kept while
+ * the status stays the same.
+ */
+export function markSectionUpstream(
+  section: HeadingSection,
+  status: UpstreamStatus | null,
+  detectedAt: Date = new Date()
+): HeadingSection {
+  if (status === null) {
+    if (!section.upstream) {
+      return section;
+    }
+    const { upstream, ...rest } = section;
+    return rest;
+  }
+
+  if (section.upstream?.status === status) {
+    return section;
+  }
+
+  return { ...section, upstream: { status, detectedAt } };
+}
+
+/**
+ * Deserializes the stored version history of a section
+ */
+function deserializeVersions(data: unknown): SectionVersion[] {
+  if (data === undefined) {
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    throw new ValidationError(`Invalid versions: ${data}`);
+  }
+
+  return data.map((version) => {
+    const capturedAt = new Date(version?.capturedAt);
+    if (
+      typeof version?.contentHtml !== "string" ||
+      isNaN(capturedAt.getTime())
+    ) {
+      throw new ValidationError(`Invalid version: ${JSON.stringify(version)}`);
+    }
+    return { contentHtml: version.contentHtml, capturedAt };
+  });
+}
+
+/**
+ * Returns every version of a section including the current one, oldest first
+ */
+export function getSectionVersions(section: HeadingSection): SectionVersion[] {
+  return [
+    ...(section.versions ?? []),
+    {
+      contentHtml: section.contentHtml,
+      capturedAt: section.updatedAt ?? section.addedAt,
+    },
+  ];
+}
+
+/**
+ * Returns a copy of the section with new content, keeping the previous content
+ * as a version. Returns the section unchanged when the content is the same.
+ * Only the latest MAX_SECTION_VERSIONS earlier versions are kept.
+ */
+export function addSectionVersion(
+  section: HeadingSection,
+  contentHtml: HtmlContent,
+  capturedAt: Date = new Date()
+): HeadingSection {
+  if (contentHtml === section.contentHtml) {
+    return section;
+  }
+
+  const versions = [
+    ...(section.versions ?? []),
+    {
+      contentHtml: section.contentHtml,
+      capturedAt: section.updatedAt ?? section.addedAt,
+    },
+  ].slice(-MAX_SECTION_VERSIONS);
+
+  return { ...section, contentHtml, versions, updatedAt: capturedAt };
+}
+
+/**
+ * Normalizes a single tag: trims, lowercases and collapses inner whitespace
+ */
+export function normalizeTag(tag: string): string {
+  if (typeof tag !== "string") {
+    throw new ValidationError(`Tag must be a string: ${tag}`);
+  }
+
+  const normalized = tag.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalized) {
+    throw new ValidationError("Tag cannot be empty");
+  }
+  if (normalized.length > MAX_TAG_LENGTH) {
+    throw new ValidationError(
+      `Tag "${normalized}" exceeds ${MAX_TAG_LENGTH} characters`
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalizes a list of tags, dropping duplicates while keeping order
+ */
+export function normalizeTags(tags: ReadonlyArray<string>): string[] {
+  const normalized = [...new Set(tags.map(normalizeTag))];
+  if (normalized.length > MAX_TAGS_PER_SECTION) {
+    throw new ValidationError(
+      `A section can have at most ${MAX_TAGS_PER_SECTION} tags`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Returns a copy of the section with the given tags added and removed
+ */
+export function updateSectionTags(
+  section: HeadingSection,
+  changes: { add?: ReadonlyArray<string>; remove?: ReadonlyArray<string> }
+): HeadingSection {
+  const toRemove = new Set((changes.remove ?? []).map(normalizeTag));
+  const tags = normalizeTags([
+    ...(section.tags ?? []),
+    ...(changes.add ?? []),
+  ]).filter((tag) => !toRemove.has(tag));
+
+  return { ...section, tags };
+}
+
+/**
+ * Normalizes a markdown note: trims surrounding whitespace and unifies line endings
+ */
+export function normalizeNote(note: string): string {
+  if (typeof note !== "string") {
+    throw new ValidationError(`Note must be a string: ${note}`);
+  }
+
+  const normalized = note.replace(/\r\n?/g, "\n").trim();
+  if (normalized.length > MAX_NOTE_LENGTH) {
+    throw new ValidationError(`Note exceeds ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Returns a copy of the section with its note replaced
+ */
+export function updateSectionNote(
+  section: HeadingSection,
+  note: string
+): HeadingSection {
+  return { ...section, note: normalizeNote(note) };
+}
+
+/**
+ * Normalizes a list of collection IDs, dropping duplicates while keeping order
+ */
+export function normalizeCollectionIds(ids: ReadonlyArray<Id>): Id[] {
+  const normalized = [...new Set(ids.map((id) => id.trim()))];
+  if (normalized.length === 0 || normalized.some((id) => !id)) {
+    throw new ValidationError(
+      "A section must belong to at least one collection"
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Gets the collections a section belongs to
+ */
+export function getSectionCollectionIds(
+  section: HeadingSection
+): ReadonlyArray<Id> {
+  return section.collectionIds?.length
+    ? section.collectionIds
+    : [DEFAULT_COLLECTION_ID];
+}
+
+/**
+ * Checks whether a section belongs to the given collection
+ */
+export function isSectionInCollection(
+  section: HeadingSection,
+  collectionId: Id
+): boolean {
+  return getSectionCollectionIds(section).includes(collectionId);
+}
+
+/**
+ * Returns a copy of the section with its collection memberships replaced
+ */
+export function updateSectionCollections(
+  section: HeadingSection,
+  collectionIds: ReadonlyArray<Id>
+): HeadingSection {
+  return { ...section, collectionIds: normalizeCollectionIds(collectionIds) };
+}
+
+/**
+ * Returns a copy of the section without the given collection; a section left
+ * without any collection falls back to the default collection
+ */
+export function removeSectionFromCollection(
+  section: HeadingSection,
+  collectionId: Id
+): HeadingSection {
+  const remaining = getSectionCollectionIds(section).filter(
+    (id) => id !== collectionId
+  );
+  return updateSectionCollections(
+    section,
+    remaining.length > 0 ? remaining : [DEFAULT_COLLECTION_ID]
+  );
+}
+
+/**
+ * Checks whether a section matches the given tags, comparing both as
+ * normalizeTag writes them; tags that cannot be normalized match nothing
+ */
+export function sectionMatchesTags(
+  section: HeadingSection,
+  tags: ReadonlyArray<string>,
+  match: TagMatchMode = "any"
+): boolean {
+  if (tags.length === 0) {
+    return true;
+  }
+
+  const sectionTags = new Set((section.tags ?? []).map(tryNormalizeTag));
+  sectionTags.delete(null);
+  const wanted = tags.map(tryNormalizeTag);
+
+  return match === "all"
+    ? wanted.every((tag) => sectionTags.has(tag))
+    : wanted.some((tag) => sectionTags.has(tag));
+}
+
+function tryNormalizeTag(tag: string): string | null {
+  try {
+    return normalizeTag(tag);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a section was captured from the given heading: same source
+ * URL, same level and the same title ignoring case and surrounding whitespace
+ */
+export function isSameHeading(
+  section: HeadingSection,
+  heading: { sourceUrl: string; level: number; titleText: string }
+): boolean {
+  return (
+    section.sourceUrl === heading.sourceUrl &&
+    section.level === heading.level &&
+    section.titleText.trim().toLowerCase() ===
+      heading.titleText.trim().toLowerCase()
+  );
+}
+
 /**
  * Validates if a given level number is a valid heading level
  */
@@ -202,6 +680,32 @@ function validateHeadingLevel(level: number): void {
   }
 }
 
+function isValidPosition(position: unknown): position is number {
+  return Number.isInteger(position) && (position as number) >= 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function validateHeadingPath(
+  headingPath: ReadonlyArray<string> | undefined
+): void {
+  if (headingPath !== undefined && !isStringArray(headingPath)) {
+    throw new ValidationError("Heading path must be an array of strings");
+  }
+}
+
+function validatePosition(position: number | undefined): void {
+  if (position !== undefined && !isValidPosition(position)) {
+    throw new ValidationError(
+      `Invalid position: ${position}. Must be a non-negative integer`
+    );
+  }
+}
+
 function validateTagName(tagName: string, level: number): void {
   const expectedTag = `H${level}`;
   if (tagName.toUpperCase() !== expectedTag) {
@@ -234,92 +738,122 @@ function validateRequiredFields(params: {
   }
 }
 
-function generateUniqueSectionId(params: {
+/**
+ * Generates the stable identifier of a section
+ *
+ * The ID is a hash of the page URL (without query and fragment), the titles of
+ * the enclosing headings, the heading level and the title, so capturing the
+ * same heading yields the same ID on every device and in every import.
+ */
+export function generateSectionId(params: {
   sourceUrl: string;
   level: number;
   titleText: string;
-}): string {
-  try {
-    const url = new URL(params.sourceUrl);
-    const hostname = url.hostname
-      .replace(/^www\./, "")
-      .replace(/[^\w-]/g, "-")
-      .toLowerCase();
-
-    const titleSlug = params.titleText
-      .trim()
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, "")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-")
-      .replace(/^-+|-+$/g, "")
-      .substring(0, 30);
+  headingPath?: ReadonlyArray<string>;
+}): Id {
+  const key = JSON.stringify([
+    getPageUrl(params.sourceUrl),
+    (params.headingPath ?? []).map(normalizeIdText),
+    params.level,
+    normalizeIdText(params.titleText),
+  ]);
+
+  return `${SECTION_ID_PREFIX}${sha256Hex(key).substring(
+    0,
+    SECTION_ID_HASH_LENGTH
+  )}`;
+}
 
-    const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 6);
+/**
+ * Gives a section with a partial heading path the full path of the heading on
+ * the page, and the ID derived from it as a fresh capture would get. The
+ * previous ID is kept as a legacy ID. Other sections are returned unchanged.
+ */
+export function completeHeadingPath(
+  section: HeadingSection,
+  headingPath: ReadonlyArray<string>
+): HeadingSection {
+  if (!section.headingPathPartial) {
+    return section;
+  }
+  validateHeadingPath(headingPath);
 
-    return `${hostname}-h${params.level}-${titleSlug}-${timestamp}-${random}`;
-  } catch (error) {
-    const fallbackSlug = params.sourceUrl
-      .replace(/[^\w-]/g, "-")
-      .substring(0, 20);
-    const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 6);
+  const { headingPathPartial, ...completed } = section;
+  const fullPath = headingPath.map((title) => title.trim());
+  const sectionId = generateSectionId({ ...section, headingPath: fullPath });
+  return {
+    ...completed,
+    headingPath: fullPath,
+    sectionId,
+    ...(sectionId !== section.sectionId && {
+      legacyIds: [...(section.legacyIds ?? []), section.sectionId],
+    }),
+  };
+}
 
-    return `${fallbackSlug}-h${params.level}-${timestamp}-${random}`;
+/**
+ * Checks whether a section was captured from the given heading: it has the
+ * heading's stable ID, now or as a legacy ID, or it was migrated with a
+ * partial heading path that the heading's path completes
+ */
+export function isSectionOfHeading(
+  section: HeadingSection,
+  heading: {
+    sourceUrl: string;
+    level: number;
+    titleText: string;
+    headingPath?: ReadonlyArray<string>;
+  }
+): boolean {
+  if (hasSectionId(section, generateSectionId(heading))) {
+    return true;
   }
+
+  // A partial path lacks the enclosing headings that were not collected
+  const partialPath = section.headingPath ?? [];
+  return (
+    !!section.headingPathPartial &&
+    isSubsequence(
+      partialPath.map(normalizeIdText),
+      (heading.headingPath ?? []).map(normalizeIdText)
+    ) &&
+    hasSectionId(
+      section,
+      generateSectionId({ ...heading, headingPath: partialPath })
+    )
+  );
 }
 
 /**
- * Generates a deterministic content-based identifier for duplicate detection
- * This function creates consistent IDs based only on content, not time/random factors
+ * Checks whether the section is identified by the given ID, either its
+ * current one or one it had before stable IDs were introduced
  */
-export function generateContentBasedId(params: {
-  sourceUrl: string;
-  level: number;
-  titleText: string;
-}): string {
-  try {
-    const url = new URL(params.sourceUrl);
-    const hostname = url.hostname
-      .replace(/^www\./, "")
-      .replace(/[^\w-]/g, "-")
-      .toLowerCase();
-
-    // Normalize the title text for consistent comparison
-    const titleSlug = params.titleText
-      .trim()
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, "")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-")
-      .replace(/^-+|-+$/g, "")
-      .substring(0, TITLE_SLUG_LENGTH_LIMIT); // Longer title for better uniqueness
-
-    // Use pathname for more specificity (optional)
-    const pathSlug = url.pathname
-      .replace(/[^\w-]/g, "-")
-      .replace(/-+/g, "-")
-      .replace(/^-+|-+$/g, "")
-      .substring(0, 20);
-
-    return `content-${hostname}${pathSlug ? `-${pathSlug}` : ""}-h${
-      params.level
-    }-${titleSlug}`;
-  } catch (error) {
-    const fallbackSlug = params.sourceUrl
-      .replace(/[^\w-]/g, "-")
-      .substring(0, 30);
-
-    const titleSlug = params.titleText
-      .trim()
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, "")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-")
-      .replace(/^-+|-+$/g, "")
-      .substring(0, 30);
-
-    return `content-${fallbackSlug}-h${params.level}-${titleSlug}`;
+export function hasSectionId(section: HeadingSection, id: Id): boolean {
+  return section.sectionId === id || !!section.legacyIds?.includes(id);
+}
+
+/**
+ * Checks whether an ID was generated by generateSectionId
+ */
+export function isStableSectionId(id: string): boolean {
+  return new RegExp(
+    `^${SECTION_ID_PREFIX}[0-9a-f]{${SECTION_ID_HASH_LENGTH}}$`
+  ).test(id);
+}
+
+function normalizeIdText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function isSubsequence(
+  items: ReadonlyArray<string>,
+  sequence: ReadonlyArray<string>
+): boolean {
+  let next = 0;
+  for (const item of sequence) {
+    if (next < items.length && items[next] === item) {
+      next++;
+    }
   }
+  return next === items.length;
 }
@@ -10,9 +10,124 @@ export {
   isHeadingSection,
   serializeHeadingSection,
   deserializeHeadingSection,
-  generateContentBasedId,
+  generateSectionId,
+  isStableSectionId,
+  completeHeadingPath,
+  hasSectionId,
+  isSectionOfHeading,
+  normalizeTag,
+  normalizeTags,
+  updateSectionTags,
+  sectionMatchesTags,
+  isSameHeading,
+  normalizeNote,
+  updateSectionNote,
+  normalizeCollectionIds,
+  getSectionCollectionIds,
+  isSectionInCollection,
+  updateSectionCollections,
+  removeSectionFromCollection,
+  getSectionVersions,
+  addSectionVersion,
+  markSectionUpstream,
+  type TagMatchMode,
+  type SectionVersion,
+  type UpstreamStatus,
+  type UpstreamState,
 } from "./heading-section";
 
+// Collection entity and factory
+export {
+  Collection,
+  createCollection,
+  createDefaultCollection,
+  isDefaultCollection,
+  normalizeCollectionName,
+  renameCollection,
+  isCollection,
+  serializeCollection,
+  deserializeCollection,
+  DEFAULT_COLLECTION_ID,
+  DEFAULT_COLLECTION_NAME,
+  MAX_COLLECTION_NAME_LENGTH,
+} from "./collection";
+
+// Clip entity and text anchors
+export {
+  Clip,
+  ClipHeading,
+  createClip,
+  getClipCollectionIds,
+  isClipInCollection,
+  removeClipFromCollection,
+  isClipOfSection,
+  isClip,
+  serializeClip,
+  deserializeClip,
+  MAX_CLIP_TEXT_LENGTH,
+} from "./clip";
+export {
+  TextAnchor,
+  TextRange,
+  createTextAnchor,
+  resolveTextAnchor,
+  isTextAnchor,
+  TEXT_ANCHOR_CONTEXT_LENGTH,
+} from "./text-anchor";
+
+// Heading hierarchy of stored sections
+export {
+  SectionOutlineNode,
+  PageOutline,
+  compareSectionPosition,
+  buildSectionOutline,
+  buildPageOutlines,
+  countOutlineSections,
+} from "./section-outline";
+
+// Backup of all sections
+export {
+  SectionBackup,
+  SectionBackupContent,
+  RejectedBackupEntry,
+  createSectionBackup,
+  readSectionBackup,
+  SECTION_BACKUP_FORMAT,
+  SECTION_BACKUP_VERSION,
+} from "./section-backup";
+
+// Search box query syntax
+export {
+  SearchQuery,
+  parseSearchQuery,
+  isTextOnlySearchQuery,
+  SEARCH_QUERY_FIELDS,
+} from "./search-query";
+
+// Saved searches shown as smart collections
+export {
+  SavedSearch,
+  SavedSearchSortField,
+  createSavedSearch,
+  normalizeSavedSearchName,
+  isSavedSearch,
+  serializeSavedSearch,
+  deserializeSavedSearch,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+} from "./saved-search";
+
+// Storage backend setting
+export {
+  type SectionStorageBackend,
+  SECTION_STORAGE_BACKENDS,
+  DEFAULT_SECTION_STORAGE_BACKEND,
+  isSectionStorageBackend,
+  type SectionSyncContent,
+  SECTION_SYNC_CONTENTS,
+  DEFAULT_SECTION_SYNC_CONTENT,
+  isSectionSyncContent,
+} from "./section-storage-backend";
+
 // Parser service
 export {
   HeadingParser,
@@ -21,7 +136,13 @@ export {
 } from "./heading-parser";
 
 // Repository interface
-export { type IHeadingSectionRepository } from "./heading-repository";
+export {
+  type IHeadingSectionRepository,
+  type SectionPageQuery,
+} from "./heading-repository";
+export { type ICollectionRepository } from "./collection-repository";
+export { type IClipRepository } from "./clip-repository";
+export { type ISavedSearchRepository } from "./saved-search-repository";
 
 // Constants and utilities
 export {
@@ -32,4 +153,10 @@ export {
   isValidHeadingLevel,
   getHeadingLevelFromTag,
   createHeadingTag,
+  MAX_TAG_LENGTH,
+  MAX_TAGS_PER_SECTION,
+  MAX_NOTE_LENGTH,
+  MAX_SECTION_VERSIONS,
+  SECTION_ID_PREFIX,
+  SECTION_ID_HASH_LENGTH,
 } from "./heading-section";
@@ -0,0 +1,33 @@
+/**
+ * Repository interface for saved searches
+ */
+
+import { SavedSearch } from "./saved-search";
+import { Id, Result } from "../shared";
+
+export interface ISavedSearchRepository {
+  /**
+   * Retrieves all saved searches
+   */
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+
+  /**
+   * Retrieves a specific saved search by ID
+   */
+  getSavedSearchById(savedSearchId: Id): Promise<SavedSearch | null>;
+
+  /**
+   * Adds a new saved search to the repository
+   */
+  addSavedSearch(savedSearch: SavedSearch): Promise<Result<void>>;
+
+  /**
+   * Updates an existing saved search
+   */
+  updateSavedSearch(savedSearch: SavedSearch): Promise<Result<void>>;
+
+  /**
+   * Removes a saved search from the repository
+   */
+  removeSavedSearch(savedSearchId: Id): Promise<Result<boolean>>;
+}
@@ -0,0 +1,204 @@
+/**
+ * Saved Search Domain Entity
+ * A named search whose matching sections are shown as a smart collection
+ */
+
+import { ValidationError, Id, generateId } from "../shared";
+import {
+  TagMatchMode,
+  isValidHeadingLevel,
+  normalizeTags,
+} from "./heading-section";
+import { parseSearchQuery } from "./search-query";
+
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+export type SavedSearchSortField =
+  | "addedAt"
+  | "level"
+  | "titleText"
+  | "sourceUrl"
+  | "relevance";
+
+const SORT_FIELDS: ReadonlyArray<SavedSearchSortField> = [
+  "addedAt",
+  "level",
+  "titleText",
+  "sourceUrl",
+  "relevance",
+];
+
+/**
+ * Domain entity representing a saved search
+ *
+ * The query is kept as typed in the search box and parsed each time the
+ * search runs, so relative dates such as after:30d move with the current day.
+ */
+export interface SavedSearch {
+  readonly savedSearchId: Id;
+  readonly name: string;
+  /** Search box text, with fields, phrases and exclusions */
+  readonly query: string;
+  readonly level?: number;
+  readonly tags?: ReadonlyArray<string>;
+  readonly tagMatch?: TagMatchMode;
+  /** Whether text also matches section content */
+  readonly searchInContent?: boolean;
+  readonly sortBy?: SavedSearchSortField;
+  readonly sortOrder?: "asc" | "desc";
+  readonly createdAt: Date;
+}
+
+/**
+ * Factory function to create a new SavedSearch instance
+ *
+ * @throws ValidationError if the name or a filter is invalid
+ * @throws ParseError if the query cannot be parsed
+ */
+export function createSavedSearch(params: {
+  name: string;
+  query?: string;
+  level?: number;
+  tags?: ReadonlyArray<string>;
+  tagMatch?: TagMatchMode;
+  searchInContent?: boolean;
+  sortBy?: SavedSearchSortField;
+  sortOrder?: "asc" | "desc";
+  savedSearchId?: Id;
+}): SavedSearch {
+  const query = (params.query ?? "").trim();
+  parseSearchQuery(query);
+
+  if (
+    params.level !== undefined &&
+    (!Number.isInteger(params.level) || !isValidHeadingLevel(params.level))
+  ) {
+    throw new ValidationError(`Invalid heading level: ${params.level}`);
+  }
+  if (
+    params.tagMatch !== undefined &&
+    params.tagMatch !== "any" &&
+    params.tagMatch !== "all"
+  ) {
+    throw new ValidationError(`Invalid tag match mode: ${params.tagMatch}`);
+  }
+  if (params.sortBy !== undefined && !SORT_FIELDS.includes(params.sortBy)) {
+    throw new ValidationError(`Invalid sort field: ${params.sortBy}`);
+  }
+  if (
+    params.sortOrder !== undefined &&
+    params.sortOrder !== "asc" &&
+    params.sortOrder !== "desc"
+  ) {
+    throw new ValidationError(`Invalid sort order: ${params.sortOrder}`);
+  }
+
+  const tags = normalizeTags(params.tags ?? []);
+
+  return {
+    savedSearchId: params.savedSearchId?.trim() || generateId(),
+    name: normalizeSavedSearchName(params.name),
+    query,
+    ...(params.level !== undefined && { level: params.level }),
+    ...(tags.length > 0 && { tags }),
+    ...(params.tagMatch !== undefined && { tagMatch: params.tagMatch }),
+    ...(params.searchInContent !== undefined && {
+      searchInContent: params.searchInContent,
+    }),
+    ...(params.sortBy !== undefined && { sortBy: params.sortBy }),
+    ...(params.sortOrder !== undefined && { sortOrder: params.sortOrder }),
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Normalizes a saved search name: trims and collapses inner whitespace
+ */
+export function normalizeSavedSearchName(name: string): string {
+  if (typeof name !== "string") {
+    throw new ValidationError(`Saved search name must be a string: ${name}`);
+  }
+
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    throw new ValidationError("Saved search name cannot be empty");
+  }
+  if (normalized.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+    throw new ValidationError(
+      `Saved search name exceeds ${MAX_SAVED_SEARCH_NAME_LENGTH} characters`
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Type guard to check if an object is a valid SavedSearch
+ */
+export function isSavedSearch(obj: any): obj is SavedSearch {
+  return (
+    obj !== null &&
+    obj !== undefined &&
+    typeof obj === "object" &&
+    typeof obj.savedSearchId === "string" &&
+    typeof obj.name === "string" &&
+    typeof obj.query === "string" &&
+    (obj.level === undefined || typeof obj.level === "number") &&
+    (obj.tags === undefined || Array.isArray(obj.tags)) &&
+    obj.createdAt instanceof Date
+  );
+}
+
+/**
+ * Serializes a SavedSearch for storage or transmission
+ */
+export function serializeSavedSearch(
+  savedSearch: SavedSearch
+): Record<string, any> {
+  return {
+    ...savedSearch,
+    ...(savedSearch.tags && { tags: [...savedSearch.tags] }),
+    createdAt: savedSearch.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Deserializes a SavedSearch from stored data
+ *
+ * @throws ValidationError or ParseError if the data is not a valid saved search
+ */
+export function deserializeSavedSearch(data: any): SavedSearch {
+  if (!data || typeof data !== "object") {
+    throw new ValidationError("Invalid data for SavedSearch deserialization");
+  }
+
+  if (typeof data.savedSearchId !== "string" || !data.savedSearchId.trim()) {
+    throw new ValidationError(`Invalid savedSearchId: ${data.savedSearchId}`);
+  }
+  if (data.query !== undefined && typeof data.query !== "string") {
+    throw new ValidationError(`Invalid saved search query: ${data.query}`);
+  }
+
+  const createdAt = new Date(data.createdAt);
+  if (isNaN(createdAt.getTime())) {
+    throw new ValidationError(`Invalid date: ${data.createdAt}`);
+  }
+
+  return {
+    ...createSavedSearch({
+      name: data.name,
+      query: data.query,
+      level: data.level,
+      tags: Array.isArray(data.tags) ? data.tags : undefined,
+      tagMatch: data.tagMatch,
+      searchInContent:
+        typeof data.searchInContent === "boolean"
+          ? data.searchInContent
+          : undefined,
+      sortBy: data.sortBy,
+      sortOrder: data.sortOrder,
+      savedSearchId: data.savedSearchId,
+    }),
+    createdAt,
+  };
+}
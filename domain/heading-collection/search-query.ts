@@ -0,0 +1,212 @@
+/**
+ * Search Query
+ * Parses the structured query syntax of the search box
+ */
+
+import { ParseError } from "../shared";
+import {
+  normalizeTag,
+  MAX_HEADING_LEVEL,
+  MIN_HEADING_LEVEL,
+} from "./heading-section";
+
+/**
+ * A parsed search query
+ *
+ * Example: level:2 repo:facebook/react after:2026-01-01 tag:auth "exact phrase" -excluded
+ *
+ * Dates are written as YYYY-MM-DD or relative to today, as a number of days or
+ * weeks ago: after:30d is the day 30 days before today.
+ */
+export interface SearchQuery {
+  /** Words that must match, typos allowed */
+  readonly terms: ReadonlyArray<string>;
+  /** Quoted text that must appear as written */
+  readonly phrases: ReadonlyArray<string>;
+  /** Words or quoted text that must not appear */
+  readonly excluded: ReadonlyArray<string>;
+  readonly level?: number;
+  /** Repository as "owner/name" */
+  readonly repo?: string;
+  /** Sections added on or after this time */
+  readonly after?: Date;
+  /** Sections added before this time */
+  readonly before?: Date;
+  /** Tags the sections must all have */
+  readonly tags: ReadonlyArray<string>;
+}
+
+export const SEARCH_QUERY_FIELDS: ReadonlyArray<string> = [
+  "level",
+  "repo",
+  "tag",
+  "after",
+  "before",
+];
+
+// An optional "-", an optional "field:", then a quoted or a bare value
+const QUERY_TOKEN = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S*))/y;
+
+/**
+ * Parses a search query into its fields and text
+ *
+ * @param input - The text typed in the search box
+ * @param now - Time that relative dates count back from
+ * @returns The parsed query
+ * @throws ParseError if a field is unknown, repeated or has an invalid value
+ */
+export function parseSearchQuery(
+  input: string,
+  now: Date = new Date()
+): SearchQuery {
+  const terms: string[] = [];
+  const phrases: string[] = [];
+  const excluded: string[] = [];
+  const tags: string[] = [];
+  const fields: {
+    level?: number;
+    repo?: string;
+    after?: Date;
+    before?: Date;
+  } = {};
+
+  let position = 0;
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+
+    QUERY_TOKEN.lastIndex = position;
+    const match = QUERY_TOKEN.exec(input)!;
+    position = QUERY_TOKEN.lastIndex;
+
+    const [token, negated, rawField, quoted, bare] = match;
+    const value = (quoted ?? bare).trim();
+
+    // URLs such as https://... and words ending in a colon, such as "note:",
+    // are text, not fields
+    const field = rawField?.toLowerCase();
+    if (
+      field &&
+      !(bare ?? "").startsWith("//") &&
+      (value || SEARCH_QUERY_FIELDS.includes(field))
+    ) {
+      if (!SEARCH_QUERY_FIELDS.includes(field)) {
+        throw new ParseError(
+          `Unknown search field "${rawField}:". Use ${SEARCH_QUERY_FIELDS.map(
+            (name) => `${name}:`
+          ).join(", ")}`
+        );
+      }
+      if (negated) {
+        throw new ParseError(`"${field}:" cannot be excluded with "-"`);
+      }
+      if (!value) {
+        throw new ParseError(`"${field}:" needs a value`);
+      }
+      if (field === "tag") {
+        tags.push(normalizeTag(value));
+        continue;
+      }
+      if (field in fields) {
+        throw new ParseError(`"${field}:" can only be used once`);
+      }
+      parseField(field, value, fields, now);
+      continue;
+    }
+
+    const text = rawField ? token.slice(negated.length) : value;
+    if (!text) {
+      continue;
+    }
+    if (negated) {
+      excluded.push(text);
+    } else if (quoted !== undefined && !rawField) {
+      phrases.push(value);
+    } else {
+      terms.push(text);
+    }
+  }
+
+  if (fields.after && fields.before && fields.after >= fields.before) {
+    throw new ParseError('"after:" must be earlier than "before:"');
+  }
+
+  return { terms, phrases, excluded, tags, ...fields };
+}
+
+/**
+ * Checks whether a query only has text, no fields
+ */
+export function isTextOnlySearchQuery(query: SearchQuery): boolean {
+  return (
+    query.level === undefined &&
+    query.repo === undefined &&
+    query.after === undefined &&
+    query.before === undefined &&
+    query.tags.length === 0
+  );
+}
+
+function parseField(
+  field: string,
+  value: string,
+  fields: { level?: number; repo?: string; after?: Date; before?: Date },
+  now: Date
+): void {
+  switch (field) {
+    case "level": {
+      const level = Number(value.replace(/^h/i, ""));
+      if (
+        !Number.isInteger(level) ||
+        level < MIN_HEADING_LEVEL ||
+        level > MAX_HEADING_LEVEL
+      ) {
+        throw new ParseError(
+          `"level:" must be a number from ${MIN_HEADING_LEVEL} to ${MAX_HEADING_LEVEL}, got "${value}"`
+        );
+      }
+      fields.level = level;
+      break;
+    }
+    case "repo":
+      if (!/^[^/\s]+\/[^/\s]+$/.test(value)) {
+        throw new ParseError(
+          `"repo:" must be written as owner/name, got "${value}"`
+        );
+      }
+      fields.repo = value;
+      break;
+    case "after":
+    case "before":
+      fields[field] = parseDate(field, value, now);
+      break;
+  }
+}
+
+// Dates are days in local time, as shown in the side panel
+function parseDate(field: string, value: string, now: Date): Date {
+  const relative = /^(\d{1,4})([dw])$/i.exec(value);
+  if (relative) {
+    const days =
+      Number(relative[1]) * (relative[2].toLowerCase() === "w" ? 7 : 1);
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() - days);
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : null;
+  if (
+    !date ||
+    date.getFullYear() !== Number(match![1]) ||
+    date.getMonth() !== Number(match![2]) - 1 ||
+    date.getDate() !== Number(match![3])
+  ) {
+    throw new ParseError(
+      `"${field}:" must be a date written as YYYY-MM-DD or as days or weeks ago (30d, 2w), got "${value}"`
+    );
+  }
+  return date;
+}
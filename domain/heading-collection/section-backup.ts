@@ -0,0 +1,145 @@
+/**
+ * Versioned JSON backup of all collected sections and their collections
+ */
+
+import { ValidationError } from "../shared";
+import {
+  Collection,
+  deserializeCollection,
+  serializeCollection,
+} from "./collection";
+import {
+  HeadingSection,
+  deserializeHeadingSection,
+  isHeadingSection,
+  serializeHeadingSection,
+} from "./heading-section";
+
+export const SECTION_BACKUP_FORMAT = "deepwiki-pp-backup";
+export const SECTION_BACKUP_VERSION = 1;
+
+/**
+ * Backup file content, as written to JSON
+ */
+export interface SectionBackup {
+  format: typeof SECTION_BACKUP_FORMAT;
+  /** Version of the backup format */
+  version: number;
+  exportedAt: string;
+  sections: Record<string, any>[];
+  collections: Record<string, any>[];
+}
+
+/**
+ * An entry of a backup that cannot be restored
+ */
+export interface RejectedBackupEntry {
+  /** Position of the entry in the backup's sections */
+  index: number;
+  sectionId?: string;
+  title?: string;
+  /** Why the entry was rejected */
+  reason: string;
+}
+
+/**
+ * Valid content read from a backup
+ */
+export interface SectionBackupContent {
+  /** Valid sections with their position in the backup */
+  sections: { index: number; section: HeadingSection }[];
+  collections: Collection[];
+  rejected: RejectedBackupEntry[];
+}
+
+/**
+ * Creates a backup of the given sections and collections
+ */
+export function createSectionBackup(
+  sections: ReadonlyArray<HeadingSection>,
+  collections: ReadonlyArray<Collection>,
+  exportedAt: Date = new Date()
+): SectionBackup {
+  return {
+    format: SECTION_BACKUP_FORMAT,
+    version: SECTION_BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    sections: sections.map(serializeHeadingSection),
+    collections: collections.map(serializeCollection),
+  };
+}
+
+/**
+ * Reads a backup, validating each section on its own
+ *
+ * Sections that cannot be deserialized are reported as rejected instead of
+ * failing the whole backup. Collections that cannot be read are dropped.
+ *
+ * @param data - Parsed backup file content
+ * @returns The valid sections and collections and the rejected entries
+ * @throws ValidationError if the data is not a backup of a supported version
+ */
+export function readSectionBackup(data: unknown): SectionBackupContent {
+  if (
+    !data ||
+    typeof data !== "object" ||
+    (data as any).format !== SECTION_BACKUP_FORMAT
+  ) {
+    throw new ValidationError("The file is not a DeepWiki++ backup");
+  }
+
+  const backup = data as Partial<SectionBackup>;
+  if (
+    typeof backup.version !== "number" ||
+    !Number.isInteger(backup.version) ||
+    backup.version < 1
+  ) {
+    throw new ValidationError(`Invalid backup version: ${backup.version}`);
+  }
+  if (backup.version > SECTION_BACKUP_VERSION) {
+    throw new ValidationError(
+      `Backup version ${backup.version} is newer than supported (${SECTION_BACKUP_VERSION}). Please update the extension.`
+    );
+  }
+  if (!Array.isArray(backup.sections)) {
+    throw new ValidationError("Backup has no sections list");
+  }
+
+  const sections: SectionBackupContent["sections"] = [];
+  const rejected: RejectedBackupEntry[] = [];
+
+  backup.sections.forEach((entry, index) => {
+    const sectionId =
+      typeof entry?.sectionId === "string" ? entry.sectionId : undefined;
+    const title =
+      typeof entry?.titleText === "string" ? entry.titleText : undefined;
+
+    try {
+      const section = deserializeHeadingSection(entry);
+      if (!isHeadingSection(section)) {
+        throw new ValidationError("Section has fields of the wrong type");
+      }
+      sections.push({ index, section });
+    } catch (error) {
+      rejected.push({
+        index,
+        sectionId,
+        title,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  const collections: Collection[] = [];
+  for (const entry of Array.isArray(backup.collections)
+    ? backup.collections
+    : []) {
+    try {
+      collections.push(deserializeCollection(entry));
+    } catch {
+      // A collection that cannot be read leaves its sections in the default one
+    }
+  }
+
+  return { sections, collections, rejected };
+}
@@ -0,0 +1,111 @@
+/**
+ * Section Outline
+ * Rebuilds the heading hierarchy of stored sections
+ */
+
+import { Url, getPageUrl } from "../shared";
+import { HeadingSection } from "./heading-section";
+
+/**
+ * A section with the sections nested under it
+ */
+export interface SectionOutlineNode {
+  readonly section: HeadingSection;
+  readonly children: ReadonlyArray<SectionOutlineNode>;
+}
+
+/**
+ * The outline of the stored sections of one page
+ */
+export interface PageOutline {
+  /** Page URL without query and fragment */
+  readonly pageUrl: Url;
+  readonly roots: ReadonlyArray<SectionOutlineNode>;
+}
+
+interface OutlineBuilderNode {
+  section: HeadingSection;
+  children: OutlineBuilderNode[];
+}
+
+/**
+ * Orders sections of the same page as they appear on the page. Sections
+ * captured before positions were recorded follow in the order they were added.
+ */
+export function compareSectionPosition(
+  a: HeadingSection,
+  b: HeadingSection
+): number {
+  const positionA = a.position ?? Number.MAX_SAFE_INTEGER;
+  const positionB = b.position ?? Number.MAX_SAFE_INTEGER;
+  if (positionA !== positionB) {
+    return positionA - positionB;
+  }
+  // Sections passed in messages carry their dates as strings
+  return new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime();
+}
+
+/**
+ * Builds the heading hierarchy of sections from the same page
+ *
+ * Like on the page itself, a section belongs to the closest preceding section
+ * with a lower heading level. A section whose parent heading was not stored
+ * moves up to the nearest stored ancestor, or becomes a root.
+ */
+export function buildSectionOutline(
+  sections: ReadonlyArray<HeadingSection>
+): SectionOutlineNode[] {
+  const roots: OutlineBuilderNode[] = [];
+  const stack: OutlineBuilderNode[] = [];
+
+  for (const section of [...sections].sort(compareSectionPosition)) {
+    const node: OutlineBuilderNode = { section, children: [] };
+
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].section.level >= section.level
+    ) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Groups sections by page and builds the outline of each page; pages keep
+ * the order in which they first appear in the given sections
+ */
+export function buildPageOutlines(
+  sections: ReadonlyArray<HeadingSection>
+): PageOutline[] {
+  const byPage = new Map<Url, HeadingSection[]>();
+  for (const section of sections) {
+    const pageUrl = getPageUrl(section.sourceUrl);
+    byPage.set(pageUrl, [...(byPage.get(pageUrl) ?? []), section]);
+  }
+
+  return Array.from(byPage, ([pageUrl, pageSections]) => ({
+    pageUrl,
+    roots: buildSectionOutline(pageSections),
+  }));
+}
+
+/**
+ * Counts the sections in an outline
+ */
+export function countOutlineSections(
+  nodes: ReadonlyArray<SectionOutlineNode>
+): number {
+  return nodes.reduce(
+    (count, node) => count + 1 + countOutlineSections(node.children),
+    0
+  );
+}
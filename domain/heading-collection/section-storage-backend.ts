@@ -0,0 +1,55 @@
+/**
+ * Section Storage Backend
+ * Setting that chooses where heading sections are stored
+ */
+
+/**
+ * Where heading sections are stored: under chrome.storage keys on this
+ * device, one IndexedDB record per section for large collections, or
+ * compressed in chrome.storage.sync to follow the browser profile
+ */
+export type SectionStorageBackend =
+  | "chrome-storage"
+  | "indexeddb"
+  | "chrome-sync";
+
+export const SECTION_STORAGE_BACKENDS: ReadonlyArray<SectionStorageBackend> = [
+  "chrome-storage",
+  "indexeddb",
+  "chrome-sync",
+];
+
+export const DEFAULT_SECTION_STORAGE_BACKEND: SectionStorageBackend =
+  "chrome-storage";
+
+/**
+ * Type guard to check if a value names a section storage backend
+ */
+export function isSectionStorageBackend(
+  value: unknown
+): value is SectionStorageBackend {
+  return SECTION_STORAGE_BACKENDS.includes(value as SectionStorageBackend);
+}
+
+/**
+ * What the chrome-sync backend syncs: the metadata of sections (titles, URLs,
+ * notes, tags and collections) with their content kept on each device, or
+ * the full sections including content and earlier versions
+ */
+export type SectionSyncContent = "metadata" | "full";
+
+export const SECTION_SYNC_CONTENTS: ReadonlyArray<SectionSyncContent> = [
+  "metadata",
+  "full",
+];
+
+export const DEFAULT_SECTION_SYNC_CONTENT: SectionSyncContent = "metadata";
+
+/**
+ * Type guard to check if a value names what sections sync
+ */
+export function isSectionSyncContent(
+  value: unknown
+): value is SectionSyncContent {
+  return SECTION_SYNC_CONTENTS.includes(value as SectionSyncContent);
+}
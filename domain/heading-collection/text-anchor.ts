@@ -0,0 +1,154 @@
+/**
+ * Text Anchor Value Object
+ * Locates a text selection inside a page so it can be found again after the
+ * page is reloaded or slightly edited
+ */
+
+import { ValidationError } from "../shared";
+
+/** Number of characters kept on each side of the selection */
+export const TEXT_ANCHOR_CONTEXT_LENGTH = 32;
+
+/**
+ * A text quote selector combined with a text position selector: the position
+ * is tried first, the quote and its surroundings are used when the text moved
+ */
+export interface TextAnchor {
+  /** The selected text */
+  readonly exact: string;
+  /** Text immediately before the selection */
+  readonly prefix: string;
+  /** Text immediately after the selection */
+  readonly suffix: string;
+  /** Offset of the selection start in the page text */
+  readonly start: number;
+  /** Offset of the selection end in the page text (exclusive) */
+  readonly end: number;
+}
+
+/**
+ * A resolved character range in the page text
+ */
+export interface TextRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Creates an anchor for the given range of the page text
+ *
+ * @param text - The full text of the page content
+ * @param start - Offset of the selection start
+ * @param end - Offset of the selection end (exclusive)
+ * @throws ValidationError if the range is empty or out of bounds
+ */
+export function createTextAnchor(
+  text: string,
+  start: number,
+  end: number
+): TextAnchor {
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(end) ||
+    start < 0 ||
+    end > text.length ||
+    start >= end
+  ) {
+    throw new ValidationError(`Invalid text range: ${start}-${end}`);
+  }
+
+  return {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - TEXT_ANCHOR_CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + TEXT_ANCHOR_CONTEXT_LENGTH),
+    start,
+    end,
+  };
+}
+
+/**
+ * Finds the anchored text in the (possibly changed) page text
+ *
+ * The stored position is used when it still holds the exact text. Otherwise
+ * every occurrence of the text is scored by how much of the prefix and suffix
+ * still surrounds it, preferring the occurrence closest to the old position.
+ *
+ * @returns The range of the text, or null when it no longer exists
+ */
+export function resolveTextAnchor(
+  text: string,
+  anchor: TextAnchor
+): TextRange | null {
+  if (!anchor.exact) {
+    return null;
+  }
+
+  if (text.slice(anchor.start, anchor.end) === anchor.exact) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (
+    let index = text.indexOf(anchor.exact);
+    index !== -1;
+    index = text.indexOf(anchor.exact, index + 1)
+  ) {
+    const score =
+      commonSuffixLength(text.slice(0, index), anchor.prefix) +
+      commonPrefixLength(
+        text.slice(index + anchor.exact.length),
+        anchor.suffix
+      );
+    const distance = Math.abs(index - anchor.start);
+
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && distance < best.distance)
+    ) {
+      best = { start: index, score, distance };
+    }
+  }
+
+  return best
+    ? { start: best.start, end: best.start + anchor.exact.length }
+    : null;
+}
+
+/**
+ * Type guard to check if an object is a valid TextAnchor
+ */
+export function isTextAnchor(obj: any): obj is TextAnchor {
+  return (
+    obj !== null &&
+    typeof obj === "object" &&
+    typeof obj.exact === "string" &&
+    obj.exact.length > 0 &&
+    typeof obj.prefix === "string" &&
+    typeof obj.suffix === "string" &&
+    Number.isInteger(obj.start) &&
+    Number.isInteger(obj.end) &&
+    obj.start >= 0 &&
+    obj.end > obj.start
+  );
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
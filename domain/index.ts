@@ -16,7 +16,6 @@ export {
   type Result,
   generateId,
   isValidUrl,
-  sanitizeHtml,
   deepClone,
 } from "./shared";
 
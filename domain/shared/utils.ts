@@ -24,14 +24,16 @@ export function isValidUrl(url: string): boolean {
 }
 
 /**
- * Sanitize HTML content
+ * Reduce a URL to the page it identifies, ignoring query, fragment and a
+ * trailing slash (invalid URLs are returned unchanged)
  */
-export function sanitizeHtml(html: string): string {
-  // Basic HTML sanitization - in a real app, use a proper sanitization library
-  return html.replace(
-    /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
-    ""
-  );
+export function getPageUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url;
+  }
 }
 
 /**
@@ -1,26 +1,92 @@
 import { TabSwitchUseCase } from "../../application/usecases/tab-switch";
 import { ChromeStorageSettingsRepository } from "../../infrastructure/repositories/chrome/settings/chrome-storage-settings-repository";
 import { ChromeStorageHeadingSectionRepository } from "../../infrastructure/repositories/chrome/heading-section/chrome-storage-heading-section-repository";
+import { SECTION_SYNC_CONTENT_KEY } from "../../infrastructure/repositories/chrome/heading-section/storage-keys";
+import { ChromeStorageCollectionRepository } from "../../infrastructure/repositories/chrome/collection";
+import {
+  CURRENT_SCHEMA_VERSION,
+  StorageMigrationRunner,
+} from "../../infrastructure/repositories/chrome/migrations";
+import { ChromeStorageClipRepository } from "../../infrastructure/repositories/chrome/clip";
+import { ChromeStorageSavedSearchRepository } from "../../infrastructure/repositories/chrome/saved-search";
+import { IndexedDbHeadingSectionRepository } from "../../infrastructure/repositories/indexeddb";
+import {
+  SECTION_STORAGE_BACKEND_KEY,
+  SwitchableHeadingSectionRepository,
+} from "../../infrastructure/repositories/section-backend";
 import { ChromeTabGateway } from "../../infrastructure/gateways/tab/chrome-tab-gateway";
 import {
   AddHeadingSectionUseCase,
+  AddHeadingSectionsUseCase,
   GetHeadingSectionsUseCase,
   RemoveHeadingSectionUseCase,
   ClearAllHeadingSectionsUseCase,
+  UpdateHeadingSectionTagsUseCase,
+  UpdateHeadingSectionUseCase,
+  GetCollectionsUseCase,
+  CreateCollectionUseCase,
+  RenameCollectionUseCase,
+  DeleteCollectionUseCase,
+  SetActiveCollectionUseCase,
+  CheckSectionFreshnessUseCase,
+  AddClipUseCase,
+  GetClipsUseCase,
+  RemoveClipUseCase,
+  ExportBackupUseCase,
+  ImportBackupUseCase,
+  CreateSavedSearchUseCase,
+  GetSavedSearchesUseCase,
+  DeleteSavedSearchUseCase,
 } from "../../application/usecases/heading-collection";
 import { Message } from "../../shared/messaging";
 
 export default defineBackground(() => {
   console.log("Background script started");
 
+  const migrationRunner = new StorageMigrationRunner({
+    local: chrome.storage.local,
+    sync: chrome.storage.sync,
+  });
+  let migrationRun: Promise<void> | null = null;
+
+  // Bring stored data up to the current schema version after an install or
+  // update, restoring the previous data if a migration fails
+  chrome.runtime.onInstalled.addListener(() => {
+    runMigrations();
+  });
+
+  // Messages can reach the worker before onInstalled does, and a worker
+  // stopped during a migration never gets it again, so section calls also
+  // wait for a check of the schema version. Current data costs one read.
+  const storageMigrated = checkSchemaVersion();
+
   // Initialize dependencies
   const settingsPort = new ChromeStorageSettingsRepository();
-  const headingSectionRepository = new ChromeStorageHeadingSectionRepository();
+  // Sections are stored in the backend chosen in the options page
+  const syncedSectionRepository = new ChromeStorageHeadingSectionRepository({
+    useSync: true,
+  });
+  // Section calls wait for the migrations, so none writes to older data
+  const headingSectionRepository = new SwitchableHeadingSectionRepository(
+    {
+      "chrome-storage": new ChromeStorageHeadingSectionRepository(),
+      indexeddb: new IndexedDbHeadingSectionRepository(),
+      "chrome-sync": syncedSectionRepository,
+    },
+    chrome.storage.local,
+    storageMigrated
+  );
+  const collectionRepository = new ChromeStorageCollectionRepository();
+  const clipRepository = new ChromeStorageClipRepository();
+  const savedSearchRepository = new ChromeStorageSavedSearchRepository();
   const tabGateway = new ChromeTabGateway();
   const tabSwitchUseCase = new TabSwitchUseCase(settingsPort);
   const addHeadingSectionUseCase = new AddHeadingSectionUseCase(
     headingSectionRepository
   );
+  const addHeadingSectionsUseCase = new AddHeadingSectionsUseCase(
+    headingSectionRepository
+  );
   const getHeadingSectionsUseCase = new GetHeadingSectionsUseCase(
     headingSectionRepository
   );
@@ -30,6 +96,123 @@ export default defineBackground(() => {
   const clearAllHeadingSectionsUseCase = new ClearAllHeadingSectionsUseCase(
     headingSectionRepository
   );
+  const updateHeadingSectionTagsUseCase = new UpdateHeadingSectionTagsUseCase(
+    headingSectionRepository
+  );
+  const updateHeadingSectionUseCase = new UpdateHeadingSectionUseCase(
+    headingSectionRepository
+  );
+  const getCollectionsUseCase = new GetCollectionsUseCase(
+    collectionRepository,
+    headingSectionRepository
+  );
+  const createCollectionUseCase = new CreateCollectionUseCase(
+    collectionRepository
+  );
+  const renameCollectionUseCase = new RenameCollectionUseCase(
+    collectionRepository
+  );
+  const deleteCollectionUseCase = new DeleteCollectionUseCase(
+    collectionRepository,
+    headingSectionRepository,
+    clipRepository
+  );
+  const setActiveCollectionUseCase = new SetActiveCollectionUseCase(
+    collectionRepository
+  );
+  const checkSectionFreshnessUseCase = new CheckSectionFreshnessUseCase(
+    headingSectionRepository
+  );
+  const addClipUseCase = new AddClipUseCase(clipRepository);
+  const getClipsUseCase = new GetClipsUseCase(clipRepository);
+  const removeClipUseCase = new RemoveClipUseCase(clipRepository);
+  const exportBackupUseCase = new ExportBackupUseCase(
+    headingSectionRepository,
+    collectionRepository
+  );
+  const importBackupUseCase = new ImportBackupUseCase(
+    headingSectionRepository,
+    collectionRepository
+  );
+  const createSavedSearchUseCase = new CreateSavedSearchUseCase(
+    savedSearchRepository
+  );
+  const getSavedSearchesUseCase = new GetSavedSearchesUseCase(
+    savedSearchRepository,
+    getHeadingSectionsUseCase
+  );
+  const deleteSavedSearchUseCase = new DeleteSavedSearchUseCase(
+    savedSearchRepository
+  );
+
+  // Runs the pending storage migrations once per worker; never rejects
+  function runMigrations(): Promise<void> {
+    migrationRun ??= migrateStorage();
+    return migrationRun;
+  }
+
+  // Migrates only when the stored schema is older than this version's;
+  // never rejects
+  async function checkSchemaVersion(): Promise<void> {
+    try {
+      if (
+        (await migrationRunner.getSchemaVersion()) >= CURRENT_SCHEMA_VERSION
+      ) {
+        return;
+      }
+    } catch (error) {
+      console.error("Background: Error reading storage schema version:", error);
+    }
+    await runMigrations();
+  }
+
+  // Runs the pending storage migrations, restoring the previous data if one
+  // fails; never rejects
+  async function migrateStorage(): Promise<void> {
+    try {
+      const result = await migrationRunner.run();
+
+      if (result.success) {
+        console.log(
+          `Background: Storage schema v${result.fromVersion} -> v${
+            result.toVersion
+          }, applied: [${result.applied.join(", ")}]`
+        );
+      } else {
+        console.error(
+          `Background: Storage migration failed (rolled back: ${result.rolledBack}):`,
+          result.error
+        );
+      }
+    } catch (error) {
+      console.error("Background: Error migrating storage:", error);
+    }
+  }
+
+  // Switch to the newly chosen backend and move the sections right away, so
+  // the options page learns whether that worked
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && changes[SECTION_STORAGE_BACKEND_KEY]) {
+      headingSectionRepository.reset();
+      headingSectionRepository.getSectionCount().catch((error) => {
+        console.error("Background: Error selecting section storage:", error);
+      });
+    }
+  });
+
+  // Sync or unsync the content of synced sections as the setting now asks
+  chrome.storage.onChanged.addListener(async (changes, areaName) => {
+    if (areaName === "local" && changes[SECTION_SYNC_CONTENT_KEY]) {
+      await storageMigrated;
+      const result = await syncedSectionRepository.resyncSections();
+      if (!result.success) {
+        console.error(
+          "Background: Error resyncing sections:",
+          result.error.message
+        );
+      }
+    }
+  });
 
   // Main switching logic
   async function switchTab(tabId: number, url?: string): Promise<void> {
@@ -112,7 +295,11 @@ export default defineBackground(() => {
             );
 
             if (result.success) {
-              sendResponse({ success: true, sectionId: result.sectionId });
+              sendResponse({
+                success: true,
+                sectionId: result.sectionId,
+                status: result.status,
+              });
             } else {
               sendResponse({
                 success: false,
@@ -131,11 +318,50 @@ export default defineBackground(() => {
         return true; // Will respond asynchronously
       }
 
+      if (request.action === "addHeadingSections") {
+        console.log(
+          "Background: Adding heading sections:",
+          request.input.sections.length
+        );
+
+        addHeadingSectionsUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                added: result.added,
+                skipped: result.skipped,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error adding heading sections:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to add heading sections",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
       if (request.action === "getHeadingSections") {
         console.log("Background: Getting heading sections");
 
+        const input = request.input || {};
         getHeadingSectionsUseCase
-          .execute(request.input || {})
+          .execute({
+            ...input,
+            // Dates arrive as strings after messaging
+            ...(input.startDate && { startDate: new Date(input.startDate) }),
+            ...(input.endDate && { endDate: new Date(input.endDate) }),
+          })
           .then((result) => {
             console.log("Background: Get heading sections result:", result);
 
@@ -144,6 +370,7 @@ export default defineBackground(() => {
                 success: true,
                 sections: result.sections,
                 totalCount: result.totalCount,
+                matchedTerms: result.matchedTerms,
                 metadata: result.metadata,
               });
             } else {
@@ -232,6 +459,471 @@ export default defineBackground(() => {
           });
         return true; // Will respond asynchronously
       }
+
+      if (request.action === "updateHeadingSectionTags") {
+        console.log("Background: Updating section tags:", request.input);
+
+        updateHeadingSectionTagsUseCase
+          .execute(request.input)
+          .then((result) => {
+            console.log("Background: Tag update result:", result);
+
+            if (result.success) {
+              sendResponse({
+                success: true,
+                sectionId: result.sectionId,
+                tags: result.tags,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error updating section tags:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to update section tags",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "updateHeadingSection") {
+        console.log("Background: Updating heading section:", request.input);
+
+        updateHeadingSectionUseCase
+          .execute(request.input)
+          .then((result) => {
+            console.log("Background: Section update result:", result);
+
+            if (result.success) {
+              sendResponse({ success: true, section: result.section });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error updating heading section:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to update heading section",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "getCollections") {
+        getCollectionsUseCase
+          .execute()
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                collections: result.collections,
+                sectionCounts: result.sectionCounts,
+                activeCollectionId: result.activeCollectionId,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error getting collections:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to get collections",
+              collections: [],
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "createCollection") {
+        console.log("Background: Creating collection:", request.input);
+
+        createCollectionUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({ success: true, collection: result.collection });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error creating collection:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to create collection",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "renameCollection") {
+        console.log("Background: Renaming collection:", request.input);
+
+        renameCollectionUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({ success: true, collection: result.collection });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error renaming collection:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to rename collection",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "deleteCollection") {
+        console.log("Background: Deleting collection:", request.input);
+
+        deleteCollectionUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                collectionId: result.collectionId,
+                movedToDefaultCount: result.movedToDefaultCount,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error deleting collection:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to delete collection",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "setActiveCollection") {
+        console.log("Background: Switching active collection:", request.input);
+
+        setActiveCollectionUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                activeCollectionId: result.activeCollectionId,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error switching collection:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to switch collection",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "checkSectionFreshness") {
+        console.log(
+          "Background: Checking saved sections against the live page:",
+          request.input.sourceUrl
+        );
+
+        checkSectionFreshnessUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                checkedCount: result.checkedCount,
+                changedSectionIds: result.changedSectionIds,
+                removedSectionIds: result.removedSectionIds,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error checking sections:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to check sections",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "addClip") {
+        console.log("Background: Adding clip:", request.input.sourceUrl);
+
+        addClipUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({ success: true, clip: result.clip });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error adding clip:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to add clip",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "getClips") {
+        console.log("Background: Getting clips");
+
+        getClipsUseCase
+          .execute(request.input || {})
+          .then((result) => {
+            if (result.success) {
+              sendResponse({ success: true, clips: result.clips });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+                clips: [],
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error getting clips:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to get clips",
+              clips: [],
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "removeClip") {
+        console.log("Background: Removing clip:", request.input.clipId);
+
+        removeClipUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                removedClipId: result.removedClipId,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error removing clip:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to remove clip",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "exportBackup") {
+        console.log("Background: Exporting backup");
+
+        exportBackupUseCase
+          .execute()
+          .then((result) => {
+            if (result.success) {
+              sendResponse({ success: true, backup: result.backup });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error exporting backup:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to export backup",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "importBackup") {
+        console.log(
+          "Background: Importing backup with strategy:",
+          request.input.conflictStrategy
+        );
+
+        importBackupUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                added: result.added,
+                overwritten: result.overwritten,
+                skipped: result.skipped,
+                collectionsAdded: result.collectionsAdded,
+                rejected: result.rejected,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error importing backup:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to import backup",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "getSavedSearches") {
+        getSavedSearchesUseCase
+          .execute()
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                savedSearches: result.savedSearches,
+                sectionCounts: result.sectionCounts,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+                savedSearches: [],
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error getting saved searches:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to get saved searches",
+              savedSearches: [],
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "createSavedSearch") {
+        console.log("Background: Saving search:", request.input);
+
+        createSavedSearchUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({ success: true, savedSearch: result.savedSearch });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error saving search:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to save search",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
+
+      if (request.action === "deleteSavedSearch") {
+        console.log("Background: Deleting saved search:", request.input);
+
+        deleteSavedSearchUseCase
+          .execute(request.input)
+          .then((result) => {
+            if (result.success) {
+              sendResponse({
+                success: true,
+                savedSearchId: result.savedSearchId,
+              });
+            } else {
+              sendResponse({
+                success: false,
+                error: result.message,
+                errorCode: result.errorCode,
+              });
+            }
+          })
+          .catch((error) => {
+            console.error("Background: Error deleting saved search:", error);
+            sendResponse({
+              success: false,
+              error: error.message || "Failed to delete saved search",
+            });
+          });
+        return true; // Will respond asynchronously
+      }
     }
   );
 
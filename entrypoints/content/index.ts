@@ -1,6 +1,23 @@
-import { ChromeDomGateway } from "../../infrastructure/gateways/dom";
-import { isHeadingSection } from "../../domain/heading-collection/heading-section";
-import { AddHeadingSectionMessage } from "../../shared/messaging";
+import {
+  AddedHeadingSection,
+  SkippedHeadingSection,
+} from "../../application/usecases/heading-collection";
+import {
+  CapturedSelection,
+  ChromeDomGateway,
+} from "../../infrastructure/gateways/dom";
+import {
+  HeadingSection,
+  isHeadingSection,
+} from "../../domain/heading-collection/heading-section";
+import {
+  AddClipMessage,
+  AddHeadingSectionMessage,
+  AddHeadingSectionsMessage,
+  CheckSectionFreshnessMessage,
+  GetClipsMessage,
+  GetCollectionsMessage,
+} from "../../shared/messaging";
 
 export default defineContentScript({
   matches: ["https://deepwiki.com/*"],
@@ -29,6 +46,113 @@ export default defineContentScript({
       return domGateway.isValidDeepWikiPage();
     }
 
+    // Look up the collection selected in the side panel
+    async function getActiveCollectionId(): Promise<string | undefined> {
+      try {
+        const message: GetCollectionsMessage = { action: "getCollections" };
+        const response = await chrome.runtime.sendMessage(message);
+        return response?.success ? response.activeCollectionId : undefined;
+      } catch (error) {
+        console.warn("DeepWiki++: Could not get active collection:", error);
+        return undefined;
+      }
+    }
+
+    // Let the background mark saved sections that no longer match this page
+    function checkSectionFreshness(sections: HeadingSection[]): void {
+      const message: CheckSectionFreshnessMessage = {
+        action: "checkSectionFreshness",
+        input: {
+          sourceUrl: window.location.href,
+          liveSections: sections.map((section) => ({
+            level: section.level,
+            title: section.titleText,
+            content: section.contentHtml,
+            headingPath: section.headingPath && [...section.headingPath],
+          })),
+        },
+      };
+
+      chrome.runtime.sendMessage(message, (response) => {
+        if (chrome.runtime.lastError) {
+          console.error(
+            "DeepWiki++: Error checking saved sections:",
+            chrome.runtime.lastError
+          );
+          return;
+        }
+
+        if (response?.success) {
+          console.log(
+            `DeepWiki++: Checked ${response.checkedCount} saved sections (${response.changedSectionIds.length} changed, ${response.removedSectionIds.length} removed upstream)`
+          );
+        } else {
+          console.warn(
+            "DeepWiki++: Failed to check saved sections:",
+            response?.error
+          );
+        }
+      });
+    }
+
+    // Highlight clips saved from this page
+    async function highlightSavedClips(contentArea: Element): Promise<void> {
+      try {
+        const message: GetClipsMessage = {
+          action: "getClips",
+          input: { sourceUrl: window.location.href },
+        };
+        const response = await chrome.runtime.sendMessage(message);
+        if (!response?.success || response.clips.length === 0) {
+          return;
+        }
+
+        domGateway.removeClipHighlights();
+        const found = domGateway.highlightClips(contentArea, response.clips);
+        console.log(
+          `DeepWiki++: Highlighted ${found}/${response.clips.length} saved clips`
+        );
+      } catch (error) {
+        console.warn("DeepWiki++: Could not highlight saved clips:", error);
+      }
+    }
+
+    // Save a text selection as a clip linked to its nearest heading
+    async function handleClipSelection(
+      contentArea: Element,
+      selection: CapturedSelection
+    ): Promise<void> {
+      try {
+        const activeCollectionId = await getActiveCollectionId();
+        const message: AddClipMessage = {
+          action: "addClip",
+          input: {
+            sourceUrl: window.location.href,
+            contentHtml: selection.contentHtml,
+            anchor: selection.anchor,
+            ...(selection.heading && { heading: selection.heading }),
+            ...(activeCollectionId && { collectionIds: [activeCollectionId] }),
+          },
+        };
+
+        const response = await chrome.runtime.sendMessage(message);
+        if (response?.success) {
+          console.log("DeepWiki++: Clip saved:", response.clip.clipId);
+          window.getSelection()?.removeAllRanges();
+          domGateway.highlightClips(contentArea, [response.clip]);
+        } else {
+          console.error(
+            "DeepWiki++: Failed to save clip:",
+            response?.error,
+            "Code:",
+            response?.errorCode
+          );
+        }
+      } catch (error) {
+        console.error("DeepWiki++: Error saving clip:", error);
+      }
+    }
+
     // Handle adding heading sections
     async function handleAddHeading(section: any): Promise<void> {
       try {
@@ -39,6 +163,9 @@ export default defineContentScript({
           return;
         }
 
+        // Add to the active collection (background falls back to the default)
+        const activeCollectionId = await getActiveCollectionId();
+
         // Send message to background script with correct format
         const message: AddHeadingSectionMessage = {
           action: "addHeadingSection",
@@ -48,6 +175,9 @@ export default defineContentScript({
             content: section.contentHtml,
             sourceUrl: window.location.href,
             id: section.sectionId,
+            position: section.position,
+            headingPath: section.headingPath && [...section.headingPath],
+            ...(activeCollectionId && { collectionIds: [activeCollectionId] }),
           },
         };
 
@@ -66,7 +196,9 @@ export default defineContentScript({
 
           if (response?.success) {
             console.log(
-              "DeepWiki++: Heading section added successfully:",
+              response.status === "newVersion"
+                ? "DeepWiki++: New version of heading section saved:"
+                : "DeepWiki++: Heading section added successfully:",
               response.sectionId
             );
           } else {
@@ -83,6 +215,60 @@ export default defineContentScript({
       }
     }
 
+    // Handle adding the headings selected in batch mode
+    async function handleAddHeadings(
+      sections: HeadingSection[]
+    ): Promise<void> {
+      try {
+        const activeCollectionId = await getActiveCollectionId();
+
+        const message: AddHeadingSectionsMessage = {
+          action: "addHeadingSections",
+          input: {
+            sections: sections.map((section) => ({
+              level: section.level,
+              title: section.titleText,
+              content: section.contentHtml,
+              sourceUrl: window.location.href,
+              id: section.sectionId,
+              position: section.position,
+              headingPath: section.headingPath && [...section.headingPath],
+            })),
+            ...(activeCollectionId && { collectionIds: [activeCollectionId] }),
+          },
+        };
+
+        const response = await chrome.runtime.sendMessage(message);
+        domGateway.showBatchStatus(
+          response?.success
+            ? describeBatchResult(response.added, response.skipped)
+            : `Could not add the sections: ${response?.error ?? "no response"}`
+        );
+      } catch (error) {
+        console.error("DeepWiki++: Error adding heading sections:", error);
+        domGateway.showBatchStatus("Could not add the sections");
+      }
+    }
+
+    // Summarizes a batch result, e.g. "Added 3 of 5 sections (2 duplicates)"
+    function describeBatchResult(
+      added: AddedHeadingSection[],
+      skipped: SkippedHeadingSection[]
+    ): string {
+      const total = added.length + skipped.length;
+      const duplicates = skipped.filter((s) => s.reason === "duplicate");
+      const reasons = [
+        duplicates.length > 0 &&
+          `${duplicates.length} duplicate${duplicates.length > 1 ? "s" : ""}`,
+        skipped.length > duplicates.length &&
+          `${skipped.length - duplicates.length} invalid`,
+      ].filter(Boolean);
+
+      return `Added ${added.length} of ${total} sections${
+        reasons.length > 0 ? ` (${reasons.join(", ")})` : ""
+      }`;
+    }
+
     // Initialize the extension on the page
     async function initialize(): Promise<void> {
       // Prevent overlapping initializations
@@ -97,6 +283,7 @@ export default defineContentScript({
 
       try {
         if (!isRelevantPage()) {
+          domGateway.disableBatchSelection();
           console.log(
             "DeepWiki++: Not a relevant DeepWiki page, skipping initialization"
           );
@@ -150,11 +337,20 @@ export default defineContentScript({
         // Minimize flicker: remove old buttons just before inserting new ones
         domGateway.removeAddButtons();
         domGateway.insertAddButtons(headingSections, handleAddHeading);
+        domGateway.enableBatchSelection(headingSections, handleAddHeadings);
 
         console.log(
           `DeepWiki++: Successfully inserted buttons for ${headingSections.length} headings on DeepWiki page`
         );
 
+        checkSectionFreshness(headingSections);
+
+        // Selection clips: capture new ones and show the saved ones
+        domGateway.enableSelectionCapture(contentArea, (selection) =>
+          handleClipSelection(contentArea, selection)
+        );
+        await highlightSavedClips(contentArea);
+
         // Update last processed URL
         lastUrl = location.href;
       } catch (error) {
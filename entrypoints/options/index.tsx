@@ -1,17 +1,34 @@
 import { useEffect, useState } from "react";
 import { createRoot } from "react-dom/client";
+import {
+  DEFAULT_SECTION_STORAGE_BACKEND,
+  DEFAULT_SECTION_SYNC_CONTENT,
+  SectionStorageBackend,
+  SectionSyncContent,
+  isSectionStorageBackend,
+  isSectionSyncContent,
+} from "../../domain/heading-collection/section-storage-backend";
+import {
+  SECTION_STORAGE_BACKEND_ERROR_KEY,
+  SECTION_STORAGE_BACKEND_KEY,
+  SectionStorageBackendError,
+} from "../../infrastructure/repositories/section-backend/storage-keys";
+import { SECTION_SYNC_CONTENT_KEY } from "../../infrastructure/repositories/chrome/heading-section/storage-keys";
 
 import "./style.css";
 
-// Storage utility for chrome.storage.sync
+// Storage utility for chrome.storage.sync, or chrome.storage.local for
+// settings of this device
 class StorageUtil {
+  constructor(private readonly areaName: "sync" | "local" = "sync") {}
+
   async get(key: string): Promise<string | null> {
     try {
-      if (!chrome?.storage?.sync) {
+      if (!chrome?.storage?.[this.areaName]) {
         console.warn("Chrome storage API not available");
         return null;
       }
-      const result = await chrome.storage.sync.get([key]);
+      const result = await chrome.storage[this.areaName].get([key]);
       return result[key] || null;
     } catch (error) {
       console.error("Error getting storage value:", error);
@@ -21,11 +38,11 @@ class StorageUtil {
 
   async set(key: string, value: string): Promise<void> {
     try {
-      if (!chrome?.storage?.sync) {
+      if (!chrome?.storage?.[this.areaName]) {
         console.warn("Chrome storage API not available");
         return;
       }
-      await chrome.storage.sync.set({ [key]: value });
+      await chrome.storage[this.areaName].set({ [key]: value });
     } catch (error) {
       console.error("Error setting storage value:", error);
     }
@@ -33,23 +50,95 @@ class StorageUtil {
 }
 
 const storage = new StorageUtil();
+const deviceStorage = new StorageUtil("local");
+
+const SECTION_BACKEND_NAMES: Record<SectionStorageBackend, string> = {
+  "chrome-storage": "extension storage",
+  indexeddb: "IndexedDB",
+  "chrome-sync": "browser sync",
+};
+
+function describeBackendError(error: SectionStorageBackendError): string {
+  return `Sections could not be moved to ${
+    SECTION_BACKEND_NAMES[error.backend] ?? error.backend
+  } (${error.message}). They stay in ${
+    SECTION_BACKEND_NAMES[error.activeBackend] ?? error.activeBackend
+  }.`;
+}
 
 function IndexOptions() {
   const [host1, setHost1] = useState("github.com");
   const [host2, setHost2] = useState("deepwiki.com");
+  const [sectionBackend, setSectionBackend] = useState<SectionStorageBackend>(
+    DEFAULT_SECTION_STORAGE_BACKEND
+  );
+  const [syncContent, setSyncContent] = useState<SectionSyncContent>(
+    DEFAULT_SECTION_SYNC_CONTENT
+  );
+  const [backendError, setBackendError] =
+    useState<SectionStorageBackendError | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState("");
 
+  // The background moves the sections after the backend changes; when that
+  // fails it sets the backend back and stores why
+  useEffect(() => {
+    if (!chrome?.storage?.local) {
+      return;
+    }
+    chrome.storage.local
+      .get(SECTION_STORAGE_BACKEND_ERROR_KEY)
+      .then((result) =>
+        setBackendError(result[SECTION_STORAGE_BACKEND_ERROR_KEY] ?? null)
+      )
+      .catch((error) =>
+        console.error("Error loading section storage error:", error)
+      );
+
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName !== "local") {
+        return;
+      }
+      if (changes[SECTION_STORAGE_BACKEND_ERROR_KEY]) {
+        setBackendError(
+          changes[SECTION_STORAGE_BACKEND_ERROR_KEY].newValue ?? null
+        );
+      }
+      const backend = changes[SECTION_STORAGE_BACKEND_KEY]?.newValue;
+      if (isSectionStorageBackend(backend)) {
+        setSectionBackend(backend);
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
   useEffect(() => {
     // Load current settings
     const loadSettings = async () => {
       try {
-        const [savedHost1, savedHost2] = await Promise.all([
-          storage.get("host1"),
-          storage.get("host2"),
-        ]);
+        const [savedHost1, savedHost2, savedBackend, savedSyncContent] =
+          await Promise.all([
+            storage.get("host1"),
+            storage.get("host2"),
+            deviceStorage.get(SECTION_STORAGE_BACKEND_KEY),
+            deviceStorage.get(SECTION_SYNC_CONTENT_KEY),
+          ]);
         setHost1(savedHost1 || "github.com");
         setHost2(savedHost2 || "deepwiki.com");
+        setSectionBackend(
+          isSectionStorageBackend(savedBackend)
+            ? savedBackend
+            : DEFAULT_SECTION_STORAGE_BACKEND
+        );
+        setSyncContent(
+          isSectionSyncContent(savedSyncContent)
+            ? savedSyncContent
+            : DEFAULT_SECTION_SYNC_CONTENT
+        );
       } catch (error) {
         console.error("Error loading settings:", error);
       }
@@ -66,6 +155,8 @@ function IndexOptions() {
       await Promise.all([
         storage.set("host1", host1),
         storage.set("host2", host2),
+        deviceStorage.set(SECTION_STORAGE_BACKEND_KEY, sectionBackend),
+        deviceStorage.set(SECTION_SYNC_CONTENT_KEY, syncContent),
       ]);
       setSaveStatus("Settings saved successfully!");
       setTimeout(() => setSaveStatus(""), 3000);
@@ -80,11 +171,21 @@ function IndexOptions() {
   const handleReset = async () => {
     setHost1("github.com");
     setHost2("deepwiki.com");
+    setSectionBackend(DEFAULT_SECTION_STORAGE_BACKEND);
+    setSyncContent(DEFAULT_SECTION_SYNC_CONTENT);
 
     try {
       await Promise.all([
         storage.set("host1", "github.com"),
         storage.set("host2", "deepwiki.com"),
+        deviceStorage.set(
+          SECTION_STORAGE_BACKEND_KEY,
+          DEFAULT_SECTION_STORAGE_BACKEND
+        ),
+        deviceStorage.set(
+          SECTION_SYNC_CONTENT_KEY,
+          DEFAULT_SECTION_SYNC_CONTENT
+        ),
       ]);
       console.log("Defaults have been reset and saved to storage.");
     } catch (error) {
@@ -97,7 +198,8 @@ function IndexOptions() {
       <div className="options-header">
         <h1 className="options-title">DeepWiki++ Settings</h1>
         <p className="options-description">
-          Configure the hosts for URL switching functionality.
+          Configure the hosts for URL switching functionality and where sections
+          are stored.
         </p>
       </div>
 
@@ -132,6 +234,60 @@ function IndexOptions() {
           <p className="option-help">The secondary host (e.g., deepwiki.com)</p>
         </div>
 
+        <div className="option-group">
+          <label htmlFor="sectionBackend" className="option-label">
+            Section storage:
+          </label>
+          <select
+            id="sectionBackend"
+            value={sectionBackend}
+            onChange={(e) =>
+              setSectionBackend(e.target.value as SectionStorageBackend)
+            }
+            className="option-input"
+          >
+            <option value="chrome-storage">
+              Extension storage (up to 5 MB)
+            </option>
+            <option value="indexeddb">IndexedDB (for large collections)</option>
+            <option value="chrome-sync">
+              Browser sync (follows your browser profile, up to 100 KB)
+            </option>
+          </select>
+          <p className="option-help">
+            Where collected sections are kept on this device. Sections already
+            collected are moved when this changes.
+          </p>
+          {backendError && (
+            <p className="option-error">{describeBackendError(backendError)}</p>
+          )}
+        </div>
+
+        {sectionBackend === "chrome-sync" && (
+          <div className="option-group">
+            <label htmlFor="syncContent" className="option-label">
+              Synced content:
+            </label>
+            <select
+              id="syncContent"
+              value={syncContent}
+              onChange={(e) =>
+                setSyncContent(e.target.value as SectionSyncContent)
+              }
+              className="option-input"
+            >
+              <option value="metadata">
+                Metadata only (titles, URLs, notes and tags)
+              </option>
+              <option value="full">Full content</option>
+            </select>
+            <p className="option-help">
+              With metadata only, section content stays on the device that
+              captured it and many more sections fit in the sync quota.
+            </p>
+          </div>
+        )}
+
         <div className="option-actions">
           <button
             onClick={handleSave}
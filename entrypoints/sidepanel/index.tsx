@@ -7,9 +7,55 @@ import React, {
   useMemo,
 } from "react";
 import ReactDOM from "react-dom/client";
-import { HeadingSection } from "../../domain/heading-collection/heading-section";
-import { GetHeadingSectionsInput } from "../../application/usecases/heading-collection";
+import {
+  HeadingSection,
+  TagMatchMode,
+  getSectionCollectionIds,
+  getSectionVersions,
+  UpstreamState,
+} from "../../domain/heading-collection/heading-section";
+import {
+  Collection,
+  isDefaultCollection,
+} from "../../domain/heading-collection/collection";
+import { Clip, isClipOfSection } from "../../domain/heading-collection/clip";
+import { SavedSearch } from "../../domain/heading-collection/saved-search";
+import { sanitizeHtml } from "../../shared/html/html-sanitizer";
+import {
+  PageOutline,
+  SectionOutlineNode,
+  buildPageOutlines,
+  countOutlineSections,
+} from "../../domain/heading-collection/section-outline";
+import {
+  SearchQuery,
+  parseSearchQuery,
+} from "../../domain/heading-collection/search-query";
+import {
+  BackupConflictStrategy,
+  GetHeadingSectionsInput,
+  ImportBackupOutput,
+  savedSearchToInput,
+  searchQueryToInput,
+} from "../../application/usecases/heading-collection";
 import { containsMermaidSvg } from "../../shared/html/is-mermaid-svg";
+import { htmlToPlainText } from "../../shared/html/html-to-text";
+import { diffWords, hasChanges } from "../../shared/diff/word-diff";
+import { parseDeepWikiUrl } from "../../shared/url/deepwiki-url";
+import {
+  buildMarkdownDocument,
+  buildMarkdownFiles,
+  toFileSlug,
+} from "../../shared/export/markdown-export";
+import { buildEpub } from "../../shared/export/epub-export";
+import {
+  buildAnkiTsv,
+  buildFlashcards,
+} from "../../shared/export/flashcard-export";
+import { buildHtmlDocument } from "../../shared/export/html-export";
+import { buildObsidianVault } from "../../shared/export/obsidian-export";
+import { buildSearchSnippet } from "../../shared/search/search-snippet";
+import { createZip } from "../../shared/zip/create-zip";
 import "./style.css";
 
 /**
@@ -78,133 +124,678 @@ interface HeadingSectionItemProps {
   onRemove?: (section: HeadingSection) => void;
   isExpanded?: boolean;
   onToggleExpand?: (section: HeadingSection) => void;
+  onUpdateTags?: (
+    section: HeadingSection,
+    changes: { addTags?: string[]; removeTags?: string[] }
+  ) => void;
+  onUpdateNote?: (section: HeadingSection, note: string) => void;
+  collections?: Collection[];
+  onUpdateCollections?: (
+    section: HeadingSection,
+    collectionIds: string[]
+  ) => void;
+  clips?: Clip[];
+  onRemoveClip?: (clip: Clip) => void;
+  /** Terms the current search matched, highlighted in the preview */
+  matchedTerms?: string[];
 }
 
 /**
- * Component for displaying a single heading section
+ * Props for the CollectionSwitcher component
  */
-function HeadingSectionItem({
-  section,
-  onRemove,
-  isExpanded = false,
-  onToggleExpand,
-}: HeadingSectionItemProps) {
-  const handleToggleExpand = () => {
-    onToggleExpand?.(section);
-  };
+interface CollectionSwitcherProps {
+  collections: Collection[];
+  sectionCounts: Record<string, number>;
+  activeCollectionId: string;
+  onSwitch: (collectionId: string) => void;
+  onCreate: () => void;
+  onRename: (collection: Collection) => void;
+  onDelete: (collection: Collection) => void;
+  savedSearches: SavedSearch[];
+  savedSearchCounts: Record<string, number>;
+  /** Saved search shown instead of the active collection, if any */
+  activeSavedSearchId: string | null;
+  onSwitchSavedSearch: (savedSearchId: string | null) => void;
+  onDeleteSavedSearch: (savedSearch: SavedSearch) => void;
+}
 
-  const handleRemove = () => {
-    onRemove?.(section);
-  };
+// Option values of smart collections, kept apart from collection IDs
+const SAVED_SEARCH_OPTION_PREFIX = "saved-search:";
 
-  // Extract text content from HTML for preview
-  const getContentPreview = (html: string, maxLength: number = 150) => {
-    const tempDiv = document.createElement("div");
-    tempDiv.innerHTML = html;
-    const text = tempDiv.textContent || tempDiv.innerText || "";
-    return text.length > maxLength
-      ? text.substring(0, maxLength) + "..."
-      : text;
+/**
+ * Component for choosing, creating, renaming and deleting collections, and
+ * for choosing and deleting smart collections (saved searches)
+ */
+function CollectionSwitcher({
+  collections,
+  sectionCounts,
+  activeCollectionId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+  savedSearches,
+  savedSearchCounts,
+  activeSavedSearchId,
+  onSwitchSavedSearch,
+  onDeleteSavedSearch,
+}: CollectionSwitcherProps) {
+  const activeSavedSearch = savedSearches.find(
+    (s) => s.savedSearchId === activeSavedSearchId
+  );
+  const activeCollection = activeSavedSearch
+    ? undefined
+    : collections.find((c) => c.collectionId === activeCollectionId);
+
+  const handleChange = (value: string) => {
+    if (value.startsWith(SAVED_SEARCH_OPTION_PREFIX)) {
+      onSwitchSavedSearch(value.slice(SAVED_SEARCH_OPTION_PREFIX.length));
+    } else {
+      onSwitchSavedSearch(null);
+      if (value !== activeCollectionId) {
+        onSwitch(value);
+      }
+    }
   };
 
-  // Extract repository and page info from DeepWiki URL
-  const parseDeepWikiUrl = (
-    url: string
-  ): { repo: string; pageTitle: string; repoUrl: string } => {
-    try {
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split("/").filter((p) => p);
-
-      if (pathParts.length >= 2) {
-        const repo = `${pathParts[0]}/${pathParts[1]}`;
-        const repoUrl = `${urlObj.origin}/${repo}`;
-
-        if (pathParts.length > 2) {
-          // Extract page title from slug
-          const pageSlug = pathParts.slice(2).join("-");
-          const pageTitle = formatPageTitle(pageSlug);
-          return { repo, pageTitle, repoUrl };
+  return (
+    <div className="sidepanel-collection-switcher">
+      <span className="sidepanel-sort-label">Collection:</span>
+      <select
+        value={
+          activeSavedSearch
+            ? SAVED_SEARCH_OPTION_PREFIX + activeSavedSearch.savedSearchId
+            : activeCollectionId
+        }
+        onChange={(e) => handleChange(e.target.value)}
+        className="sidepanel-select sidepanel-collection-select"
+        title={
+          activeSavedSearch
+            ? `Sections of all collections matching: ${
+                activeSavedSearch.query || "(no text)"
+              }`
+            : "New sections are added to the selected collection"
         }
+      >
+        {collections.map((collection) => (
+          <option key={collection.collectionId} value={collection.collectionId}>
+            {collection.name} ({sectionCounts[collection.collectionId] ?? 0})
+          </option>
+        ))}
+        {savedSearches.length > 0 && (
+          <optgroup label="Smart collections">
+            {savedSearches.map((savedSearch) => (
+              <option
+                key={savedSearch.savedSearchId}
+                value={SAVED_SEARCH_OPTION_PREFIX + savedSearch.savedSearchId}
+              >
+                🔍 {savedSearch.name} (
+                {savedSearchCounts[savedSearch.savedSearchId] ?? 0})
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <button
+        onClick={onCreate}
+        className="sidepanel-collection-button"
+        title="New collection"
+      >
+        ＋
+      </button>
+      {activeSavedSearch && (
+        <button
+          onClick={() => onDeleteSavedSearch(activeSavedSearch)}
+          className="sidepanel-collection-button"
+          title="Delete smart collection"
+        >
+          🗑️
+        </button>
+      )}
+      {activeCollection && (
+        <>
+          <button
+            onClick={() => onRename(activeCollection)}
+            className="sidepanel-collection-button"
+            title="Rename collection"
+          >
+            ✏️
+          </button>
+          {!isDefaultCollection(activeCollection.collectionId) && (
+            <button
+              onClick={() => onDelete(activeCollection)}
+              className="sidepanel-collection-button"
+              title="Delete collection"
+            >
+              🗑️
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
 
-        // Repository top page
-        return { repo, pageTitle: "Overview", repoUrl };
-      }
+/**
+ * Props for the SectionCollections component
+ */
+interface SectionCollectionsProps {
+  collectionIds: ReadonlyArray<string>;
+  collections: Collection[];
+  onChange?: (collectionIds: string[]) => void;
+}
 
-      return { repo: urlObj.hostname, pageTitle: "", repoUrl: url };
-    } catch {
-      return { repo: "Unknown", pageTitle: "", repoUrl: url };
+/**
+ * Component for displaying and editing which collections a section is in
+ */
+function SectionCollections({
+  collectionIds,
+  collections,
+  onChange,
+}: SectionCollectionsProps) {
+  // Nothing to choose from while only the default collection exists
+  if (collections.length < 2) {
+    return null;
+  }
+
+  const nameOf = (collectionId: string) =>
+    collections.find((c) => c.collectionId === collectionId)?.name ??
+    collectionId;
+  const otherCollections = collections.filter(
+    (c) => !collectionIds.includes(c.collectionId)
+  );
+
+  return (
+    <div className="section-collections">
+      {collectionIds.map((collectionId) => (
+        <span key={collectionId} className="section-collection">
+          🗂 {nameOf(collectionId)}
+          {onChange && collectionIds.length > 1 && (
+            <button
+              onClick={() =>
+                onChange(collectionIds.filter((id) => id !== collectionId))
+              }
+              className="section-tag-remove"
+              title={`Remove from "${nameOf(collectionId)}"`}
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      ))}
+      {onChange && otherCollections.length > 0 && (
+        <select
+          value=""
+          onChange={(e) =>
+            e.target.value && onChange([...collectionIds, e.target.value])
+          }
+          className="section-collection-add"
+          title="Add to another collection"
+        >
+          <option value="">+ collection</option>
+          {otherCollections.map((collection) => (
+            <option
+              key={collection.collectionId}
+              value={collection.collectionId}
+            >
+              {collection.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Props for the SectionTags component
+ */
+interface SectionTagsProps {
+  tags: ReadonlyArray<string>;
+  onAddTag?: (tag: string) => void;
+  onRemoveTag?: (tag: string) => void;
+}
+
+/**
+ * Component for displaying and editing the tags of a section
+ */
+function SectionTags({ tags, onAddTag, onRemoveTag }: SectionTagsProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newTag, setNewTag] = useState("");
+
+  const submitTag = () => {
+    const tag = newTag.trim();
+    if (tag) {
+      onAddTag?.(tag);
+    }
+    setNewTag("");
+    setIsAdding(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      submitTag();
+    } else if (e.key === "Escape") {
+      setNewTag("");
+      setIsAdding(false);
     }
   };
 
-  // Convert URL slug to readable title
-  const formatPageTitle = (slug: string): string => {
-    // Remove number prefix (e.g., "1.1-", "1-", "2.3.1-")
-    const cleanSlug = slug.replace(/^\d+(\.\d+)*-/, "");
+  if (tags.length === 0 && !onAddTag) {
+    return null;
+  }
 
-    // Convert kebab-case to Title Case
-    return cleanSlug
-      .split("-")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
+  return (
+    <div className="section-tags">
+      {tags.map((tag) => (
+        <span key={tag} className="section-tag">
+          #{tag}
+          {onRemoveTag && (
+            <button
+              onClick={() => onRemoveTag(tag)}
+              className="section-tag-remove"
+              title={`Remove tag "${tag}"`}
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      ))}
+      {onAddTag &&
+        (isAdding ? (
+          <input
+            type="text"
+            autoFocus
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={submitTag}
+            className="section-tag-input"
+            placeholder="tag name"
+          />
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="section-tag-add"
+            title="Add tag"
+          >
+            + tag
+          </button>
+        ))}
+    </div>
+  );
+}
+
+/**
+ * Props for the SectionNote component
+ */
+interface SectionNoteProps {
+  note: string;
+  onSave?: (note: string) => void;
+}
+
+/**
+ * Component for displaying and inline-editing the personal note of a section
+ */
+function SectionNote({ note, onSave }: SectionNoteProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  const startEditing = () => {
+    setDraft(note);
+    setIsEditing(true);
   };
 
-  // Smart navigation: update current tab if on same repo, otherwise open new tab
-  const navigateSmartly = async (targetUrl: string) => {
-    try {
-      // Get the current active tab
-      const [activeTab] = await chrome.tabs.query({
-        active: true,
-        currentWindow: true,
-      });
+  const handleSave = () => {
+    if (draft.trim() !== note) {
+      onSave?.(draft);
+    }
+    setIsEditing(false);
+  };
 
-      if (!activeTab?.id || !activeTab?.url) {
-        // Fallback to new tab if no active tab
-        await chrome.tabs.create({ url: targetUrl });
-        return;
-      }
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      handleSave();
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="section-note section-note-editing">
+        <textarea
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="section-note-textarea"
+          placeholder="Write a note (markdown supported)"
+          rows={4}
+        />
+        <div className="section-note-actions">
+          <button
+            onClick={handleSave}
+            className="sidepanel-button section-note-save"
+            title="Save note (Ctrl+Enter)"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setIsEditing(false)}
+            className="sidepanel-button section-note-cancel"
+            title="Discard changes (Esc)"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
 
-      const currentUrl = activeTab.url;
+  if (!note) {
+    return onSave ? (
+      <button
+        onClick={startEditing}
+        className="section-note-add"
+        title="Add a note"
+      >
+        📝 Add note
+      </button>
+    ) : null;
+  }
 
-      // Check if both current and target are on DeepWiki
-      if (
-        currentUrl.includes("deepwiki.com") &&
-        targetUrl.includes("deepwiki.com")
-      ) {
-        try {
-          const currentUrlObj = new URL(currentUrl);
-          const targetUrlObj = new URL(targetUrl);
-
-          // Extract repository from both URLs
-          const getCurrentRepo = (url: URL) => {
-            const pathParts = url.pathname.split("/").filter((p) => p);
-            return pathParts.length >= 2
-              ? `${pathParts[0]}/${pathParts[1]}`
-              : null;
-          };
-
-          const currentRepo = getCurrentRepo(currentUrlObj);
-          const targetRepo = getCurrentRepo(targetUrlObj);
-
-          // If same repository, update current tab
-          if (currentRepo && targetRepo && currentRepo === targetRepo) {
-            await chrome.tabs.update(activeTab.id, { url: targetUrl });
-            return;
-          }
-        } catch (e) {
-          // URL parsing failed, fallback to new tab
-          console.error("Failed to parse URLs:", e);
-        }
-      }
+  return (
+    <div className="section-note">
+      <div className="section-note-text">{note}</div>
+      {onSave && (
+        <button
+          onClick={startEditing}
+          className="section-note-edit"
+          title="Edit note"
+        >
+          ✏️
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Component for listing the captured versions of a section and showing a
+ * word-level diff between any two of them
+ */
+function SectionHistory({ section }: { section: HeadingSection }) {
+  const versions = getSectionVersions(section);
+  // With a single version, both sides show it
+  const [fromIndex, setFromIndex] = useState(Math.max(versions.length - 2, 0));
+  const [toIndex, setToIndex] = useState(versions.length - 1);
+
+  // Keep the selection valid when a new version arrives
+  useEffect(() => {
+    setFromIndex(Math.max(versions.length - 2, 0));
+    setToIndex(versions.length - 1);
+  }, [versions.length]);
+
+  const segments = useMemo(
+    () =>
+      diffWords(
+        htmlToPlainText(versions[fromIndex]?.contentHtml ?? ""),
+        htmlToPlainText(versions[toIndex]?.contentHtml ?? "")
+      ),
+    [section, fromIndex, toIndex]
+  );
 
-      // Different repository or not both on DeepWiki: open new tab
+  const versionLabel = (index: number) =>
+    `v${index + 1} · ${new Date(versions[index].capturedAt).toLocaleString()}${
+      index === versions.length - 1 ? " (current)" : ""
+    }`;
+
+  const versionSelect = (value: number, onChange: (index: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="sidepanel-select section-history-select"
+    >
+      {versions.map((_, index) => (
+        <option key={index} value={index}>
+          {versionLabel(index)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="section-history">
+      <div className="section-history-controls">
+        {versionSelect(fromIndex, setFromIndex)}
+        <span className="separator">→</span>
+        {versionSelect(toIndex, setToIndex)}
+      </div>
+      {hasChanges(segments) ? (
+        <div className="section-history-diff">
+          {segments.map((segment, index) =>
+            segment.type === "insert" ? (
+              <ins key={index} className="diff-insert">
+                {segment.text}
+              </ins>
+            ) : segment.type === "delete" ? (
+              <del key={index} className="diff-delete">
+                {segment.text}
+              </del>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </div>
+      ) : (
+        <div className="section-history-empty">
+          No text changes between these versions
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Smart navigation: update current tab if on same repo, otherwise open new tab
+ */
+async function navigateSmartly(targetUrl: string): Promise<void> {
+  try {
+    // Get the current active tab
+    const [activeTab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+
+    if (!activeTab?.id || !activeTab?.url) {
+      // Fallback to new tab if no active tab
       await chrome.tabs.create({ url: targetUrl });
-    } catch (error) {
-      console.error("Navigation failed:", error);
-      // Ultimate fallback
-      window.open(targetUrl, "_blank");
+      return;
+    }
+
+    const currentUrl = activeTab.url;
+
+    // Check if both current and target are on DeepWiki
+    if (
+      currentUrl.includes("deepwiki.com") &&
+      targetUrl.includes("deepwiki.com")
+    ) {
+      try {
+        const currentUrlObj = new URL(currentUrl);
+        const targetUrlObj = new URL(targetUrl);
+
+        // Extract repository from both URLs
+        const getCurrentRepo = (url: URL) => {
+          const pathParts = url.pathname.split("/").filter((p) => p);
+          return pathParts.length >= 2
+            ? `${pathParts[0]}/${pathParts[1]}`
+            : null;
+        };
+
+        const currentRepo = getCurrentRepo(currentUrlObj);
+        const targetRepo = getCurrentRepo(targetUrlObj);
+
+        // If same repository, update current tab
+        if (currentRepo && targetRepo && currentRepo === targetRepo) {
+          await chrome.tabs.update(activeTab.id, { url: targetUrl });
+          return;
+        }
+      } catch (e) {
+        // URL parsing failed, fallback to new tab
+        console.error("Failed to parse URLs:", e);
+      }
     }
+
+    // Different repository or not both on DeepWiki: open new tab
+    await chrome.tabs.create({ url: targetUrl });
+  } catch (error) {
+    console.error("Navigation failed:", error);
+    // Ultimate fallback
+    window.open(targetUrl, "_blank");
+  }
+}
+
+/**
+ * Component for displaying a saved text selection
+ */
+function ClipItem({
+  clip,
+  showHeading = false,
+  onRemove,
+}: {
+  clip: Clip;
+  showHeading?: boolean;
+  onRemove?: (clip: Clip) => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const text = clip.anchor.exact;
+  const contentHtml = useMemo(
+    () => (isExpanded ? sanitizeHtml(clip.contentHtml) : ""),
+    [isExpanded, clip.contentHtml]
+  );
+
+  return (
+    <div className="clip-item">
+      <div className="clip-header">
+        <button
+          onClick={() => setIsExpanded((prev) => !prev)}
+          className="section-expand-button"
+          title={isExpanded ? "Collapse" : "Expand"}
+        >
+          {isExpanded ? "▼" : "▶"}
+        </button>
+        <div className="clip-meta">
+          {showHeading && (
+            <span className="clip-heading">
+              {clip.heading
+                ? `H${clip.heading.level}: ${clip.heading.titleText}`
+                : "Page introduction"}
+            </span>
+          )}
+          <button
+            onClick={() => navigateSmartly(clip.sourceUrl)}
+            className="page-link"
+            title={clip.sourceUrl}
+          >
+            📎 {new Date(clip.addedAt).toLocaleString()}
+          </button>
+        </div>
+        {onRemove && (
+          <button
+            onClick={() => onRemove(clip)}
+            className="section-tag-remove"
+            title="Remove clip"
+          >
+            ×
+          </button>
+        )}
+      </div>
+      {isExpanded ? (
+        <div
+          className="section-content-html clip-content"
+          dangerouslySetInnerHTML={{ __html: contentHtml }}
+        />
+      ) : (
+        <blockquote className="clip-text">
+          {text.length > 200 ? `${text.substring(0, 200)}...` : text}
+        </blockquote>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Badge shown when the live page no longer matches a saved section
+ */
+function SectionUpstreamBadge({ upstream }: { upstream?: UpstreamState }) {
+  if (!upstream) {
+    return null;
+  }
+
+  const detectedAt = new Date(upstream.detectedAt).toLocaleString();
+  return upstream.status === "changed" ? (
+    <span
+      className="section-upstream section-upstream-changed"
+      title={`The content on DeepWiki differs from the saved version (detected ${detectedAt}). Capture it again to update.`}
+    >
+      ⚠️ Changed upstream
+    </span>
+  ) : (
+    <span
+      className="section-upstream section-upstream-removed"
+      title={`This heading was not found on the page anymore (detected ${detectedAt})`}
+    >
+      ❌ Heading removed
+    </span>
+  );
+}
+
+/**
+ * Component for displaying a single heading section
+ */
+function HeadingSectionItem({
+  section,
+  onRemove,
+  isExpanded = false,
+  onToggleExpand,
+  onUpdateTags,
+  onUpdateNote,
+  collections = [],
+  onUpdateCollections,
+  clips = [],
+  onRemoveClip,
+  matchedTerms,
+}: HeadingSectionItemProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const versionCount = section.versions?.length ?? 0;
+
+  const handleToggleExpand = () => {
+    onToggleExpand?.(section);
   };
 
+  const handleRemove = () => {
+    onRemove?.(section);
+  };
+
+  // Preview of the content around where the search matched
+  const previewParts = useMemo(
+    () =>
+      isExpanded || !section.contentHtml
+        ? []
+        : buildSearchSnippet(
+            htmlToPlainText(section.contentHtml),
+            matchedTerms ?? []
+          ),
+    [isExpanded, section.contentHtml, matchedTerms]
+  );
+
+  // Stored content may predate sanitizing on capture, so it is sanitized again
+  const contentHtml = useMemo(
+    () => (isExpanded ? sanitizeHtml(section.contentHtml) : ""),
+    [isExpanded, section.contentHtml]
+  );
+
   // Format date safely
   const formatDate = (dateValue: Date | string) => {
     try {
@@ -279,7 +870,48 @@ function HeadingSectionItem({
               <span className="timestamp">
                 📅 {formatDate(section.addedAt)}
               </span>
+              <SectionUpstreamBadge upstream={section.upstream} />
             </div>
+            <SectionTags
+              tags={section.tags ?? []}
+              onAddTag={
+                onUpdateTags
+                  ? (tag) => onUpdateTags(section, { addTags: [tag] })
+                  : undefined
+              }
+              onRemoveTag={
+                onUpdateTags
+                  ? (tag) => onUpdateTags(section, { removeTags: [tag] })
+                  : undefined
+              }
+            />
+            <SectionCollections
+              collectionIds={getSectionCollectionIds(section)}
+              collections={collections}
+              onChange={
+                onUpdateCollections
+                  ? (collectionIds) =>
+                      onUpdateCollections(section, collectionIds)
+                  : undefined
+              }
+            />
+            <SectionNote
+              note={section.note ?? ""}
+              onSave={
+                onUpdateNote ? (note) => onUpdateNote(section, note) : undefined
+              }
+            />
+            {clips.length > 0 && (
+              <div className="section-clips">
+                {clips.map((clip) => (
+                  <ClipItem
+                    key={clip.clipId}
+                    clip={clip}
+                    onRemove={onRemoveClip}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Remove Button */}
@@ -297,7 +929,15 @@ function HeadingSectionItem({
         {/* Content Preview (when collapsed) */}
         {!isExpanded && section.contentHtml && (
           <div className="section-preview">
-            {getContentPreview(section.contentHtml)}
+            {previewParts.map((part, index) =>
+              part.match ? (
+                <mark key={index} className="search-highlight">
+                  {part.text}
+                </mark>
+              ) : (
+                <React.Fragment key={index}>{part.text}</React.Fragment>
+              )
+            )}
           </div>
         )}
       </div>
@@ -308,12 +948,12 @@ function HeadingSectionItem({
           {containsMermaidSvg(section.contentHtml) ? (
             <div
               className="dwpp-diagram-wrapper"
-              dangerouslySetInnerHTML={{ __html: section.contentHtml }}
+              dangerouslySetInnerHTML={{ __html: contentHtml }}
             />
           ) : (
             <div
               className="section-content-html"
-              dangerouslySetInnerHTML={{ __html: section.contentHtml }}
+              dangerouslySetInnerHTML={{ __html: contentHtml }}
             />
           )}
           <div className="section-content-link">
@@ -324,19 +964,486 @@ function HeadingSectionItem({
             >
               🔗 View Original
             </button>
+            {versionCount > 0 && (
+              <button
+                onClick={() => setShowHistory((prev) => !prev)}
+                className="view-original-button section-history-toggle"
+                title="Compare captured versions"
+              >
+                🕘 History ({versionCount + 1} versions)
+              </button>
+            )}
+          </div>
+          {showHistory && versionCount > 0 && (
+            <SectionHistory section={section} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Sections of a repository, grouped by page
+ */
+interface RepoOutline {
+  repo: string;
+  pages: (PageOutline & { pageTitle: string; sectionCount: number })[];
+}
+
+/**
+ * Props for the SectionOutlineView component
+ */
+interface SectionOutlineViewProps {
+  sections: HeadingSection[];
+  renderSection: (section: HeadingSection) => React.ReactNode;
+}
+
+/**
+ * Tree of sections grouped by repository, page and heading hierarchy
+ */
+function SectionOutlineView({
+  sections,
+  renderSection,
+}: SectionOutlineViewProps) {
+  // Keys of collapsed repositories, pages and sections
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const repos = useMemo(() => {
+    const byRepo = new Map<string, RepoOutline>();
+
+    for (const page of buildPageOutlines(sections)) {
+      const { repo, pageTitle } = parseDeepWikiUrl(page.pageUrl);
+      const repoOutline = byRepo.get(repo) ?? { repo, pages: [] };
+      repoOutline.pages.push({
+        ...page,
+        pageTitle: pageTitle || page.pageUrl,
+        sectionCount: countOutlineSections(page.roots),
+      });
+      byRepo.set(repo, repoOutline);
+    }
+
+    return Array.from(byRepo.values());
+  }, [sections]);
+
+  const toggle = (key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderGroupHeader = (
+    key: string,
+    label: string,
+    count: number,
+    title?: string
+  ) => (
+    <button
+      onClick={() => toggle(key)}
+      className="outline-group-header"
+      title={title}
+    >
+      <span className="outline-toggle-icon">
+        {collapsed.has(key) ? "▸" : "▾"}
+      </span>
+      <span className="outline-group-label">{label}</span>
+      <span className="outline-group-count">{count}</span>
+    </button>
+  );
+
+  const renderNode = (node: SectionOutlineNode): React.ReactNode => {
+    const key = `section:${node.section.sectionId}`;
+    const hasChildren = node.children.length > 0;
+    const isCollapsed = collapsed.has(key);
+
+    return (
+      <div key={node.section.sectionId} className="outline-node">
+        <div className="outline-node-row">
+          {hasChildren ? (
+            <button
+              onClick={() => toggle(key)}
+              className="outline-toggle"
+              title={isCollapsed ? "Show subsections" : "Hide subsections"}
+            >
+              {isCollapsed ? "▸" : "▾"}
+            </button>
+          ) : (
+            <span className="outline-toggle-spacer" />
+          )}
+          <div className="outline-node-section">
+            {renderSection(node.section)}
           </div>
         </div>
+        {hasChildren && !isCollapsed && (
+          <div className="outline-children">
+            {node.children.map(renderNode)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="outline-view">
+      {repos.map((repo) => {
+        const repoKey = `repo:${repo.repo}`;
+        const repoCount = repo.pages.reduce(
+          (count, page) => count + page.sectionCount,
+          0
+        );
+
+        return (
+          <div key={repo.repo} className="outline-group">
+            {renderGroupHeader(repoKey, `📁 ${repo.repo}`, repoCount)}
+            {!collapsed.has(repoKey) &&
+              repo.pages.map((page) => {
+                const pageKey = `page:${page.pageUrl}`;
+                return (
+                  <div key={page.pageUrl} className="outline-page">
+                    {renderGroupHeader(
+                      pageKey,
+                      `📄 ${page.pageTitle}`,
+                      page.sectionCount,
+                      page.pageUrl
+                    )}
+                    {!collapsed.has(pageKey) && (
+                      <div className="outline-children">
+                        {page.roots.map(renderNode)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+type ExportFormat =
+  | "markdown"
+  | "markdown-files"
+  | "html"
+  | "epub"
+  | "obsidian"
+  | "anki"
+  | "anki-cloze"
+  | "backup";
+
+/**
+ * Outcome of restoring a backup, shown until dismissed
+ */
+type ImportReport = Omit<ImportBackupOutput, "success"> | { error: string };
+
+/**
+ * Summary of a restored backup with the entries that were rejected
+ */
+function ImportReportView({
+  report,
+  onClose,
+}: {
+  report: ImportReport;
+  onClose: () => void;
+}) {
+  return (
+    <div className="import-report">
+      <button onClick={onClose} className="import-report-close" title="Dismiss">
+        ✕
+      </button>
+      {"error" in report ? (
+        <div className="import-report-error">
+          Restore failed: {report.error}
+        </div>
+      ) : (
+        <>
+          <div>
+            Restored {report.added} section{report.added !== 1 ? "s" : ""},
+            overwrote {report.overwritten}, skipped {report.skipped}
+            {report.collectionsAdded > 0 &&
+              `, added ${report.collectionsAdded} collection${
+                report.collectionsAdded !== 1 ? "s" : ""
+              }`}
+          </div>
+          {report.rejected.length > 0 && (
+            <>
+              <div className="import-report-error">
+                {report.rejected.length} entr
+                {report.rejected.length !== 1 ? "ies were" : "y was"} rejected:
+              </div>
+              <ul className="import-report-rejected">
+                {report.rejected.map((entry) => (
+                  <li key={entry.index}>
+                    #{entry.index + 1}{" "}
+                    {entry.title ?? entry.sectionId ?? "(untitled)"}:{" "}
+                    {entry.reason}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
       )}
     </div>
   );
 }
 
+// Height assumed for sections that have not been rendered yet
+const ESTIMATED_SECTION_HEIGHT = 120;
+// Height rendered beyond the visible part of the page, above and below
+const OVERSCAN_HEIGHT = 800;
+
+const getSectionKey = (section: HeadingSection) =>
+  section.sectionId || section.titleText;
+
+/**
+ * Scrolls a VirtualSectionList to one of its sections
+ */
+interface VirtualSectionListHandle {
+  scrollToSection: (sectionId: string) => boolean;
+}
+
+interface VirtualSectionListProps {
+  sections: HeadingSection[];
+  renderSection: (section: HeadingSection) => React.ReactNode;
+  /** Section shown highlighted, e.g. after jumping to it */
+  highlightedSectionId?: string | null;
+  /** Called when the last section comes near the visible part of the page */
+  onEndReached?: () => void;
+}
+
+/**
+ * Section list that renders only the sections near the visible part of the
+ * page. Rendered sections are measured, and padding stands in for the rest.
+ */
+const VirtualSectionList = React.forwardRef<
+  VirtualSectionListHandle,
+  VirtualSectionListProps
+>(function VirtualSectionList(
+  { sections, renderSection, highlightedSectionId, onEndReached },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [, setMeasureCount] = useState(0);
+  // Visible part of the page, relative to the top of the list
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 });
+
+  const updateViewport = useCallback(() => {
+    const listTop = containerRef.current?.getBoundingClientRect().top ?? 0;
+    setViewport((prev) =>
+      prev.top === -listTop && prev.bottom === window.innerHeight - listTop
+        ? prev
+        : { top: -listTop, bottom: window.innerHeight - listTop }
+    );
+  }, []);
+
+  // Follow scrolling and resizing, at most once per frame
+  useEffect(() => {
+    let frame = 0;
+    const scheduleUpdate = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          updateViewport();
+        });
+      }
+    };
+
+    window.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    return () => {
+      window.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+      cancelAnimationFrame(frame);
+    };
+  }, [updateViewport]);
+
+  // Controls above the list change height with the sections shown
+  useEffect(updateViewport, [sections, updateViewport]);
+
+  // Measure sections when they render or change height, e.g. when expanded
+  const resizeObserver = useMemo(
+    () =>
+      new ResizeObserver((entries, observer) => {
+        let changed = false;
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          if (!element.isConnected) {
+            observer.unobserve(element);
+            continue;
+          }
+          const key = element.dataset.sectionKey!;
+          if (heightsRef.current.get(key) !== element.offsetHeight) {
+            heightsRef.current.set(key, element.offsetHeight);
+            changed = true;
+          }
+        }
+        if (changed) {
+          setMeasureCount((count) => count + 1);
+        }
+      }),
+    []
+  );
+  useEffect(() => () => resizeObserver.disconnect(), [resizeObserver]);
+  const observeSection = useCallback(
+    (element: HTMLDivElement | null) => {
+      if (element) {
+        resizeObserver.observe(element);
+      }
+    },
+    [resizeObserver]
+  );
+
+  // Top of each section within the list, followed by the list height
+  const offsets = [0];
+  for (const section of sections) {
+    offsets.push(
+      offsets[offsets.length - 1] +
+        (heightsRef.current.get(getSectionKey(section)) ??
+          ESTIMATED_SECTION_HEIGHT)
+    );
+  }
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  let first = 0;
+  while (
+    first < sections.length - 1 &&
+    offsets[first + 1] < viewport.top - OVERSCAN_HEIGHT
+  ) {
+    first++;
+  }
+  let last = first;
+  while (
+    last < sections.length - 1 &&
+    offsets[last + 1] < viewport.bottom + OVERSCAN_HEIGHT
+  ) {
+    last++;
+  }
+
+  useEffect(() => {
+    if (sections.length > 0 && last === sections.length - 1) {
+      onEndReached?.();
+    }
+  }, [last, sections.length, onEndReached]);
+
+  React.useImperativeHandle(
+    ref,
+    () => ({
+      scrollToSection: (sectionId: string) => {
+        const index = sections.findIndex((s) => s.sectionId === sectionId);
+        if (index === -1 || !containerRef.current) {
+          return false;
+        }
+
+        // Sections above the target may only be measured once rendered, so
+        // the position is corrected on the next frame
+        const scroll = () => {
+          const listTop =
+            containerRef.current!.getBoundingClientRect().top + window.scrollY;
+          window.scrollTo({ top: listTop + offsetsRef.current[index] });
+        };
+        scroll();
+        requestAnimationFrame(() => requestAnimationFrame(scroll));
+        return true;
+      },
+    }),
+    [sections]
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className="virtual-section-list"
+      style={{
+        paddingTop: offsets[first],
+        paddingBottom:
+          offsets[sections.length] -
+          offsets[Math.min(last + 1, sections.length)],
+      }}
+    >
+      {sections.slice(first, last + 1).map((section) => (
+        <div
+          key={getSectionKey(section)}
+          ref={observeSection}
+          data-section-key={getSectionKey(section)}
+          className={`virtual-section-list-item${
+            section.sectionId && section.sectionId === highlightedSectionId
+              ? " virtual-section-list-item-highlighted"
+              : ""
+          }`}
+        >
+          {renderSection(section)}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+/**
+ * Saves generated content as a file through a temporary download link
+ */
+function downloadFile(
+  filename: string,
+  content: string | Uint8Array,
+  type: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * IDs of the sections a change in chrome.storage.local added, or null when
+ * sections did not change. Both storage backends announce their writes under
+ * one key; sections stored as one array, before each got its own key, are
+ * compared instead.
+ */
+function getAddedSectionIds(changes: {
+  [key: string]: chrome.storage.StorageChange;
+}): string[] | null {
+  const announced = changes["deepwiki_heading_sections_changed"];
+  if (announced) {
+    return announced.newValue?.addedIds ?? [];
+  }
+
+  const sectionsChange = changes["deepwiki_heading_sections"];
+  if (!sectionsChange) {
+    return null;
+  }
+  const previousIds = new Set(
+    (sectionsChange.oldValue ?? []).map((s: any) => s.sectionId)
+  );
+  return (sectionsChange.newValue ?? [])
+    .map((s: any) => s.sectionId)
+    .filter((id: string) => !previousIds.has(id));
+}
+
+// Sections loaded per request while scrolling through the list
+const SECTION_PAGE_SIZE = 50;
+// Pause in typing after which the search box query is applied
+const SEARCH_DEBOUNCE_MS = 200;
+
 /**
  * Main Sidepanel component for DeepWiki++ heading section collection
  */
 function Sidepanel() {
-  // State for sections data
-  const [allSections, setAllSections] = useState<HeadingSection[]>([]);
+  // State for sections data, loaded a page at a time
+  const [loadedSections, setLoadedSections] = useState<HeadingSection[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
@@ -350,82 +1457,423 @@ function Sidepanel() {
     "addedAt" | "level" | "titleText" | "sourceUrl"
   >("addedAt");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [viewMode, setViewMode] = useState<"list" | "outline">("list");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown");
+  const [conflictStrategy, setConflictStrategy] =
+    useState<BackupConflictStrategy>("skip");
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const backupFileInput = useRef<HTMLInputElement>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatchMode>("any");
+
+  // Collection states
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [sectionCounts, setSectionCounts] = useState<Record<string, number>>(
+    {}
+  );
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(
+    null
+  );
+
+  // Saved searches shown as smart collections
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savedSearchCounts, setSavedSearchCounts] = useState<
+    Record<string, number>
+  >({});
+  const [activeSavedSearchId, setActiveSavedSearchId] = useState<string | null>(
+    null
+  );
 
-  // Local search state (for immediate UI feedback)
+  // Clips of the active collection
+  const [clips, setClips] = useState<Clip[]>([]);
+
+  // Search box state
   const [searchText, setSearchText] = useState("");
   const [isSearching, setIsSearching] = useState(false);
 
   // Ref to track if initial load is complete
   const isInitialLoadComplete = useRef(false);
 
-  // Filter sections locally based on search text
-  const filteredSections = useMemo(() => {
-    if (!searchText.trim()) {
-      return allSections;
+  // Paging bookkeeping; responses to outdated requests are dropped
+  const loadedCountRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const requestIdRef = useRef(0);
+
+  // Section to scroll to once it is loaded, and the one last jumped to
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [highlightedSectionId, setHighlightedSectionId] = useState<
+    string | null
+  >(null);
+  const sectionListRef = useRef<VirtualSectionListHandle>(null);
+
+  // Terms each loaded section matched, for highlighting; the background
+  // search reports them with the sections
+  const [searchMatches, setSearchMatches] = useState<Map<string, string[]>>(
+    new Map()
+  );
+
+  // Structured query typed in the search box (fields and text)
+  const parsedQuery = useMemo((): {
+    query: SearchQuery | null;
+    error: string | null;
+  } => {
+    try {
+      return { query: parseSearchQuery(searchText), error: null };
+    } catch (err) {
+      return {
+        query: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
     }
+  }, [searchText]);
+
+  // The query runs in the background with the dropdown filters, so that
+  // pages hold matching sections only; while the query has an error the last
+  // valid one stays applied
+  const lastQueryKey = useRef("{}");
+  if (parsedQuery.query) {
+    lastQueryKey.current = JSON.stringify(
+      searchQueryToInput(parsedQuery.query)
+    );
+  }
+  const typedQueryKey = lastQueryKey.current;
 
-    const lowerSearchText = searchText.toLowerCase();
+  // Apply the query once typing pauses
+  const [queryKey, setQueryKey] = useState(typedQueryKey);
+  useEffect(() => {
+    if (typedQueryKey === queryKey) {
+      return;
+    }
     setIsSearching(true);
+    const timer = setTimeout(
+      () => setQueryKey(typedQueryKey),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [typedQueryKey, queryKey]);
+  const queryFilter = useMemo(
+    (): GetHeadingSectionsInput => JSON.parse(queryKey),
+    [queryKey]
+  );
 
-    const filtered = allSections.filter((section) => {
-      const titleMatch = section.titleText
-        .toLowerCase()
-        .includes(lowerSearchText);
-      const urlMatch = section.sourceUrl
-        .toLowerCase()
-        .includes(lowerSearchText);
-      // Optional: search in content as well
-      const contentMatch = section.contentHtml
-        ?.toLowerCase()
-        .includes(lowerSearchText);
-
-      return titleMatch || urlMatch || contentMatch;
-    });
+  // Load collections and the active collection from background
+  const loadCollections = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "getCollections",
+      });
 
-    // Reset searching state after filtering
-    setTimeout(() => setIsSearching(false), 100);
-    return filtered;
-  }, [allSections, searchText]);
+      if (response.success) {
+        setCollections(response.collections || []);
+        setSectionCounts(response.sectionCounts || {});
+        setActiveCollectionId(response.activeCollectionId);
+      } else {
+        setError(response.error || "Failed to load collections");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  }, []);
 
-  // Load all sections from background (without search filtering)
-  const loadAllSections = useCallback(async () => {
+  // Load saved searches with the number of sections they match
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "getSavedSearches",
+      });
+
+      if (response.success) {
+        setSavedSearches(response.savedSearches || []);
+        setSavedSearchCounts(response.sectionCounts || {});
+      } else {
+        setError(response.error || "Failed to load saved searches");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  }, []);
+
+  // The shown smart collection; the list is reloaded with new counts whenever
+  // sections change, so it is compared by content to avoid extra loads
+  const activeSavedSearchKey = JSON.stringify(
+    savedSearches.find((s) => s.savedSearchId === activeSavedSearchId) ?? null
+  );
+  const activeSavedSearch = useMemo(
+    (): SavedSearch | null => JSON.parse(activeSavedSearchKey),
+    [activeSavedSearchKey]
+  );
+
+  // Link clips to the sections they were selected under
+  const { clipsBySection, unlinkedClips } = useMemo(() => {
+    const bySection = new Map<string, Clip[]>();
+    const unlinked: Clip[] = [];
+
+    for (const clip of clips) {
+      const section = loadedSections.find((s) => isClipOfSection(clip, s));
+      if (section) {
+        bySection.set(section.sectionId, [
+          ...(bySection.get(section.sectionId) ?? []),
+          clip,
+        ]);
+      } else {
+        unlinked.push(clip);
+      }
+    }
+
+    return { clipsBySection: bySection, unlinkedClips: unlinked };
+  }, [clips, loadedSections]);
+
+  const loadClips = useCallback(async () => {
+    if (!activeCollectionId) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "getClips",
+        input: { collectionId: activeCollectionId },
+      });
+
+      if (response.success) {
+        setClips(response.clips || []);
+      } else {
+        setError(response.error || "Failed to load clips");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  }, [activeCollectionId]);
+
+  // Sections to show: the active collection, or the sections matching the
+  // active smart collection, narrowed by the dropdowns and the search box
+  const sectionFilter = useMemo((): GetHeadingSectionsInput | null => {
+    // Wait until the active collection is known
+    if (!activeCollectionId) {
+      return null;
+    }
+
+    // Text searches rank the best matches first
+    const isRanked = !!(queryFilter.searchText || queryFilter.phrases?.length);
+
+    // A smart collection spans all collections; its saved search runs with
+    // relative dates resolved now, narrowed by the dropdowns that are set
+    const currentFilter: GetHeadingSectionsInput = activeSavedSearch
+      ? {
+          ...filter,
+          ...savedSearchToInput(activeSavedSearch),
+          ...(selectedLevel !== "" && { level: selectedLevel }),
+          ...(selectedTags.length > 0 && { tags: selectedTags, tagMatch }),
+          sortBy,
+          sortOrder,
+          ...queryFilter,
+        }
+      : {
+          ...filter,
+          collectionId: activeCollectionId,
+          level: selectedLevel || undefined,
+          tags: selectedTags.length > 0 ? selectedTags : undefined,
+          tagMatch,
+          sortBy,
+          sortOrder,
+          // Fields typed in the search box override the dropdowns
+          ...queryFilter,
+        };
+
+    return {
+      ...currentFilter,
+      searchInContent: true,
+      ...(isRanked && { sortBy: "relevance" }),
+    };
+  }, [
+    filter,
+    activeCollectionId,
+    selectedLevel,
+    selectedTags,
+    tagMatch,
+    sortBy,
+    sortOrder,
+    queryFilter,
+    activeSavedSearch,
+  ]);
+
+  // Load the first pages of sections from background. As many sections as
+  // are loaded get reloaded, so refreshing keeps the scroll position; the
+  // outline needs every section at once.
+  const loadSections = useCallback(async () => {
+    if (!sectionFilter) {
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
     try {
       // Only show loading spinner on initial load
       if (!isInitialLoadComplete.current) {
         setLoading(true);
       }
+      setRefreshing(true);
       setError(null);
 
-      const currentFilter: GetHeadingSectionsInput = {
-        ...filter,
-        level: selectedLevel || undefined,
-        sortBy,
-        sortOrder,
-        // Note: searchText is NOT included here - handled locally
-      };
-
       const response = await chrome.runtime.sendMessage({
         action: "getHeadingSections",
-        input: currentFilter,
+        input: {
+          ...sectionFilter,
+          limit:
+            viewMode === "outline"
+              ? undefined
+              : Math.max(SECTION_PAGE_SIZE, loadedCountRef.current),
+        },
       });
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
 
       if (response.success) {
-        setAllSections(response.sections || []);
+        const sections: HeadingSection[] = response.sections || [];
+        loadedCountRef.current = sections.length;
+        setLoadedSections(sections);
+        setSearchMatches(
+          new Map(Object.entries<string[]>(response.matchedTerms ?? {}))
+        );
+        setTotalCount(response.totalCount ?? sections.length);
+        setHasMore(!!response.metadata?.wasLimited);
         isInitialLoadComplete.current = true;
       } else {
         setError(response.error || "Failed to load sections");
       }
+    } catch (err) {
+      if (requestId === requestIdRef.current) {
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+        setIsSearching(false);
+      }
+    }
+  }, [sectionFilter, viewMode]);
+
+  // Load the next page of sections, e.g. when scrolled to the end
+  const loadMoreSections = useCallback(async () => {
+    if (!sectionFilter || !hasMore || loadingMoreRef.current) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "getHeadingSections",
+        input: {
+          ...sectionFilter,
+          offset: loadedCountRef.current,
+          limit: SECTION_PAGE_SIZE,
+        },
+      });
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      if (response.success) {
+        const page: HeadingSection[] = response.sections || [];
+        loadedCountRef.current += page.length;
+        // Sections added meanwhile shift the pages; skip ones already loaded
+        setLoadedSections((prev) => {
+          const loadedIds = new Set(prev.map((s) => s.sectionId));
+          return [...prev, ...page.filter((s) => !loadedIds.has(s.sectionId))];
+        });
+        setSearchMatches(
+          (prev) =>
+            new Map([
+              ...prev,
+              ...Object.entries<string[]>(response.matchedTerms ?? {}),
+            ])
+        );
+        setTotalCount(response.totalCount ?? 0);
+        setHasMore(!!response.metadata?.wasLimited);
+      } else {
+        setError(response.error || "Failed to load sections");
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error occurred");
     } finally {
-      setLoading(false);
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [sectionFilter, hasMore]);
+
+  // Load every section matching the current filters, e.g. to export them
+  const loadAllMatchingSections = async (): Promise<HeadingSection[]> => {
+    if (!hasMore || !sectionFilter) {
+      return loadedSections;
     }
-  }, [filter, selectedLevel, sortBy, sortOrder]); // searchText removed from dependencies
 
-  // Load sections on component mount and when dependencies change
+    const response = await chrome.runtime.sendMessage({
+      action: "getHeadingSections",
+      input: sectionFilter,
+    });
+    if (!response.success) {
+      throw new Error(response.error || "Failed to load sections");
+    }
+    return response.sections || [];
+  };
+
+  // Scroll to the jump target once its page is loaded, loading pages until
+  // it is found; filters may leave it out, in which case there is no jump
   useEffect(() => {
-    loadAllSections();
-  }, [loadAllSections]);
+    if (!jumpTargetId || refreshing) {
+      return;
+    }
+
+    if (loadedSections.some((s) => s.sectionId === jumpTargetId)) {
+      if (viewMode === "list") {
+        sectionListRef.current?.scrollToSection(jumpTargetId);
+      }
+      setHighlightedSectionId(jumpTargetId);
+      setJumpTargetId(null);
+    } else if (hasMore && viewMode === "list") {
+      loadMoreSections();
+    } else {
+      setJumpTargetId(null);
+    }
+  }, [
+    jumpTargetId,
+    refreshing,
+    loadedSections,
+    hasMore,
+    viewMode,
+    loadMoreSections,
+  ]);
+
+  // The highlight of a jumped-to section fades after a moment
+  useEffect(() => {
+    if (!highlightedSectionId) {
+      return;
+    }
+    const timer = setTimeout(() => setHighlightedSectionId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedSectionId]);
+
+  // Load collections on component mount
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  // Load sections on component mount, and from the first page again when
+  // the filters change
+  useEffect(() => {
+    loadedCountRef.current = 0;
+    loadSections();
+  }, [loadSections]);
+
+  useEffect(() => {
+    loadClips();
+  }, [loadClips]);
 
   // Listen for real-time section updates from content script
   useEffect(() => {
@@ -437,7 +1885,9 @@ function Sidepanel() {
       if (message.action === "sectionAdded") {
         console.log("SidePanel: Section added, refreshing list");
         // Reload sections to show the new addition
-        loadAllSections();
+        loadSections();
+        loadCollections();
+        loadSavedSearches();
       }
     };
 
@@ -451,11 +1901,49 @@ function Sidepanel() {
     ) => {
       console.log("SidePanel: Storage changed:", changes, areaName);
 
-      if (areaName === "local" && changes["deepwiki_heading_sections"]) {
+      // Synced sections changed by other devices are reloaded as well
+      const addedSectionIds =
+        areaName === "local"
+          ? getAddedSectionIds(changes)
+          : areaName === "sync" &&
+            Object.keys(changes).some((key) =>
+              key.startsWith("deepwiki_heading_section")
+            )
+          ? []
+          : null;
+      const sectionsChanged = addedSectionIds !== null;
+
+      if (sectionsChanged) {
         console.log(
           "SidePanel: Heading sections storage changed, refreshing list"
         );
-        loadAllSections();
+        loadSections();
+
+        // Jump to a single section added from the page
+        if (addedSectionIds.length === 1) {
+          setJumpTargetId(addedSectionIds[0]);
+        }
+      }
+
+      if (
+        areaName === "local" &&
+        (sectionsChanged ||
+          changes["deepwiki_collections"] ||
+          changes["deepwiki_active_collection"])
+      ) {
+        loadCollections();
+      }
+
+      if (areaName === "local" && changes["deepwiki_clips"]) {
+        loadClips();
+      }
+
+      // Smart collection counts follow the sections they match
+      if (
+        areaName === "local" &&
+        (sectionsChanged || changes["deepwiki_saved_searches"])
+      ) {
+        loadSavedSearches();
       }
     };
 
@@ -467,7 +1955,7 @@ function Sidepanel() {
       chrome.runtime.onMessage.removeListener(handleMessage);
       chrome.storage.onChanged.removeListener(handleStorageChange);
     };
-  }, [loadAllSections]);
+  }, [loadSections, loadCollections, loadClips, loadSavedSearches]);
 
   // Handle section expansion/collapse
   const handleToggleExpand = (section: HeadingSection) => {
@@ -504,7 +1992,7 @@ function Sidepanel() {
 
       if (response.success) {
         // Optimistically update UI
-        setAllSections((prev) =>
+        setLoadedSections((prev) =>
           prev.filter((s) => s.sectionId !== section.sectionId)
         );
         console.log("SidePanel: Section removed successfully");
@@ -517,6 +2005,291 @@ function Sidepanel() {
     }
   };
 
+  // Handle removing a clip
+  const handleRemoveClip = async (clip: Clip) => {
+    if (!confirm("Are you sure you want to remove this clip?")) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "removeClip",
+        input: { clipId: clip.clipId },
+      });
+
+      if (response.success) {
+        setClips((prev) => prev.filter((c) => c.clipId !== clip.clipId));
+      } else {
+        setError(response.error || "Failed to remove clip");
+      }
+    } catch (err) {
+      console.error("SidePanel: Error removing clip:", err);
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Handle adding/removing tags on a section
+  const handleUpdateTags = async (
+    section: HeadingSection,
+    changes: { addTags?: string[]; removeTags?: string[] }
+  ) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "updateHeadingSectionTags",
+        input: { sectionId: section.sectionId, ...changes },
+      });
+
+      if (response.success) {
+        // Optimistically update UI
+        setLoadedSections((prev) =>
+          prev.map((s) =>
+            s.sectionId === section.sectionId
+              ? { ...s, tags: response.tags }
+              : s
+          )
+        );
+      } else {
+        setError(response.error || "Failed to update tags");
+      }
+    } catch (err) {
+      console.error("SidePanel: Error updating tags:", err);
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Handle saving the personal note of a section
+  const handleUpdateNote = async (section: HeadingSection, note: string) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "updateHeadingSection",
+        input: { sectionId: section.sectionId, note },
+      });
+
+      if (response.success) {
+        // Optimistically update UI
+        setLoadedSections((prev) =>
+          prev.map((s) =>
+            s.sectionId === section.sectionId
+              ? { ...s, note: response.section.note }
+              : s
+          )
+        );
+      } else {
+        setError(response.error || "Failed to save note");
+      }
+    } catch (err) {
+      console.error("SidePanel: Error saving note:", err);
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Handle changing which collections a section belongs to
+  const handleUpdateCollections = async (
+    section: HeadingSection,
+    collectionIds: string[]
+  ) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "updateHeadingSection",
+        input: { sectionId: section.sectionId, collectionIds },
+      });
+
+      if (!response.success) {
+        setError(response.error || "Failed to update collections");
+      }
+      // The storage listener reloads sections and collection counts
+    } catch (err) {
+      console.error("SidePanel: Error updating collections:", err);
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Switch the collection that is shown and that new sections are added to
+  const handleSwitchCollection = async (collectionId: string) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "setActiveCollection",
+        input: { collectionId },
+      });
+
+      if (response.success) {
+        setActiveCollectionId(response.activeCollectionId);
+        setExpandedSections(new Set());
+      } else {
+        setError(response.error || "Failed to switch collection");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Create a new collection and switch to it
+  const handleCreateCollection = async () => {
+    const name = prompt("Name of the new collection:");
+    if (!name?.trim()) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "createCollection",
+        input: { name, makeActive: true },
+      });
+
+      if (response.success) {
+        await loadCollections();
+      } else {
+        alert(response.error || "Failed to create collection");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Rename a collection
+  const handleRenameCollection = async (collection: Collection) => {
+    const name = prompt("New name of the collection:", collection.name);
+    if (!name?.trim() || name.trim() === collection.name) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "renameCollection",
+        input: { collectionId: collection.collectionId, name },
+      });
+
+      if (response.success) {
+        await loadCollections();
+      } else {
+        alert(response.error || "Failed to rename collection");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Delete a collection (its sections are kept)
+  const handleDeleteCollection = async (collection: Collection) => {
+    if (
+      !confirm(
+        `Delete the collection "${collection.name}"? Sections that are not in any other collection will be moved to the default collection.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "deleteCollection",
+        input: { collectionId: collection.collectionId },
+      });
+
+      if (response.success) {
+        await loadCollections();
+      } else {
+        setError(response.error || "Failed to delete collection");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Show a smart collection, with its saved sort order, or go back to the
+  // active collection
+  const handleSwitchSavedSearch = (savedSearchId: string | null) => {
+    const savedSearch = savedSearches.find(
+      (s) => s.savedSearchId === savedSearchId
+    );
+    if (savedSearch?.sortBy && savedSearch.sortBy !== "relevance") {
+      setSortBy(savedSearch.sortBy);
+    }
+    if (savedSearch?.sortOrder) {
+      setSortOrder(savedSearch.sortOrder);
+    }
+    setActiveSavedSearchId(savedSearch ? savedSearch.savedSearchId : null);
+    setExpandedSections(new Set());
+  };
+
+  // Save the search box text, filters and sort order as a smart collection
+  const handleSaveSearch = async () => {
+    const name = prompt(
+      "Name of the smart collection (it always shows the sections of all collections matching the current search and filters):"
+    );
+    if (!name?.trim()) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "createSavedSearch",
+        // Searching within a smart collection refines its saved search
+        input: {
+          name,
+          query: [activeSavedSearch?.query, searchText]
+            .filter(Boolean)
+            .join(" "),
+          level: selectedLevel || activeSavedSearch?.level,
+          ...(selectedTags.length > 0
+            ? { tags: selectedTags, tagMatch }
+            : {
+                tags: activeSavedSearch?.tags,
+                tagMatch: activeSavedSearch?.tagMatch,
+              }),
+          searchInContent: true,
+          sortBy,
+          sortOrder,
+        },
+      });
+
+      if (response.success) {
+        await loadSavedSearches();
+        setActiveSavedSearchId(response.savedSearch.savedSearchId);
+        setSearchText("");
+        setSelectedLevel("");
+        setSelectedTags([]);
+      } else {
+        alert(response.error || "Failed to save search");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Delete a smart collection (its sections are kept)
+  const handleDeleteSavedSearch = async (savedSearch: SavedSearch) => {
+    if (
+      !confirm(
+        `Delete the smart collection "${savedSearch.name}"? Its sections are kept.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "deleteSavedSearch",
+        input: { savedSearchId: savedSearch.savedSearchId },
+      });
+
+      if (response.success) {
+        setActiveSavedSearchId(null);
+        await loadSavedSearches();
+      } else {
+        setError(response.error || "Failed to delete saved search");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    }
+  };
+
+  // Toggle a tag in the tag filter
+  const handleToggleTagFilter = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
+
   // Handle search input change
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchText(e.target.value);
@@ -542,6 +2315,8 @@ function Sidepanel() {
   const handleClearFilters = () => {
     setSearchText("");
     setSelectedLevel("");
+    setSelectedTags([]);
+    setTagMatch("any");
     setSortBy("addedAt");
     setSortOrder("desc");
   };
@@ -549,7 +2324,7 @@ function Sidepanel() {
   // Expand/Collapse all sections
   const handleExpandAll = () => {
     setExpandedSections(
-      new Set(filteredSections.map((s) => s.sectionId || s.titleText))
+      new Set(loadedSections.map((s) => s.sectionId || s.titleText))
     );
   };
 
@@ -557,6 +2332,147 @@ function Sidepanel() {
     setExpandedSections(new Set());
   };
 
+  const renderSection = (section: HeadingSection) => (
+    <HeadingSectionItem
+      section={section}
+      onRemove={handleRemoveSection}
+      isExpanded={expandedSections.has(section.sectionId || section.titleText)}
+      onToggleExpand={handleToggleExpand}
+      onUpdateTags={handleUpdateTags}
+      onUpdateNote={handleUpdateNote}
+      collections={collections}
+      onUpdateCollections={handleUpdateCollections}
+      clips={clipsBySection.get(section.sectionId)}
+      onRemoveClip={handleRemoveClip}
+      matchedTerms={searchMatches.get(section.sectionId)}
+    />
+  );
+
+  // Export the sections as currently filtered and sorted, or back up all
+  const handleExport = async () => {
+    if (exportFormat === "backup") {
+      try {
+        const response = await chrome.runtime.sendMessage({
+          action: "exportBackup",
+        });
+
+        if (response.success) {
+          downloadFile(
+            `deepwiki-pp-backup-${response.backup.exportedAt.slice(
+              0,
+              10
+            )}.json`,
+            JSON.stringify(response.backup, null, 2),
+            "application/json"
+          );
+        } else {
+          setError(response.error || "Failed to export backup");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+      }
+      return;
+    }
+
+    // Pages not scrolled to yet are exported too
+    let sections: HeadingSection[];
+    try {
+      sections = await loadAllMatchingSections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+      return;
+    }
+
+    const title =
+      activeSavedSearch?.name ??
+      collections.find((c) => c.collectionId === activeCollectionId)?.name ??
+      "DeepWiki++ Sections";
+    const baseName = toFileSlug(title);
+
+    if (exportFormat === "markdown") {
+      downloadFile(
+        `${baseName}.md`,
+        buildMarkdownDocument(sections, { title }),
+        "text/markdown"
+      );
+    } else if (exportFormat === "html") {
+      downloadFile(
+        `${baseName}.html`,
+        buildHtmlDocument(sections, { title }),
+        "text/html"
+      );
+    } else if (exportFormat === "epub") {
+      downloadFile(
+        `${baseName}.epub`,
+        buildEpub(sections, { title }),
+        "application/epub+zip"
+      );
+    } else if (exportFormat === "obsidian") {
+      downloadFile(
+        `${baseName}-obsidian-vault.zip`,
+        createZip(buildObsidianVault(sections)),
+        "application/zip"
+      );
+    } else if (exportFormat === "anki" || exportFormat === "anki-cloze") {
+      const cards = buildFlashcards(sections, {
+        cloze: exportFormat === "anki-cloze",
+      });
+      downloadFile(
+        `${baseName}-anki.tsv`,
+        buildAnkiTsv(cards, { deck: title }),
+        "text/tab-separated-values"
+      );
+    } else {
+      downloadFile(
+        `${baseName}-sections.zip`,
+        createZip(buildMarkdownFiles(sections)),
+        "application/zip"
+      );
+    }
+  };
+
+  // Restore sections from a backup file chosen by the user
+  const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    let backup: unknown;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      setImportReport({ error: `${file.name} is not a valid JSON file` });
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "importBackup",
+        input: { backup, conflictStrategy },
+      });
+
+      if (response.success) {
+        setImportReport({
+          added: response.added,
+          overwritten: response.overwritten,
+          skipped: response.skipped,
+          collectionsAdded: response.collectionsAdded,
+          rejected: response.rejected,
+        });
+        await loadCollections();
+        await loadSections();
+      } else {
+        setImportReport({ error: response.error || "Failed to restore" });
+      }
+    } catch (err) {
+      setImportReport({
+        error: err instanceof Error ? err.message : "Unknown error occurred",
+      });
+    }
+  };
+
   // Clear all sections
   const handleClearAllSections = async () => {
     if (
@@ -576,7 +2492,10 @@ function Sidepanel() {
       });
 
       if (response.success) {
-        setAllSections([]);
+        loadedCountRef.current = 0;
+        setLoadedSections([]);
+        setTotalCount(0);
+        setHasMore(false);
         console.log("SidePanel: All sections cleared successfully");
       } else {
         setError(response.error || "Failed to clear sections");
@@ -588,8 +2507,22 @@ function Sidepanel() {
     }
   };
 
-  // Get available heading levels from sections
-  const availableLevels = [...new Set(allSections.map((s) => s.level))].sort();
+  // Get available heading levels from the loaded sections (keeping the
+  // selected one visible)
+  const availableLevels = [
+    ...new Set([
+      ...loadedSections.map((s) => s.level),
+      ...(selectedLevel !== "" ? [selectedLevel] : []),
+    ]),
+  ].sort();
+
+  // Get available tags from the loaded sections (keeping selected ones visible)
+  const availableTags = [
+    ...new Set([
+      ...loadedSections.flatMap((s) => s.tags ?? []),
+      ...selectedTags,
+    ]),
+  ].sort();
 
   if (loading && !isInitialLoadComplete.current) {
     return (
@@ -604,7 +2537,7 @@ function Sidepanel() {
       <div className="error-state">
         <div className="error-message">Error: {error}</div>
         <button
-          onClick={loadAllSections}
+          onClick={loadSections}
           className="sidepanel-button sidepanel-button-retry"
         >
           Retry
@@ -623,9 +2556,9 @@ function Sidepanel() {
             <span>Searching...</span>
           ) : (
             <>
-              {filteredSections.length} / {allSections.length} section
-              {filteredSections.length !== 1 ? "s" : ""}
+              {totalCount} section{totalCount !== 1 ? "s" : ""}
               {searchText && ` matching "${searchText}"`}
+              {hasMore && ` · ${loadedSections.length} loaded`}
             </>
           )}
         </div>
@@ -633,6 +2566,24 @@ function Sidepanel() {
 
       {/* Controls */}
       <div className="sidepanel-controls">
+        {/* Collection Switcher */}
+        {activeCollectionId && (
+          <CollectionSwitcher
+            collections={collections}
+            sectionCounts={sectionCounts}
+            activeCollectionId={activeCollectionId}
+            onSwitch={handleSwitchCollection}
+            onCreate={handleCreateCollection}
+            onRename={handleRenameCollection}
+            onDelete={handleDeleteCollection}
+            savedSearches={savedSearches}
+            savedSearchCounts={savedSearchCounts}
+            activeSavedSearchId={activeSavedSearch?.savedSearchId ?? null}
+            onSwitchSavedSearch={handleSwitchSavedSearch}
+            onDeleteSavedSearch={handleDeleteSavedSearch}
+          />
+        )}
+
         {/* Search */}
         <div className="sidepanel-search">
           <input
@@ -640,7 +2591,12 @@ function Sidepanel() {
             placeholder="Search sections..."
             value={searchText}
             onChange={handleSearchChange}
-            className="sidepanel-search-input"
+            className={`sidepanel-search-input ${
+              parsedQuery.error ? "sidepanel-search-input-invalid" : ""
+            }`}
+            title={
+              'Words match with typos allowed. Also: "exact phrase", -excluded, level:2, repo:owner/name, tag:name, after:YYYY-MM-DD, before:YYYY-MM-DD, after:30d (days ago), after:2w (weeks ago)'
+            }
           />
           {searchText && (
             <button
@@ -652,6 +2608,11 @@ function Sidepanel() {
             </button>
           )}
         </div>
+        {parsedQuery.error && (
+          <div className="sidepanel-search-error" role="alert">
+            {parsedQuery.error}
+          </div>
+        )}
 
         {/* Filters */}
         <div className="sidepanel-filters">
@@ -677,13 +2638,22 @@ function Sidepanel() {
           </button>
 
           <button
-            onClick={loadAllSections}
+            onClick={loadSections}
             className="sidepanel-button sidepanel-button-refresh"
           >
             Refresh
           </button>
 
-          {allSections.length > 0 && (
+          <button
+            onClick={handleSaveSearch}
+            disabled={!!parsedQuery.error}
+            className="sidepanel-button sidepanel-button-save-search"
+            title="Save the search and filters as a smart collection"
+          >
+            Save Search
+          </button>
+
+          {loadedSections.length > 0 && (
             <button
               onClick={handleClearAllSections}
               className="sidepanel-button sidepanel-button-clear-all"
@@ -694,6 +2664,37 @@ function Sidepanel() {
           )}
         </div>
 
+        {/* Tag Filter */}
+        {availableTags.length > 0 && (
+          <div className="sidepanel-tag-filter">
+            <span className="sidepanel-sort-label">Tags:</span>
+            {availableTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => handleToggleTagFilter(tag)}
+                className={`sidepanel-tag-chip ${
+                  selectedTags.includes(tag)
+                    ? "sidepanel-tag-chip-active"
+                    : "sidepanel-tag-chip-inactive"
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+            {selectedTags.length > 1 && (
+              <select
+                value={tagMatch}
+                onChange={(e) => setTagMatch(e.target.value as TagMatchMode)}
+                className="sidepanel-select"
+                title="Match any or all selected tags"
+              >
+                <option value="any">Any tag</option>
+                <option value="all">All tags</option>
+              </select>
+            )}
+          </div>
+        )}
+
         {/* Sort and Expand Controls */}
         <div className="sidepanel-sort-controls">
           <span className="sidepanel-sort-label">Sort:</span>
@@ -714,6 +2715,74 @@ function Sidepanel() {
             )
           )}
 
+          <span className="sidepanel-sort-label">View:</span>
+          {(["list", "outline"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`sidepanel-sort-button ${
+                viewMode === mode
+                  ? "sidepanel-sort-button-active"
+                  : "sidepanel-sort-button-inactive"
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+
+          <span className="sidepanel-sort-label">Export:</span>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="sidepanel-select"
+            title="Export format"
+          >
+            <option value="markdown">Markdown (.md)</option>
+            <option value="markdown-files">Markdown per section (.zip)</option>
+            <option value="html">Offline HTML (.html)</option>
+            <option value="epub">E-book (.epub)</option>
+            <option value="obsidian">Obsidian vault (.zip)</option>
+            <option value="anki">Anki cards (.tsv)</option>
+            <option value="anki-cloze">Anki cards with cloze (.tsv)</option>
+            <option value="backup">Backup of all sections (.json)</option>
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={exportFormat !== "backup" && loadedSections.length === 0}
+            className="sidepanel-button sidepanel-button-export"
+            title="Export the sections shown, in the current order"
+          >
+            Export
+          </button>
+
+          <span className="sidepanel-sort-label">Restore:</span>
+          <select
+            value={conflictStrategy}
+            onChange={(e) =>
+              setConflictStrategy(e.target.value as BackupConflictStrategy)
+            }
+            className="sidepanel-select"
+            title="What to do with backed up sections that are already stored"
+          >
+            <option value="skip">Skip existing</option>
+            <option value="overwrite">Overwrite existing</option>
+            <option value="keep-both">Keep both</option>
+          </select>
+          <button
+            onClick={() => backupFileInput.current?.click()}
+            className="sidepanel-button sidepanel-button-export"
+            title="Restore sections from a backup file"
+          >
+            Restore…
+          </button>
+          <input
+            ref={backupFileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportBackup}
+            hidden
+          />
+
           <div className="sidepanel-expand-controls">
             <button
               onClick={handleExpandAll}
@@ -731,8 +2800,15 @@ function Sidepanel() {
         </div>
       </div>
 
+      {importReport && (
+        <ImportReportView
+          report={importReport}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+
       {/* Sections List */}
-      {filteredSections.length === 0 ? (
+      {loadedSections.length === 0 ? (
         <div className="empty-state">
           {searchText ? (
             <>
@@ -759,17 +2835,47 @@ function Sidepanel() {
             </>
           )}
         </div>
+      ) : viewMode === "outline" ? (
+        <SectionOutlineView
+          sections={loadedSections}
+          renderSection={renderSection}
+        />
       ) : (
-        <div>
-          {filteredSections.map((section, index) => (
-            <HeadingSectionItem
-              key={section.sectionId || `${index}-${section.titleText}`}
-              section={section}
-              onRemove={handleRemoveSection}
-              isExpanded={expandedSections.has(
-                section.sectionId || section.titleText
+        <>
+          <VirtualSectionList
+            ref={sectionListRef}
+            sections={loadedSections}
+            renderSection={renderSection}
+            highlightedSectionId={highlightedSectionId}
+            onEndReached={loadMoreSections}
+          />
+          {hasMore && (
+            <div className="sidepanel-load-more">
+              {loadingMore ? (
+                "Loading more sections..."
+              ) : (
+                <button onClick={loadMoreSections} className="link-button">
+                  Load more sections
+                </button>
               )}
-              onToggleExpand={handleToggleExpand}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Clips whose heading is not saved as a section; until every page is
+          loaded their section may just not be loaded yet */}
+      {unlinkedClips.length > 0 && !activeSavedSearch && !hasMore && (
+        <div className="clips-group">
+          <div className="clips-group-title">
+            📎 Clips ({unlinkedClips.length})
+          </div>
+          {unlinkedClips.map((clip) => (
+            <ClipItem
+              key={clip.clipId}
+              clip={clip}
+              showHeading
+              onRemove={handleRemoveClip}
             />
           ))}
         </div>
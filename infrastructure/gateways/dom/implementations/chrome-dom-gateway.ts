@@ -1,16 +1,20 @@
 import {
   IDomGateway,
+  CapturedSelection,
   DOM_TIMEOUT_CONSTANTS,
 } from "../interfaces/dom-gateway.interface";
 import {
   HeadingSection,
   HEADING_TAGS,
+  TextAnchor,
 } from "../../../../domain/heading-collection";
 import { ContentContainerFinder } from "../strategies/content-container-finder";
 import { PageValidator } from "../strategies/page-validator";
 import { HeadingExtractorService } from "../services/heading-extractor.service";
 import { ButtonManagerService } from "../services/button-manager.service";
 import { SPAMonitorService } from "../services/spa-monitor.service";
+import { SelectionClipService } from "../services/selection-clip.service";
+import { BatchSelectionService } from "../services/batch-selection.service";
 import { HeadingElementFinder } from "../strategies/heading-element-finder";
 import { ButtonFactory } from "../factories/button.factory";
 
@@ -25,6 +29,8 @@ export class ChromeDomGateway implements IDomGateway {
   private readonly headingExtractor: HeadingExtractorService;
   private readonly buttonManager: ButtonManagerService;
   private readonly spaMonitor: SPAMonitorService;
+  private readonly selectionClips: SelectionClipService;
+  private readonly batchSelection: BatchSelectionService;
 
   constructor() {
     // Initialize dependencies
@@ -36,6 +42,8 @@ export class ChromeDomGateway implements IDomGateway {
       new ButtonFactory()
     );
     this.spaMonitor = new SPAMonitorService();
+    this.selectionClips = new SelectionClipService();
+    this.batchSelection = new BatchSelectionService(new HeadingElementFinder());
 
     console.debug(
       "DeepWiki++: ChromeDomGateway initialized with modular services"
@@ -148,6 +156,74 @@ export class ChromeDomGateway implements IDomGateway {
     this.removeAddButtons();
   }
 
+  /**
+   * Enables the clip button for text selections
+   */
+  enableSelectionCapture(
+    container: Element,
+    onClip: (selection: CapturedSelection) => void
+  ): void {
+    console.debug("DeepWiki++: Enabling selection capture");
+    this.selectionClips.enable(container, onClip);
+  }
+
+  /**
+   * Disables the clip button for text selections
+   */
+  disableSelectionCapture(): void {
+    console.debug("DeepWiki++: Disabling selection capture");
+    this.selectionClips.disable();
+  }
+
+  /**
+   * Highlights saved clips
+   */
+  highlightClips(
+    container: Element,
+    clips: ReadonlyArray<{ clipId: string; anchor: TextAnchor }>
+  ): number {
+    const found = this.selectionClips.highlight(container, clips);
+    console.debug("DeepWiki++: Highlighted clips", {
+      found,
+      total: clips.length,
+    });
+    return found;
+  }
+
+  /**
+   * Removes all clip highlights
+   */
+  removeClipHighlights(): void {
+    this.selectionClips.removeHighlights();
+  }
+
+  /**
+   * Enables batch selection of heading sections
+   */
+  enableBatchSelection(
+    sections: HeadingSection[],
+    onSubmit: (sections: HeadingSection[]) => void
+  ): void {
+    console.debug("DeepWiki++: Enabling batch selection", {
+      sectionCount: sections.length,
+    });
+    this.batchSelection.enable(sections, onSubmit);
+  }
+
+  /**
+   * Shows a message in the batch toolbar
+   */
+  showBatchStatus(message: string): void {
+    this.batchSelection.showStatus(message);
+  }
+
+  /**
+   * Disables batch selection of heading sections
+   */
+  disableBatchSelection(): void {
+    this.batchSelection.disable();
+  }
+
   /**
    * Handles page changes
    */
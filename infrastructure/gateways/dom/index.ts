@@ -1,5 +1,8 @@
 // Interfaces
-export { IDomGateway } from "./interfaces/dom-gateway.interface";
+export {
+  IDomGateway,
+  CapturedSelection,
+} from "./interfaces/dom-gateway.interface";
 export {
   IButtonManager,
   ButtonState,
@@ -18,6 +21,8 @@ export { ButtonFactory } from "./factories/button.factory";
 export { ButtonManagerService } from "./services/button-manager.service";
 export { SPAMonitorService } from "./services/spa-monitor.service";
 export { HeadingExtractorService } from "./services/heading-extractor.service";
+export { SelectionClipService } from "./services/selection-clip.service";
+export { BatchSelectionService } from "./services/batch-selection.service";
 
 // Strategies
 export { ContentContainerFinder } from "./strategies/content-container-finder";
@@ -32,6 +37,8 @@ export {
   DEEPWIKI_SELECTORS,
 } from "./utils/selectors.constants";
 export { BUTTON_STYLES, BUTTON_CONSTANTS } from "./utils/button-styles";
+export { CLIP_STYLES, CLIP_CONSTANTS } from "./utils/clip-styles";
+export { BATCH_STYLES, BATCH_CONSTANTS } from "./utils/batch-styles";
 
 // Types
 export type { HeadingSection } from "../../../domain/heading-collection";
@@ -1,4 +1,7 @@
-import { HeadingSection } from "../../../../domain/heading-collection";
+import {
+  HeadingSection,
+  TextAnchor,
+} from "../../../../domain/heading-collection";
 
 /**
  * Default timeout constants for DOM operations
@@ -22,6 +25,23 @@ export const DOM_TIMEOUT_CONSTANTS = {
   DEFAULT_PENDING_DIAGRAM_EXTRA_WAIT: 2000,
 } as const;
 
+/**
+ * A text selection captured from the content container
+ */
+export interface CapturedSelection {
+  /** HTML of the selected DOM range */
+  contentHtml: string;
+  /** Position of the selection in the page text */
+  anchor: TextAnchor;
+  /** Nearest heading before the selection */
+  heading?: {
+    level: number;
+    title: string;
+    /** Titles of the enclosing headings, outermost first */
+    headingPath: string[];
+  };
+}
+
 /**
  * Main interface for DOM operations
  *
@@ -123,4 +143,56 @@ export interface IDomGateway {
     container: Element,
     maxWaitTime?: number
   ): Promise<void>;
+
+  /**
+   * Shows a clip button for text selected inside the container
+   * @param container - Container element to capture selections from
+   * @param onClip - Callback receiving the captured selection
+   */
+  enableSelectionCapture(
+    container: Element,
+    onClip: (selection: CapturedSelection) => void
+  ): void;
+
+  /**
+   * Stops capturing selections
+   */
+  disableSelectionCapture(): void;
+
+  /**
+   * Highlights saved clips in the container
+   * @param container - Container element the clips were captured from
+   * @param clips - Clips with their text anchors
+   * @returns Number of clips found on the page
+   */
+  highlightClips(
+    container: Element,
+    clips: ReadonlyArray<{ clipId: string; anchor: TextAnchor }>
+  ): number;
+
+  /**
+   * Removes all clip highlights
+   */
+  removeClipHighlights(): void;
+
+  /**
+   * Shows a toolbar for selecting many headings with checkboxes
+   * @param sections - Heading sections that can be selected
+   * @param onSubmit - Callback receiving the selected sections in page order
+   */
+  enableBatchSelection(
+    sections: HeadingSection[],
+    onSubmit: (sections: HeadingSection[]) => void
+  ): void;
+
+  /**
+   * Shows a message in the batch toolbar, such as the result of a batch
+   * @param message - Text to show
+   */
+  showBatchStatus(message: string): void;
+
+  /**
+   * Removes the batch toolbar and all checkboxes
+   */
+  disableBatchSelection(): void;
 }
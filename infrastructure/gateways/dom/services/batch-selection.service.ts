@@ -0,0 +1,206 @@
+import { HeadingSection } from "../../../../domain/heading-collection";
+import { HeadingElementFinder } from "../strategies/heading-element-finder";
+import { BATCH_CONSTANTS, BATCH_STYLES } from "../utils/batch-styles";
+import { DomHelpers } from "../utils/dom-helpers";
+
+/**
+ * A heading section and the checkbox that selects it
+ */
+interface BatchEntry {
+  section: HeadingSection;
+  checkbox: HTMLInputElement;
+}
+
+/**
+ * Batch selection service
+ *
+ * Shows a floating toolbar that switches the page into selection mode. In
+ * selection mode every heading gets a checkbox, and the selected sections are
+ * handed over in page order when the user adds them.
+ */
+export class BatchSelectionService {
+  private sections: HeadingSection[] = [];
+  private onSubmit: ((sections: HeadingSection[]) => void) | null = null;
+  private entries: BatchEntry[] = [];
+  private toolbar: HTMLDivElement | null = null;
+  private status: string | null = null;
+
+  constructor(private readonly headingFinder: HeadingElementFinder) {}
+
+  /**
+   * Shows the batch toolbar for the given sections
+   */
+  enable(
+    sections: HeadingSection[],
+    onSubmit: (sections: HeadingSection[]) => void
+  ): void {
+    this.disable();
+    this.sections = sections;
+    this.onSubmit = onSubmit;
+    this.renderToolbar();
+  }
+
+  /**
+   * Removes the toolbar and all checkboxes
+   */
+  disable(): void {
+    this.removeCheckboxes();
+    if (this.toolbar) {
+      DomHelpers.safeRemoveElement(this.toolbar);
+      this.toolbar = null;
+    }
+    this.sections = [];
+    this.onSubmit = null;
+    this.status = null;
+  }
+
+  /**
+   * Shows a message next to the toolbar buttons until selection starts again
+   */
+  showStatus(message: string): void {
+    this.status = message;
+    this.renderToolbar();
+  }
+
+  /**
+   * Returns the selected sections in page order
+   */
+  getSelectedSections(): HeadingSection[] {
+    return this.entries
+      .filter((entry) => entry.checkbox.checked)
+      .map((entry) => entry.section);
+  }
+
+  /**
+   * Checks the sections matching the predicate, unchecking all others
+   */
+  select(predicate: (section: HeadingSection) => boolean): void {
+    this.entries.forEach((entry) => {
+      entry.checkbox.checked = predicate(entry.section);
+    });
+    this.renderToolbar();
+  }
+
+  /**
+   * Renders the toolbar for the current mode
+   */
+  private renderToolbar(): void {
+    const toolbar = this.toolbar ?? this.createToolbar();
+    toolbar.replaceChildren();
+
+    if (this.entries.length === 0) {
+      toolbar.appendChild(
+        this.createButton(BATCH_CONSTANTS.LABELS.START, () => this.start())
+      );
+      if (this.status) {
+        const status = document.createElement("span");
+        DomHelpers.safeSetAttribute(status, "role", "status");
+        status.textContent = this.status;
+        Object.assign(status.style, BATCH_STYLES.status);
+        toolbar.appendChild(status);
+      }
+      return;
+    }
+
+    const selectedCount = this.getSelectedSections().length;
+    const submit = this.createButton(
+      `${BATCH_CONSTANTS.LABELS.SUBMIT} (${selectedCount})`,
+      () => this.submit()
+    );
+    submit.disabled = selectedCount === 0;
+
+    toolbar.append(
+      this.createButton(BATCH_CONSTANTS.LABELS.SELECT_H2, () =>
+        this.select((section) => section.level === 2)
+      ),
+      this.createButton(BATCH_CONSTANTS.LABELS.SELECT_ALL, () =>
+        this.select(() => true)
+      ),
+      this.createButton(BATCH_CONSTANTS.LABELS.CLEAR, () =>
+        this.select(() => false)
+      ),
+      submit,
+      this.createButton(BATCH_CONSTANTS.LABELS.CANCEL, () => this.stop())
+    );
+  }
+
+  /**
+   * Enters selection mode by adding a checkbox to every heading
+   */
+  private start(): void {
+    this.status = null;
+    this.sections.forEach((section, index) => {
+      const heading = this.headingFinder.find(section, index);
+      if (!heading) {
+        return;
+      }
+
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.className = BATCH_CONSTANTS.CHECKBOX_CLASS_NAME;
+      DomHelpers.safeSetAttribute(
+        checkbox,
+        "aria-label",
+        `Select "${section.titleText}"`
+      );
+      Object.assign(checkbox.style, BATCH_STYLES.checkbox);
+      // Headings are often links; selecting must not navigate
+      checkbox.addEventListener("click", (event) => event.stopPropagation());
+      checkbox.addEventListener("change", () => this.renderToolbar());
+
+      heading.insertBefore(checkbox, heading.firstChild);
+      this.entries.push({ section, checkbox });
+    });
+
+    this.renderToolbar();
+  }
+
+  /**
+   * Leaves selection mode
+   */
+  private stop(): void {
+    this.removeCheckboxes();
+    this.renderToolbar();
+  }
+
+  /**
+   * Hands the selected sections over and leaves selection mode
+   */
+  private submit(): void {
+    const selected = this.getSelectedSections();
+    if (selected.length === 0) {
+      return;
+    }
+
+    this.onSubmit?.(selected);
+    this.stop();
+  }
+
+  private removeCheckboxes(): void {
+    this.entries.forEach((entry) =>
+      DomHelpers.safeRemoveElement(entry.checkbox)
+    );
+    this.entries = [];
+  }
+
+  private createToolbar(): HTMLDivElement {
+    const toolbar = document.createElement("div");
+    toolbar.className = BATCH_CONSTANTS.TOOLBAR_CLASS_NAME;
+    Object.assign(toolbar.style, BATCH_STYLES.toolbar);
+    document.body.appendChild(toolbar);
+    this.toolbar = toolbar;
+    return toolbar;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    DomHelpers.safeSetAttribute(button, "type", "button");
+    button.textContent = label;
+    Object.assign(button.style, BATCH_STYLES.button);
+    button.addEventListener("click", (event) => {
+      event.preventDefault();
+      onClick();
+    });
+    return button;
+  }
+}
@@ -0,0 +1,349 @@
+import {
+  HEADING_SELECTOR,
+  TextAnchor,
+  createTextAnchor,
+  getHeadingLevelFromTag,
+  resolveTextAnchor,
+} from "../../../../domain/heading-collection";
+import { CapturedSelection } from "../interfaces/dom-gateway.interface";
+import { CLIP_CONSTANTS, CLIP_STYLES } from "../utils/clip-styles";
+import { DomHelpers } from "../utils/dom-helpers";
+
+/**
+ * A text node of the page content and its offset in the page text
+ */
+interface TextNodeEntry {
+  node: Text;
+  start: number;
+}
+
+/**
+ * Selection clip service
+ *
+ * Shows a clip button next to text selected in the content container, turns
+ * the selection into a clip with a text anchor, and highlights saved clips
+ * again. Offsets are measured over the container's text nodes, skipping
+ * elements inserted by the extension and diagram text.
+ */
+export class SelectionClipService {
+  private container: Element | null = null;
+  private onClip: ((selection: CapturedSelection) => void) | null = null;
+  private button: HTMLButtonElement | null = null;
+
+  private readonly handleSelectionEnd = (event: Event): void => {
+    if (this.button && event.target === this.button) {
+      return;
+    }
+    // Let the browser finish updating the selection first
+    setTimeout(() => this.updateButton(), 0);
+  };
+
+  /**
+   * Starts showing the clip button for selections inside the container
+   */
+  enable(
+    container: Element,
+    onClip: (selection: CapturedSelection) => void
+  ): void {
+    this.disable();
+    this.container = container;
+    this.onClip = onClip;
+    document.addEventListener("mouseup", this.handleSelectionEnd);
+    document.addEventListener("keyup", this.handleSelectionEnd);
+  }
+
+  /**
+   * Stops listening for selections and removes the clip button
+   */
+  disable(): void {
+    document.removeEventListener("mouseup", this.handleSelectionEnd);
+    document.removeEventListener("keyup", this.handleSelectionEnd);
+    this.hideButton();
+    this.container = null;
+    this.onClip = null;
+  }
+
+  /**
+   * Captures the current selection if it lies inside the container
+   * @returns The selection with its anchor, or null if nothing is selected
+   */
+  capture(container: Element): CapturedSelection | null {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      return null;
+    }
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) {
+      return null;
+    }
+
+    const { text, entries } = this.collectText(container);
+    let start = this.toTextOffset(
+      entries,
+      text,
+      range.startContainer,
+      range.startOffset
+    );
+    let end = this.toTextOffset(
+      entries,
+      text,
+      range.endContainer,
+      range.endOffset
+    );
+
+    // Leading and trailing whitespace is not part of the clip
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (start >= end) {
+      return null;
+    }
+
+    const heading = this.findNearestHeading(container, range);
+    return {
+      contentHtml: this.serializeRange(range),
+      anchor: createTextAnchor(text, start, end),
+      ...(heading && { heading }),
+    };
+  }
+
+  /**
+   * Highlights saved clips in the container
+   * @returns Number of clips that were found on the page
+   */
+  highlight(
+    container: Element,
+    clips: ReadonlyArray<{ clipId: string; anchor: TextAnchor }>
+  ): number {
+    let found = 0;
+
+    for (const clip of clips) {
+      // Wrapping splits text nodes, so the node list is collected per clip
+      const { text, entries } = this.collectText(container);
+      const range = resolveTextAnchor(text, clip.anchor);
+      if (!range) {
+        continue;
+      }
+
+      this.wrapRange(entries, range.start, range.end, clip.clipId);
+      found++;
+    }
+
+    return found;
+  }
+
+  /**
+   * Removes all clip highlights from the page
+   */
+  removeHighlights(): void {
+    const marks = DomHelpers.safeQuerySelectorAll(
+      `.${CLIP_CONSTANTS.HIGHLIGHT_CLASS_NAME}`
+    );
+
+    marks.forEach((mark) => {
+      const parent = mark.parentNode;
+      if (!parent) return;
+
+      while (mark.firstChild) {
+        parent.insertBefore(mark.firstChild, mark);
+      }
+      parent.removeChild(mark);
+      parent.normalize();
+    });
+  }
+
+  /**
+   * Shows or hides the clip button depending on the current selection
+   */
+  private updateButton(): void {
+    if (!this.container) {
+      return;
+    }
+
+    const selection = window.getSelection();
+    if (
+      !selection ||
+      selection.isCollapsed ||
+      selection.rangeCount === 0 ||
+      !this.container.contains(selection.getRangeAt(0).commonAncestorContainer)
+    ) {
+      this.hideButton();
+      return;
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    const button = this.button ?? this.createButton();
+    button.style.top = `${rect.bottom + window.scrollY + 6}px`;
+    button.style.left = `${rect.right + window.scrollX - 40}px`;
+  }
+
+  /**
+   * Creates the floating clip button
+   */
+  private createButton(): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.className = CLIP_CONSTANTS.BUTTON_CLASS_NAME;
+    DomHelpers.safeSetAttribute(button, "type", "button");
+    DomHelpers.safeSetAttribute(button, "title", "Save selection as a clip");
+    button.textContent = CLIP_CONSTANTS.BUTTON_LABEL;
+    Object.assign(button.style, CLIP_STYLES.button);
+
+    // Keep the selection when the button is pressed
+    button.addEventListener("mousedown", (event) => event.preventDefault());
+    button.addEventListener("click", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const captured = this.container ? this.capture(this.container) : null;
+      this.hideButton();
+      if (captured && this.onClip) {
+        this.onClip(captured);
+      }
+    });
+
+    document.body.appendChild(button);
+    this.button = button;
+    return button;
+  }
+
+  private hideButton(): void {
+    if (this.button) {
+      DomHelpers.safeRemoveElement(this.button);
+      this.button = null;
+    }
+  }
+
+  /**
+   * Collects the text nodes that make up the page text
+   */
+  private collectText(container: Element): {
+    text: string;
+    entries: TextNodeEntry[];
+  } {
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) =>
+        node.parentElement?.closest(CLIP_CONSTANTS.IGNORED_SELECTOR)
+          ? NodeFilter.FILTER_REJECT
+          : NodeFilter.FILTER_ACCEPT,
+    });
+
+    const entries: TextNodeEntry[] = [];
+    let text = "";
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      entries.push({ node: node as Text, start: text.length });
+      text += (node as Text).data;
+    }
+
+    return { text, entries };
+  }
+
+  /**
+   * Converts a DOM boundary point to an offset in the page text
+   */
+  private toTextOffset(
+    entries: TextNodeEntry[],
+    text: string,
+    container: Node,
+    offset: number
+  ): number {
+    const entry = entries.find((e) => e.node === container);
+    if (entry) {
+      return entry.start + offset;
+    }
+
+    // Element boundary (or ignored text): use the first text node after it
+    const point = document.createRange();
+    point.setStart(container, offset);
+    const next = entries.find((e) => point.comparePoint(e.node, 0) >= 0);
+    return next ? next.start : text.length;
+  }
+
+  /**
+   * Finds the last heading that starts before the selection, with the titles
+   * of its enclosing headings as the heading parser records them
+   */
+  private findNearestHeading(
+    container: Element,
+    range: Range
+  ): { level: number; title: string; headingPath: string[] } | undefined {
+    // The nearest heading is the last one on the stack
+    const stack: { level: number; title: string }[] = [];
+
+    for (const heading of Array.from(
+      DomHelpers.safeQuerySelectorAll(HEADING_SELECTOR, container)
+    )) {
+      const isBefore =
+        heading.contains(range.startContainer) ||
+        !!(
+          heading.compareDocumentPosition(range.startContainer) &
+          Node.DOCUMENT_POSITION_FOLLOWING
+        );
+      if (!isBefore) {
+        break;
+      }
+
+      const level = getHeadingLevelFromTag(heading.tagName) ?? 0;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      stack.push({ level, title: heading.textContent?.trim() || "" });
+    }
+
+    const nearest = stack.pop();
+    return nearest && nearest.level && nearest.title
+      ? { ...nearest, headingPath: stack.map((ancestor) => ancestor.title) }
+      : undefined;
+  }
+
+  /**
+   * Serializes the selected DOM range without elements of the extension
+   */
+  private serializeRange(range: Range): string {
+    const wrapper = document.createElement("div");
+    wrapper.appendChild(range.cloneContents());
+    wrapper
+      .querySelectorAll(
+        `.${CLIP_CONSTANTS.BUTTON_CLASS_NAME}, .dwpp-add-section-btn`
+      )
+      .forEach((element) => element.remove());
+    return wrapper.innerHTML;
+  }
+
+  /**
+   * Wraps the text between two page text offsets in highlight marks
+   */
+  private wrapRange(
+    entries: TextNodeEntry[],
+    start: number,
+    end: number,
+    clipId: string
+  ): void {
+    for (const entry of entries) {
+      const nodeEnd = entry.start + entry.node.data.length;
+      if (nodeEnd <= start || entry.start >= end) {
+        continue;
+      }
+
+      let node = entry.node;
+      const from = Math.max(start - entry.start, 0);
+      const to = Math.min(end - entry.start, node.data.length);
+      if (to < node.data.length) {
+        node.splitText(to);
+      }
+      if (from > 0) {
+        node = node.splitText(from);
+      }
+
+      const mark = document.createElement("mark");
+      mark.className = CLIP_CONSTANTS.HIGHLIGHT_CLASS_NAME;
+      DomHelpers.safeSetAttribute(
+        mark,
+        CLIP_CONSTANTS.CLIP_ID_ATTRIBUTE,
+        clipId
+      );
+      Object.assign(mark.style, CLIP_STYLES.highlight);
+      node.parentNode?.insertBefore(mark, node);
+      mark.appendChild(node);
+    }
+  }
+}
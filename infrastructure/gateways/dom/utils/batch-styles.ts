@@ -0,0 +1,57 @@
+/**
+ * Style definitions for batch capture checkboxes and toolbar
+ */
+export const BATCH_STYLES = {
+  toolbar: {
+    position: "fixed",
+    right: "16px",
+    bottom: "16px",
+    zIndex: "2147483647",
+    display: "flex",
+    gap: "6px",
+    alignItems: "center",
+    padding: "6px",
+    border: "1px solid #ccc",
+    borderRadius: "6px",
+    backgroundColor: "#fff",
+    boxShadow: "0 2px 8px rgba(0, 0, 0, 0.15)",
+    fontSize: "12px",
+  },
+  button: {
+    padding: "4px 8px",
+    fontSize: "12px",
+    lineHeight: "1",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    backgroundColor: "#f8f9fa",
+    color: "#333",
+    cursor: "pointer",
+  },
+  status: {
+    maxWidth: "320px",
+    color: "#333",
+  },
+  checkbox: {
+    marginRight: "8px",
+    width: "16px",
+    height: "16px",
+    verticalAlign: "middle",
+    cursor: "pointer",
+  },
+} as const;
+
+/**
+ * Batch capture constants
+ */
+export const BATCH_CONSTANTS = {
+  TOOLBAR_CLASS_NAME: "dwpp-batch-toolbar",
+  CHECKBOX_CLASS_NAME: "dwpp-batch-checkbox",
+  LABELS: {
+    START: "☑️ Select headings",
+    SELECT_H2: "All H2",
+    SELECT_ALL: "Whole page",
+    CLEAR: "Clear",
+    CANCEL: "Cancel",
+    SUBMIT: "Add selected",
+  },
+} as const;
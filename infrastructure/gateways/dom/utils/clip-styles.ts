@@ -0,0 +1,36 @@
+/**
+ * Style definitions for the selection clip button and clip highlights
+ */
+export const CLIP_STYLES = {
+  button: {
+    position: "absolute",
+    zIndex: "2147483647",
+    padding: "4px 8px",
+    fontSize: "12px",
+    lineHeight: "1",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    backgroundColor: "#fff",
+    color: "#333",
+    boxShadow: "0 2px 6px rgba(0, 0, 0, 0.15)",
+    cursor: "pointer",
+  },
+  highlight: {
+    backgroundColor: "rgba(255, 213, 79, 0.45)",
+    color: "inherit",
+    borderRadius: "2px",
+  },
+} as const;
+
+/**
+ * Selection clip constants
+ */
+export const CLIP_CONSTANTS = {
+  BUTTON_CLASS_NAME: "dwpp-clip-selection-btn",
+  BUTTON_LABEL: "📎 Clip",
+  HIGHLIGHT_CLASS_NAME: "dwpp-clip-highlight",
+  CLIP_ID_ATTRIBUTE: "data-dwpp-clip-id",
+  /** Elements whose text is not part of the page content */
+  IGNORED_SELECTOR:
+    "script, style, svg, .dwpp-add-section-btn, .dwpp-clip-selection-btn",
+} as const;
@@ -0,0 +1,164 @@
+import {
+  Clip,
+  IClipRepository,
+  deserializeClip,
+  isClip,
+  serializeClip,
+} from "../../../../domain/heading-collection";
+import {
+  Id,
+  Result,
+  RepositoryError,
+  ValidationError,
+  getPageUrl,
+} from "../../../../domain/shared";
+import { StorageValidationService } from "../heading-section/validation-service";
+import { CLIP_LIST_KEY } from "./storage-keys";
+
+/**
+ * Chrome Storage implementation of IClipRepository
+ *
+ * Clips are kept in local storage next to the heading sections.
+ */
+export class ChromeStorageClipRepository implements IClipRepository {
+  private get storage(): chrome.storage.StorageArea {
+    return StorageValidationService.getStorageArea(false);
+  }
+
+  /**
+   * Retrieves all clips, skipping entries that cannot be deserialized
+   */
+  async getAllClips(): Promise<Clip[]> {
+    try {
+      const result = await this.storage.get(CLIP_LIST_KEY);
+      const clipsData = result[CLIP_LIST_KEY];
+      const clips: Clip[] = [];
+
+      if (Array.isArray(clipsData)) {
+        for (const data of clipsData) {
+          try {
+            clips.push(deserializeClip(data));
+          } catch (error) {
+            console.warn(
+              "ChromeStorageClipRepository: Skipping invalid clip:",
+              data,
+              error
+            );
+          }
+        }
+      }
+
+      return clips;
+    } catch (error) {
+      console.error("ChromeStorageClipRepository: Error getting clips:", error);
+      throw new RepositoryError("Failed to retrieve clips from storage");
+    }
+  }
+
+  /**
+   * Retrieves a specific clip by ID
+   */
+  async getClipById(clipId: Id): Promise<Clip | null> {
+    const clips = await this.getAllClips();
+    return clips.find((c) => c.clipId === clipId) || null;
+  }
+
+  /**
+   * Finds clips captured from the same page, ignoring query and fragment
+   */
+  async findClipsByUrl(sourceUrl: string): Promise<Clip[]> {
+    const pageUrl = getPageUrl(sourceUrl);
+    const clips = await this.getAllClips();
+    return clips.filter((clip) => getPageUrl(clip.sourceUrl) === pageUrl);
+  }
+
+  /**
+   * Adds a new clip to storage
+   */
+  async addClip(clip: Clip): Promise<Result<void>> {
+    if (!isClip(clip)) {
+      return Result.failure(new ValidationError("Invalid Clip provided"));
+    }
+
+    try {
+      const clips = await this.getAllClips();
+      if (clips.some((c) => c.clipId === clip.clipId)) {
+        return Result.failure(
+          new RepositoryError(`Clip with ID '${clip.clipId}' already exists`)
+        );
+      }
+
+      await this.saveClips([...clips, clip]);
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to add clip");
+    }
+  }
+
+  /**
+   * Updates an existing clip
+   */
+  async updateClip(clip: Clip): Promise<Result<void>> {
+    if (!isClip(clip)) {
+      return Result.failure(
+        new ValidationError("Invalid Clip provided for update")
+      );
+    }
+
+    try {
+      const clips = await this.getAllClips();
+      const index = clips.findIndex((c) => c.clipId === clip.clipId);
+
+      if (index === -1) {
+        return Result.failure(new RepositoryError("Clip not found for update"));
+      }
+
+      const updatedClips = [...clips];
+      updatedClips[index] = clip;
+
+      await this.saveClips(updatedClips);
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to update clip");
+    }
+  }
+
+  /**
+   * Removes a clip by ID
+   */
+  async removeClip(clipId: Id): Promise<Result<boolean>> {
+    try {
+      const clips = await this.getAllClips();
+      const remaining = clips.filter((c) => c.clipId !== clipId);
+
+      if (remaining.length === clips.length) {
+        return Result.success(false);
+      }
+
+      await this.saveClips(remaining);
+      return Result.success(true);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to remove clip");
+    }
+  }
+
+  /**
+   * Private method to save clips to storage
+   */
+  private async saveClips(clips: Clip[]): Promise<void> {
+    await this.storage.set({
+      [CLIP_LIST_KEY]: clips.map(serializeClip),
+    });
+  }
+
+  /**
+   * Handles storage errors and converts them to appropriate Result types
+   */
+  private handleStorageError(error: any, fallbackMessage: string): Result<any> {
+    if (error instanceof RepositoryError || error instanceof ValidationError) {
+      return Result.failure(error);
+    }
+
+    return Result.failure(new RepositoryError(fallbackMessage));
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Chrome Storage clip repository barrel exports
+ */
+
+export * from "./chrome-storage-clip-repository";
+export * from "./storage-keys";
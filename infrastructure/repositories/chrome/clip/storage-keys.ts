@@ -0,0 +1,5 @@
+/**
+ * Storage keys for clips in Chrome storage
+ */
+
+export const CLIP_LIST_KEY = "deepwiki_clips";
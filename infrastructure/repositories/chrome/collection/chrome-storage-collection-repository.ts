@@ -0,0 +1,239 @@
+import {
+  Collection,
+  ICollectionRepository,
+  createDefaultCollection,
+  deserializeCollection,
+  isCollection,
+  isDefaultCollection,
+  serializeCollection,
+  DEFAULT_COLLECTION_ID,
+} from "../../../../domain/heading-collection";
+import {
+  Id,
+  Result,
+  RepositoryError,
+  ValidationError,
+} from "../../../../domain/shared";
+import { StorageValidationService } from "../heading-section/validation-service";
+import { COLLECTION_LIST_KEY, ACTIVE_COLLECTION_KEY } from "./storage-keys";
+
+/**
+ * Chrome Storage implementation of ICollectionRepository
+ *
+ * Collections and the active collection ID are kept in local storage next to
+ * the heading sections. The default collection is implicit: it is returned
+ * even when it has never been written and can never be removed.
+ */
+export class ChromeStorageCollectionRepository
+  implements ICollectionRepository
+{
+  private get storage(): chrome.storage.StorageArea {
+    return StorageValidationService.getStorageArea(false);
+  }
+
+  /**
+   * Retrieves all collections, with the default collection first
+   */
+  async getAllCollections(): Promise<Collection[]> {
+    try {
+      const result = await this.storage.get(COLLECTION_LIST_KEY);
+      const collectionsData = result[COLLECTION_LIST_KEY];
+      const collections: Collection[] = [];
+
+      if (Array.isArray(collectionsData)) {
+        for (const data of collectionsData) {
+          try {
+            collections.push(deserializeCollection(data));
+          } catch (error) {
+            console.warn(
+              "ChromeStorageCollectionRepository: Skipping invalid collection:",
+              data,
+              error
+            );
+          }
+        }
+      }
+
+      const defaultCollection =
+        collections.find((c) => isDefaultCollection(c.collectionId)) ??
+        createDefaultCollection();
+
+      return [
+        defaultCollection,
+        ...collections.filter((c) => !isDefaultCollection(c.collectionId)),
+      ];
+    } catch (error) {
+      console.error(
+        "ChromeStorageCollectionRepository: Error getting collections:",
+        error
+      );
+      throw new RepositoryError("Failed to retrieve collections from storage");
+    }
+  }
+
+  /**
+   * Retrieves a specific collection by ID
+   */
+  async getCollectionById(collectionId: Id): Promise<Collection | null> {
+    const collections = await this.getAllCollections();
+    return collections.find((c) => c.collectionId === collectionId) || null;
+  }
+
+  /**
+   * Adds a new collection to storage
+   */
+  async addCollection(collection: Collection): Promise<Result<void>> {
+    if (!isCollection(collection)) {
+      return Result.failure(new ValidationError("Invalid Collection provided"));
+    }
+
+    try {
+      const collections = await this.getAllCollections();
+      if (collections.some((c) => c.collectionId === collection.collectionId)) {
+        return Result.failure(
+          new RepositoryError(
+            `Collection with ID '${collection.collectionId}' already exists`
+          )
+        );
+      }
+
+      await this.saveCollections([...collections, collection]);
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to add collection");
+    }
+  }
+
+  /**
+   * Updates an existing collection
+   */
+  async updateCollection(collection: Collection): Promise<Result<void>> {
+    if (!isCollection(collection)) {
+      return Result.failure(
+        new ValidationError("Invalid Collection provided for update")
+      );
+    }
+
+    try {
+      const collections = await this.getAllCollections();
+      const index = collections.findIndex(
+        (c) => c.collectionId === collection.collectionId
+      );
+
+      if (index === -1) {
+        return Result.failure(
+          new RepositoryError("Collection not found for update")
+        );
+      }
+
+      const updatedCollections = [...collections];
+      updatedCollections[index] = collection;
+
+      await this.saveCollections(updatedCollections);
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to update collection");
+    }
+  }
+
+  /**
+   * Removes a collection by ID (the default collection cannot be removed)
+   */
+  async removeCollection(collectionId: Id): Promise<Result<boolean>> {
+    if (isDefaultCollection(collectionId)) {
+      return Result.failure(
+        new ValidationError("The default collection cannot be removed")
+      );
+    }
+
+    try {
+      const collections = await this.getAllCollections();
+      const remaining = collections.filter(
+        (c) => c.collectionId !== collectionId
+      );
+
+      if (remaining.length === collections.length) {
+        return Result.success(false);
+      }
+
+      const wasActive = (await this.getActiveCollectionId()) === collectionId;
+      await this.saveCollections(remaining);
+
+      if (wasActive) {
+        await this.storage.set({
+          [ACTIVE_COLLECTION_KEY]: DEFAULT_COLLECTION_ID,
+        });
+      }
+
+      return Result.success(true);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to remove collection");
+    }
+  }
+
+  /**
+   * Gets the active collection ID, falling back to the default collection
+   * when none is set or the stored one no longer exists
+   */
+  async getActiveCollectionId(): Promise<Id> {
+    try {
+      const result = await this.storage.get(ACTIVE_COLLECTION_KEY);
+      const activeId = result[ACTIVE_COLLECTION_KEY];
+
+      if (typeof activeId !== "string" || !activeId) {
+        return DEFAULT_COLLECTION_ID;
+      }
+
+      const exists = await this.getCollectionById(activeId);
+      return exists ? activeId : DEFAULT_COLLECTION_ID;
+    } catch (error) {
+      console.warn(
+        "ChromeStorageCollectionRepository: Error reading active collection:",
+        error
+      );
+      return DEFAULT_COLLECTION_ID;
+    }
+  }
+
+  /**
+   * Sets the active collection ID
+   */
+  async setActiveCollectionId(collectionId: Id): Promise<Result<void>> {
+    try {
+      const collection = await this.getCollectionById(collectionId);
+      if (!collection) {
+        return Result.failure(
+          new RepositoryError(`Collection with ID '${collectionId}' not found`)
+        );
+      }
+
+      await this.storage.set({ [ACTIVE_COLLECTION_KEY]: collectionId });
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(
+        error,
+        "Failed to set the active collection"
+      );
+    }
+  }
+
+  /**
+   * Private method to save collections to storage
+   */
+  private async saveCollections(collections: Collection[]): Promise<void> {
+    await this.storage.set({
+      [COLLECTION_LIST_KEY]: collections.map(serializeCollection),
+    });
+  }
+
+  /**
+   * Handles storage errors and converts them to appropriate Result types
+   */
+  private handleStorageError(error: any, fallbackMessage: string): Result<any> {
+    if (error instanceof RepositoryError || error instanceof ValidationError) {
+      return Result.failure(error);
+    }
+
+    return Result.failure(new RepositoryError(fallbackMessage));
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  createDefaultCollection,
+  isDefaultCollection,
+  serializeCollection,
+  DEFAULT_COLLECTION_ID,
+} from "../../../../domain/heading-collection";
+import { SECTION_LIST_KEY } from "../heading-section/storage-keys";
+import { COLLECTION_LIST_KEY } from "./storage-keys";
+
+/**
+ * Moves data stored before collections existed into the "Default" collection
+ *
+ * Persists the default collection and assigns it to every stored section that
+ * has no collection yet. Safe to run repeatedly: already migrated data is left
+ * untouched and nothing is written when there is nothing to change.
+ *
+ * @returns The number of sections that were assigned to the default collection
+ */
+export async function migrateToDefaultCollection(
+  storage: chrome.storage.StorageArea
+): Promise<{ migratedSections: number }> {
+  const result = await storage.get([SECTION_LIST_KEY, COLLECTION_LIST_KEY]);
+  const sectionsData = result[SECTION_LIST_KEY];
+  const collectionsData = result[COLLECTION_LIST_KEY];
+  const changes: Record<string, unknown> = {};
+  let migratedSections = 0;
+
+  const collections = Array.isArray(collectionsData) ? collectionsData : [];
+  if (!collections.some((c) => isDefaultCollection(c?.collectionId))) {
+    changes[COLLECTION_LIST_KEY] = [
+      serializeCollection(createDefaultCollection()),
+      ...collections,
+    ];
+  }
+
+  if (Array.isArray(sectionsData)) {
+    const migrated = sectionsData.map((section) => {
+      if (
+        section &&
+        typeof section === "object" &&
+        !(Array.isArray(section.collectionIds) && section.collectionIds.length)
+      ) {
+        migratedSections++;
+        return { ...section, collectionIds: [DEFAULT_COLLECTION_ID] };
+      }
+      return section;
+    });
+
+    if (migratedSections > 0) {
+      changes[SECTION_LIST_KEY] = migrated;
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    await storage.set(changes);
+  }
+
+  return { migratedSections };
+}
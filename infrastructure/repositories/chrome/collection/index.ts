@@ -0,0 +1,7 @@
+/**
+ * Chrome Storage collection repository barrel exports
+ */
+
+export * from "./chrome-storage-collection-repository";
+export * from "./default-collection-migration";
+export * from "./storage-keys";
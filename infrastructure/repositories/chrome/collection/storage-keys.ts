@@ -0,0 +1,6 @@
+/**
+ * Storage keys for collections in Chrome storage
+ */
+
+export const COLLECTION_LIST_KEY = "deepwiki_collections";
+export const ACTIVE_COLLECTION_KEY = "deepwiki_active_collection";
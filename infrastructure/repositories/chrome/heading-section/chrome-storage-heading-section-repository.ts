@@ -1,7 +1,15 @@
 import {
   HeadingSection,
   IHeadingSectionRepository,
+  SectionPageQuery,
+  hasSectionId,
   isHeadingSection,
+  isSectionOfHeading,
+  sectionMatchesTags,
+  SectionSyncContent,
+  TagMatchMode,
+  DEFAULT_SECTION_SYNC_CONTENT,
+  isSectionSyncContent,
 } from "../../../../domain/heading-collection";
 import {
   Id,
@@ -9,10 +17,29 @@ import {
   RepositoryError,
   ValidationError,
 } from "../../../../domain/shared";
-import { SECTION_LIST_KEY } from "./storage-keys";
+import {
+  SECTION_KEY_PREFIX,
+  SECTION_LIST_KEY,
+  SECTION_MANIFEST_KEY,
+  SECTION_SYNC_CONTENT_KEY,
+  SectionManifest,
+  getSectionContentKey,
+  getSectionKey,
+} from "./storage-keys";
 import { HeadingSectionStorageMapper } from "./storage-mapper";
 import { StorageQuotaUtils } from "./quota-utils";
 import { StorageValidationService } from "./validation-service";
+import { migrateToSectionShards } from "./section-shard-migration";
+import { setAsideRejectedSections } from "./rejected-sections";
+import {
+  SectionStorageArea,
+  readSectionManifest,
+  readSectionShards,
+  runExclusive,
+  sectionChangeRecord,
+  toSectionManifest,
+} from "./section-shards";
+import { ChunkedSyncStorageArea } from "./chunked-sync-storage-area";
 import {
   ChromeStorageError,
   StorageQuotaExceededError,
@@ -26,6 +53,23 @@ import {
  * heading sections. It supports both local and sync storage modes,
  * with automatic serialization/deserialization of HeadingSection entities.
  *
+ * Each section is stored under its own key, and a small manifest lists the
+ * section IDs in order, so a write only touches the keys of the sections it
+ * changes plus the manifest. Writes are queued per storage area so that
+ * concurrent writes cannot overwrite each other, and each one also updates
+ * SECTION_CHANGE_KEY with the IDs of the sections it added, for
+ * storage.onChanged listeners. Sections still stored as one array are moved
+ * to their own keys on the first write.
+ *
+ * In sync mode, values are compressed and split into chunks that fit the
+ * per-item quota of chrome.storage.sync. The SECTION_SYNC_CONTENT_KEY
+ * setting decides whether the content and earlier versions of a section are
+ * synced too, or kept in chrome.storage.local of the device that captured
+ * it. The setting is per device, so a device without the content of a
+ * section keeps it metadata only rather than syncing its empty content over
+ * the content of the device that has it. Changes are still announced in
+ * chrome.storage.local.
+ *
  * Features:
  * - Persistent storage across browser sessions
  * - Optional sync across Chrome browsers (when using sync storage)
@@ -35,7 +79,6 @@ import {
 export class ChromeStorageHeadingSectionRepository
   implements IHeadingSectionRepository
 {
-  private readonly storageKey = SECTION_LIST_KEY;
   private readonly useSync: boolean;
 
   /**
@@ -48,33 +91,25 @@ export class ChromeStorageHeadingSectionRepository
   /**
    * Gets the appropriate storage API based on configuration
    */
-  private get storage(): chrome.storage.StorageArea {
-    return StorageValidationService.getStorageArea(this.useSync);
+  private get storage(): SectionStorageArea {
+    const area = StorageValidationService.getStorageArea(this.useSync);
+    return this.useSync ? ChunkedSyncStorageArea.for(area) : area;
   }
 
   /**
-   * Retrieves all stored heading sections
+   * Storage of this device, for settings, change records and the content of
+   * sections whose metadata alone is synced
+   */
+  private get localStorage(): chrome.storage.StorageArea {
+    return StorageValidationService.getStorageArea(false);
+  }
+
+  /**
+   * Retrieves all stored heading sections, in the order of the manifest
    */
   async getAllSections(): Promise<HeadingSection[]> {
     try {
-      console.log(
-        "ChromeStorageRepository: Getting all sections from storage key:",
-        this.storageKey
-      );
-
-      const result = await this.storage.get(this.storageKey);
-      const sectionsData = result[this.storageKey];
-
-      console.log("ChromeStorageRepository: Raw storage result:", result);
-      console.log("ChromeStorageRepository: Sections data:", sectionsData);
-
-      if (!sectionsData || !Array.isArray(sectionsData)) {
-        console.log(
-          "ChromeStorageRepository: No sections data found, returning empty array"
-        );
-        return [];
-      }
-
+      const sectionsData = await this.readAllSectionData();
       const deserializedSections =
         HeadingSectionStorageMapper.deserializeSections(sectionsData);
       console.log(
@@ -92,13 +127,28 @@ export class ChromeStorageHeadingSectionRepository
   }
 
   /**
-   * Retrieves a specific heading section by ID
+   * Retrieves a specific heading section by its current or a legacy ID
+   *
+   * A current ID is read from its own key; other IDs fall back to looking
+   * through all sections for a legacy ID.
    */
   async getSectionById(sectionId: Id): Promise<HeadingSection | null> {
     try {
+      const key = getSectionKey(sectionId);
+      const result = await this.storage.get([SECTION_MANIFEST_KEY, key]);
+      const manifest = toSectionManifest(result[SECTION_MANIFEST_KEY]);
+      if (manifest?.sectionIds.includes(sectionId) && result[key]) {
+        const [section] = HeadingSectionStorageMapper.deserializeSections(
+          await this.withLocalContent([result[key]])
+        );
+        if (section) {
+          return section;
+        }
+      }
+
       const allSections = await this.getAllSections();
       return (
-        allSections.find((section) => section.sectionId === sectionId) || null
+        allSections.find((section) => hasSectionId(section, sectionId)) || null
       );
     } catch (error) {
       throw new RepositoryError(
@@ -124,28 +174,48 @@ export class ChromeStorageHeadingSectionRepository
     }
 
     try {
-      const existingSections = await this.getAllSections();
-      console.log(
-        `ChromeStorageRepository: Found ${existingSections.length} existing sections`
+      await this.writeSections([section]);
+      console.log("ChromeStorageRepository: Section added successfully");
+
+      return Result.success(undefined);
+    } catch (error) {
+      console.error("ChromeStorageRepository: Error adding section:", error);
+      return this.handleStorageError(error, "Failed to add section to storage");
+    }
+  }
+
+  /**
+   * Adds multiple heading sections with a single storage write
+   */
+  async addSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (!sections.every((section) => isHeadingSection(section))) {
+      return Result.failure(
+        new ValidationError("Invalid HeadingSection provided")
       );
+    }
+
+    if (sections.length === 0) {
+      return Result.success(undefined);
+    }
 
-      const updatedSections = [...existingSections, section];
+    try {
+      await this.writeSections(sections);
       console.log(
-        `ChromeStorageRepository: Will save ${updatedSections.length} sections total`
+        `ChromeStorageRepository: Added ${sections.length} sections in one write`
       );
 
-      await this.saveSections(updatedSections);
-      console.log("ChromeStorageRepository: Section added successfully");
-
       return Result.success(undefined);
     } catch (error) {
-      console.error("ChromeStorageRepository: Error adding section:", error);
-      return this.handleStorageError(error, "Failed to add section to storage");
+      console.error("ChromeStorageRepository: Error adding sections:", error);
+      return this.handleStorageError(
+        error,
+        "Failed to add sections to storage"
+      );
     }
   }
 
   /**
-   * Removes a heading section by ID
+   * Removes a heading section by its current or a legacy ID
    */
   async removeSection(sectionId: Id): Promise<Result<boolean>> {
     console.log(
@@ -154,25 +224,13 @@ export class ChromeStorageHeadingSectionRepository
     );
 
     try {
-      const existingSections = await this.getAllSections();
-      console.log(
-        `ChromeStorageRepository: Found ${existingSections.length} existing sections`
-      );
-
-      const filteredSections = existingSections.filter(
-        (s) => s.sectionId !== sectionId
-      );
-
-      if (filteredSections.length === existingSections.length) {
+      const removedCount = await this.deleteSections([sectionId]);
+      if (removedCount === 0) {
         console.log("ChromeStorageRepository: Section not found for removal");
         return Result.success(false); // Section not found
       }
 
-      await this.saveSections(filteredSections);
-      console.log(
-        `ChromeStorageRepository: Section removed successfully. ${filteredSections.length} sections remaining`
-      );
-
+      console.log("ChromeStorageRepository: Section removed successfully");
       return Result.success(true);
     } catch (error) {
       console.error("ChromeStorageRepository: Error removing section:", error);
@@ -188,19 +246,7 @@ export class ChromeStorageHeadingSectionRepository
    */
   async removeSections(sectionIds: Id[]): Promise<Result<number>> {
     try {
-      const existingSections = await this.getAllSections();
-      const idsSet = new Set(sectionIds);
-      const filteredSections = existingSections.filter(
-        (s) => !idsSet.has(s.sectionId || "")
-      );
-
-      const removedCount = existingSections.length - filteredSections.length;
-
-      if (removedCount > 0) {
-        await this.saveSections(filteredSections);
-      }
-
-      return Result.success(removedCount);
+      return Result.success(await this.deleteSections(sectionIds));
     } catch (error) {
       return this.handleStorageError(
         error,
@@ -209,12 +255,34 @@ export class ChromeStorageHeadingSectionRepository
     }
   }
 
+  /**
+   * Replaces all stored sections with the given ones
+   */
+  async replaceAllSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (!sections.every((section) => isHeadingSection(section))) {
+      return Result.failure(
+        new ValidationError("Invalid HeadingSection provided")
+      );
+    }
+
+    try {
+      await this.replaceSections(sections);
+      return Result.success(undefined);
+    } catch (error) {
+      console.error(
+        "ChromeStorageRepository: Error replacing sections:",
+        error
+      );
+      return this.handleStorageError(error, "Failed to replace sections");
+    }
+  }
+
   /**
    * Clears all heading sections from storage
    */
   async clearAllSections(): Promise<Result<void>> {
     try {
-      await this.saveSections([]);
+      await this.replaceSections([]);
       return Result.success(undefined);
     } catch (error) {
       return this.handleStorageError(
@@ -248,6 +316,25 @@ export class ChromeStorageHeadingSectionRepository
     }
   }
 
+  /**
+   * Finds sections tagged with any or all of the given tags
+   */
+  async findSectionsByTags(
+    tags: string[],
+    match: TagMatchMode
+  ): Promise<HeadingSection[]> {
+    try {
+      const allSections = await this.getAllSections();
+      return allSections.filter((section) =>
+        sectionMatchesTags(section, tags, match)
+      );
+    } catch (error) {
+      throw new RepositoryError(
+        `Failed to find sections by tags: ${tags.join(", ")}`
+      );
+    }
+  }
+
   /**
    * Searches sections by title text
    */
@@ -266,18 +353,25 @@ export class ChromeStorageHeadingSectionRepository
   }
 
   /**
-   * Gets sections with pagination
+   * Gets sections with pagination, optionally filtered and ordered first
    */
   async getSectionsPage(
     offset: number,
-    limit: number
+    limit: number,
+    query: SectionPageQuery = {}
   ): Promise<{
     sections: HeadingSection[];
     total: number;
     hasMore: boolean;
   }> {
     try {
-      const allSections = await this.getAllSections();
+      let allSections = await this.getAllSections();
+      if (query.filter) {
+        allSections = allSections.filter(query.filter);
+      }
+      if (query.compare) {
+        allSections = [...allSections].sort(query.compare);
+      }
       const total = allSections.length;
       const sections = allSections.slice(offset, offset + limit);
       const hasMore = offset + limit < total;
@@ -289,7 +383,7 @@ export class ChromeStorageHeadingSectionRepository
   }
 
   /**
-   * Updates an existing heading section
+   * Updates an existing heading section, rewriting only its own key
    */
   async updateSection(section: HeadingSection): Promise<Result<void>> {
     if (!isHeadingSection(section)) {
@@ -299,21 +393,27 @@ export class ChromeStorageHeadingSectionRepository
     }
 
     try {
-      const existingSections = await this.getAllSections();
-      const index = existingSections.findIndex(
-        (s) => s.sectionId === section.sectionId
-      );
+      const found = await runExclusive(this.storage, async () => {
+        const manifest = await this.prepareManifest();
+        if (!manifest.sectionIds.includes(section.sectionId)) {
+          return false;
+        }
+
+        await this.saveItems(
+          {
+            [getSectionKey(section.sectionId)]:
+              HeadingSectionStorageMapper.serializeSections([section])[0],
+          },
+          []
+        );
+        return true;
+      });
 
-      if (index === -1) {
+      if (!found) {
         return Result.failure(
           new RepositoryError("Section not found for update")
         );
       }
-
-      const updatedSections = [...existingSections];
-      updatedSections[index] = section;
-
-      await this.saveSections(updatedSections);
       return Result.success(undefined);
     } catch (error) {
       return this.handleStorageError(error, "Failed to update section");
@@ -333,10 +433,14 @@ export class ChromeStorageHeadingSectionRepository
   }
 
   /**
-   * Gets the total count of stored sections
+   * Gets the total count of stored sections from the manifest
    */
   async getSectionCount(): Promise<number> {
     try {
+      const manifest = await readSectionManifest(this.storage);
+      if (manifest) {
+        return manifest.sectionIds.length;
+      }
       const allSections = await this.getAllSections();
       return allSections.length;
     } catch (error) {
@@ -345,30 +449,22 @@ export class ChromeStorageHeadingSectionRepository
   }
 
   /**
-   * Finds a duplicate section based on URL, level, and title
+   * Finds a duplicate section by the stable ID of the heading
    * Used for duplicate detection before adding new sections
    */
   async findDuplicateSection(params: {
     sourceUrl: string;
     level: number;
     titleText: string;
+    headingPath?: ReadonlyArray<string>;
   }): Promise<HeadingSection | null> {
     try {
       const sections = await this.getAllSections();
 
-      // Normalize the input title text for consistent comparison
-      const normalizedInputTitle = params.titleText.trim().toLowerCase();
-
-      // Find a section that matches URL, level, and title (case-insensitive)
-      const duplicateSection = sections.find((section) => {
-        const normalizedSectionTitle = section.titleText.trim().toLowerCase();
-
-        return (
-          section.sourceUrl === params.sourceUrl &&
-          section.level === params.level &&
-          normalizedSectionTitle === normalizedInputTitle
-        );
-      });
+      // Find the section with the heading's ID, current or legacy
+      const duplicateSection = sections.find((section) =>
+        isSectionOfHeading(section, params)
+      );
 
       return duplicateSection || null;
     } catch (error) {
@@ -429,11 +525,20 @@ export class ChromeStorageHeadingSectionRepository
     maxSize: number;
     usagePercentage: number;
   }> {
-    return StorageQuotaUtils.getStorageInfo(
-      this.storage,
-      this.storageKey,
-      this.useSync
-    );
+    try {
+      const sectionsData = await this.readAllSectionData();
+      return StorageQuotaUtils.getStorageInfo(
+        sectionsData,
+        this.useSync,
+        this.useSync
+          ? await ChunkedSyncStorageArea.for(
+              StorageValidationService.getStorageArea(true)
+            ).getBytesInUse()
+          : undefined
+      );
+    } catch (error) {
+      throw new RepositoryError("Failed to get storage information");
+    }
   }
 
   /**
@@ -444,49 +549,258 @@ export class ChromeStorageHeadingSectionRepository
     repaired: boolean;
     errors: string[];
   }> {
-    return StorageValidationService.validateAndRepairStorage(
-      this.storage,
-      this.storageKey
+    return runExclusive(this.storage, () =>
+      StorageValidationService.validateAndRepairStorage(this.storage)
     );
   }
 
   /**
-   * Private method to save sections to storage with validation
+   * Rewrites the synced sections as the SECTION_SYNC_CONTENT_KEY setting now
+   * asks, syncing or unsyncing their content. Does nothing outside sync mode.
    */
-  private async saveSections(sections: HeadingSection[]): Promise<void> {
-    console.log(
-      `ChromeStorageRepository: Saving ${sections.length} sections to storage`
-    );
+  async resyncSections(): Promise<Result<void>> {
+    if (!this.useSync) {
+      return Result.success(undefined);
+    }
 
     try {
-      const serializedSections =
-        HeadingSectionStorageMapper.serializeSections(sections);
-      const dataToStore = { [this.storageKey]: serializedSections };
-
+      const sections = await this.getAllSections();
+      await this.replaceSections(sections);
       console.log(
-        "ChromeStorageRepository: Serialized data to store:",
-        dataToStore
+        `ChromeStorageRepository: Rewrote ${sections.length} synced sections`
       );
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to resync sections");
+    }
+  }
+
+  /**
+   * Reads the stored data of all sections, from their own keys or, before
+   * they have been moved there, from the array they used to be stored in
+   */
+  private async readAllSectionData(): Promise<any[]> {
+    const result = await this.storage.get([
+      SECTION_MANIFEST_KEY,
+      SECTION_LIST_KEY,
+    ]);
+    const manifest = toSectionManifest(result[SECTION_MANIFEST_KEY]);
+    if (!manifest) {
+      const sectionsData = result[SECTION_LIST_KEY];
+      return Array.isArray(sectionsData) ? sectionsData : [];
+    }
+    return this.withLocalContent(
+      await readSectionShards(this.storage, manifest.sectionIds)
+    );
+  }
+
+  /**
+   * Adds the content kept on this device to sections whose metadata alone is
+   * synced; without it, as on other devices, their content is empty
+   */
+  private async withLocalContent(sectionsData: any[]): Promise<any[]> {
+    const metadataOnlyIds = sectionsData
+      .filter((data) => data?.localContent === true)
+      .map((data) => data.sectionId);
+    if (metadataOnlyIds.length === 0) {
+      return sectionsData;
+    }
 
-      // Estimate storage size (rough calculation)
-      const estimatedSize = JSON.stringify(dataToStore).length;
+    const contents = await this.localStorage.get(
+      metadataOnlyIds.map(getSectionContentKey)
+    );
+    return sectionsData.map((data) => {
+      if (data?.localContent !== true) {
+        return data;
+      }
+      const { localContent, ...metadata } = data;
+      const content = contents[getSectionContentKey(data.sectionId)];
+      return {
+        ...metadata,
+        contentHtml: content?.contentHtml ?? "",
+        versions: content?.versions ?? [],
+      };
+    });
+  }
+
+  /**
+   * The manifest to write against, moving sections stored as one array to
+   * their own keys first. Only called from within runExclusive.
+   */
+  private async prepareManifest(): Promise<SectionManifest> {
+    const manifest = await readSectionManifest(this.storage);
+    if (manifest) {
+      return manifest;
+    }
+
+    const { migratedSections } = await migrateToSectionShards(this.storage);
+    if (migratedSections > 0) {
       console.log(
-        `ChromeStorageRepository: Estimated data size: ${estimatedSize} bytes`
+        `ChromeStorageRepository: Moved ${migratedSections} sections to their own keys`
+      );
+    }
+    return (await readSectionManifest(this.storage)) ?? { sectionIds: [] };
+  }
+
+  /**
+   * Writes the given sections under their keys and adds new IDs to the
+   * manifest, in a single storage write
+   */
+  private async writeSections(sections: HeadingSection[]): Promise<void> {
+    await runExclusive(this.storage, async () => {
+      const manifest = await this.prepareManifest();
+      const storedIds = new Set(manifest.sectionIds);
+      const items: Record<string, any> = {};
+      const addedIds: string[] = [];
+
+      for (const section of sections) {
+        items[getSectionKey(section.sectionId)] =
+          HeadingSectionStorageMapper.serializeSections([section])[0];
+        if (!storedIds.has(section.sectionId)) {
+          storedIds.add(section.sectionId);
+          addedIds.push(section.sectionId);
+        }
+      }
+
+      const updatedManifest: SectionManifest = {
+        sectionIds: [...manifest.sectionIds, ...addedIds],
+      };
+      await this.saveItems(
+        { ...items, [SECTION_MANIFEST_KEY]: updatedManifest },
+        addedIds
+      );
+    });
+  }
+
+  /**
+   * Removes the sections with the given current or legacy IDs
+   *
+   * Current IDs are resolved from the manifest; only when some ID is not in
+   * it are the sections read to look for legacy IDs. The manifest is written
+   * before the section keys are removed, so an interrupted removal leaves an
+   * unlisted key rather than a listed section without data.
+   *
+   * @returns The number of sections removed
+   */
+  private async deleteSections(sectionIds: Id[]): Promise<number> {
+    return runExclusive(this.storage, async () => {
+      const manifest = await this.prepareManifest();
+      const storedIds = new Set(manifest.sectionIds);
+      const removedIds = new Set(sectionIds.filter((id) => storedIds.has(id)));
+
+      const unresolvedIds = sectionIds.filter((id) => !storedIds.has(id));
+      if (unresolvedIds.length > 0) {
+        const sections = HeadingSectionStorageMapper.deserializeSections(
+          await readSectionShards(this.storage, manifest.sectionIds)
+        );
+        for (const section of sections) {
+          if (unresolvedIds.some((id) => hasSectionId(section, id))) {
+            removedIds.add(section.sectionId);
+          }
+        }
+      }
+
+      if (removedIds.size === 0) {
+        return 0;
+      }
+
+      const updatedManifest: SectionManifest = {
+        sectionIds: manifest.sectionIds.filter((id) => !removedIds.has(id)),
+      };
+      await this.saveItems({ [SECTION_MANIFEST_KEY]: updatedManifest }, []);
+      await this.removeSectionKeys([...removedIds]);
+
+      return removedIds.size;
+    });
+  }
+
+  /**
+   * Replaces all sections, removing the keys of sections no longer stored
+   */
+  private async replaceSections(sections: HeadingSection[]): Promise<void> {
+    await runExclusive(this.storage, async () => {
+      const manifest = await this.prepareManifest();
+      const previousIds = new Set(manifest.sectionIds);
+      const items: Record<string, any> = {};
+      const sectionIds: string[] = [];
+
+      for (const section of sections) {
+        const key = getSectionKey(section.sectionId);
+        if (!(key in items)) {
+          sectionIds.push(section.sectionId);
+        }
+        items[key] = HeadingSectionStorageMapper.serializeSections([
+          section,
+        ])[0];
+      }
+
+      const keptIds = new Set(sectionIds);
+      const staleIds = manifest.sectionIds.filter((id) => !keptIds.has(id));
+
+      await this.saveItems(
+        { ...items, [SECTION_MANIFEST_KEY]: { sectionIds } },
+        sectionIds.filter((id) => !previousIds.has(id))
       );
+      if (staleIds.length > 0) {
+        await this.removeSectionKeys(staleIds);
+      }
+    });
+  }
 
-      // Validate storage size before saving
-      StorageQuotaUtils.validateStorageSize(serializedSections, this.useSync);
+  /**
+   * Removes the keys of the given sections, and in sync mode the content
+   * kept on this device
+   *
+   * Keys whose data cannot be read were never listed by this repository, so
+   * they are removed only as stale keys; their data is set aside first.
+   */
+  private async removeSectionKeys(sectionIds: string[]): Promise<void> {
+    const keys = sectionIds.map(getSectionKey);
+    const stored = await this.storage.get(keys);
+    const { rejected } = HeadingSectionStorageMapper.readSections(
+      Object.values(stored)
+    );
+    await setAsideRejectedSections(this.localStorage, rejected);
+    await this.storage.remove(keys);
+    if (this.useSync) {
+      await this.localStorage.remove(sectionIds.map(getSectionContentKey));
+    }
+  }
+
+  /**
+   * Writes the given keys together with the change record, with validation
+   */
+  private async saveItems(
+    items: Record<string, any>,
+    addedIds: string[]
+  ): Promise<void> {
+    const changeRecord = sectionChangeRecord(addedIds);
+    const estimatedSize = JSON.stringify(items).length;
+
+    try {
+      if (this.useSync) {
+        await this.saveSyncedItems(items, changeRecord);
+      } else {
+        // Validate storage size before saving
+        StorageQuotaUtils.validateStorageSize(Object.values(items), false);
 
-      await this.storage.set(dataToStore);
+        await this.storage.set({ ...items, ...changeRecord });
+      }
       console.log(
-        "ChromeStorageRepository: Data saved to storage successfully"
+        `ChromeStorageRepository: Saved ${
+          Object.keys(items).length
+        } keys (${estimatedSize} bytes)`
       );
     } catch (error) {
       console.error("ChromeStorageRepository: Error saving to storage:", error);
+      // Sync writes report the compressed size themselves
+      if (error instanceof ChromeStorageError) {
+        throw error;
+      }
       if (StorageQuotaUtils.isQuotaExceededError(error)) {
         throw new StorageQuotaExceededError(
           this.useSync ? "sync" : "local",
-          0, // Size calculation could be added
+          estimatedSize,
           this.useSync ? 102400 : 5242880
         );
       }
@@ -494,6 +808,103 @@ export class ChromeStorageHeadingSectionRepository
     }
   }
 
+  /**
+   * Writes items to chrome.storage.sync, keeping the content of sections on
+   * this device when only metadata is synced, and announces the change in
+   * chrome.storage.local where listeners expect it
+   */
+  private async saveSyncedItems(
+    items: Record<string, any>,
+    changeRecord: Record<string, any>
+  ): Promise<void> {
+    const syncContent = await this.readSyncContent();
+    const missingContentIds = await this.findMissingContent(items);
+    const syncedItems: Record<string, any> = {};
+    const localItems: Record<string, any> = {};
+    const syncedContentKeys: string[] = [];
+
+    for (const [key, value] of Object.entries(items)) {
+      if (!key.startsWith(SECTION_KEY_PREFIX)) {
+        syncedItems[key] = value;
+        continue;
+      }
+      const contentKey = getSectionContentKey(value.sectionId);
+      if (missingContentIds.has(value.sectionId)) {
+        // Another device keeps this content; leave it there
+        syncedItems[key] = { ...value, localContent: true };
+        continue;
+      }
+      if (syncContent === "full") {
+        syncedItems[key] = value;
+        syncedContentKeys.push(contentKey);
+        continue;
+      }
+      const { contentHtml, versions, ...metadata } = value;
+      syncedItems[key] = {
+        ...metadata,
+        contentHtml: "",
+        versions: [],
+        localContent: true,
+      };
+      localItems[contentKey] = { contentHtml, versions };
+    }
+
+    // Content is written first, so synced metadata never lacks it here
+    if (Object.keys(localItems).length > 0) {
+      await this.localStorage.set(localItems);
+    }
+    await this.storage.set(syncedItems);
+    if (syncedContentKeys.length > 0) {
+      await this.localStorage.remove(syncedContentKeys);
+    }
+    await this.localStorage.set(changeRecord);
+  }
+
+  /**
+   * IDs of the sections among the items whose content is kept on another
+   * device: synced as metadata only, with no content on this device, and
+   * not given new content since. Only called from within runExclusive.
+   */
+  private async findMissingContent(
+    items: Record<string, any>
+  ): Promise<Set<string>> {
+    const emptyKeys = Object.keys(items).filter(
+      (key) =>
+        key.startsWith(SECTION_KEY_PREFIX) &&
+        items[key].contentHtml === "" &&
+        (items[key].versions ?? []).length === 0
+    );
+    if (emptyKeys.length === 0) {
+      return new Set();
+    }
+
+    const stored = await this.storage.get(emptyKeys);
+    const metadataOnlyIds = Object.values(stored)
+      .filter((data: any) => data?.localContent === true)
+      .map((data: any) => data.sectionId as string);
+    if (metadataOnlyIds.length === 0) {
+      return new Set();
+    }
+
+    const contents = await this.localStorage.get(
+      metadataOnlyIds.map(getSectionContentKey)
+    );
+    return new Set(
+      metadataOnlyIds.filter((id) => !(getSectionContentKey(id) in contents))
+    );
+  }
+
+  /**
+   * What the sync content setting asks to sync
+   */
+  private async readSyncContent(): Promise<SectionSyncContent> {
+    const result = await this.localStorage.get(SECTION_SYNC_CONTENT_KEY);
+    const setting = result[SECTION_SYNC_CONTENT_KEY];
+    return isSectionSyncContent(setting)
+      ? setting
+      : DEFAULT_SECTION_SYNC_CONTENT;
+  }
+
   /**
    * Handles storage errors and converts them to appropriate Result types
    */
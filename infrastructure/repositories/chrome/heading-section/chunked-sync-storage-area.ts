@@ -0,0 +1,281 @@
+import {
+  compressText,
+  decompressText,
+} from "../../../../shared/compression/compress-text";
+import { SectionStorageArea } from "./section-shards";
+import { STORAGE_CONFIG } from "./storage-keys";
+import {
+  StorageItemLimitExceededError,
+  StorageQuotaExceededError,
+  StorageSerializationError,
+  StorageWriteRateExceededError,
+} from "./errors";
+
+/**
+ * Stored in place of a value: the compressed value itself when it fits in
+ * one item, or the number of chunk items it was split into
+ */
+type ChunkedValueHeader = { deflated: string } | { deflatedChunks: number };
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const areas = new WeakMap<chrome.storage.StorageArea, ChunkedSyncStorageArea>();
+
+/**
+ * Storage area over chrome.storage.sync that compresses each value and
+ * splits it into chunks below QUOTA_BYTES_PER_ITEM
+ *
+ * The value of a key is replaced by a header; the chunks of a value that
+ * does not fit in one item are stored under "<key>#<index>". All items of a
+ * write, chunks included, go into one set call. Before a write the bytes and
+ * the number of items the area would then hold are checked against
+ * STORAGE_CONFIG.SYNC.QUOTA_BYTES and MAX_ITEMS, and the write operations it
+ * needs against the per-minute and per-hour limits, so that a write is
+ * refused as a whole rather than failing halfway.
+ */
+export class ChunkedSyncStorageArea implements SectionStorageArea {
+  /** When the write operations of the last hour were made */
+  private writeTimes: number[] = [];
+
+  private constructor(private readonly area: chrome.storage.StorageArea) {}
+
+  /**
+   * The chunked view of a storage area; one per area, so that writes queued
+   * on it are shared by all repositories using the area
+   */
+  static for(area: chrome.storage.StorageArea): ChunkedSyncStorageArea {
+    let chunked = areas.get(area);
+    if (!chunked) {
+      chunked = new ChunkedSyncStorageArea(area);
+      areas.set(area, chunked);
+    }
+    return chunked;
+  }
+
+  /**
+   * Reads and decodes the given keys, or all keys for null. Values whose
+   * chunks have not all arrived yet, as can happen while syncing, are left
+   * out.
+   */
+  async get(keys: string | string[] | null): Promise<Record<string, any>> {
+    const stored: Record<string, any> =
+      keys === null ? await this.area.get(null) : await this.area.get(keys);
+    const chunkKeys = Object.entries(stored).flatMap(([key, value]) =>
+      getChunkKeys(key, value)
+    );
+    // Reading all keys has read the chunks already
+    const chunks: Record<string, any> =
+      keys === null || chunkKeys.length === 0
+        ? stored
+        : await this.area.get(chunkKeys);
+    const chunkKeySet = new Set(chunkKeys);
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(stored)) {
+      if (chunkKeySet.has(key)) {
+        continue;
+      }
+      if (!isChunkedValueHeader(value)) {
+        // Written before values were compressed, or by other code
+        result[key] = value;
+        continue;
+      }
+      try {
+        result[key] = await decodeValue(key, value, chunks);
+      } catch (error) {
+        console.warn(`ChunkedSyncStorageArea: Skipping ${key}:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compresses and writes the given items, removing chunks their previous
+   * values no longer need
+   *
+   * @throws StorageQuotaExceededError if the area would exceed its quota
+   * @throws StorageItemLimitExceededError if it would hold too many items
+   * @throws StorageWriteRateExceededError if the write limits are reached
+   */
+  async set(items: Record<string, any>): Promise<void> {
+    const stored: Record<string, any> = await this.area.get(null);
+    const encoded: Record<string, any> = {};
+    for (const [key, value] of Object.entries(items)) {
+      Object.assign(encoded, await encodeValue(key, value));
+    }
+
+    const replacedKeys = new Set(
+      Object.keys(items).flatMap((key) => [
+        key,
+        ...getChunkKeys(key, stored[key]),
+      ])
+    );
+    const staleKeys = [...replacedKeys].filter((key) => !(key in encoded));
+    const totalBytes =
+      sumItemBytes(stored, (key) => !replacedKeys.has(key)) +
+      sumItemBytes(encoded);
+    if (totalBytes > STORAGE_CONFIG.SYNC.QUOTA_BYTES) {
+      throw new StorageQuotaExceededError(
+        "sync",
+        totalBytes,
+        STORAGE_CONFIG.SYNC.QUOTA_BYTES
+      );
+    }
+    // Stale chunks are removed only after the set, so they still count
+    const itemCount = new Set([...Object.keys(stored), ...Object.keys(encoded)])
+      .size;
+    if (itemCount > STORAGE_CONFIG.SYNC.MAX_ITEMS) {
+      throw new StorageItemLimitExceededError(
+        "sync",
+        itemCount,
+        STORAGE_CONFIG.SYNC.MAX_ITEMS
+      );
+    }
+
+    const staleStoredKeys = staleKeys.filter((key) => key in stored);
+    this.reserveWrites(staleStoredKeys.length > 0 ? 2 : 1);
+    await this.area.set(encoded);
+    if (staleStoredKeys.length > 0) {
+      await this.area.remove(staleStoredKeys);
+    }
+  }
+
+  /**
+   * Removes the given keys together with their chunks
+   */
+  async remove(keys: string | string[]): Promise<void> {
+    const stored: Record<string, any> = await this.area.get(keys);
+    const keyList = Array.isArray(keys) ? keys : [keys];
+    this.reserveWrites(1);
+    await this.area.remove([
+      ...keyList,
+      ...keyList.flatMap((key) => getChunkKeys(key, stored[key])),
+    ]);
+  }
+
+  /**
+   * Bytes the area holds, counted as chrome.storage.sync counts them
+   */
+  async getBytesInUse(): Promise<number> {
+    return sumItemBytes(await this.area.get(null));
+  }
+
+  /**
+   * Counts the given number of write operations against the write limits
+   *
+   * @throws StorageWriteRateExceededError if they would exceed a limit
+   */
+  private reserveWrites(count: number): void {
+    const now = Date.now();
+    this.writeTimes = this.writeTimes.filter((time) => time > now - HOUR_MS);
+    const lastMinute = this.writeTimes.filter(
+      (time) => time > now - MINUTE_MS
+    ).length;
+
+    const { MAX_WRITE_OPERATIONS_PER_MINUTE, MAX_WRITE_OPERATIONS_PER_HOUR } =
+      STORAGE_CONFIG.SYNC;
+    if (lastMinute + count > MAX_WRITE_OPERATIONS_PER_MINUTE) {
+      throw new StorageWriteRateExceededError(
+        "sync",
+        "minute",
+        MAX_WRITE_OPERATIONS_PER_MINUTE
+      );
+    }
+    if (this.writeTimes.length + count > MAX_WRITE_OPERATIONS_PER_HOUR) {
+      throw new StorageWriteRateExceededError(
+        "sync",
+        "hour",
+        MAX_WRITE_OPERATIONS_PER_HOUR
+      );
+    }
+    for (let i = 0; i < count; i++) {
+      this.writeTimes.push(now);
+    }
+  }
+}
+
+function isChunkedValueHeader(value: any): value is ChunkedValueHeader {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (typeof value.deflated === "string" ||
+      Number.isInteger(value.deflatedChunks))
+  );
+}
+
+function getChunkKey(key: string, index: number): string {
+  return `${key}#${index}`;
+}
+
+function getChunkKeys(key: string, value: any): string[] {
+  if (!isChunkedValueHeader(value) || !("deflatedChunks" in value)) {
+    return [];
+  }
+  return Array.from({ length: value.deflatedChunks }, (_, i) =>
+    getChunkKey(key, i)
+  );
+}
+
+async function encodeValue(
+  key: string,
+  value: any
+): Promise<Record<string, any>> {
+  const deflated = await compressText(JSON.stringify(value));
+  const inline: ChunkedValueHeader = { deflated };
+  if (itemBytes(key, inline) <= STORAGE_CONFIG.SYNC.QUOTA_BYTES_PER_ITEM) {
+    return { [key]: inline };
+  }
+
+  // Room left in an item for a chunk, allowing for the longest chunk key and
+  // the quotes around the string
+  const chunkSize =
+    STORAGE_CONFIG.SYNC.QUOTA_BYTES_PER_ITEM -
+    new TextEncoder().encode(getChunkKey(key, 9999)).length -
+    2;
+  const chunks: Record<string, string> = {};
+  let count = 0;
+  for (let i = 0; i < deflated.length; i += chunkSize) {
+    chunks[getChunkKey(key, count++)] = deflated.slice(i, i + chunkSize);
+  }
+  return { [key]: { deflatedChunks: count }, ...chunks };
+}
+
+async function decodeValue(
+  key: string,
+  header: ChunkedValueHeader,
+  chunks: Record<string, any>
+): Promise<any> {
+  let deflated: string;
+  if ("deflated" in header) {
+    deflated = header.deflated;
+  } else {
+    const parts = getChunkKeys(key, header).map((chunkKey) => chunks[chunkKey]);
+    if (!parts.every((part) => typeof part === "string")) {
+      throw new StorageSerializationError(`Missing chunks of ${key}`);
+    }
+    deflated = parts.join("");
+  }
+
+  try {
+    return JSON.parse(await decompressText(deflated));
+  } catch (error) {
+    throw new StorageSerializationError(
+      `Cannot decode ${key}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+function itemBytes(key: string, value: any): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+function sumItemBytes(
+  items: Record<string, any>,
+  include: (key: string) => boolean = () => true
+): number {
+  return Object.entries(items)
+    .filter(([key]) => include(key))
+    .reduce((total, [key, value]) => total + itemBytes(key, value), 0);
+}
@@ -16,6 +16,28 @@ export class StorageQuotaExceededError extends ChromeStorageError {
   }
 }
 
+export class StorageItemLimitExceededError extends ChromeStorageError {
+  constructor(storageType: "sync" | "local", count: number, limit: number) {
+    super(
+      `${storageType} storage item limit exceeded: ${count}/${limit} items`
+    );
+    this.name = "StorageItemLimitExceededError";
+  }
+}
+
+export class StorageWriteRateExceededError extends ChromeStorageError {
+  constructor(
+    storageType: "sync" | "local",
+    period: "minute" | "hour",
+    limit: number
+  ) {
+    super(
+      `${storageType} storage write limit exceeded: more than ${limit} writes per ${period}`
+    );
+    this.name = "StorageWriteRateExceededError";
+  }
+}
+
 export class StorageUnavailableError extends ChromeStorageError {
   constructor() {
     super("Chrome storage API is not available");
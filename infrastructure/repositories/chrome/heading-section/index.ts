@@ -8,3 +8,7 @@ export * from "./quota-utils";
 export * from "./validation-service";
 export * from "./storage-keys";
 export * from "./errors";
+export * from "./stable-id-migration";
+export * from "./section-shard-migration";
+export * from "./rejected-sections";
+export * from "./chunked-sync-storage-area";
@@ -34,32 +34,26 @@ export class StorageQuotaUtils {
   }
 
   /**
-   * Gets storage usage information
+   * Gets storage usage information for the stored data of all sections,
+   * estimating their size from the data unless the stored size is given
    */
-  static async getStorageInfo(
-    storage: chrome.storage.StorageArea,
-    storageKey: string,
-    useSync: boolean
-  ): Promise<{
+  static getStorageInfo(
+    sectionsData: any[],
+    useSync: boolean,
+    estimatedSize: number = JSON.stringify(sectionsData).length
+  ): {
     sectionsCount: number;
     estimatedSize: number;
     maxSize: number;
     usagePercentage: number;
-  }> {
-    try {
-      const result = await storage.get(storageKey);
-      const sectionsData = result[storageKey] || [];
-      const estimatedSize = JSON.stringify(sectionsData).length;
-      const config = useSync ? STORAGE_CONFIG.SYNC : STORAGE_CONFIG.LOCAL;
+  } {
+    const config = useSync ? STORAGE_CONFIG.SYNC : STORAGE_CONFIG.LOCAL;
 
-      return {
-        sectionsCount: Array.isArray(sectionsData) ? sectionsData.length : 0,
-        estimatedSize,
-        maxSize: config.MAX_SIZE,
-        usagePercentage: (estimatedSize / config.MAX_SIZE) * 100,
-      };
-    } catch (error) {
-      throw new RepositoryError("Failed to get storage information");
-    }
+    return {
+      sectionsCount: sectionsData.length,
+      estimatedSize,
+      maxSize: config.MAX_SIZE,
+      usagePercentage: (estimatedSize / config.MAX_SIZE) * 100,
+    };
   }
 }
@@ -0,0 +1,58 @@
+import { SectionStorageArea } from "./section-shards";
+import { REJECTED_SECTIONS_KEY } from "./storage-keys";
+import { RejectedSectionData } from "./storage-mapper";
+
+/**
+ * Section data set aside, with the time it was set aside
+ */
+export interface StoredRejectedSection extends RejectedSectionData {
+  rejectedAt: string;
+}
+
+/**
+ * Reads the section data set aside so far
+ */
+export async function readRejectedSections(
+  storage: SectionStorageArea
+): Promise<StoredRejectedSection[]> {
+  const result = await storage.get(REJECTED_SECTIONS_KEY);
+  const rejected = result[REJECTED_SECTIONS_KEY];
+  return Array.isArray(rejected) ? rejected : [];
+}
+
+/**
+ * The items that add the given entries to the section data set aside, to
+ * be written together with the change that drops the entries
+ */
+export async function rejectedSectionItems(
+  storage: SectionStorageArea,
+  rejected: RejectedSectionData[]
+): Promise<Record<string, unknown>> {
+  if (rejected.length === 0) {
+    return {};
+  }
+  const rejectedAt = new Date().toISOString();
+  return {
+    [REJECTED_SECTIONS_KEY]: [
+      ...(await readRejectedSections(storage)),
+      ...rejected.map((entry) => ({ ...entry, rejectedAt })),
+    ],
+  };
+}
+
+/**
+ * Sets section data that cannot be read aside before it is deleted, so
+ * that no stored data is lost without a copy
+ */
+export async function setAsideRejectedSections(
+  storage: SectionStorageArea,
+  rejected: RejectedSectionData[]
+): Promise<void> {
+  if (rejected.length === 0) {
+    return;
+  }
+  console.warn(
+    `Setting aside ${rejected.length} stored sections that cannot be read`
+  );
+  await storage.set(await rejectedSectionItems(storage, rejected));
+}
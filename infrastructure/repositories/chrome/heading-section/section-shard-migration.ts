@@ -0,0 +1,66 @@
+import {
+  SECTION_LIST_KEY,
+  SECTION_MANIFEST_KEY,
+  SectionManifest,
+  getSectionKey,
+} from "./storage-keys";
+import { SectionStorageArea } from "./section-shards";
+import { rejectedSectionItems } from "./rejected-sections";
+import { RejectedSectionData } from "./storage-mapper";
+
+/**
+ * Moves sections stored as one array to one key per section plus a manifest
+ * of their IDs
+ *
+ * Sections are written in one call together with the manifest, and the array
+ * is only removed afterwards. Entries without a section ID cannot be given a
+ * key, and of entries sharing an ID only the first one can; the others are
+ * set aside under REJECTED_SECTIONS_KEY in the same write. Safe to run
+ * repeatedly: when a manifest exists, only a leftover array is removed.
+ *
+ * @returns The number of sections given their own key
+ */
+export async function migrateToSectionShards(
+  storage: SectionStorageArea
+): Promise<{ migratedSections: number }> {
+  const result = await storage.get([SECTION_LIST_KEY, SECTION_MANIFEST_KEY]);
+  const sectionsData = result[SECTION_LIST_KEY];
+
+  if (result[SECTION_MANIFEST_KEY] || !Array.isArray(sectionsData)) {
+    if (sectionsData !== undefined) {
+      await storage.remove(SECTION_LIST_KEY);
+    }
+    return { migratedSections: 0 };
+  }
+
+  const items: Record<string, unknown> = {};
+  const manifest: SectionManifest = { sectionIds: [] };
+  const rejected: RejectedSectionData[] = [];
+  for (const data of sectionsData) {
+    const sectionId = data?.sectionId;
+    if (typeof sectionId !== "string" || !sectionId.trim()) {
+      rejected.push({ data, reason: "Section has no ID" });
+      continue;
+    }
+    if (getSectionKey(sectionId) in items) {
+      rejected.push({ data, reason: "Another section has the same ID" });
+      continue;
+    }
+    items[getSectionKey(sectionId)] = data;
+    manifest.sectionIds.push(sectionId);
+  }
+
+  if (rejected.length > 0) {
+    console.warn(
+      `SectionShardMigration: Setting aside ${rejected.length} entries that cannot be given a key`
+    );
+  }
+  await storage.set({
+    ...items,
+    [SECTION_MANIFEST_KEY]: manifest,
+    ...(await rejectedSectionItems(storage, rejected)),
+  });
+  await storage.remove(SECTION_LIST_KEY);
+
+  return { migratedSections: manifest.sectionIds.length };
+}
@@ -0,0 +1,95 @@
+import {
+  SECTION_CHANGE_KEY,
+  SECTION_MANIFEST_KEY,
+  SECTION_READ_BATCH_SIZE,
+  SectionManifest,
+  getSectionKey,
+} from "./storage-keys";
+
+/**
+ * The parts of a chrome.storage area that sections are stored through
+ */
+export interface SectionStorageArea {
+  get(keys: string | string[] | null): Promise<Record<string, any>>;
+  set(items: Record<string, any>): Promise<void>;
+  remove(keys: string | string[]): Promise<void>;
+}
+
+// Tail of the write queue of each storage area
+const writeQueues = new WeakMap<SectionStorageArea, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write of sections after the writes queued before it on
+ * the same storage area, so concurrent writes cannot overwrite each other
+ */
+export function runExclusive<T>(
+  storage: SectionStorageArea,
+  operation: () => Promise<T>
+): Promise<T> {
+  const previous = writeQueues.get(storage) ?? Promise.resolve();
+  const result = previous.then(operation, operation);
+  writeQueues.set(
+    storage,
+    result.catch(() => undefined)
+  );
+  return result;
+}
+
+/**
+ * Reads the section manifest, or null when sections are not stored under
+ * their own keys yet
+ */
+export async function readSectionManifest(
+  storage: SectionStorageArea
+): Promise<SectionManifest | null> {
+  const result = await storage.get(SECTION_MANIFEST_KEY);
+  return toSectionManifest(result[SECTION_MANIFEST_KEY]);
+}
+
+/**
+ * The manifest in stored data, or null when it is missing or malformed
+ */
+export function toSectionManifest(data: any): SectionManifest | null {
+  if (
+    !data ||
+    !Array.isArray(data.sectionIds) ||
+    !data.sectionIds.every((id: unknown) => typeof id === "string")
+  ) {
+    return null;
+  }
+  return { sectionIds: data.sectionIds };
+}
+
+/**
+ * Reads the stored data of the given sections in batches of
+ * SECTION_READ_BATCH_SIZE keys, keeping the order of the IDs. Sections whose
+ * key is missing are left out.
+ */
+export async function readSectionShards(
+  storage: SectionStorageArea,
+  sectionIds: string[]
+): Promise<any[]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < sectionIds.length; i += SECTION_READ_BATCH_SIZE) {
+    batches.push(
+      sectionIds.slice(i, i + SECTION_READ_BATCH_SIZE).map(getSectionKey)
+    );
+  }
+
+  const results = await Promise.all(batches.map((keys) => storage.get(keys)));
+  return batches.flatMap((keys, index) =>
+    keys
+      .filter((key) => key in results[index])
+      .map((key) => results[index][key])
+  );
+}
+
+/**
+ * Change record written with every write to sections, so storage.onChanged
+ * listeners learn which sections were added without reading them all
+ */
+export function sectionChangeRecord(addedIds: string[]): Record<string, any> {
+  return {
+    [SECTION_CHANGE_KEY]: { changedAt: new Date().toISOString(), addedIds },
+  };
+}
@@ -0,0 +1,116 @@
+import {
+  HeadingSection,
+  SectionOutlineNode,
+  buildPageOutlines,
+  deserializeHeadingSection,
+  generateSectionId,
+  isStableSectionId,
+  serializeHeadingSection,
+} from "../../../../domain/heading-collection";
+import { SECTION_LIST_KEY } from "./storage-keys";
+
+/**
+ * Replaces time- and random-based section IDs with stable, content-based ones
+ *
+ * The old ID is kept in the section's legacy IDs, so lookups by the old ID
+ * keep working. Sections stored before heading paths were recorded get the
+ * path of their nearest stored ancestors. The page is not at hand, so that
+ * path lacks enclosing headings that were not collected, and the ID may
+ * differ from the one a fresh capture gets; such sections are marked as
+ * having a partial path, and their next capture completes the path and
+ * gives them the fresh ID. When two stored sections map to the same ID, the
+ * later one gets a numbered suffix. Entries that cannot be read
+ * are left untouched. Safe to run repeatedly: sections that already have a
+ * stable ID are skipped and nothing is written when there is nothing to change.
+ *
+ * @returns The number of sections whose ID was replaced
+ */
+export async function migrateToStableSectionIds(
+  storage: chrome.storage.StorageArea
+): Promise<{ migratedSections: number }> {
+  const result = await storage.get(SECTION_LIST_KEY);
+  const sectionsData = result[SECTION_LIST_KEY];
+  if (!Array.isArray(sectionsData)) {
+    return { migratedSections: 0 };
+  }
+
+  const sections = sectionsData.map((data) => {
+    try {
+      return deserializeHeadingSection(data);
+    } catch {
+      return null;
+    }
+  });
+  const validSections = sections.filter(
+    (section): section is HeadingSection => section !== null
+  );
+
+  const derivedPaths = deriveHeadingPaths(validSections);
+  const usedIds = new Set(
+    validSections.map((section) => section.sectionId).filter(isMigratedId)
+  );
+  let migratedSections = 0;
+
+  const migrated = sectionsData.map((data, index) => {
+    const section = sections[index];
+    if (!section || isMigratedId(section.sectionId)) {
+      return data;
+    }
+
+    const headingPath = section.headingPath ?? derivedPaths.get(section) ?? [];
+    const baseId = generateSectionId({
+      sourceUrl: section.sourceUrl,
+      level: section.level,
+      titleText: section.titleText,
+      headingPath,
+    });
+    let sectionId = baseId;
+    for (let suffix = 2; usedIds.has(sectionId); suffix++) {
+      sectionId = `${baseId}-${suffix}`;
+    }
+    usedIds.add(sectionId);
+    migratedSections++;
+
+    return serializeHeadingSection({
+      ...section,
+      sectionId,
+      legacyIds: [...(section.legacyIds ?? []), section.sectionId],
+      ...(!section.headingPath && { headingPath, headingPathPartial: true }),
+    });
+  });
+
+  if (migratedSections > 0) {
+    await storage.set({ [SECTION_LIST_KEY]: migrated });
+  }
+
+  return { migratedSections };
+}
+
+/**
+ * IDs given by the migration may carry a suffix against collisions
+ */
+function isMigratedId(id: string): boolean {
+  return isStableSectionId(id.replace(/-\d+$/, ""));
+}
+
+/**
+ * Derives heading paths from the outline of the stored sections of each page
+ */
+function deriveHeadingPaths(
+  sections: HeadingSection[]
+): Map<HeadingSection, string[]> {
+  const paths = new Map<HeadingSection, string[]>();
+
+  const visit = (nodes: ReadonlyArray<SectionOutlineNode>, path: string[]) => {
+    for (const node of nodes) {
+      paths.set(node.section, path);
+      visit(node.children, [...path, node.section.titleText]);
+    }
+  };
+
+  for (const page of buildPageOutlines(sections)) {
+    visit(page.roots, []);
+  }
+
+  return paths;
+}
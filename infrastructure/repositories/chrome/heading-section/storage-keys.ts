@@ -3,8 +3,65 @@
  */
 
 export const STORAGE_NAMESPACE = "deepwiki_heading_sections";
+
+/** Array of all sections, as stored before each section got its own key */
 export const SECTION_LIST_KEY = STORAGE_NAMESPACE;
 
+/** Manifest listing the IDs of the stored sections, in stored order */
+export const SECTION_MANIFEST_KEY = `${STORAGE_NAMESPACE}_manifest`;
+
+/** Prefix of the key holding one section, followed by its section ID */
+export const SECTION_KEY_PREFIX = "deepwiki_heading_section:";
+
+/**
+ * Key under which every write to sections is announced, with the IDs of the
+ * sections it added, for listeners of storage.onChanged
+ */
+export const SECTION_CHANGE_KEY = `${STORAGE_NAMESPACE}_changed`;
+
+/**
+ * Prefix of the key in chrome.storage.local holding the content of a section
+ * whose metadata alone is synced, followed by its section ID
+ */
+export const SECTION_CONTENT_KEY_PREFIX = "deepwiki_heading_section_content:";
+
+/**
+ * Setting in chrome.storage.local choosing what the chrome-sync backend
+ * syncs: "metadata" or "full"
+ */
+export const SECTION_SYNC_CONTENT_KEY = "deepwiki_section_sync_content";
+
+/**
+ * Key in chrome.storage.local holding stored section data that could not be
+ * read, set aside instead of being deleted so that it can be recovered
+ */
+export const REJECTED_SECTIONS_KEY = `${STORAGE_NAMESPACE}_rejected`;
+
+/** Number of section keys read per storage.get call */
+export const SECTION_READ_BATCH_SIZE = 100;
+
+/**
+ * Storage key of one section
+ */
+export function getSectionKey(sectionId: string): string {
+  return `${SECTION_KEY_PREFIX}${sectionId}`;
+}
+
+/**
+ * Key in chrome.storage.local of the content of a section whose metadata
+ * alone is synced
+ */
+export function getSectionContentKey(sectionId: string): string {
+  return `${SECTION_CONTENT_KEY_PREFIX}${sectionId}`;
+}
+
+/**
+ * Stored list of section IDs
+ */
+export interface SectionManifest {
+  sectionIds: string[];
+}
+
 /**
  * Storage configuration constants
  */
@@ -15,6 +72,24 @@ export const STORAGE_CONFIG = {
       (typeof chrome !== "undefined"
         ? chrome.storage?.sync?.QUOTA_BYTES
         : undefined) || 102400,
+    // Each item counts its key plus its value as JSON
+    QUOTA_BYTES_PER_ITEM:
+      (typeof chrome !== "undefined"
+        ? chrome.storage?.sync?.QUOTA_BYTES_PER_ITEM
+        : undefined) || 8192,
+    MAX_ITEMS:
+      (typeof chrome !== "undefined"
+        ? chrome.storage?.sync?.MAX_ITEMS
+        : undefined) || 512,
+    // Each set or remove call counts as one write operation
+    MAX_WRITE_OPERATIONS_PER_MINUTE:
+      (typeof chrome !== "undefined"
+        ? chrome.storage?.sync?.MAX_WRITE_OPERATIONS_PER_MINUTE
+        : undefined) || 120,
+    MAX_WRITE_OPERATIONS_PER_HOUR:
+      (typeof chrome !== "undefined"
+        ? chrome.storage?.sync?.MAX_WRITE_OPERATIONS_PER_HOUR
+        : undefined) || 1800,
   },
   LOCAL: {
     MAX_SIZE: 5 * 1024 * 1024, // 5MB for local storage
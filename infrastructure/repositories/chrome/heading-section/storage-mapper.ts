@@ -5,6 +5,16 @@ import {
   isHeadingSection,
 } from "../../../../domain/heading-collection";
 
+/**
+ * Stored section data that could not be read as a section
+ */
+export interface RejectedSectionData {
+  /** The data as it was stored */
+  data: unknown;
+  /** Why it could not be read */
+  reason: string;
+}
+
 /**
  * Handles serialization and deserialization of HeadingSection entities
  * for Chrome storage operations
@@ -18,7 +28,11 @@ export class HeadingSectionStorageMapper {
   }
 
   /**
-   * Deserializes sections from storage data with validation
+   * Deserializes sections from storage data with validation, leaving out
+   * entries that cannot be read
+   *
+   * Reading leaves stored data as it is. Code that deletes stored data after
+   * reading it uses readSections and sets the rejected entries aside.
    */
   static deserializeSections(sectionsData: any[]): HeadingSection[] {
     if (!Array.isArray(sectionsData)) {
@@ -26,29 +40,48 @@ export class HeadingSectionStorageMapper {
       return [];
     }
 
-    const validSections: HeadingSection[] = [];
+    const { sections, rejected } = this.readSections(sectionsData);
+    for (const { data, reason } of rejected) {
+      console.warn(
+        `Skipping section data that cannot be read (${reason}):`,
+        data
+      );
+    }
+    return sections;
+  }
+
+  /**
+   * Deserializes sections from storage data with validation
+   *
+   * @returns The valid sections and the entries that cannot be read
+   */
+  static readSections(sectionsData: any[]): {
+    sections: HeadingSection[];
+    rejected: RejectedSectionData[];
+  } {
+    const sections: HeadingSection[] = [];
+    const rejected: RejectedSectionData[] = [];
 
-    for (const [index, sectionData] of sectionsData.entries()) {
+    for (const data of sectionsData) {
       try {
-        const section = deserializeHeadingSection(sectionData);
+        const section = deserializeHeadingSection(data);
         if (isHeadingSection(section)) {
-          validSections.push(section);
+          sections.push(section);
         } else {
-          console.warn(
-            `Invalid section data found at index ${index}, skipping:`,
-            sectionData
-          );
+          rejected.push({
+            data,
+            reason: "Section has fields of the wrong type",
+          });
         }
       } catch (error) {
-        console.warn(
-          `Failed to deserialize section at index ${index}, skipping:`,
-          sectionData,
-          error
-        );
+        rejected.push({
+          data,
+          reason: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
-    return validSections;
+    return { sections, rejected };
   }
 
   /**
@@ -1,67 +1,98 @@
-import {
-  serializeHeadingSection,
-  isHeadingSection,
-} from "../../../../domain/heading-collection";
 import { RepositoryError } from "../../../../domain/shared";
 import { HeadingSectionStorageMapper } from "./storage-mapper";
+import {
+  SECTION_KEY_PREFIX,
+  SECTION_MANIFEST_KEY,
+  getSectionKey,
+} from "./storage-keys";
+import { rejectedSectionItems } from "./rejected-sections";
+import { RejectedSectionData } from "./storage-mapper";
+import {
+  SectionStorageArea,
+  readSectionShards,
+  toSectionManifest,
+} from "./section-shards";
 
 /**
  * Service for validating and repairing Chrome storage data integrity
  */
 export class StorageValidationService {
   /**
-   * Validates storage integrity and repairs if necessary
+   * Validates the section manifest and the sections it lists, and repairs
+   * them if necessary
+   *
+   * Listed sections whose key is missing or holds invalid data are dropped
+   * from the manifest, and the invalid keys removed after their data has been
+   * set aside under REJECTED_SECTIONS_KEY. A malformed manifest is
+   * rebuilt from the section keys found in storage.
    */
-  static async validateAndRepairStorage(
-    storage: chrome.storage.StorageArea,
-    storageKey: string
-  ): Promise<{
+  static async validateAndRepairStorage(storage: SectionStorageArea): Promise<{
     isValid: boolean;
     repaired: boolean;
     errors: string[];
   }> {
     const errors: string[] = [];
-    let repaired = false;
 
     try {
-      const result = await storage.get(storageKey);
-      const sectionsData = result[storageKey];
+      const result = await storage.get(SECTION_MANIFEST_KEY);
+      const manifestData = result[SECTION_MANIFEST_KEY];
 
-      // No data is valid
-      if (sectionsData === undefined) {
+      // No manifest is valid: nothing has been stored under section keys yet
+      if (manifestData === undefined) {
         return { isValid: true, repaired: false, errors: [] };
       }
 
-      // Check if data is in array format
-      if (!HeadingSectionStorageMapper.isValidStorageData(sectionsData)) {
-        errors.push("Storage data is not in valid format");
-        await storage.set({ [storageKey]: [] });
+      let sectionIds: string[];
+      let repaired = false;
+      const manifest = toSectionManifest(manifestData);
+      if (manifest) {
+        sectionIds = [...new Set(manifest.sectionIds)];
+        if (sectionIds.length !== manifest.sectionIds.length) {
+          errors.push("Manifest lists a section more than once");
+        }
+      } else {
+        errors.push("Section manifest is not in valid format");
+        const allItems = await storage.get(null);
+        sectionIds = Object.keys(allItems)
+          .filter((key) => key.startsWith(SECTION_KEY_PREFIX))
+          .map((key) => key.slice(SECTION_KEY_PREFIX.length));
         repaired = true;
-        return { isValid: false, repaired, errors };
       }
 
-      // Validate and repair individual sections
-      const validSections: any[] = [];
-      const originalCount = sectionsData.length;
+      // Validate individual sections
+      const sectionsData = await readSectionShards(storage, sectionIds);
+      const dataById = new Map(
+        sectionsData.map((data) => [data?.sectionId, data])
+      );
+      const validIds: string[] = [];
+      const invalidKeys: string[] = [];
+      const rejected: RejectedSectionData[] = [];
 
-      for (let i = 0; i < sectionsData.length; i++) {
-        try {
-          const section = HeadingSectionStorageMapper.deserializeSections([
-            sectionsData[i],
-          ])[0];
-          if (section && isHeadingSection(section)) {
-            validSections.push(serializeHeadingSection(section));
-          } else {
-            errors.push(`Invalid section at index ${i}`);
-          }
-        } catch (error) {
-          errors.push(`Failed to validate section at index ${i}: ${error}`);
+      for (const sectionId of sectionIds) {
+        const data = dataById.get(sectionId);
+        if (data === undefined) {
+          errors.push(`Missing data for section ${sectionId}`);
+          continue;
+        }
+        const read = HeadingSectionStorageMapper.readSections([data]);
+        if (read.sections.length > 0) {
+          validIds.push(sectionId);
+        } else {
+          errors.push(`Invalid section ${sectionId}`);
+          invalidKeys.push(getSectionKey(sectionId));
+          rejected.push(...read.rejected);
         }
       }
 
       // Repair if some sections were invalid
-      if (validSections.length !== originalCount) {
-        await storage.set({ [storageKey]: validSections });
+      if (repaired || validIds.length !== (manifest?.sectionIds.length ?? 0)) {
+        await storage.set({
+          [SECTION_MANIFEST_KEY]: { sectionIds: validIds },
+          ...(await rejectedSectionItems(storage, rejected)),
+        });
+        if (invalidKeys.length > 0) {
+          await storage.remove(invalidKeys);
+        }
         repaired = true;
       }
 
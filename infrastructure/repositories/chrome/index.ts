@@ -3,4 +3,8 @@
  */
 
 export * from "./heading-section";
+export * from "./collection";
+export * from "./clip";
+export * from "./saved-search";
 export * from "./settings";
+export * from "./migrations";
@@ -0,0 +1,8 @@
+/**
+ * Chrome storage schema migration barrel exports
+ */
+
+export * from "./storage-migration";
+export * from "./migration-registry";
+export * from "./migration-runner";
+export * from "./storage-keys";
@@ -0,0 +1,40 @@
+import { migrateToDefaultCollection } from "../collection/default-collection-migration";
+import { migrateToStableSectionIds } from "../heading-section/stable-id-migration";
+import { migrateToSectionShards } from "../heading-section/section-shard-migration";
+import { StorageMigration } from "./storage-migration";
+
+/**
+ * All storage migrations in the order they are applied
+ *
+ * Append new migrations with the next version number; never change or remove
+ * a released one, as installed extensions may still need it.
+ */
+export const STORAGE_MIGRATIONS: ReadonlyArray<StorageMigration> = [
+  {
+    version: 1,
+    description: "Move sections into the default collection",
+    migrate: async ({ local }) => {
+      await migrateToDefaultCollection(local);
+    },
+  },
+  {
+    version: 2,
+    description: "Replace random section IDs with stable IDs",
+    migrate: async ({ local }) => {
+      await migrateToStableSectionIds(local);
+    },
+  },
+  {
+    version: 3,
+    description: "Store each section under its own key",
+    migrate: async ({ local }) => {
+      await migrateToSectionShards(local);
+    },
+  },
+];
+
+/**
+ * Schema version written by this version of the extension
+ */
+export const CURRENT_SCHEMA_VERSION =
+  STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
@@ -0,0 +1,205 @@
+import { STORAGE_MIGRATIONS } from "./migration-registry";
+import { MIGRATION_BACKUP_KEY, SCHEMA_VERSION_KEY } from "./storage-keys";
+import { MigrationStorageAreas, StorageMigration } from "./storage-migration";
+
+/**
+ * Copy of all stored data taken before migrating
+ */
+interface MigrationBackup {
+  fromVersion: number;
+  createdAt: string;
+  local: Record<string, unknown>;
+  sync: Record<string, unknown>;
+}
+
+/**
+ * Result of running the pending migrations
+ */
+export type MigrationRunResult =
+  | {
+      success: true;
+      fromVersion: number;
+      toVersion: number;
+      /** Versions of the migrations that were applied */
+      applied: number[];
+    }
+  | {
+      success: false;
+      fromVersion: number;
+      /** Version of the migration that failed, if one was running */
+      failedVersion?: number;
+      error: string;
+      /** Whether the stored data was restored from the backup */
+      rolledBack: boolean;
+    };
+
+/**
+ * Brings stored data up to the current schema version
+ *
+ * All stored data is backed up before the first pending migration runs. When a
+ * migration fails, the backup is restored, so the data stays readable by the
+ * previous schema and the migrations are retried on the next update. A backup
+ * left behind by an interrupted run is restored before migrating again.
+ */
+export class StorageMigrationRunner {
+  private readonly migrations: StorageMigration[];
+
+  constructor(
+    private readonly areas: MigrationStorageAreas,
+    migrations: ReadonlyArray<StorageMigration> = STORAGE_MIGRATIONS
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Runs all migrations newer than the stored schema version
+   */
+  async run(): Promise<MigrationRunResult> {
+    const leftover = await this.getBackup();
+    if (leftover) {
+      console.warn(
+        "StorageMigrationRunner: Restoring backup of an interrupted migration"
+      );
+      await this.restore(leftover);
+    }
+
+    const fromVersion = await this.getSchemaVersion();
+    const pending = this.migrations.filter((m) => m.version > fromVersion);
+    const toVersion = pending.length
+      ? pending[pending.length - 1].version
+      : fromVersion;
+
+    if (pending.length === 0) {
+      return { success: true, fromVersion, toVersion, applied: [] };
+    }
+
+    try {
+      await this.backup(fromVersion);
+    } catch (error) {
+      return {
+        success: false,
+        fromVersion,
+        error: `Failed to back up data: ${this.describe(error)}`,
+        rolledBack: false,
+      };
+    }
+
+    const applied: number[] = [];
+    for (const migration of pending) {
+      try {
+        console.log(
+          `StorageMigrationRunner: Migrating to v${migration.version}: ${migration.description}`
+        );
+        await migration.migrate(this.areas);
+        await this.areas.local.set({ [SCHEMA_VERSION_KEY]: migration.version });
+        applied.push(migration.version);
+      } catch (error) {
+        console.error(
+          `StorageMigrationRunner: Migration to v${migration.version} failed:`,
+          error
+        );
+        return {
+          success: false,
+          fromVersion,
+          failedVersion: migration.version,
+          error: this.describe(error),
+          rolledBack: await this.rollback(),
+        };
+      }
+    }
+
+    await this.areas.local.remove(MIGRATION_BACKUP_KEY);
+    return { success: true, fromVersion, toVersion, applied };
+  }
+
+  /**
+   * Reads the stored schema version; data without one predates versioning
+   */
+  async getSchemaVersion(): Promise<number> {
+    const result = await this.areas.local.get(SCHEMA_VERSION_KEY);
+    const version = result[SCHEMA_VERSION_KEY];
+    return Number.isInteger(version) && version > 0 ? version : 0;
+  }
+
+  private async getBackup(): Promise<MigrationBackup | null> {
+    const result = await this.areas.local.get(MIGRATION_BACKUP_KEY);
+    const backup = result[MIGRATION_BACKUP_KEY];
+    return backup && typeof backup === "object" ? backup : null;
+  }
+
+  /**
+   * Copies all stored data into one local key. The copy about doubles the
+   * local usage, which the unlimitedStorage permission allows for.
+   */
+  private async backup(fromVersion: number): Promise<void> {
+    const backup: MigrationBackup = {
+      fromVersion,
+      createdAt: new Date().toISOString(),
+      local: await this.areas.local.get(null),
+      sync: await this.areas.sync.get(null),
+    };
+    await this.areas.local.set({ [MIGRATION_BACKUP_KEY]: backup });
+  }
+
+  /**
+   * Restores the backup and reports whether that succeeded
+   */
+  private async rollback(): Promise<boolean> {
+    try {
+      const backup = await this.getBackup();
+      if (!backup) {
+        return false;
+      }
+      await this.restore(backup);
+      return true;
+    } catch (error) {
+      console.error("StorageMigrationRunner: Rollback failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Replaces all stored data with the backup, then drops the backup. The
+   * areas are never cleared: the backup key stays stored until both areas
+   * are restored and read back, so an interrupted restore can run again.
+   */
+  private async restore(backup: MigrationBackup): Promise<void> {
+    await this.restoreArea(this.areas.local, backup.local, [
+      MIGRATION_BACKUP_KEY,
+    ]);
+    await this.restoreArea(this.areas.sync, backup.sync);
+    await this.areas.local.remove(MIGRATION_BACKUP_KEY);
+  }
+
+  /**
+   * Removes the keys the backup does not have and writes back the backed up
+   * items, then checks that every backed up key is stored again
+   *
+   * @throws Error if a backed up key is missing after restoring
+   */
+  private async restoreArea(
+    area: chrome.storage.StorageArea,
+    items: Record<string, unknown>,
+    keepKeys: string[] = []
+  ): Promise<void> {
+    const stored = await area.get(null);
+    const extraKeys = Object.keys(stored).filter(
+      (key) => !(key in items) && !keepKeys.includes(key)
+    );
+    if (extraKeys.length > 0) {
+      await area.remove(extraKeys);
+    }
+    await area.set(items);
+
+    const keys = Object.keys(items);
+    const restored = keys.length > 0 ? await area.get(keys) : {};
+    const missing = keys.filter((key) => !(key in restored));
+    if (missing.length > 0) {
+      throw new Error(`Keys missing after restoring: ${missing.join(", ")}`);
+    }
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
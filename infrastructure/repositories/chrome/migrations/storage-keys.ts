@@ -0,0 +1,9 @@
+/**
+ * Storage keys for the storage schema in Chrome local storage
+ */
+
+/** Version of the schema the stored data follows (absent means 0) */
+export const SCHEMA_VERSION_KEY = "deepwiki_schema_version";
+
+/** Copy of all stored data taken before migrations run */
+export const MIGRATION_BACKUP_KEY = "deepwiki_migration_backup";
@@ -0,0 +1,18 @@
+/**
+ * Storage areas a migration may read and change
+ */
+export interface MigrationStorageAreas {
+  local: chrome.storage.StorageArea;
+  sync: chrome.storage.StorageArea;
+}
+
+/**
+ * A step that moves stored data from one schema version to the next
+ */
+export interface StorageMigration {
+  /** Schema version the data follows after this migration */
+  readonly version: number;
+  /** What the migration changes, for logs */
+  readonly description: string;
+  migrate(areas: MigrationStorageAreas): Promise<void>;
+}
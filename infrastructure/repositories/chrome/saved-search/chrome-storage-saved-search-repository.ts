@@ -0,0 +1,173 @@
+import {
+  ISavedSearchRepository,
+  SavedSearch,
+  deserializeSavedSearch,
+  isSavedSearch,
+  serializeSavedSearch,
+} from "../../../../domain/heading-collection";
+import {
+  Id,
+  Result,
+  RepositoryError,
+  ValidationError,
+} from "../../../../domain/shared";
+import { StorageValidationService } from "../heading-section/validation-service";
+import { SAVED_SEARCH_LIST_KEY } from "./storage-keys";
+
+/**
+ * Chrome Storage implementation of ISavedSearchRepository
+ *
+ * Saved searches are kept in local storage next to the collections.
+ */
+export class ChromeStorageSavedSearchRepository
+  implements ISavedSearchRepository
+{
+  private get storage(): chrome.storage.StorageArea {
+    return StorageValidationService.getStorageArea(false);
+  }
+
+  /**
+   * Retrieves all saved searches, skipping entries that cannot be deserialized
+   */
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      const result = await this.storage.get(SAVED_SEARCH_LIST_KEY);
+      const savedSearchesData = result[SAVED_SEARCH_LIST_KEY];
+      const savedSearches: SavedSearch[] = [];
+
+      if (Array.isArray(savedSearchesData)) {
+        for (const data of savedSearchesData) {
+          try {
+            savedSearches.push(deserializeSavedSearch(data));
+          } catch (error) {
+            console.warn(
+              "ChromeStorageSavedSearchRepository: Skipping invalid saved search:",
+              data,
+              error
+            );
+          }
+        }
+      }
+
+      return savedSearches;
+    } catch (error) {
+      console.error(
+        "ChromeStorageSavedSearchRepository: Error getting saved searches:",
+        error
+      );
+      throw new RepositoryError(
+        "Failed to retrieve saved searches from storage"
+      );
+    }
+  }
+
+  /**
+   * Retrieves a specific saved search by ID
+   */
+  async getSavedSearchById(savedSearchId: Id): Promise<SavedSearch | null> {
+    const savedSearches = await this.getAllSavedSearches();
+    return savedSearches.find((s) => s.savedSearchId === savedSearchId) || null;
+  }
+
+  /**
+   * Adds a new saved search to storage
+   */
+  async addSavedSearch(savedSearch: SavedSearch): Promise<Result<void>> {
+    if (!isSavedSearch(savedSearch)) {
+      return Result.failure(
+        new ValidationError("Invalid SavedSearch provided")
+      );
+    }
+
+    try {
+      const savedSearches = await this.getAllSavedSearches();
+      if (
+        savedSearches.some((s) => s.savedSearchId === savedSearch.savedSearchId)
+      ) {
+        return Result.failure(
+          new RepositoryError(
+            `Saved search with ID '${savedSearch.savedSearchId}' already exists`
+          )
+        );
+      }
+
+      await this.saveSavedSearches([...savedSearches, savedSearch]);
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to add saved search");
+    }
+  }
+
+  /**
+   * Updates an existing saved search
+   */
+  async updateSavedSearch(savedSearch: SavedSearch): Promise<Result<void>> {
+    if (!isSavedSearch(savedSearch)) {
+      return Result.failure(
+        new ValidationError("Invalid SavedSearch provided for update")
+      );
+    }
+
+    try {
+      const savedSearches = await this.getAllSavedSearches();
+      const index = savedSearches.findIndex(
+        (s) => s.savedSearchId === savedSearch.savedSearchId
+      );
+
+      if (index === -1) {
+        return Result.failure(
+          new RepositoryError("Saved search not found for update")
+        );
+      }
+
+      const updatedSavedSearches = [...savedSearches];
+      updatedSavedSearches[index] = savedSearch;
+
+      await this.saveSavedSearches(updatedSavedSearches);
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to update saved search");
+    }
+  }
+
+  /**
+   * Removes a saved search by ID
+   */
+  async removeSavedSearch(savedSearchId: Id): Promise<Result<boolean>> {
+    try {
+      const savedSearches = await this.getAllSavedSearches();
+      const remaining = savedSearches.filter(
+        (s) => s.savedSearchId !== savedSearchId
+      );
+
+      if (remaining.length === savedSearches.length) {
+        return Result.success(false);
+      }
+
+      await this.saveSavedSearches(remaining);
+      return Result.success(true);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to remove saved search");
+    }
+  }
+
+  /**
+   * Private method to save saved searches to storage
+   */
+  private async saveSavedSearches(savedSearches: SavedSearch[]): Promise<void> {
+    await this.storage.set({
+      [SAVED_SEARCH_LIST_KEY]: savedSearches.map(serializeSavedSearch),
+    });
+  }
+
+  /**
+   * Handles storage errors and converts them to appropriate Result types
+   */
+  private handleStorageError(error: any, fallbackMessage: string): Result<any> {
+    if (error instanceof RepositoryError || error instanceof ValidationError) {
+      return Result.failure(error);
+    }
+
+    return Result.failure(new RepositoryError(fallbackMessage));
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Chrome Storage saved search repository barrel exports
+ */
+
+export * from "./chrome-storage-saved-search-repository";
+export * from "./storage-keys";
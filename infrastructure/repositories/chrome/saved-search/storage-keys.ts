@@ -0,0 +1,5 @@
+/**
+ * Storage keys for saved searches in Chrome storage
+ */
+
+export const SAVED_SEARCH_LIST_KEY = "deepwiki_saved_searches";
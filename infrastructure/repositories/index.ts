@@ -3,3 +3,5 @@
  */
 
 export * from "./chrome";
+export * from "./indexeddb";
+export * from "./section-backend";
@@ -0,0 +1,15 @@
+/**
+ * Database, object store and index names for heading sections in IndexedDB
+ */
+
+export const SECTION_DATABASE_NAME = "deepwiki_pp";
+export const SECTION_DATABASE_VERSION = 1;
+
+/** Object store of serialized sections, keyed by sectionId */
+export const SECTION_STORE_NAME = "heading_sections";
+
+export const SECTION_INDEXES = {
+  SOURCE_URL: "sourceUrl",
+  LEVEL: "level",
+  ADDED_AT: "addedAt",
+} as const;
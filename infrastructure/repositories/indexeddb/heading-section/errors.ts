@@ -0,0 +1,17 @@
+/**
+ * IndexedDB specific error types
+ */
+
+export class IndexedDbError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "IndexedDbError";
+  }
+}
+
+export class IndexedDbUnavailableError extends IndexedDbError {
+  constructor() {
+    super("IndexedDB is not available");
+    this.name = "IndexedDbUnavailableError";
+  }
+}
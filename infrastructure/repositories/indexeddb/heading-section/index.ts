@@ -0,0 +1,8 @@
+/**
+ * IndexedDB heading section repository barrel exports
+ */
+
+export * from "./indexeddb-heading-section-repository";
+export * from "./section-database";
+export * from "./database-schema";
+export * from "./errors";
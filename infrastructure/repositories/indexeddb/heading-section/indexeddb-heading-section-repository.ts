@@ -0,0 +1,485 @@
+import {
+  HeadingSection,
+  IHeadingSectionRepository,
+  SectionPageQuery,
+  hasSectionId,
+  isHeadingSection,
+  isSectionOfHeading,
+  sectionMatchesTags,
+  serializeHeadingSection,
+  TagMatchMode,
+} from "../../../../domain/heading-collection";
+import {
+  Id,
+  Result,
+  RepositoryError,
+  ValidationError,
+} from "../../../../domain/shared";
+import { HeadingSectionStorageMapper } from "../../chrome/heading-section/storage-mapper";
+import { SECTION_CHANGE_KEY } from "../../chrome/heading-section/storage-keys";
+import {
+  SECTION_DATABASE_NAME,
+  SECTION_INDEXES,
+  SECTION_STORE_NAME,
+} from "./database-schema";
+import {
+  openSectionDatabase,
+  requestResult,
+  transactionComplete,
+} from "./section-database";
+import { IndexedDbError, IndexedDbUnavailableError } from "./errors";
+
+/**
+ * IndexedDB implementation of IHeadingSectionRepository
+ *
+ * Each section is its own record, keyed by sectionId, so writes only touch
+ * the sections they change and the collection is not limited by the
+ * chrome.storage quota. Indexes on sourceUrl, level and addedAt serve the
+ * lookups by URL and level and the chronological order of getAllSections.
+ *
+ * IndexedDB has no change events across extension pages, so every write is
+ * also announced under SECTION_CHANGE_KEY in chrome.storage.local, with the
+ * IDs of the sections it added.
+ */
+export class IndexedDbHeadingSectionRepository
+  implements IHeadingSectionRepository
+{
+  private readonly factory: IDBFactory | undefined;
+  private readonly databaseName: string;
+  private readonly changeStorage: chrome.storage.StorageArea | undefined;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates a new IndexedDbHeadingSectionRepository
+   */
+  constructor(
+    options: {
+      indexedDB?: IDBFactory;
+      databaseName?: string;
+      changeStorage?: chrome.storage.StorageArea;
+    } = {}
+  ) {
+    this.factory =
+      options.indexedDB ??
+      (typeof indexedDB !== "undefined" ? indexedDB : undefined);
+    this.databaseName = options.databaseName ?? SECTION_DATABASE_NAME;
+    this.changeStorage =
+      options.changeStorage ??
+      (typeof chrome !== "undefined" ? chrome.storage?.local : undefined);
+  }
+
+  /**
+   * Retrieves all stored heading sections, oldest first
+   */
+  async getAllSections(): Promise<HeadingSection[]> {
+    try {
+      const records = await this.read((store) =>
+        store.index(SECTION_INDEXES.ADDED_AT).getAll()
+      );
+      return HeadingSectionStorageMapper.deserializeSections(records);
+    } catch (error) {
+      console.error("IndexedDbRepository: Error getting all sections:", error);
+      throw new RepositoryError("Failed to retrieve sections from IndexedDB");
+    }
+  }
+
+  /**
+   * Retrieves a specific heading section by its current or a legacy ID
+   */
+  async getSectionById(sectionId: Id): Promise<HeadingSection | null> {
+    try {
+      const record = await this.read((store) => store.get(sectionId));
+      if (record) {
+        return HeadingSectionStorageMapper.deserializeSections([record])[0];
+      }
+
+      // Legacy IDs are not indexed; they only remain on old sections
+      const allSections = await this.getAllSections();
+      return (
+        allSections.find((section) => hasSectionId(section, sectionId)) || null
+      );
+    } catch (error) {
+      throw new RepositoryError(
+        `Failed to retrieve section with ID ${sectionId}`
+      );
+    }
+  }
+
+  /**
+   * Adds a new heading section to the database
+   */
+  async addSection(section: HeadingSection): Promise<Result<void>> {
+    return this.addSections([section]);
+  }
+
+  /**
+   * Adds multiple heading sections in a single transaction
+   */
+  async addSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (!sections.every((section) => isHeadingSection(section))) {
+      return Result.failure(
+        new ValidationError("Invalid HeadingSection provided")
+      );
+    }
+
+    if (sections.length === 0) {
+      return Result.success(undefined);
+    }
+
+    try {
+      await this.write(
+        (store) => {
+          for (const section of sections) {
+            store.put(serializeHeadingSection(section));
+          }
+        },
+        sections.map((section) => section.sectionId)
+      );
+      return Result.success(undefined);
+    } catch (error) {
+      console.error("IndexedDbRepository: Error adding sections:", error);
+      return this.handleStorageError(
+        error,
+        "Failed to add sections to IndexedDB"
+      );
+    }
+  }
+
+  /**
+   * Removes a heading section by ID
+   */
+  async removeSection(sectionId: Id): Promise<Result<boolean>> {
+    const removed = await this.removeSections([sectionId]);
+    return removed.success ? Result.success(removed.data > 0) : removed;
+  }
+
+  /**
+   * Removes multiple sections by their current or legacy IDs
+   */
+  async removeSections(sectionIds: Id[]): Promise<Result<number>> {
+    try {
+      const keys = await this.findStoredIds(sectionIds);
+      if (keys.length > 0) {
+        await this.write((store) => {
+          for (const key of keys) {
+            store.delete(key);
+          }
+        });
+      }
+      return Result.success(keys.length);
+    } catch (error) {
+      return this.handleStorageError(
+        error,
+        "Failed to remove sections from IndexedDB"
+      );
+    }
+  }
+
+  /**
+   * Replaces all stored heading sections in a single transaction
+   */
+  async replaceAllSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (!sections.every((section) => isHeadingSection(section))) {
+      return Result.failure(
+        new ValidationError("Invalid HeadingSection provided")
+      );
+    }
+
+    try {
+      await this.write((store) => {
+        store.clear();
+        for (const section of sections) {
+          store.put(serializeHeadingSection(section));
+        }
+      });
+      return Result.success(undefined);
+    } catch (error) {
+      console.error("IndexedDbRepository: Error replacing sections:", error);
+      return this.handleStorageError(error, "Failed to replace sections");
+    }
+  }
+
+  /**
+   * Clears all heading sections from the database
+   */
+  async clearAllSections(): Promise<Result<void>> {
+    try {
+      await this.write((store) => {
+        store.clear();
+      });
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(
+        error,
+        "Failed to clear all sections from IndexedDB"
+      );
+    }
+  }
+
+  /**
+   * Finds sections by source URL
+   */
+  async findSectionsByUrl(sourceUrl: string): Promise<HeadingSection[]> {
+    try {
+      return await this.readByIndex(SECTION_INDEXES.SOURCE_URL, sourceUrl);
+    } catch (error) {
+      throw new RepositoryError(`Failed to find sections by URL: ${sourceUrl}`);
+    }
+  }
+
+  /**
+   * Finds sections by heading level
+   */
+  async findSectionsByLevel(level: number): Promise<HeadingSection[]> {
+    try {
+      return await this.readByIndex(SECTION_INDEXES.LEVEL, level);
+    } catch (error) {
+      throw new RepositoryError(`Failed to find sections by level: ${level}`);
+    }
+  }
+
+  /**
+   * Finds sections tagged with any or all of the given tags
+   */
+  async findSectionsByTags(
+    tags: string[],
+    match: TagMatchMode
+  ): Promise<HeadingSection[]> {
+    const allSections = await this.getAllSections();
+    return allSections.filter((section) =>
+      sectionMatchesTags(section, tags, match)
+    );
+  }
+
+  /**
+   * Searches sections by title text
+   */
+  async searchSectionsByTitle(searchTerm: string): Promise<HeadingSection[]> {
+    const allSections = await this.getAllSections();
+    const lowerSearchTerm = searchTerm.toLowerCase();
+    return allSections.filter((section) =>
+      section.titleText.toLowerCase().includes(lowerSearchTerm)
+    );
+  }
+
+  /**
+   * Gets sections with pagination, optionally filtered and ordered first
+   */
+  async getSectionsPage(
+    offset: number,
+    limit: number,
+    query: SectionPageQuery = {}
+  ): Promise<{
+    sections: HeadingSection[];
+    total: number;
+    hasMore: boolean;
+  }> {
+    let allSections = await this.getAllSections();
+    if (query.filter) {
+      allSections = allSections.filter(query.filter);
+    }
+    if (query.compare) {
+      allSections.sort(query.compare);
+    }
+    const total = allSections.length;
+
+    return {
+      sections: allSections.slice(offset, offset + limit),
+      total,
+      hasMore: offset + limit < total,
+    };
+  }
+
+  /**
+   * Updates an existing heading section
+   */
+  async updateSection(section: HeadingSection): Promise<Result<void>> {
+    if (!isHeadingSection(section)) {
+      return Result.failure(
+        new ValidationError("Invalid HeadingSection provided for update")
+      );
+    }
+
+    try {
+      const existing = await this.read((store) =>
+        store.getKey(section.sectionId)
+      );
+      if (existing === undefined) {
+        return Result.failure(
+          new RepositoryError("Section not found for update")
+        );
+      }
+
+      await this.write((store) => {
+        store.put(serializeHeadingSection(section));
+      });
+      return Result.success(undefined);
+    } catch (error) {
+      return this.handleStorageError(error, "Failed to update section");
+    }
+  }
+
+  /**
+   * Checks if a section exists by ID
+   */
+  async sectionExists(sectionId: Id): Promise<boolean> {
+    try {
+      return (await this.getSectionById(sectionId)) !== null;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Finds a duplicate section by the stable ID of the heading
+   * Used for duplicate detection before adding new sections
+   */
+  async findDuplicateSection(params: {
+    sourceUrl: string;
+    level: number;
+    titleText: string;
+    headingPath?: ReadonlyArray<string>;
+  }): Promise<HeadingSection | null> {
+    try {
+      const sections = await this.findSectionsByUrl(params.sourceUrl);
+      return (
+        sections.find((section) => isSectionOfHeading(section, params)) || null
+      );
+    } catch (error) {
+      // Log error but don't throw - this is a best-effort check
+      console.warn("Error checking for duplicate sections:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the total count of stored sections
+   */
+  async getSectionCount(): Promise<number> {
+    try {
+      return await this.read((store) => store.count());
+    } catch (error) {
+      throw new RepositoryError("Failed to get section count");
+    }
+  }
+
+  /**
+   * Opens the database once and reuses the connection; a failed open is
+   * retried on the next call
+   */
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.factory) {
+      return Promise.reject(new IndexedDbUnavailableError());
+    }
+    if (!this.database) {
+      this.database = openSectionDatabase(
+        this.factory,
+        this.databaseName
+      ).catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Runs one request in a read-only transaction
+   */
+  private async read<T>(
+    request: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(SECTION_STORE_NAME, "readonly");
+    return requestResult(request(transaction.objectStore(SECTION_STORE_NAME)));
+  }
+
+  private async readByIndex(
+    index: string,
+    key: IDBValidKey
+  ): Promise<HeadingSection[]> {
+    const records = await this.read((store) => store.index(index).getAll(key));
+    return HeadingSectionStorageMapper.deserializeSections(records);
+  }
+
+  /**
+   * Runs the requests of a write in one transaction, then announces the
+   * change once it is committed
+   */
+  private async write(
+    requests: (store: IDBObjectStore) => void,
+    addedIds: Id[] = []
+  ): Promise<void> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(SECTION_STORE_NAME, "readwrite");
+    const committed = transactionComplete(transaction);
+    requests(transaction.objectStore(SECTION_STORE_NAME));
+    await committed;
+    await this.announceChange(addedIds);
+  }
+
+  /**
+   * Lets other extension pages know that sections changed. The time makes
+   * each announcement differ from the last, so chrome.storage reports it.
+   */
+  private async announceChange(addedIds: Id[]): Promise<void> {
+    if (!this.changeStorage) {
+      return;
+    }
+
+    try {
+      await this.changeStorage.set({
+        [SECTION_CHANGE_KEY]: { changedAt: new Date().toISOString(), addedIds },
+      });
+    } catch (error) {
+      console.warn("IndexedDbRepository: Failed to announce change:", error);
+    }
+  }
+
+  /**
+   * Resolves current or legacy IDs to the keys of the stored sections
+   */
+  private async findStoredIds(sectionIds: Id[]): Promise<Id[]> {
+    const keys = new Set<Id>();
+    const unresolved: Id[] = [];
+    for (const sectionId of sectionIds) {
+      const key = await this.read((store) => store.getKey(sectionId));
+      if (key !== undefined) {
+        keys.add(sectionId);
+      } else {
+        unresolved.push(sectionId);
+      }
+    }
+
+    if (unresolved.length > 0) {
+      for (const section of await this.getAllSections()) {
+        if (unresolved.some((id) => hasSectionId(section, id))) {
+          keys.add(section.sectionId);
+        }
+      }
+    }
+
+    return [...keys];
+  }
+
+  /**
+   * Handles storage errors and converts them to appropriate Result types
+   */
+  private handleStorageError(error: any, fallbackMessage: string): Result<any> {
+    if (error instanceof RepositoryError || error instanceof ValidationError) {
+      return Result.failure(error);
+    }
+
+    if (error instanceof IndexedDbError) {
+      return Result.failure(new RepositoryError(error.message));
+    }
+
+    if (error?.name === "QuotaExceededError") {
+      return Result.failure(
+        new RepositoryError("Storage quota exceeded while performing operation")
+      );
+    }
+
+    return Result.failure(new RepositoryError(fallbackMessage));
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  SECTION_DATABASE_NAME,
+  SECTION_DATABASE_VERSION,
+  SECTION_INDEXES,
+  SECTION_STORE_NAME,
+} from "./database-schema";
+import { IndexedDbError } from "./errors";
+
+/**
+ * Opens the database of heading sections, creating the object store and its
+ * indexes on first use
+ */
+export function openSectionDatabase(
+  factory: IDBFactory,
+  name: string = SECTION_DATABASE_NAME
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(name, SECTION_DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(SECTION_STORE_NAME)) {
+        const store = database.createObjectStore(SECTION_STORE_NAME, {
+          keyPath: "sectionId",
+        });
+        store.createIndex(SECTION_INDEXES.SOURCE_URL, "sourceUrl");
+        store.createIndex(SECTION_INDEXES.LEVEL, "level");
+        // Dates are stored as ISO strings, which sort chronologically
+        store.createIndex(SECTION_INDEXES.ADDED_AT, "addedAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(
+        new IndexedDbError(`Failed to open database ${name}`, request.error)
+      );
+  });
+}
+
+/**
+ * Resolves with the result of a request
+ */
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction is committed, rejects if it fails or is aborted
+ */
+export function transactionComplete(
+  transaction: IDBTransaction
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new IndexedDbError("Transaction aborted"));
+  });
+}
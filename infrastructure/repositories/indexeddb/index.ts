@@ -0,0 +1,5 @@
+/**
+ * IndexedDB repositories barrel exports
+ */
+
+export * from "./heading-section";
@@ -0,0 +1,7 @@
+/**
+ * Heading section storage backend selection barrel exports
+ */
+
+export * from "./switchable-heading-section-repository";
+export * from "./section-backend-migration";
+export * from "./storage-keys";
@@ -0,0 +1,54 @@
+import { IHeadingSectionRepository } from "../../../domain/heading-collection";
+
+/**
+ * Moves all sections from one backend to another
+ *
+ * The target ends up with the source's sections, replacing the target's copy
+ * of a section both hold. Sections only the target holds are kept, so moving
+ * into a backend shared with other devices keeps theirs, unless they were
+ * added before this device last moved out of the target: those were deleted
+ * here since. The source is only cleared once the sections are written, so a
+ * failure leaves them in the source, and is left as it is when other devices
+ * still use it.
+ *
+ * @param options.targetLeftAt - When the sections were last moved out of the
+ * target without clearing it
+ * @returns The number of sections moved
+ * @throws RepositoryError if the sections cannot be read or written
+ */
+export async function moveSectionsBetweenBackends(
+  source: IHeadingSectionRepository,
+  target: IHeadingSectionRepository,
+  options: { clearSource?: boolean; targetLeftAt?: Date } = {}
+): Promise<number> {
+  const { targetLeftAt } = options;
+  const sections = await source.getAllSections();
+  const sourceIds = new Set(sections.map((section) => section.sectionId));
+  const targetSections = await target.getAllSections();
+
+  const written = await target.replaceAllSections([
+    ...targetSections.filter(
+      (section) =>
+        !sourceIds.has(section.sectionId) &&
+        (!targetLeftAt || section.addedAt > targetLeftAt)
+    ),
+    ...sections,
+  ]);
+  if (!written.success) {
+    throw written.error;
+  }
+
+  if (options.clearSource === false) {
+    return sections.length;
+  }
+
+  const cleared = await source.clearAllSections();
+  if (!cleared.success) {
+    console.warn(
+      "SectionBackendMigration: Moved sections but failed to clear the source:",
+      cleared.error
+    );
+  }
+
+  return sections.length;
+}
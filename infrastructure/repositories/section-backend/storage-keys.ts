@@ -0,0 +1,39 @@
+import { SectionStorageBackend } from "../../../domain/heading-collection";
+
+/**
+ * Storage keys for the choice of heading section backend in Chrome local
+ * storage
+ */
+
+/** Backend chosen in the options page */
+export const SECTION_STORAGE_BACKEND_KEY = "deepwiki_section_storage_backend";
+
+/** Backend that currently holds the sections (absent means chrome-storage) */
+export const ACTIVE_SECTION_STORAGE_BACKEND_KEY =
+  "deepwiki_section_storage_backend_active";
+
+/**
+ * When the sections were last moved out of each backend that kept its copy,
+ * as ISO timestamps by backend
+ */
+export const SECTION_STORAGE_BACKEND_LEFT_AT_KEY =
+  "deepwiki_section_storage_backend_left_at";
+
+/**
+ * Why the sections could not be moved to the backend last chosen, for the
+ * options page; absent after a successful move
+ */
+export const SECTION_STORAGE_BACKEND_ERROR_KEY =
+  "deepwiki_section_storage_backend_error";
+
+/**
+ * Stored under SECTION_STORAGE_BACKEND_ERROR_KEY
+ */
+export interface SectionStorageBackendError {
+  /** Backend the sections could not be moved to */
+  backend: SectionStorageBackend;
+  /** Backend that still holds the sections */
+  activeBackend: SectionStorageBackend;
+  message: string;
+  failedAt: string;
+}
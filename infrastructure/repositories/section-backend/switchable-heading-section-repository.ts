@@ -0,0 +1,260 @@
+import {
+  DEFAULT_SECTION_STORAGE_BACKEND,
+  HeadingSection,
+  IHeadingSectionRepository,
+  SectionPageQuery,
+  SectionStorageBackend,
+  TagMatchMode,
+  isSectionStorageBackend,
+} from "../../../domain/heading-collection";
+import { Id, Result, RepositoryError } from "../../../domain/shared";
+import { moveSectionsBetweenBackends } from "./section-backend-migration";
+import {
+  ACTIVE_SECTION_STORAGE_BACKEND_KEY,
+  SECTION_STORAGE_BACKEND_ERROR_KEY,
+  SECTION_STORAGE_BACKEND_KEY,
+  SECTION_STORAGE_BACKEND_LEFT_AT_KEY,
+  SectionStorageBackendError,
+} from "./storage-keys";
+
+/**
+ * IHeadingSectionRepository that delegates to the backend chosen in the
+ * settings
+ *
+ * The backend is looked up on first use. When it differs from the backend
+ * holding the sections, the sections are moved over before anything else
+ * runs, so switching the setting migrates existing data. Sections moved out
+ * of chrome-sync stay there for the other devices syncing them; when they are
+ * moved back, the sections deleted here in the meantime are removed from
+ * there too (see moveSectionsBetweenBackends). When the move
+ * fails, the backend holding the sections stays in use: the setting is set
+ * back to it and the error stored under SECTION_STORAGE_BACKEND_ERROR_KEY for
+ * the options page. Call reset() when the setting changes to select the
+ * backend again.
+ *
+ * No backend is used before the given storage migrations have finished, so
+ * that no write lands in data of an older schema version.
+ */
+export class SwitchableHeadingSectionRepository
+  implements IHeadingSectionRepository
+{
+  private selected: Promise<IHeadingSectionRepository> | null = null;
+
+  constructor(
+    private readonly backends: Record<
+      SectionStorageBackend,
+      IHeadingSectionRepository
+    >,
+    private readonly settingsStorage: chrome.storage.StorageArea = chrome
+      .storage.local,
+    private readonly migrated: Promise<unknown> = Promise.resolve()
+  ) {}
+
+  /**
+   * Forgets the selected backend, so the next call reads the setting again
+   */
+  reset(): void {
+    this.selected = null;
+  }
+
+  async getAllSections(): Promise<HeadingSection[]> {
+    return (await this.backend()).getAllSections();
+  }
+
+  async getSectionById(sectionId: Id): Promise<HeadingSection | null> {
+    return (await this.backend()).getSectionById(sectionId);
+  }
+
+  async addSection(section: HeadingSection): Promise<Result<void>> {
+    return this.withBackend((backend) => backend.addSection(section));
+  }
+
+  async addSections(sections: HeadingSection[]): Promise<Result<void>> {
+    return this.withBackend((backend) => backend.addSections(sections));
+  }
+
+  async removeSection(sectionId: Id): Promise<Result<boolean>> {
+    return this.withBackend((backend) => backend.removeSection(sectionId));
+  }
+
+  async removeSections(sectionIds: Id[]): Promise<Result<number>> {
+    return this.withBackend((backend) => backend.removeSections(sectionIds));
+  }
+
+  async replaceAllSections(sections: HeadingSection[]): Promise<Result<void>> {
+    return this.withBackend((backend) => backend.replaceAllSections(sections));
+  }
+
+  async clearAllSections(): Promise<Result<void>> {
+    return this.withBackend((backend) => backend.clearAllSections());
+  }
+
+  async findSectionsByUrl(sourceUrl: string): Promise<HeadingSection[]> {
+    return (await this.backend()).findSectionsByUrl(sourceUrl);
+  }
+
+  async findSectionsByLevel(level: number): Promise<HeadingSection[]> {
+    return (await this.backend()).findSectionsByLevel(level);
+  }
+
+  async findSectionsByTags(
+    tags: string[],
+    match: TagMatchMode
+  ): Promise<HeadingSection[]> {
+    return (await this.backend()).findSectionsByTags(tags, match);
+  }
+
+  async searchSectionsByTitle(searchTerm: string): Promise<HeadingSection[]> {
+    return (await this.backend()).searchSectionsByTitle(searchTerm);
+  }
+
+  async getSectionsPage(
+    offset: number,
+    limit: number,
+    query?: SectionPageQuery
+  ): Promise<{
+    sections: HeadingSection[];
+    total: number;
+    hasMore: boolean;
+  }> {
+    return (await this.backend()).getSectionsPage(offset, limit, query);
+  }
+
+  async updateSection(section: HeadingSection): Promise<Result<void>> {
+    return this.withBackend((backend) => backend.updateSection(section));
+  }
+
+  async sectionExists(sectionId: Id): Promise<boolean> {
+    return (await this.backend()).sectionExists(sectionId);
+  }
+
+  async findDuplicateSection(params: {
+    sourceUrl: string;
+    level: number;
+    titleText: string;
+    headingPath?: ReadonlyArray<string>;
+  }): Promise<HeadingSection | null> {
+    return (await this.backend()).findDuplicateSection(params);
+  }
+
+  async getSectionCount(): Promise<number> {
+    return (await this.backend()).getSectionCount();
+  }
+
+  /**
+   * The selected backend; calls made while sections are being moved wait
+   * for the move to finish
+   *
+   * @throws RepositoryError if the setting cannot be read
+   */
+  private backend(): Promise<IHeadingSectionRepository> {
+    if (!this.selected) {
+      this.selected = this.selectBackend().catch((error) => {
+        this.selected = null;
+        console.error(
+          "SwitchableHeadingSectionRepository: Failed to select backend:",
+          error
+        );
+        throw error instanceof RepositoryError
+          ? error
+          : new RepositoryError("Failed to select the section storage");
+      });
+    }
+    return this.selected;
+  }
+
+  private async withBackend<T>(
+    operation: (backend: IHeadingSectionRepository) => Promise<Result<T>>
+  ): Promise<Result<T>> {
+    let backend: IHeadingSectionRepository;
+    try {
+      backend = await this.backend();
+    } catch (error) {
+      return Result.failure(error as RepositoryError);
+    }
+    return operation(backend);
+  }
+
+  private async selectBackend(): Promise<IHeadingSectionRepository> {
+    // A failed migration has restored the data it started from, which the
+    // backends still read
+    await this.migrated.catch(() => undefined);
+
+    const result = await this.settingsStorage.get([
+      SECTION_STORAGE_BACKEND_KEY,
+      ACTIVE_SECTION_STORAGE_BACKEND_KEY,
+      SECTION_STORAGE_BACKEND_LEFT_AT_KEY,
+    ]);
+    const storedChoice = result[SECTION_STORAGE_BACKEND_KEY];
+    const storedActive = result[ACTIVE_SECTION_STORAGE_BACKEND_KEY];
+    const chosen: SectionStorageBackend = isSectionStorageBackend(storedChoice)
+      ? storedChoice
+      : DEFAULT_SECTION_STORAGE_BACKEND;
+    // Sections stored before the setting existed are in chrome.storage
+    const active: SectionStorageBackend = isSectionStorageBackend(storedActive)
+      ? storedActive
+      : "chrome-storage";
+
+    if (chosen === active) {
+      return this.backends[active];
+    }
+
+    const leftAt: Partial<Record<SectionStorageBackend, string>> =
+      result[SECTION_STORAGE_BACKEND_LEFT_AT_KEY] ?? {};
+    const keepSource = active === "chrome-sync";
+    let moved: number;
+    try {
+      moved = await moveSectionsBetweenBackends(
+        this.backends[active],
+        this.backends[chosen],
+        {
+          clearSource: !keepSource,
+          ...(leftAt[chosen] && { targetLeftAt: new Date(leftAt[chosen]!) }),
+        }
+      );
+    } catch (error) {
+      await this.keepActiveBackend(active, chosen, error);
+      return this.backends[active];
+    }
+
+    await this.settingsStorage.set({
+      [ACTIVE_SECTION_STORAGE_BACKEND_KEY]: chosen,
+      ...(keepSource && {
+        [SECTION_STORAGE_BACKEND_LEFT_AT_KEY]: {
+          ...leftAt,
+          [active]: new Date().toISOString(),
+        },
+      }),
+    });
+    await this.settingsStorage.remove(SECTION_STORAGE_BACKEND_ERROR_KEY);
+    console.log(
+      `SwitchableHeadingSectionRepository: Moved ${moved} sections from ${active} to ${chosen}`
+    );
+    return this.backends[chosen];
+  }
+
+  /**
+   * Sets the setting back to the backend holding the sections after moving
+   * them failed, with the error for the options page
+   */
+  private async keepActiveBackend(
+    active: SectionStorageBackend,
+    chosen: SectionStorageBackend,
+    error: unknown
+  ): Promise<void> {
+    console.error(
+      `SwitchableHeadingSectionRepository: Failed to move sections from ${active} to ${chosen}, keeping ${active}:`,
+      error
+    );
+    const backendError: SectionStorageBackendError = {
+      backend: chosen,
+      activeBackend: active,
+      message: error instanceof Error ? error.message : String(error),
+      failedAt: new Date().toISOString(),
+    };
+    await this.settingsStorage.set({
+      [SECTION_STORAGE_BACKEND_KEY]: active,
+      [SECTION_STORAGE_BACKEND_ERROR_KEY]: backendError,
+    });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Text compression for storage with tight size limits
+ *
+ * Text is compressed with raw DEFLATE through the CompressionStream API and
+ * encoded as base64, so the result can be stored wherever a string can.
+ */
+
+const FORMAT = "deflate-raw";
+
+/**
+ * Compresses text to a base64 string
+ */
+export async function compressText(text: string): Promise<string> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream(FORMAT));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return bytesToBase64(bytes);
+}
+
+/**
+ * Restores text compressed with compressText
+ *
+ * @throws Error if the input is not compressed text
+ */
+export async function decompressText(compressed: string): Promise<string> {
+  const stream = new Blob([base64ToBytes(compressed)])
+    .stream()
+    .pipeThrough(new DecompressionStream(FORMAT));
+  return new Response(stream).text();
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Convert in slices to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
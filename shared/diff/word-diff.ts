@@ -0,0 +1,119 @@
+/**
+ * Word-level text diff
+ */
+
+/**
+ * A run of text that is unchanged, added or removed between two texts
+ */
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+/**
+ * Largest number of token comparisons done with an exact LCS; beyond this the
+ * differing middle part is reported as one deletion plus one insertion
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Computes a word-level diff between two texts
+ *
+ * Whitespace is kept as separate tokens so that concatenating the "equal" and
+ * "delete" segments reproduces the old text, and the "equal" and "insert"
+ * segments reproduce the new text.
+ *
+ * @param oldText - The earlier text
+ * @param newText - The later text
+ * @returns Adjacent segments of the same type are merged
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // Trim the common prefix and suffix to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, "equal", a.slice(0, start));
+  diffMiddle(a.slice(start, endA), b.slice(start, endB), segments);
+  pushSegment(segments, "equal", a.slice(endA));
+
+  return segments;
+}
+
+/**
+ * Checks whether a diff contains any change
+ */
+export function hasChanges(segments: ReadonlyArray<DiffSegment>): boolean {
+  return segments.some((segment) => segment.type !== "equal");
+}
+
+function tokenize(text: string): string[] {
+  return text ? text.split(/(\s+)/).filter((token) => token !== "") : [];
+}
+
+function diffMiddle(a: string[], b: string[], segments: DiffSegment[]): void {
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    pushSegment(segments, "delete", a);
+    pushSegment(segments, "insert", b);
+    return;
+  }
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", [a[i]]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, "delete", [a[i]]);
+      i++;
+    } else {
+      pushSegment(segments, "insert", [b[j]]);
+      j++;
+    }
+  }
+  pushSegment(segments, "delete", a.slice(i));
+  pushSegment(segments, "insert", b.slice(j));
+}
+
+function pushSegment(
+  segments: DiffSegment[],
+  type: DiffSegment["type"],
+  tokens: string[]
+): void {
+  if (tokens.length === 0) {
+    return;
+  }
+
+  const text = tokens.join("");
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
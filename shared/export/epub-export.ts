@@ -0,0 +1,385 @@
+/**
+ * Builds EPUB 3 e-books of collected sections
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import {
+  SectionOutlineNode,
+  buildPageOutlines,
+} from "../../domain/heading-collection/section-outline";
+import { cleanCapturedHtml } from "../html/clean-captured-html";
+import {
+  HtmlElementNode,
+  HtmlNode,
+  escapeHtml,
+  getClassList,
+} from "../html/html-parser";
+import { serializeSvgDocument, serializeXhtml } from "../html/serialize-xhtml";
+import { parseDeepWikiUrl } from "../url/deepwiki-url";
+import { ZipEntry, createZip } from "../zip/create-zip";
+
+export interface EpubExportOptions {
+  /** Title of the book, usually the collection name */
+  title: string;
+  /** Time recorded as the modification time of the book */
+  exportedAt?: Date;
+  /** Unique identifier of the book (a new UUID URN by default) */
+  identifier?: string;
+  /** Language of the content */
+  language?: string;
+}
+
+interface EpubChapter {
+  path: string;
+  title: string;
+  content: string;
+  /** Sections of the chapter with their anchors, nested by heading level */
+  toc: EpubTocEntry[];
+}
+
+interface EpubTocEntry {
+  title: string;
+  href: string;
+  children: EpubTocEntry[];
+}
+
+interface EpubImage {
+  path: string;
+  content: string;
+}
+
+const STYLES = `body { font-family: serif; line-height: 1.5; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.2; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+code { font-family: monospace; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 0.2em 0.4em; }
+img.diagram { display: block; max-width: 100%; margin: 1em auto; }
+.chapter-source, .section-meta { color: #666; font-size: 0.85em; }
+.section-note { margin-left: 0; padding-left: 0.8em; border-left: 3px solid #999; white-space: pre-wrap; }
+section { margin-bottom: 2em; }
+`;
+
+/**
+ * Creates an EPUB 3 file of the given sections
+ *
+ * @param sections - Sections to include
+ * @param options - Export options
+ * @returns The EPUB file bytes
+ */
+export function buildEpub(
+  sections: ReadonlyArray<HeadingSection>,
+  options: EpubExportOptions
+): Uint8Array {
+  return createZip(
+    buildEpubFiles(sections, options),
+    options.exportedAt ?? new Date()
+  );
+}
+
+/**
+ * Lays out the files of an EPUB 3 book
+ *
+ * Each source page becomes a chapter whose sections follow the heading
+ * hierarchy of the page. Mermaid diagrams become SVG images; other inline
+ * SVG, scripts and remote images are left out, as readers cannot show them.
+ *
+ * @param sections - Sections to include
+ * @param options - Export options
+ * @returns The files in archive order, starting with the mimetype
+ */
+export function buildEpubFiles(
+  sections: ReadonlyArray<HeadingSection>,
+  options: EpubExportOptions
+): ZipEntry[] {
+  const language = options.language ?? "en";
+  const images: EpubImage[] = [];
+
+  const chapters = buildPageOutlines(sections).map((page, index) => {
+    const { repo, pageTitle } = parseDeepWikiUrl(page.pageUrl);
+    const path = `chapter-${index + 1}.xhtml`;
+    const title = [repo, pageTitle].filter(Boolean).join(" › ") || page.pageUrl;
+
+    const bodyParts: string[] = [];
+    let sectionCount = 0;
+    const renderNodes = (
+      nodes: ReadonlyArray<SectionOutlineNode>
+    ): EpubTocEntry[] =>
+      nodes.map((node) => {
+        const anchor = `section-${++sectionCount}`;
+        bodyParts.push(renderSection(node.section, anchor, images));
+        return {
+          title: node.section.titleText,
+          href: `${path}#${anchor}`,
+          children: renderNodes(node.children),
+        };
+      });
+    const toc = renderNodes(page.roots);
+
+    const content = xhtmlDocument(title, language, [
+      `<h1>${escapeHtml(title)}</h1>`,
+      `<p class="chapter-source"><a href="${escapeHtml(
+        page.pageUrl,
+        true
+      )}">${escapeHtml(page.pageUrl)}</a></p>`,
+      ...bodyParts,
+    ]);
+
+    return { path, title, content, toc } as EpubChapter;
+  });
+
+  return [
+    { path: "mimetype", content: "application/epub+zip" },
+    { path: "META-INF/container.xml", content: CONTAINER_XML },
+    {
+      path: "OEBPS/content.opf",
+      content: buildPackageDocument(chapters, images, options, language),
+    },
+    {
+      path: "OEBPS/nav.xhtml",
+      content: buildNavDocument(chapters, options.title, language),
+    },
+    { path: "OEBPS/styles.css", content: STYLES },
+    ...chapters.map((chapter) => ({
+      path: `OEBPS/${chapter.path}`,
+      content: chapter.content,
+    })),
+    ...images.map((image) => ({
+      path: `OEBPS/${image.path}`,
+      content: image.content,
+    })),
+  ];
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+function buildPackageDocument(
+  chapters: EpubChapter[],
+  images: EpubImage[],
+  options: EpubExportOptions,
+  language: string
+): string {
+  const identifier =
+    options.identifier ?? `urn:uuid:${globalThis.crypto.randomUUID()}`;
+  // dcterms:modified does not allow fractional seconds
+  const modified = (options.exportedAt ?? new Date())
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z");
+
+  const items = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="styles" href="styles.css" media-type="text/css"/>',
+    ...chapters.map(
+      (chapter, index) =>
+        `<item id="chapter-${index + 1}" href="${
+          chapter.path
+        }" media-type="application/xhtml+xml"/>`
+    ),
+    ...images.map(
+      (image, index) =>
+        `<item id="image-${index + 1}" href="${
+          image.path
+        }" media-type="image/svg+xml"/>`
+    ),
+  ];
+  const itemRefs = [
+    '<itemref idref="nav"/>',
+    ...chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeHtml(
+    language,
+    true
+  )}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>
+    <dc:title>${escapeHtml(options.title)}</dc:title>
+    <dc:language>${escapeHtml(language)}</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${items.join("\n    ")}
+  </manifest>
+  <spine>
+    ${itemRefs.join("\n    ")}
+  </spine>
+</package>
+`;
+}
+
+function buildNavDocument(
+  chapters: EpubChapter[],
+  title: string,
+  language: string
+): string {
+  const renderEntries = (entries: EpubTocEntry[]): string =>
+    entries.length === 0
+      ? ""
+      : `<ol>${entries
+          .map(
+            (entry) =>
+              `<li><a href="${escapeHtml(entry.href, true)}">${escapeHtml(
+                entry.title
+              )}</a>${renderEntries(entry.children)}</li>`
+          )
+          .join("")}</ol>`;
+
+  return xhtmlDocument(title, language, [
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<nav epub:type="toc" id="toc">',
+    "<h2>Contents</h2>",
+    renderEntries(
+      chapters.map((chapter) => ({
+        title: chapter.title,
+        href: chapter.path,
+        children: chapter.toc,
+      }))
+    ),
+    "</nav>",
+  ]);
+}
+
+function xhtmlDocument(
+  title: string,
+  language: string,
+  bodyParts: string[]
+): string {
+  const lang = escapeHtml(language, true);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<!DOCTYPE html>",
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">`,
+    "<head>",
+    '<meta charset="utf-8"/>',
+    `<title>${escapeHtml(title)}</title>`,
+    '<link rel="stylesheet" type="text/css" href="styles.css"/>',
+    "</head>",
+    "<body>",
+    ...bodyParts,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function renderSection(
+  section: HeadingSection,
+  anchor: string,
+  images: EpubImage[]
+): string {
+  const nodes = toEpubNodes(
+    cleanCapturedHtml(section.contentHtml, {
+      baseUrl: section.sourceUrl,
+    }),
+    section,
+    images
+  );
+  let content = serializeXhtml(nodes);
+
+  // Content captured without its heading still gets one
+  if (!/^\s*<h[1-6][\s>]/i.test(content)) {
+    content = `<h${section.level}>${escapeHtml(section.titleText)}</h${
+      section.level
+    }>${content}`;
+  }
+
+  const addedAt = new Date(section.addedAt);
+  const meta = isNaN(addedAt.getTime())
+    ? []
+    : [`Captured ${addedAt.toISOString().slice(0, 10)}`];
+  if (section.tags && section.tags.length > 0) {
+    meta.push(section.tags.map((tag) => `#${tag}`).join(" "));
+  }
+
+  return [
+    `<section id="${anchor}">`,
+    content,
+    meta.length > 0
+      ? `<p class="section-meta">${escapeHtml(meta.join(" · "))}</p>`
+      : "",
+    section.note?.trim()
+      ? `<blockquote class="section-note">${escapeHtml(
+          section.note.trim()
+        )}</blockquote>`
+      : "",
+    "</section>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Adapts content to what e-readers support: Mermaid diagrams become image
+ * files, remote images become links, and IDs are dropped since several
+ * sections share a chapter file
+ */
+function toEpubNodes(
+  nodes: HtmlNode[],
+  section: HeadingSection,
+  images: EpubImage[]
+): HtmlNode[] {
+  return nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === "text") {
+      return [node];
+    }
+
+    if (node.tagName === "svg") {
+      if (!isMermaidSvg(node)) {
+        return [];
+      }
+      const path = `images/diagram-${images.length + 1}.svg`;
+      images.push({ path, content: serializeSvgDocument(node) });
+      return [
+        {
+          type: "element",
+          tagName: "img",
+          attributes: {
+            class: "diagram",
+            src: path,
+            alt: `Diagram: ${section.titleText}`,
+          },
+          children: [],
+        },
+      ];
+    }
+
+    if (node.tagName === "img") {
+      const alt = node.attributes.alt || "Image";
+      const src = node.attributes.src ?? "";
+      return [
+        /^https?:/i.test(src)
+          ? {
+              type: "element",
+              tagName: "a",
+              attributes: { href: src },
+              children: [{ type: "text", text: `[${alt}]` }],
+            }
+          : { type: "text", text: `[${alt}]` },
+      ];
+    }
+
+    const { id, ...attributes } = node.attributes;
+    return [
+      {
+        ...node,
+        attributes,
+        children: toEpubNodes(node.children, section, images),
+      },
+    ];
+  });
+}
+
+function isMermaidSvg(node: HtmlElementNode): boolean {
+  return (
+    (node.attributes.id ?? "").startsWith("mermaid-") ||
+    /diagram/i.test(node.attributes["aria-roledescription"] ?? "") ||
+    getClassList(node).some((name) => name.includes("mermaid"))
+  );
+}
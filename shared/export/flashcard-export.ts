@@ -0,0 +1,231 @@
+/**
+ * Builds flashcards of collected sections for import into Anki
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import { cleanCapturedHtml } from "../html/clean-captured-html";
+import {
+  HtmlElementNode,
+  HtmlNode,
+  escapeHtml,
+  getTextContent,
+  serializeHtml,
+} from "../html/html-parser";
+import { parseDeepWikiUrl } from "../url/deepwiki-url";
+
+/**
+ * A note to import; Anki makes one card of a basic note and one card per
+ * deletion of a cloze note
+ */
+export interface Flashcard {
+  type: "basic" | "cloze";
+  /** Question, or text with cloze deletions */
+  front: string;
+  /** Answer, or extra information shown with a cloze; ends with the note */
+  back: string;
+  /** Link to the source page */
+  source: string;
+  tags: string[];
+}
+
+export interface FlashcardOptions {
+  /** Also create cloze notes from inline-code terms */
+  cloze?: boolean;
+}
+
+export interface AnkiExportOptions {
+  /** Deck the notes are imported into */
+  deck?: string;
+}
+
+// Blocks whose text becomes a cloze note
+const CLOZE_BLOCKS = new Set(["p", "li", "dd", "td"]);
+
+// Blocks left out of a cloze note's text; they are notes of their own
+const NESTED_BLOCKS = new Set([
+  "blockquote",
+  "div",
+  "dl",
+  "ol",
+  "p",
+  "pre",
+  "table",
+  "ul",
+]);
+
+// Elements that mean nothing on a card
+const DROPPED_TAGS = new Set(["button", "style", "svg"]);
+
+/**
+ * Turns sections into flashcards: the heading asks for the section's content,
+ * and optionally each paragraph with inline code hides its code terms
+ *
+ * @param sections - Sections to turn into cards
+ * @param options - What kinds of cards to create
+ * @returns The cards in section order
+ */
+export function buildFlashcards(
+  sections: ReadonlyArray<HeadingSection>,
+  options: FlashcardOptions = {}
+): Flashcard[] {
+  return sections.flatMap((section) => {
+    const nodes = cleanCardNodes(
+      cleanCapturedHtml(section.contentHtml, {
+        baseUrl: section.sourceUrl,
+      })
+    );
+    const { repo, pageTitle } = parseDeepWikiUrl(section.sourceUrl);
+    const source = `<a href="${escapeHtml(
+      section.sourceUrl,
+      true
+    )}">${escapeHtml([repo, pageTitle].filter(Boolean).join(" › "))}</a>`;
+    const tags = [
+      "deepwiki",
+      ...(section.tags ?? []).map((tag) => tag.replace(/\s+/g, "_")),
+    ];
+    const title = escapeHtml(section.titleText);
+    const note = formatNote(section.note);
+
+    const cards: Flashcard[] = [];
+    const answer = serializeHtml(withoutLeadingHeading(nodes)).trim();
+    if (answer) {
+      const back = answer + note;
+      cards.push({ type: "basic", front: title, back, source, tags });
+    }
+
+    if (options.cloze) {
+      for (const text of findClozeTexts(nodes)) {
+        const back = title + note;
+        cards.push({ type: "cloze", front: text, back, source, tags });
+      }
+    }
+    return cards;
+  });
+}
+
+/**
+ * Writes cards as a tab-separated file with Anki's import headers
+ *
+ * Columns are note type, front, back, source and tags. Fields are HTML and
+ * quoted when they contain tabs, line breaks or quotes.
+ *
+ * @param cards - Cards to write
+ * @param options - Import settings written to the headers
+ * @returns The file content
+ */
+export function buildAnkiTsv(
+  cards: ReadonlyArray<Flashcard>,
+  options: AnkiExportOptions = {}
+): string {
+  const headers = [
+    "#separator:tab",
+    "#html:true",
+    "#notetype column:1",
+    "#tags column:5",
+    ...(options.deck ? [`#deck:${options.deck.replace(/\s+/g, " ")}`] : []),
+    "#columns:Note type\tFront\tBack\tSource\tTags",
+  ];
+  const rows = cards.map((card) =>
+    [
+      card.type === "cloze" ? "Cloze" : "Basic",
+      card.front,
+      card.back,
+      card.source,
+      card.tags.join(" "),
+    ]
+      .map(toTsvField)
+      .join("\t")
+  );
+  return [...headers, ...rows].join("\n") + "\n";
+}
+
+// Notes are plain text; Anki shows fields as HTML, so line breaks are kept
+function formatNote(note: string | undefined): string {
+  const text = note?.trim();
+  return text
+    ? `<blockquote>${escapeHtml(text).replace(/\r?\n/g, "<br>")}</blockquote>`
+    : "";
+}
+
+function cleanCardNodes(nodes: HtmlNode[]): HtmlNode[] {
+  return nodes
+    .filter((node) => node.type === "text" || !DROPPED_TAGS.has(node.tagName))
+    .map((node) => {
+      if (node.type === "text") {
+        return node;
+      }
+      const { id, ...attributes } = node.attributes;
+      return { ...node, attributes, children: cleanCardNodes(node.children) };
+    });
+}
+
+// The heading is the question, so the answer starts after it
+function withoutLeadingHeading(nodes: HtmlNode[]): HtmlNode[] {
+  const index = nodes.findIndex(
+    (node) => node.type === "element" || node.text.trim() !== ""
+  );
+  const first = nodes[index];
+  return first?.type === "element" && /^h[1-6]$/.test(first.tagName)
+    ? nodes.slice(index + 1)
+    : nodes;
+}
+
+/**
+ * Finds blocks with inline code and hides each code term as a cloze
+ * deletion; repeated terms share one deletion
+ */
+function findClozeTexts(nodes: HtmlNode[]): string[] {
+  const texts: string[] = [];
+
+  const visit = (node: HtmlNode) => {
+    if (node.type === "text" || node.tagName === "pre") {
+      return;
+    }
+    if (CLOZE_BLOCKS.has(node.tagName)) {
+      const text = toClozeText(
+        node.children.filter(
+          (child) => child.type === "text" || !NESTED_BLOCKS.has(child.tagName)
+        )
+      );
+      if (text) {
+        texts.push(text);
+      }
+    }
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  return texts;
+}
+
+function toClozeText(nodes: HtmlNode[]): string | null {
+  const deletions = new Map<string, number>();
+
+  const replaceCode = (node: HtmlNode): HtmlNode => {
+    if (node.type === "text") {
+      return node;
+    }
+    const term = node.tagName === "code" ? getTextContent(node).trim() : "";
+    // Terms containing cloze syntax cannot be hidden
+    if (term && !/::|{{|}}/.test(term)) {
+      if (!deletions.has(term)) {
+        deletions.set(term, deletions.size + 1);
+      }
+      const code: HtmlElementNode = {
+        ...node,
+        children: [
+          { type: "text", text: `{{c${deletions.get(term)}::${term}}}` },
+        ],
+      };
+      return code;
+    }
+    return { ...node, children: node.children.map(replaceCode) };
+  };
+
+  const html = serializeHtml(nodes.map(replaceCode)).trim();
+  return deletions.size > 0 ? html : null;
+}
+
+function toTsvField(value: string): string {
+  return /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,209 @@
+/**
+ * Builds a self-contained HTML document of collected sections
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import { addSvgClass } from "../html/add-svg-class";
+import { cleanCapturedHtml } from "../html/clean-captured-html";
+import { escapeHtml, serializeHtml } from "../html/html-parser";
+import { containsMermaidSvg } from "../html/is-mermaid-svg";
+import { parseDeepWikiUrl } from "../url/deepwiki-url";
+
+export interface HtmlExportOptions {
+  /** Title of the export, usually the collection name */
+  title: string;
+  /** Time recorded as the export time */
+  exportedAt?: Date;
+}
+
+/**
+ * Styles of the side panel that captured content relies on, plus the layout
+ * of the document, so that it renders the same without the extension
+ */
+const EXPORT_STYLES = `
+body {
+  margin: 0 auto;
+  max-width: 960px;
+  padding: 24px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  font-size: 15px;
+  line-height: 1.6;
+  color: #212121;
+  background: #fafafa;
+}
+a { color: #1976d2; }
+pre, code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+pre {
+  padding: 12px;
+  overflow: auto;
+  background: #f5f5f5;
+  border-radius: 4px;
+  font-size: 13px;
+}
+:not(pre) > code {
+  padding: 1px 4px;
+  background: #f0f0f0;
+  border-radius: 3px;
+  font-size: 0.9em;
+}
+table { border-collapse: collapse; margin: 8px 0; }
+th, td { border: 1px solid #e0e0e0; padding: 4px 8px; text-align: left; }
+th { background: #f5f5f5; }
+img { max-width: 100%; }
+.dwpp-export-meta { color: #757575; font-size: 13px; }
+.dwpp-toc {
+  margin: 16px 0 32px;
+  padding: 12px 16px;
+  background: white;
+  border: 1px solid #e0e0e0;
+  border-radius: 4px;
+}
+.dwpp-toc ol { margin: 0; padding-left: 20px; }
+.dwpp-toc-page { color: #757575; font-size: 12px; }
+.dwpp-section {
+  margin-bottom: 24px;
+  padding: 16px;
+  background: white;
+  border: 1px solid #e0e0e0;
+  border-radius: 4px;
+}
+.dwpp-section-meta { margin-top: 12px; color: #757575; font-size: 12px; }
+.dwpp-section-note {
+  margin: 12px 0 0;
+  padding: 8px 12px;
+  border-left: 3px solid #1976d2;
+  background: #e3f2fd;
+  white-space: pre-wrap;
+}
+.dwpp-back { display: inline-block; margin-top: 8px; font-size: 12px; }
+.dwpp-diagram-wrapper { max-width: 100%; overflow: auto; }
+.dwpp-diagram-wrapper svg.dwpp-mermaid-svg { width: 100%; height: auto; }
+.dwpp-diagram-wrapper svg:not(.dwpp-mermaid-svg),
+.section-content-html svg { width: auto; max-width: 24px; height: auto; }
+.dwpp-mermaid-svg { width: 100%; height: auto; }
+`;
+
+/**
+ * Renders sections as one HTML file with a table of contents, inlined styles,
+ * inline SVG diagrams and links to the source pages
+ *
+ * The file loads nothing but images referenced by the captured content, so it
+ * can be read offline in any browser. Scripts, frames and event handlers of the
+ * captured content are removed.
+ *
+ * @param sections - Sections to export, already filtered and sorted
+ * @param options - Export options
+ * @returns The HTML document
+ */
+export function buildHtmlDocument(
+  sections: ReadonlyArray<HeadingSection>,
+  options: HtmlExportOptions
+): string {
+  const exportedAt = options.exportedAt ?? new Date();
+  const title = escapeHtml(options.title);
+  const count = `${sections.length} section${sections.length !== 1 ? "s" : ""}`;
+
+  const tocItems = sections.map(
+    (section, index) =>
+      `<li style="margin-left: ${
+        (section.level - 1) * 12
+      }px"><a href="#${sectionAnchor(index)}">${escapeHtml(
+        section.titleText
+      )}</a> <span class="dwpp-toc-page">${escapeHtml(
+        formatSource(section.sourceUrl)
+      )}</span></li>`
+  );
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${EXPORT_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    "<header>",
+    `<h1>${title}</h1>`,
+    `<p class="dwpp-export-meta">Exported from DeepWiki++ on ${formatDate(
+      exportedAt
+    )} · ${count}</p>`,
+    "</header>",
+    '<nav class="dwpp-toc" id="contents">',
+    "<h2>Contents</h2>",
+    `<ol>${tocItems.join("")}</ol>`,
+    "</nav>",
+    "<main>",
+    ...sections.map(renderSection),
+    "</main>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function renderSection(section: HeadingSection, index: number): string {
+  let content = prepareContentHtml(section.contentHtml, section.sourceUrl);
+
+  // Content captured without its heading still gets one
+  if (!/^\s*<h[1-6][\s>]/i.test(content)) {
+    content = `<h${section.level}>${escapeHtml(section.titleText)}</h${
+      section.level
+    }>${content}`;
+  }
+
+  const wrapperClass = containsMermaidSvg(content)
+    ? "dwpp-diagram-wrapper"
+    : "section-content-html";
+
+  const meta = [
+    `Source: <a href="${escapeHtml(section.sourceUrl, true)}">${escapeHtml(
+      formatSource(section.sourceUrl)
+    )}</a>`,
+    `Captured ${formatDate(new Date(section.addedAt))}`,
+  ];
+  if (section.tags && section.tags.length > 0) {
+    meta.push(escapeHtml(section.tags.map((tag) => `#${tag}`).join(" ")));
+  }
+
+  return [
+    `<article class="dwpp-section" id="${sectionAnchor(index)}">`,
+    `<div class="${wrapperClass}">${content}</div>`,
+    `<div class="dwpp-section-meta">${meta.join(" · ")}</div>`,
+    section.note?.trim()
+      ? `<blockquote class="dwpp-section-note">${escapeHtml(
+          section.note.trim()
+        )}</blockquote>`
+      : "",
+    '<a class="dwpp-back" href="#contents">↑ Contents</a>',
+    "</article>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Sanitizes the content and makes links absolute, so they work outside
+ * DeepWiki; Mermaid diagrams get the class the styles target
+ */
+function prepareContentHtml(html: string, baseUrl: string): string {
+  const nodes = cleanCapturedHtml(html, {
+    baseUrl,
+    keepFragments: true,
+  });
+  return addSvgClass(serializeHtml(nodes));
+}
+
+function sectionAnchor(index: number): string {
+  return `section-${index + 1}`;
+}
+
+function formatSource(url: string): string {
+  const { repo, pageTitle } = parseDeepWikiUrl(url);
+  return [repo, pageTitle].filter(Boolean).join(" › ");
+}
+
+function formatDate(date: Date): string {
+  return isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 10);
+}
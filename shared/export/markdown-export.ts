@@ -0,0 +1,146 @@
+/**
+ * Builds Markdown exports of collected sections
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import { sanitizeHtml } from "../html/html-sanitizer";
+import { htmlToMarkdown } from "../html/html-to-markdown";
+import { parseDeepWikiUrl } from "../url/deepwiki-url";
+
+export interface MarkdownExportOptions {
+  /** Title of the export, usually the collection name */
+  title: string;
+  /** Time recorded as the export time */
+  exportedAt?: Date;
+}
+
+export interface MarkdownFile {
+  /** File name, unique within the export */
+  path: string;
+  content: string;
+}
+
+/**
+ * Renders sections as a single Markdown document, in the given order
+ *
+ * @param sections - Sections to export, already filtered and sorted
+ * @param options - Export options
+ * @returns The Markdown document
+ */
+export function buildMarkdownDocument(
+  sections: ReadonlyArray<HeadingSection>,
+  options: MarkdownExportOptions
+): string {
+  const exportedAt = options.exportedAt ?? new Date();
+  const header = [
+    `# ${options.title}`,
+    `> Exported from DeepWiki++ on ${formatDate(exportedAt)} · ${
+      sections.length
+    } section${sections.length !== 1 ? "s" : ""}`,
+  ].join("\n\n");
+
+  return [header, ...sections.map(renderSection)].join("\n\n---\n\n") + "\n";
+}
+
+/**
+ * Renders each section as its own Markdown file with YAML front matter
+ *
+ * File names are numbered in the given order so that they sort the same way.
+ *
+ * @param sections - Sections to export, already filtered and sorted
+ * @returns One file per section
+ */
+export function buildMarkdownFiles(
+  sections: ReadonlyArray<HeadingSection>
+): MarkdownFile[] {
+  const digits = String(sections.length).length;
+
+  return sections.map((section, index) => {
+    const frontMatter = [
+      "---",
+      `title: ${JSON.stringify(section.titleText)}`,
+      `source: ${JSON.stringify(section.sourceUrl)}`,
+      `level: ${section.level}`,
+      `tags: ${JSON.stringify(section.tags ?? [])}`,
+      `added: ${JSON.stringify(toIsoString(section.addedAt))}`,
+      "---",
+    ].join("\n");
+
+    return {
+      path: `${String(index + 1).padStart(digits, "0")}-${toFileSlug(
+        section.titleText
+      )}.md`,
+      content: `${frontMatter}\n\n${renderSection(section)}\n`,
+    };
+  });
+}
+
+/**
+ * Renders one section: its content, where it came from, its tags and note
+ */
+export function renderSection(section: HeadingSection): string {
+  const content = renderSectionContent(section);
+
+  const { repo, pageTitle } = parseDeepWikiUrl(section.sourceUrl);
+  const details = [
+    `Source: [${[repo, pageTitle].filter(Boolean).join(" › ")}](${
+      section.sourceUrl
+    })`,
+  ];
+  if (section.tags && section.tags.length > 0) {
+    details.push(`Tags: ${section.tags.map((tag) => `#${tag}`).join(" ")}`);
+  }
+
+  const parts = [content, details.join("  \n")];
+  if (section.note?.trim()) {
+    parts.push(
+      section.note
+        .trim()
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n")
+    );
+  }
+
+  return parts.join("\n\n");
+}
+
+/**
+ * Renders the content of a section, starting with its heading
+ */
+export function renderSectionContent(section: HeadingSection): string {
+  const content = htmlToMarkdown(sanitizeHtml(section.contentHtml), {
+    baseUrl: section.sourceUrl,
+  });
+
+  // Content captured without its heading still gets one
+  if (/^#{1,6} /.test(content)) {
+    return content;
+  }
+  return [`${"#".repeat(section.level)} ${section.titleText}`, content]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Turns a title into a file name part safe on all platforms
+ */
+export function toFileSlug(title: string, maxLength = 60): string {
+  const slug = title
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+  return slug || "section";
+}
+
+function toIsoString(date: Date | string): string {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? String(date) : parsed.toISOString();
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,230 @@
+/**
+ * Builds an Obsidian vault of collected sections
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import {
+  SectionOutlineNode,
+  buildPageOutlines,
+} from "../../domain/heading-collection/section-outline";
+import { parseDeepWikiUrl } from "../url/deepwiki-url";
+import { MarkdownFile, renderSectionContent } from "./markdown-export";
+
+interface VaultNote {
+  section: HeadingSection;
+  /** Path of the note without the .md extension, as used in wiki-links */
+  path: string;
+  /** Note of the enclosing section, if it was stored */
+  parent?: VaultNote;
+  repo: string;
+  pageTitle: string;
+  /** Path of the repository index note */
+  indexPath: string;
+  /** Notes of the same page in outline order */
+  pageNotes: VaultNote[];
+}
+
+/**
+ * Renders sections as the notes of an Obsidian vault
+ *
+ * Every section becomes a note in a folder per repository and page, with its
+ * details as YAML frontmatter. Notes of the same page link to each other with
+ * wiki-links, and each repository gets an index note linking all its pages.
+ *
+ * @param sections - Sections to export
+ * @returns The files of the vault
+ */
+export function buildObsidianVault(
+  sections: ReadonlyArray<HeadingSection>
+): MarkdownFile[] {
+  const usedPaths = new Set<string>();
+  const uniquePath = (folder: string, name: string): string => {
+    let path = `${folder}/${name}`;
+    for (let n = 2; usedPaths.has(path.toLowerCase()); n++) {
+      path = `${folder}/${name} (${n})`;
+    }
+    usedPaths.add(path.toLowerCase());
+    return path;
+  };
+
+  const repos = new Map<
+    string,
+    { indexPath: string; pages: { pageUrl: string; notes: VaultNote[] }[] }
+  >();
+
+  for (const page of buildPageOutlines(sections)) {
+    const { repo, pageTitle } = parseDeepWikiUrl(page.pageUrl);
+    const repoFolder = toNoteName(repo.replace("/", "-"));
+    let repoEntry = repos.get(repo);
+    if (!repoEntry) {
+      repoEntry = {
+        indexPath: uniquePath(repoFolder, repoFolder),
+        pages: [],
+      };
+      repos.set(repo, repoEntry);
+    }
+
+    const pageFolder = `${repoFolder}/${toNoteName(pageTitle || "Page")}`;
+    const pageNotes: VaultNote[] = [];
+    const addNotes = (
+      nodes: ReadonlyArray<SectionOutlineNode>,
+      parent?: VaultNote
+    ) => {
+      for (const node of nodes) {
+        const note: VaultNote = {
+          section: node.section,
+          path: uniquePath(pageFolder, toNoteName(node.section.titleText)),
+          parent,
+          repo,
+          pageTitle,
+          indexPath: repoEntry!.indexPath,
+          pageNotes,
+        };
+        pageNotes.push(note);
+        addNotes(node.children, note);
+      }
+    };
+    addNotes(page.roots);
+    repoEntry.pages.push({ pageUrl: page.pageUrl, notes: pageNotes });
+  }
+
+  const files: MarkdownFile[] = [];
+  for (const [repo, { indexPath, pages }] of repos) {
+    files.push({
+      path: `${indexPath}.md`,
+      content: renderIndexNote(repo, pages),
+    });
+    for (const { notes } of pages) {
+      files.push(
+        ...notes.map((note) => ({
+          path: `${note.path}.md`,
+          content: renderNote(note),
+        }))
+      );
+    }
+  }
+  return files;
+}
+
+function renderNote(note: VaultNote): string {
+  const { section } = note;
+  const frontMatter = [
+    "---",
+    `title: ${JSON.stringify(section.titleText)}`,
+    `source: ${JSON.stringify(section.sourceUrl)}`,
+    `repo: ${JSON.stringify(note.repo)}`,
+    `level: ${section.level}`,
+    `added: ${JSON.stringify(toIsoString(section.addedAt))}`,
+    `tags: ${JSON.stringify(
+      (section.tags ?? []).map(toObsidianTag).filter(Boolean)
+    )}`,
+    "---",
+  ].join("\n");
+
+  const parts = [renderSectionContent(section)];
+  if (section.note?.trim()) {
+    parts.push(
+      ["> [!note]", ...section.note.trim().split("\n")]
+        .map((line, index) => (index === 0 || !line ? line : `> ${line}`))
+        .map((line) => line || ">")
+        .join("\n")
+    );
+  }
+
+  const links = [
+    `Source: [${note.pageTitle || section.sourceUrl}](${section.sourceUrl})`,
+    `Page: ${wikiLink(
+      `${note.indexPath}#${note.pageTitle}`,
+      [note.repo, note.pageTitle].filter(Boolean).join(" › ")
+    )}`,
+  ];
+  if (note.parent) {
+    links.push(
+      `Up: ${wikiLink(note.parent.path, note.parent.section.titleText)}`
+    );
+  }
+  parts.push(links.join("  \n"));
+
+  if (note.pageNotes.length > 1) {
+    parts.push(
+      [
+        "On this page:",
+        ...note.pageNotes.map((other) => {
+          const indent = "  ".repeat(depth(other));
+          return other === note
+            ? `${indent}- **${other.section.titleText}**`
+            : `${indent}- ${wikiLink(other.path, other.section.titleText)}`;
+        }),
+      ].join("\n")
+    );
+  }
+
+  return `${frontMatter}\n\n${parts.join("\n\n")}\n`;
+}
+
+function renderIndexNote(
+  repo: string,
+  pages: { pageUrl: string; notes: VaultNote[] }[]
+): string {
+  const { repoUrl } = parseDeepWikiUrl(pages[0].pageUrl);
+  const frontMatter = [
+    "---",
+    `repo: ${JSON.stringify(repo)}`,
+    `source: ${JSON.stringify(repoUrl)}`,
+    "---",
+  ].join("\n");
+
+  const pageParts = pages.map(({ pageUrl, notes }) =>
+    [
+      `## ${notes[0].pageTitle || pageUrl}`,
+      `[Open on DeepWiki](${pageUrl})`,
+      notes
+        .map(
+          (note) =>
+            `${"  ".repeat(depth(note))}- ${wikiLink(
+              note.path,
+              note.section.titleText
+            )}`
+        )
+        .join("\n"),
+    ].join("\n\n")
+  );
+
+  return `${frontMatter}\n\n${[`# ${repo}`, ...pageParts].join("\n\n")}\n`;
+}
+
+function depth(note: VaultNote): number {
+  return note.parent ? depth(note.parent) + 1 : 0;
+}
+
+function wikiLink(target: string, label: string): string {
+  // "|" and "]]" would end the link early
+  return `[[${target}|${label.replace(/\||\]\]/g, " ")}]]`;
+}
+
+/**
+ * Turns a title into a note or folder name; Obsidian does not allow some
+ * characters in names and others break wiki-links
+ */
+export function toNoteName(title: string, maxLength = 80): string {
+  const name = title
+    .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength)
+    .replace(/^\.+|[\s.]+$/g, "");
+  return name || "Untitled";
+}
+
+/**
+ * Obsidian tags cannot contain spaces or punctuation other than "-", "_"
+ * and "/"
+ */
+function toObsidianTag(tag: string): string {
+  return tag.replace(/\s+/g, "-").replace(/[^\p{L}\p{N}_/-]/gu, "");
+}
+
+function toIsoString(date: Date | string): string {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? String(date) : parsed.toISOString();
+}
@@ -0,0 +1,91 @@
+/**
+ * Prepares captured content for use outside DeepWiki
+ */
+
+import { HtmlNode, parseHtml } from "./html-parser";
+import { sanitizeHtml } from "./html-sanitizer";
+
+export interface CleanCapturedHtmlOptions {
+  /** URL of the page the content was captured from */
+  baseUrl: string;
+  /** Keep in-page fragment links as they are instead of resolving them */
+  keepFragments?: boolean;
+}
+
+const URL_ATTRIBUTES = ["href", "src"];
+
+// Schemes a resolved URL may have; data URLs only remain on images
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/**
+ * Sanitizes captured content and makes links absolute, so that it works
+ * outside the page it was captured from
+ *
+ * @param html - Captured content
+ * @param options - Cleaning options
+ * @returns The cleaned nodes
+ */
+export function cleanCapturedHtml(
+  html: string,
+  options: CleanCapturedHtmlOptions
+): HtmlNode[] {
+  return resolveUrls(parseHtml(sanitizeHtml(html)), options);
+}
+
+function resolveUrls(
+  nodes: HtmlNode[],
+  options: CleanCapturedHtmlOptions
+): HtmlNode[] {
+  return nodes.map((node) => {
+    if (node.type === "text") {
+      return node;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(node.attributes)) {
+      if (!URL_ATTRIBUTES.includes(name)) {
+        attributes[name] = value;
+        continue;
+      }
+      const url = resolveUrl(value, name, options);
+      if (url !== null) {
+        attributes[name] = url;
+      }
+    }
+
+    return {
+      ...node,
+      attributes,
+      children: resolveUrls(node.children, options),
+    };
+  });
+}
+
+/**
+ * Resolves a URL against the page it was captured from; URLs that resolve
+ * to another scheme than the sanitizer allows are dropped
+ */
+function resolveUrl(
+  url: string,
+  attribute: string,
+  { baseUrl, keepFragments }: CleanCapturedHtmlOptions
+): string | null {
+  const trimmed = url.trim();
+  if (keepFragments && trimmed.startsWith("#")) {
+    return trimmed;
+  }
+
+  let resolved: URL;
+  try {
+    resolved = new URL(trimmed, baseUrl);
+  } catch {
+    return null;
+  }
+  if (
+    SAFE_PROTOCOLS.includes(resolved.protocol) ||
+    (attribute === "src" && resolved.protocol === "data:")
+  ) {
+    return resolved.href;
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+/**
+ * HTML utility for decoding character references
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+  nbsp: "\u00a0",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  middot: "·",
+  bull: "•",
+  times: "×",
+  rarr: "→",
+  larr: "←",
+};
+
+/**
+ * Decodes numeric and common named character references. Numeric references
+ * are decoded without a closing semicolon too, as browsers do. Unknown
+ * references are kept as they are.
+ *
+ * @param text - Text that may contain character references
+ * @returns The decoded text
+ */
+export function decodeHtmlEntities(text: string): string {
+  if (!text.includes("&")) {
+    return text;
+  }
+
+  return text.replace(/&(?:(#x[0-9a-f]+|#\d+);?|([a-z]+);)/gi, decodeEntity);
+}
+
+function decodeEntity(
+  match: string,
+  numeric: string | undefined,
+  name: string | undefined
+): string {
+  if (numeric) {
+    const codePoint =
+      numeric[1].toLowerCase() === "x"
+        ? parseInt(numeric.slice(2), 16)
+        : parseInt(numeric.slice(1), 10);
+    // The browser reads a null or out-of-range reference as a replacement
+    return codePoint > 0 && codePoint <= 0x10ffff
+      ? String.fromCodePoint(codePoint)
+      : "\ufffd";
+  }
+
+  return NAMED_ENTITIES[name!.toLowerCase()] ?? match;
+}
@@ -0,0 +1,311 @@
+/**
+ * Lightweight HTML parser producing a plain node tree
+ *
+ * Works without a DOM so stored section HTML can be converted in any
+ * extension context and in tests. It is forgiving rather than spec-complete:
+ * unmatched end tags are ignored, unclosed elements end with their parent,
+ * and a few elements (p, li, tr, td, ...) are closed implicitly the way
+ * browsers do.
+ */
+
+import { decodeHtmlEntities } from "./html-entities";
+
+export interface HtmlElementNode {
+  type: "element";
+  /** Lowercase tag name */
+  tagName: string;
+  /** Attributes by lowercase name, with character references decoded */
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlTextNode {
+  type: "text";
+  /** Text with character references decoded */
+  text: string;
+}
+
+export type HtmlNode = HtmlElementNode | HtmlTextNode;
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements whose content is text up to the matching end tag; only the
+// content of textarea and title has character references
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+const UNESCAPED_TEXT_ELEMENTS = new Set(["script", "style"]);
+
+// Block elements that end an open paragraph
+const PARAGRAPH_CLOSERS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+// Elements closed by an opening sibling, with the elements that close them
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "tbody", "thead", "tfoot"],
+  td: ["td", "th", "tr", "tbody", "thead", "tfoot"],
+  th: ["td", "th", "tr", "tbody", "thead", "tfoot"],
+  option: ["option"],
+};
+
+// Sticky, so they match exactly at the current position
+const TAG_PATTERN = /<([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+const END_TAG_PATTERN = /<\/([a-zA-Z][^\s/>]*)[^>]*>/y;
+// Unquoted values run to the next whitespace, as browsers read them
+const ATTRIBUTE_PATTERN =
+  /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Parses an HTML fragment into a node tree
+ *
+ * @param html - The HTML fragment to parse
+ * @returns The top-level nodes of the fragment
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  if (!html) {
+    return [];
+  }
+
+  const root: HtmlElementNode = {
+    type: "element",
+    tagName: "#root",
+    attributes: {},
+    children: [],
+  };
+  const stack: HtmlElementNode[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (!text) {
+      return;
+    }
+    const children = current().children;
+    const last = children[children.length - 1];
+    if (last?.type === "text") {
+      last.text += text;
+    } else {
+      children.push({ type: "text", text });
+    }
+  };
+
+  const closeUntil = (tagName: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tagName === tagName) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let index = 0;
+  while (index < html.length) {
+    const nextTag = html.indexOf("<", index);
+    if (nextTag === -1) {
+      appendText(decodeHtmlEntities(html.slice(index)));
+      break;
+    }
+    if (nextTag > index) {
+      appendText(decodeHtmlEntities(html.slice(index, nextTag)));
+      index = nextTag;
+    }
+
+    // Comments, doctypes and processing instructions are dropped
+    if (html.startsWith("<!--", index)) {
+      const end = html.indexOf("-->", index + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith("<!", index) || html.startsWith("<?", index)) {
+      const end = html.indexOf(">", index);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    END_TAG_PATTERN.lastIndex = index;
+    const endTag = END_TAG_PATTERN.exec(html);
+    if (endTag) {
+      closeUntil(endTag[1].toLowerCase());
+      index += endTag[0].length;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = index;
+    const startTag = TAG_PATTERN.exec(html);
+    if (!startTag) {
+      // The browser drops a tag the input ends in
+      if (/[a-zA-Z]/.test(html[index + 1]) && !html.includes(">", index)) {
+        break;
+      }
+      // A "<" that does not start a tag is text
+      appendText("<");
+      index++;
+      continue;
+    }
+
+    const tagName = startTag[1].toLowerCase();
+    const rawAttributes = startTag[2];
+    const selfClosing = /\/\s*$/.test(rawAttributes);
+    index += startTag[0].length;
+
+    if (current().tagName === "p" && PARAGRAPH_CLOSERS.has(tagName)) {
+      stack.pop();
+    }
+    const closedBy = IMPLIED_END_TAGS[current().tagName];
+    if (closedBy?.includes(tagName)) {
+      stack.pop();
+      // A new row also ends the open row of the ended cell
+      if (current().tagName === "tr" && tagName !== "td" && tagName !== "th") {
+        stack.pop();
+      }
+    }
+
+    const element: HtmlElementNode = {
+      type: "element",
+      tagName,
+      attributes: parseAttributes(rawAttributes),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tagName) && !selfClosing) {
+      const endPattern = new RegExp(`</${tagName}`, "gi");
+      endPattern.lastIndex = index;
+      const closing = endPattern.exec(html)?.index ?? -1;
+      const end = closing === -1 ? html.length : closing;
+      const text = html.slice(index, end);
+      if (text) {
+        element.children.push({
+          type: "text",
+          text: UNESCAPED_TEXT_ELEMENTS.has(tagName)
+            ? text
+            : decodeHtmlEntities(text),
+        });
+      }
+      const closeEnd = closing === -1 ? -1 : html.indexOf(">", closing);
+      index = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tagName) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeHtmlEntities(
+        match[2] ?? match[3] ?? match[4] ?? ""
+      );
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Checks whether an element never has content, like br or img
+ */
+export function isVoidElement(tagName: string): boolean {
+  return VOID_ELEMENTS.has(tagName);
+}
+
+/**
+ * Concatenates the text of a node and all its descendants
+ */
+export function getTextContent(node: HtmlNode | HtmlNode[]): string {
+  if (Array.isArray(node)) {
+    return node.map(getTextContent).join("");
+  }
+  return node.type === "text" ? node.text : getTextContent(node.children);
+}
+
+/**
+ * Returns the class names of an element
+ */
+export function getClassList(node: HtmlElementNode): string[] {
+  return (node.attributes.class ?? "").split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Serializes nodes back to HTML
+ *
+ * @param nodes - Nodes as returned by parseHtml
+ * @returns The HTML string
+ */
+export function serializeHtml(nodes: HtmlNode[]): string {
+  return nodes.map(serializeNode).join("");
+}
+
+function serializeNode(node: HtmlNode): string {
+  if (node.type === "text") {
+    return escapeHtml(node.text);
+  }
+
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeHtml(value, true)}"`)
+    .join("");
+  if (VOID_ELEMENTS.has(node.tagName)) {
+    return `<${node.tagName}${attributes}>`;
+  }
+
+  const content = UNESCAPED_TEXT_ELEMENTS.has(node.tagName)
+    ? getTextContent(node.children)
+    : serializeHtml(node.children);
+  return `<${node.tagName}${attributes}>${content}</${node.tagName}>`;
+}
+
+/**
+ * Escapes text for use in HTML content or a double-quoted attribute
+ */
+export function escapeHtml(text: string, inAttribute = false): string {
+  const escaped = text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+  return inAttribute ? escaped.replace(/"/g, "&quot;") : escaped;
+}
@@ -0,0 +1,449 @@
+/**
+ * Allow-list HTML sanitizer for captured content
+ *
+ * Content captured from DeepWiki reproduces repository READMEs and other
+ * text the extension does not control, and it is rendered as HTML in the
+ * side panel. The sanitizer reads the HTML with parseHtml and writes back
+ * only allowed elements and attributes, so that nothing in the output
+ * can run code: scripts, frames and event handlers are removed and URLs are
+ * limited to safe schemes. The SVG elements and attributes of Mermaid
+ * diagrams are kept.
+ */
+
+import { decodeHtmlEntities } from "./html-entities";
+import {
+  HtmlElementNode,
+  HtmlNode,
+  getTextContent,
+  parseHtml,
+  serializeHtml,
+} from "./html-parser";
+
+type Namespace = "html" | "svg";
+
+// Elements removed together with their content
+const REMOVED_TAGS = new Set([
+  "script",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "noscript",
+  "noembed",
+  "noframes",
+  "template",
+  "textarea",
+  "select",
+  "xmp",
+  "plaintext",
+  "math",
+  "style",
+  "title",
+  "head",
+  "link",
+  "meta",
+  "base",
+]);
+
+const HTML_TAGS = new Set([
+  "a",
+  "abbr",
+  "article",
+  "aside",
+  "b",
+  "blockquote",
+  "br",
+  "caption",
+  "cite",
+  "code",
+  "col",
+  "colgroup",
+  "dd",
+  "del",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "em",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "i",
+  "img",
+  "ins",
+  "kbd",
+  "li",
+  "mark",
+  "ol",
+  "p",
+  "pre",
+  "q",
+  "s",
+  "samp",
+  "section",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "summary",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "u",
+  "ul",
+  "var",
+]);
+
+// SVG elements by their lowercase name, as the parser reads them
+const SVG_TAGS = new Map(
+  [
+    "svg",
+    "g",
+    "a",
+    "path",
+    "rect",
+    "circle",
+    "ellipse",
+    "line",
+    "polyline",
+    "polygon",
+    "text",
+    "tspan",
+    "defs",
+    "marker",
+    "foreignObject",
+    "title",
+    "desc",
+    "clipPath",
+    "linearGradient",
+    "radialGradient",
+    "stop",
+    "pattern",
+    "symbol",
+    "use",
+    "style",
+  ].map((name) => [name.toLowerCase(), name])
+);
+
+const GLOBAL_ATTRIBUTES = new Set(["class", "id", "title", "lang", "dir"]);
+
+const HTML_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "name", "target", "rel"],
+  blockquote: ["cite"],
+  col: ["span"],
+  colgroup: ["span"],
+  del: ["cite", "datetime"],
+  details: ["open"],
+  img: ["src", "alt", "width", "height"],
+  ins: ["cite", "datetime"],
+  li: ["value"],
+  ol: ["start", "reversed", "type"],
+  q: ["cite"],
+  td: ["colspan", "rowspan", "headers"],
+  th: ["colspan", "rowspan", "headers", "scope", "abbr"],
+};
+
+const URL_ATTRIBUTES = new Set(["href", "xlink:href", "src", "cite"]);
+
+// SVG attributes by their lowercase name, as the parser reads them
+const SVG_ATTRIBUTES = new Map(
+  [
+    "alignment-baseline",
+    "clip-path",
+    "clip-rule",
+    "clipPathUnits",
+    "color",
+    "cx",
+    "cy",
+    "d",
+    "display",
+    "dominant-baseline",
+    "dx",
+    "dy",
+    "fill",
+    "fill-opacity",
+    "fill-rule",
+    "font-family",
+    "font-size",
+    "font-style",
+    "font-weight",
+    "fx",
+    "fy",
+    "gradientTransform",
+    "gradientUnits",
+    "height",
+    "lengthAdjust",
+    "letter-spacing",
+    "marker-end",
+    "marker-mid",
+    "marker-start",
+    "markerHeight",
+    "markerUnits",
+    "markerWidth",
+    "offset",
+    "opacity",
+    "orient",
+    "overflow",
+    "paint-order",
+    "patternContentUnits",
+    "patternTransform",
+    "patternUnits",
+    "points",
+    "preserveAspectRatio",
+    "r",
+    "refX",
+    "refY",
+    "rotate",
+    "rx",
+    "ry",
+    "shape-rendering",
+    "spreadMethod",
+    "stop-color",
+    "stop-opacity",
+    "stroke",
+    "stroke-dasharray",
+    "stroke-dashoffset",
+    "stroke-linecap",
+    "stroke-linejoin",
+    "stroke-miterlimit",
+    "stroke-opacity",
+    "stroke-width",
+    "text-anchor",
+    "text-decoration",
+    "textLength",
+    "transform",
+    "vector-effect",
+    "version",
+    "viewBox",
+    "visibility",
+    "width",
+    "word-spacing",
+    "x",
+    "x1",
+    "x2",
+    "xml:space",
+    "xmlns",
+    "xmlns:xlink",
+    "y",
+    "y1",
+    "y2",
+  ].map((name) => [name.toLowerCase(), name])
+);
+
+const SAFE_URL_SCHEMES = ["http", "https", "mailto"];
+
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpeg|gif|webp)[;,]/i;
+
+/**
+ * Removes everything from HTML that is not on the allow-list
+ *
+ * Unknown elements are replaced by their content; scripts, frames, forms
+ * and similar elements are removed with their content. Event handler
+ * attributes are dropped, and URLs are kept only with the http, https and
+ * mailto schemes, as relative URLs, or for images as data URLs of common
+ * image types.
+ *
+ * @param html - HTML to sanitize
+ * @returns HTML with only allowed elements and attributes
+ */
+export function sanitizeHtml(html: string): string {
+  if (!html) {
+    return "";
+  }
+  return serializeHtml(sanitizeNodes(parseHtml(html), "html"));
+}
+
+/**
+ * Checks inline CSS for constructs that run code or load other resources
+ *
+ * @param css - CSS declarations or a style sheet
+ * @returns true if only same-document and data image URLs are referenced
+ */
+export function isSafeCss(css: string): boolean {
+  const normalized = decodeCssEscapes(decodeHtmlEntities(css))
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+
+  if (
+    /expression\(|javascript:|vbscript:|@import|behavior:|-moz-binding/.test(
+      normalized
+    )
+  ) {
+    return false;
+  }
+
+  const urls = normalized.match(/url\(["']?[^"')]*/g) ?? [];
+  return urls.every((url) => {
+    const target = url.replace(/^url\(["']?/, "");
+    return target.startsWith("#") || SAFE_DATA_IMAGE.test(target);
+  });
+}
+
+/**
+ * Keeps the allowed parts of parsed nodes
+ */
+function sanitizeNodes(nodes: HtmlNode[], namespace: Namespace): HtmlNode[] {
+  return nodes.flatMap((node) => sanitizeNode(node, namespace));
+}
+
+function sanitizeNode(node: HtmlNode, namespace: Namespace): HtmlNode[] {
+  if (node.type === "text") {
+    return [node];
+  }
+
+  const { tagName } = node;
+  // SVG elements get the casing the browser gives them
+  const svgTagName =
+    namespace === "svg"
+      ? SVG_TAGS.get(tagName)
+      : tagName === "svg"
+      ? "svg"
+      : undefined;
+
+  if (namespace === "svg" && tagName === "style") {
+    return sanitizeSvgStyle(node);
+  }
+  if (!svgTagName && REMOVED_TAGS.has(tagName)) {
+    return [];
+  }
+  if (!svgTagName && (namespace === "svg" || !HTML_TAGS.has(tagName))) {
+    // Not allowed here: keep the content without the element
+    return sanitizeNodes(node.children, namespace);
+  }
+
+  const elementNamespace: Namespace = svgTagName ? "svg" : "html";
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(node.attributes)) {
+    const allowed = sanitizeAttribute(tagName, elementNamespace, name, value);
+    if (allowed !== null) {
+      attributes[
+        elementNamespace === "svg" ? SVG_ATTRIBUTES.get(name) ?? name : name
+      ] = allowed;
+    }
+  }
+  if (
+    tagName === "use" &&
+    !(attributes.href ?? attributes["xlink:href"])?.startsWith("#")
+  ) {
+    return [];
+  }
+
+  const childNamespace: Namespace =
+    svgTagName && tagName !== "foreignobject" ? "svg" : "html";
+  return [
+    {
+      type: "element",
+      tagName: svgTagName ?? tagName,
+      attributes,
+      children: sanitizeNodes(node.children, childNamespace),
+    },
+  ];
+}
+
+/**
+ * Keeps a style sheet inside an SVG, as Mermaid diagrams carry one, or
+ * nothing if the style sheet is not safe
+ */
+function sanitizeSvgStyle(node: HtmlElementNode): HtmlNode[] {
+  const css = getTextContent(node);
+  if (!isSafeCss(css)) {
+    return [];
+  }
+  // A CSS escape, so that no text can close the element or open another
+  return [
+    {
+      type: "element",
+      tagName: "style",
+      attributes: {},
+      children: [{ type: "text", text: css.replace(/</g, "\\3c ") }],
+    },
+  ];
+}
+
+/**
+ * Returns the value to keep for an attribute, or null to drop it
+ */
+function sanitizeAttribute(
+  tagName: string,
+  namespace: Namespace,
+  name: string,
+  value: string
+): string | null {
+  const attribute = name.toLowerCase();
+
+  if (attribute.startsWith("on") || !/^[a-z][a-z0-9_.:-]*$/.test(attribute)) {
+    return null;
+  }
+  if (attribute === "style") {
+    return isSafeCss(value) ? value : null;
+  }
+  if (
+    GLOBAL_ATTRIBUTES.has(attribute) ||
+    attribute === "role" ||
+    /^(aria|data)-/.test(attribute)
+  ) {
+    return value;
+  }
+
+  if (namespace === "svg") {
+    if (attribute === "href" || attribute === "xlink:href") {
+      if (tagName === "a") {
+        return sanitizeUrl(value, attribute);
+      }
+      return value.trim().startsWith("#") ? value.trim() : null;
+    }
+    return SVG_ATTRIBUTES.has(attribute) && isSafeCss(value) ? value : null;
+  }
+
+  if (!HTML_ATTRIBUTES[tagName]?.includes(attribute)) {
+    return null;
+  }
+  return URL_ATTRIBUTES.has(attribute) ? sanitizeUrl(value, attribute) : value;
+}
+
+/**
+ * Returns a URL if its scheme is allowed for the attribute, or null
+ */
+function sanitizeUrl(url: string, attribute: string): string | null {
+  // The browser ignores these characters when reading the scheme
+  const compact = url.replace(/[\u0000- \u007f-\u009f]/g, "");
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+
+  if (!scheme) {
+    return url.trim();
+  }
+  if (SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase())) {
+    return attribute === "src" && scheme[1].toLowerCase() === "mailto"
+      ? null
+      : url.trim();
+  }
+  if (attribute === "src" && SAFE_DATA_IMAGE.test(compact)) {
+    return compact;
+  }
+  return null;
+}
+
+function decodeCssEscapes(css: string): string {
+  return css
+    .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex) => {
+      const code = parseInt(hex, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "�";
+    })
+    .replace(/\\(.)/g, "$1");
+}
@@ -0,0 +1,611 @@
+/**
+ * HTML utility for converting section content to GitHub-flavored Markdown
+ */
+
+import {
+  HtmlElementNode,
+  HtmlNode,
+  getClassList,
+  getTextContent,
+  parseHtml,
+} from "./html-parser";
+
+export interface HtmlToMarkdownOptions {
+  /** URL that relative links and images are resolved against */
+  baseUrl?: string;
+}
+
+interface RenderContext {
+  baseUrl?: string;
+  /** Inside a table cell, where line breaks must stay on one line */
+  inTable: boolean;
+}
+
+// Elements that carry no exportable content
+const DROPPED_TAGS = new Set([
+  "button",
+  "head",
+  "iframe",
+  "link",
+  "meta",
+  "noscript",
+  "script",
+  "select",
+  "style",
+  "template",
+  "textarea",
+  "title",
+]);
+
+// Block elements without Markdown syntax of their own; their content is kept
+const CONTAINER_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "body",
+  "center",
+  "details",
+  "div",
+  "figcaption",
+  "figure",
+  "footer",
+  "header",
+  "html",
+  "main",
+  "nav",
+  "section",
+  "summary",
+]);
+
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS,
+  "blockquote",
+  "dd",
+  "dl",
+  "dt",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "table",
+  "ul",
+]);
+
+// Attributes that renderers use to keep the source of a Mermaid diagram
+const MERMAID_SOURCE_ATTRIBUTES = [
+  "data-mermaid-source",
+  "data-mermaid",
+  "data-source",
+  "data-code",
+];
+
+const DIAGRAM_PLACEHOLDER = "_[Diagram not exported: source not available]_";
+
+/**
+ * Converts an HTML fragment to Markdown
+ *
+ * Handles headings, paragraphs, emphasis, links, images, lists, tables,
+ * blockquotes, inline code and fenced code blocks (keeping the language).
+ * Mermaid diagrams become fenced `mermaid` blocks when their source is
+ * available and a placeholder otherwise. Works without a DOM.
+ *
+ * @param html - The HTML fragment to convert
+ * @param options - Conversion options
+ * @returns The Markdown text
+ */
+export function htmlToMarkdown(
+  html: string,
+  options: HtmlToMarkdownOptions = {}
+): string {
+  const context: RenderContext = { baseUrl: options.baseUrl, inTable: false };
+  return joinBlocks(renderBlocks(parseHtml(html), context));
+}
+
+function joinBlocks(blocks: string[]): string {
+  return blocks
+    .filter((block) => block.trim() !== "")
+    .join("\n\n")
+    .trim();
+}
+
+/**
+ * Renders nodes as Markdown blocks; runs of inline nodes become paragraphs
+ */
+function renderBlocks(nodes: HtmlNode[], context: RenderContext): string[] {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    if (inline.length > 0) {
+      blocks.push(renderParagraph(inline, context));
+      inline = [];
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === "element" && DROPPED_TAGS.has(node.tagName)) {
+      continue;
+    }
+    if (node.type === "element" && (isBlock(node) || containsBlock(node))) {
+      flushInline();
+      blocks.push(renderBlock(node, context));
+    } else {
+      inline.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks.filter((block) => block.trim() !== "");
+}
+
+/**
+ * Whether an element has block descendants, as when a span wraps paragraphs
+ */
+function containsBlock(element: HtmlElementNode): boolean {
+  return element.children.some(
+    (child) =>
+      child.type === "element" && (isBlock(child) || containsBlock(child))
+  );
+}
+
+function isBlock(element: HtmlElementNode): boolean {
+  return (
+    BLOCK_TAGS.has(element.tagName) ||
+    getMermaidSource(element) !== null ||
+    isMermaidSvg(element)
+  );
+}
+
+function renderBlock(element: HtmlElementNode, context: RenderContext): string {
+  const mermaidSource = getMermaidSource(element);
+  if (mermaidSource !== null) {
+    return renderCodeBlock(mermaidSource, "mermaid");
+  }
+  if (isMermaidSvg(element)) {
+    return DIAGRAM_PLACEHOLDER;
+  }
+
+  const tagName = element.tagName;
+  const heading = /^h([1-6])$/.exec(tagName);
+  if (heading) {
+    const text = renderInline(element.children, context)
+      .replace(/\s+/g, " ")
+      .trim();
+    return text ? `${"#".repeat(Number(heading[1]))} ${text}` : "";
+  }
+
+  switch (tagName) {
+    case "p":
+    case "dd":
+    case "li":
+      return renderParagraph(element.children, context);
+    case "dt":
+      return wrap(renderParagraph(element.children, context), "**");
+    case "pre":
+      return renderPre(element);
+    case "ul":
+    case "ol":
+      return renderList(element, context);
+    case "table":
+      return renderTable(element, context);
+    case "blockquote":
+      return prefixLines(
+        joinBlocks(renderBlocks(element.children, context)),
+        "> ",
+        ">"
+      );
+    case "hr":
+      return "---";
+    case "summary":
+      return wrap(renderParagraph(element.children, context), "**");
+    default:
+      return joinBlocks(renderBlocks(element.children, context));
+  }
+}
+
+/**
+ * Renders inline nodes as one paragraph, with hard line breaks kept
+ */
+function renderParagraph(nodes: HtmlNode[], context: RenderContext): string {
+  const lines = renderInline(nodes, context)
+    .split("\n")
+    .map((line) => escapeLineStart(line.replace(/ {2,}/g, " ").trim()));
+
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  while (lines.length > 0 && lines[0] === "") {
+    lines.shift();
+  }
+
+  return lines.join(context.inTable ? "<br>" : "  \n");
+}
+
+/**
+ * Renders inline nodes; line breaks are returned as "\n"
+ */
+function renderInline(nodes: HtmlNode[], context: RenderContext): string {
+  return nodes.map((node) => renderInlineNode(node, context)).join("");
+}
+
+function renderInlineNode(node: HtmlNode, context: RenderContext): string {
+  if (node.type === "text") {
+    return escapeText(node.text.replace(/[ \t\n\r\f]+/g, " "));
+  }
+
+  if (DROPPED_TAGS.has(node.tagName)) {
+    return "";
+  }
+  if (getMermaidSource(node) !== null || isMermaidSvg(node)) {
+    return DIAGRAM_PLACEHOLDER;
+  }
+
+  switch (node.tagName) {
+    case "br":
+      return "\n";
+    case "strong":
+    case "b":
+      return wrap(renderInline(node.children, context), "**");
+    case "em":
+    case "i":
+      return wrap(renderInline(node.children, context), "*");
+    case "del":
+    case "s":
+    case "strike":
+      return wrap(renderInline(node.children, context), "~~");
+    case "code":
+    case "kbd":
+    case "samp":
+    case "tt":
+      return renderCodeSpan(getTextContent(node).replace(/\s+/g, " "));
+    case "a":
+      return renderLink(node, context);
+    case "img":
+      return renderImage(node, context);
+    case "input":
+      return node.attributes.type === "checkbox"
+        ? "checked" in node.attributes
+          ? "[x] "
+          : "[ ] "
+        : "";
+    case "svg":
+      // Icons and other decorative graphics
+      return "";
+    default:
+      if (isBlock(node)) {
+        // Block content inside inline content, as in headings
+        return ` ${renderInline(node.children, context)} `;
+      }
+      return renderInline(node.children, context);
+  }
+}
+
+/**
+ * Wraps text in a delimiter, keeping surrounding whitespace outside of it
+ */
+function wrap(text: string, delimiter: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  if (!match[2]) {
+    return text;
+  }
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+function renderLink(element: HtmlElementNode, context: RenderContext): string {
+  const text = renderInline(element.children, context).trim();
+  const rawHref = element.attributes.href?.trim() ?? "";
+  const href = resolveUrl(rawHref, context);
+  if (!href) {
+    return text;
+  }
+  // Permalink markers next to headings
+  if (rawHref.startsWith("#") && /^[#¶§]?$/.test(text)) {
+    return "";
+  }
+  if (!text || text === escapeText(rawHref) || text === escapeText(href)) {
+    return `<${href}>`;
+  }
+  return `[${text}](${formatDestination(href)})`;
+}
+
+function renderImage(element: HtmlElementNode, context: RenderContext): string {
+  const src = resolveUrl(element.attributes.src, context);
+  if (!src) {
+    return "";
+  }
+  const alt = escapeText(element.attributes.alt ?? "").replace(/\s+/g, " ");
+  return `![${alt}](${formatDestination(src)})`;
+}
+
+/**
+ * Resolves a link target; script URLs are dropped
+ */
+function resolveUrl(
+  url: string | undefined,
+  context: RenderContext
+): string | null {
+  const trimmed = url?.trim();
+  if (!trimmed || /^javascript:/i.test(trimmed)) {
+    return null;
+  }
+  if (!context.baseUrl) {
+    return trimmed;
+  }
+  try {
+    return new URL(trimmed, context.baseUrl).href;
+  } catch {
+    return trimmed;
+  }
+}
+
+function formatDestination(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURI)}>` : url;
+}
+
+function renderCodeSpan(code: string): string {
+  if (!code) {
+    return "";
+  }
+  const fence = "`".repeat(longestRun(code, "`") + 1);
+  const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function renderPre(element: HtmlElementNode): string {
+  const code = element.children.find(
+    (child): child is HtmlElementNode =>
+      child.type === "element" && child.tagName === "code"
+  );
+  const language =
+    (code && getCodeLanguage(code)) || getCodeLanguage(element) || "";
+  return renderCodeBlock(getTextContent(element), language);
+}
+
+function renderCodeBlock(code: string, language: string): string {
+  const text = code.replace(/\r\n?/g, "\n").replace(/^\n|\n$/g, "");
+  const fence = "`".repeat(Math.max(3, longestRun(text, "`") + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * Reads the language of a code element from its classes or data attributes
+ */
+function getCodeLanguage(element: HtmlElementNode): string | null {
+  for (const className of getClassList(element)) {
+    const match = /^(?:language|lang)-(.+)$/.exec(className);
+    if (match) {
+      return match[1];
+    }
+  }
+  return (
+    element.attributes["data-language"] ||
+    element.attributes["data-lang"] ||
+    null
+  );
+}
+
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  let current = 0;
+  for (const c of text) {
+    current = c === char ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+function renderList(element: HtmlElementNode, context: RenderContext): string {
+  const ordered = element.tagName === "ol";
+  const start = parseInt(element.attributes.start ?? "1", 10);
+  let number = Number.isFinite(start) ? start : 1;
+
+  const items: string[] = [];
+  for (const child of element.children) {
+    if (child.type !== "element") {
+      continue;
+    }
+    // Lists directly inside lists belong to the previous item
+    if (child.tagName === "ul" || child.tagName === "ol") {
+      if (items.length > 0) {
+        const nested = renderList(child, context);
+        const indent = " ".repeat(items[items.length - 1].indexOf(" ") + 1);
+        items[items.length - 1] += `\n${indentLines(nested, indent)}`;
+      }
+      continue;
+    }
+
+    const marker = ordered ? `${number++}.` : "-";
+    const content = renderListItem(child, context);
+    items.push(
+      `${marker} ${indentLines(
+        content,
+        " ".repeat(marker.length + 1)
+      )}`.trimEnd()
+    );
+  }
+
+  return items.join("\n");
+}
+
+/**
+ * Renders a list item; nested lists follow its text without a blank line
+ */
+function renderListItem(
+  element: HtmlElementNode,
+  context: RenderContext
+): string {
+  let markdown = "";
+  let others: HtmlNode[] = [];
+
+  const append = (text: string, separator: string) => {
+    if (text) {
+      markdown = markdown ? `${markdown}${separator}${text}` : text;
+    }
+  };
+  const flushOthers = () => {
+    append(joinBlocks(renderBlocks(others, context)), "\n\n");
+    others = [];
+  };
+
+  for (const child of element.children) {
+    if (
+      child.type === "element" &&
+      (child.tagName === "ul" || child.tagName === "ol")
+    ) {
+      flushOthers();
+      append(renderList(child, context), "\n");
+    } else {
+      others.push(child);
+    }
+  }
+  flushOthers();
+
+  return markdown;
+}
+
+function renderTable(element: HtmlElementNode, context: RenderContext): string {
+  const rows: HtmlElementNode[] = [];
+  const collectRows = (nodes: HtmlNode[]) => {
+    for (const node of nodes) {
+      if (node.type !== "element") {
+        continue;
+      }
+      if (node.tagName === "tr") {
+        rows.push(node);
+      } else if (["thead", "tbody", "tfoot"].includes(node.tagName)) {
+        collectRows(node.children);
+      }
+    }
+  };
+  collectRows(element.children);
+
+  const cellContext: RenderContext = { ...context, inTable: true };
+  const table = rows
+    .map((row) =>
+      row.children.filter(
+        (cell): cell is HtmlElementNode =>
+          cell.type === "element" &&
+          (cell.tagName === "td" || cell.tagName === "th")
+      )
+    )
+    .filter((cells) => cells.length > 0);
+  if (table.length === 0) {
+    return "";
+  }
+
+  const columnCount = Math.max(...table.map((cells) => cells.length));
+  const renderRow = (cells: HtmlElementNode[]) => {
+    const texts = cells.map((cell) =>
+      renderBlocks(cell.children, cellContext)
+        .join("<br>")
+        .replace(/\n/g, " ")
+        .replace(/\|/g, "\\|")
+    );
+    while (texts.length < columnCount) {
+      texts.push("");
+    }
+    return `| ${texts.join(" | ")} |`;
+  };
+
+  const alignments = Array.from({ length: columnCount }, (_, column) => {
+    const cell = table[0][column];
+    const align = (
+      cell?.attributes.align ??
+      /text-align\s*:\s*(\w+)/i.exec(cell?.attributes.style ?? "")?.[1] ??
+      ""
+    ).toLowerCase();
+    return align === "center" ? ":---:" : align === "right" ? "---:" : "---";
+  });
+
+  return [
+    renderRow(table[0]),
+    `| ${alignments.join(" | ")} |`,
+    ...table.slice(1).map(renderRow),
+  ].join("\n");
+}
+
+/**
+ * Returns the Mermaid source kept by a diagram element, if any
+ */
+function getMermaidSource(element: HtmlElementNode): string | null {
+  const isMermaid =
+    getClassList(element).includes("mermaid") || isMermaidSvg(element);
+
+  for (const attribute of MERMAID_SOURCE_ATTRIBUTES) {
+    const source = element.attributes[attribute];
+    if (source && (isMermaid || attribute.startsWith("data-mermaid"))) {
+      return source;
+    }
+  }
+
+  // Diagrams that are not rendered yet still hold their source as text
+  if (
+    isMermaid &&
+    element.tagName !== "svg" &&
+    !containsElement(element, "svg")
+  ) {
+    const source = getTextContent(element).trim();
+    return source || null;
+  }
+
+  return null;
+}
+
+function isMermaidSvg(element: HtmlElementNode): boolean {
+  if (element.tagName !== "svg") {
+    return false;
+  }
+  return (
+    /^mermaid/i.test(element.attributes.id ?? "") ||
+    getClassList(element).some((className) => /mermaid/i.test(className)) ||
+    "aria-roledescription" in element.attributes
+  );
+}
+
+function containsElement(element: HtmlElementNode, tagName: string): boolean {
+  return element.children.some(
+    (child) =>
+      child.type === "element" &&
+      (child.tagName === tagName || containsElement(child, tagName))
+  );
+}
+
+/**
+ * Escapes characters that Markdown would read as inline syntax
+ */
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]<]/g, "\\$&");
+}
+
+/**
+ * Escapes text at the start of a line that Markdown would read as a block
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(#{1,6}(?:\s|$)|>|[-+](?:\s|$)|-+\s*$|=+\s*$)/, "\\$1")
+    .replace(/^(\d+)([.)])(\s|$)/, "$1\\$2$3");
+}
+
+function prefixLines(text: string, prefix: string, emptyPrefix: string) {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${prefix}${line}` : emptyPrefix))
+    .join("\n");
+}
+
+/**
+ * Indents all lines but the first, leaving blank lines empty
+ */
+function indentLines(text: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 || !line ? line : `${indent}${line}`))
+    .join("\n");
+}
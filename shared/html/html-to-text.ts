@@ -0,0 +1,43 @@
+/**
+ * HTML utility for extracting readable plain text
+ */
+
+import { decodeHtmlEntities } from "./html-entities";
+
+const BLOCK_TAGS =
+  "address|article|aside|blockquote|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tbody|thead|tfoot|tr|ul";
+
+/**
+ * Converts an HTML string to plain text, keeping block boundaries as line
+ * breaks. Works without a DOM so it can run in any extension context.
+ *
+ * @param html - The HTML string to convert
+ * @returns The text content with collapsed whitespace
+ */
+export function htmlToPlainText(html: string): string {
+  if (!html) {
+    return "";
+  }
+
+  const text = html
+    // Drop non-content elements; diagrams are replaced by a marker
+    .replace(/<(script|style|template)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<svg\b[^>]*>[\s\S]*?<\/svg\s*>/gi, "\n[diagram]\n")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    // Block boundaries and explicit line breaks become newlines
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(new RegExp(`<\\/?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+    .replace(/<\/t[dh]\s*>/gi, "\t")
+    // Remaining tags are inline and are removed
+    .replace(/<[^>]+>/g, "");
+
+  return (
+    decodeHtmlEntities(text)
+      // Collapse whitespace within lines and runs of blank lines
+      .split("\n")
+      .map((line) => line.replace(/[ \t\f\v ]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
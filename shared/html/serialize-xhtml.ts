@@ -0,0 +1,227 @@
+/**
+ * Serializes parsed HTML as well-formed XML, for XHTML and SVG files
+ *
+ * The HTML parser lowercases names, which XML readers do not undo the way
+ * browsers do for inline SVG, so the mixed-case SVG names are restored here.
+ */
+
+import {
+  HtmlElementNode,
+  HtmlNode,
+  escapeHtml,
+  isVoidElement,
+} from "./html-parser";
+
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+const SVG_TAG_NAMES = [
+  "altGlyph",
+  "altGlyphDef",
+  "altGlyphItem",
+  "animateColor",
+  "animateMotion",
+  "animateTransform",
+  "clipPath",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feConvolveMatrix",
+  "feDiffuseLighting",
+  "feDisplacementMap",
+  "feDistantLight",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feImage",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "fePointLight",
+  "feSpecularLighting",
+  "feSpotLight",
+  "feTile",
+  "feTurbulence",
+  "foreignObject",
+  "glyphRef",
+  "linearGradient",
+  "radialGradient",
+  "textPath",
+];
+
+const SVG_ATTRIBUTE_NAMES = [
+  "attributeName",
+  "attributeType",
+  "baseFrequency",
+  "baseProfile",
+  "calcMode",
+  "clipPathUnits",
+  "diffuseConstant",
+  "edgeMode",
+  "filterUnits",
+  "glyphRef",
+  "gradientTransform",
+  "gradientUnits",
+  "kernelMatrix",
+  "kernelUnitLength",
+  "keyPoints",
+  "keySplines",
+  "keyTimes",
+  "lengthAdjust",
+  "limitingConeAngle",
+  "markerHeight",
+  "markerUnits",
+  "markerWidth",
+  "maskContentUnits",
+  "maskUnits",
+  "numOctaves",
+  "pathLength",
+  "patternContentUnits",
+  "patternTransform",
+  "patternUnits",
+  "pointsAtX",
+  "pointsAtY",
+  "pointsAtZ",
+  "preserveAlpha",
+  "preserveAspectRatio",
+  "primitiveUnits",
+  "refX",
+  "refY",
+  "repeatCount",
+  "repeatDur",
+  "requiredExtensions",
+  "requiredFeatures",
+  "specularConstant",
+  "specularExponent",
+  "spreadMethod",
+  "startOffset",
+  "stdDeviation",
+  "stitchTiles",
+  "surfaceScale",
+  "systemLanguage",
+  "tableValues",
+  "targetX",
+  "targetY",
+  "textLength",
+  "viewBox",
+  "viewTarget",
+  "xChannelSelector",
+  "yChannelSelector",
+  "zoomAndPan",
+];
+
+const toCaseMap = (names: string[]) =>
+  new Map(names.map((name) => [name.toLowerCase(), name]));
+
+const SVG_TAGS = toCaseMap(SVG_TAG_NAMES);
+const SVG_ATTRIBUTES = toCaseMap(SVG_ATTRIBUTE_NAMES);
+
+const XML_NAME = /^[A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?$/;
+
+// Characters that XML does not allow anywhere
+const INVALID_XML_CHARACTERS =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Serializes nodes as XHTML content
+ *
+ * @param nodes - Nodes as returned by parseHtml
+ * @returns Well-formed XHTML markup
+ */
+export function serializeXhtml(nodes: HtmlNode[]): string {
+  return nodes.map((node) => serializeNode(node, false)).join("");
+}
+
+/**
+ * Serializes an svg element as a standalone SVG file
+ *
+ * @param svg - The svg element
+ * @returns The SVG document
+ */
+export function serializeSvgDocument(svg: HtmlElementNode): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeNode(
+    svg,
+    false
+  )}\n`;
+}
+
+function serializeNode(
+  node: HtmlNode,
+  inSvg: boolean,
+  namespace?: string
+): string {
+  if (node.type === "text") {
+    return escapeXml(node.text);
+  }
+
+  const isSvg = inSvg || node.tagName === "svg";
+  const tagName = isSvg
+    ? SVG_TAGS.get(node.tagName) ?? node.tagName
+    : node.tagName;
+  if (!XML_NAME.test(tagName)) {
+    return serializeChildren(node, inSvg);
+  }
+
+  // Namespaces are declared where SVG starts and where HTML starts again
+  const declarations: Record<string, string> =
+    isSvg && !inSvg
+      ? { xmlns: SVG_NAMESPACE, "xmlns:xlink": XLINK_NAMESPACE }
+      : namespace
+      ? { xmlns: namespace }
+      : {};
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => [
+      isSvg ? SVG_ATTRIBUTES.get(name) ?? name : name,
+      value,
+    ])
+    .filter(([name]) => isAllowedAttributeName(name, isSvg))
+    .map(([name, value]) => ` ${name}="${escapeXml(value, true)}"`);
+  const serializedAttributes = [
+    ...Object.entries(declarations).map(
+      ([name, value]) => ` ${name}="${value}"`
+    ),
+    ...attributes,
+  ].join("");
+
+  if (node.children.length === 0 && (isSvg || isVoidElement(node.tagName))) {
+    return `<${tagName}${serializedAttributes}/>`;
+  }
+
+  // Content of foreignObject is HTML again
+  const children =
+    tagName === "foreignObject"
+      ? node.children
+          .map((child) => serializeNode(child, false, XHTML_NAMESPACE))
+          .join("")
+      : serializeChildren(node, isSvg);
+  return `<${tagName}${serializedAttributes}>${children}</${tagName}>`;
+}
+
+function serializeChildren(node: HtmlElementNode, inSvg: boolean): string {
+  return node.children.map((child) => serializeNode(child, inSvg)).join("");
+}
+
+// Namespaces are declared by the serializer, and prefixed names need a
+// declared namespace: xml: always is and xlink: is within SVG
+function isAllowedAttributeName(name: string, inSvg: boolean): boolean {
+  if (!XML_NAME.test(name)) {
+    return false;
+  }
+  const prefix = name.includes(":") ? name.split(":")[0] : null;
+  return (
+    (prefix === null && name !== "xmlns") ||
+    prefix === "xml" ||
+    (inSvg && prefix === "xlink")
+  );
+}
+
+function escapeXml(text: string, inAttribute = false): string {
+  return escapeHtml(text.replace(INVALID_XML_CHARACTERS, ""), inAttribute);
+}
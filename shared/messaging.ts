@@ -1,6 +1,20 @@
 import {
   AddHeadingSectionInput,
+  AddHeadingSectionsInput,
   GetHeadingSectionsInput,
+  UpdateHeadingSectionTagsInput,
+  UpdateHeadingSectionInput,
+  CreateCollectionInput,
+  RenameCollectionInput,
+  DeleteCollectionInput,
+  SetActiveCollectionInput,
+  CheckSectionFreshnessInput,
+  AddClipInput,
+  GetClipsInput,
+  RemoveClipInput,
+  ImportBackupInput,
+  CreateSavedSearchInput,
+  DeleteSavedSearchInput,
 } from "../application/usecases/heading-collection";
 
 // Message types for communication between extension components
@@ -19,6 +33,11 @@ export interface AddHeadingSectionMessage {
   headingSection: AddHeadingSectionInput;
 }
 
+export interface AddHeadingSectionsMessage {
+  action: "addHeadingSections";
+  input: AddHeadingSectionsInput;
+}
+
 export interface GetHeadingSectionsMessage {
   action: "getHeadingSections";
   input?: GetHeadingSectionsInput;
@@ -33,10 +52,104 @@ export interface RemoveHeadingSectionMessage {
   sectionId: string;
 }
 
+export interface UpdateHeadingSectionTagsMessage {
+  action: "updateHeadingSectionTags";
+  input: UpdateHeadingSectionTagsInput;
+}
+
+export interface UpdateHeadingSectionMessage {
+  action: "updateHeadingSection";
+  input: UpdateHeadingSectionInput;
+}
+
+export interface GetCollectionsMessage {
+  action: "getCollections";
+}
+
+export interface CreateCollectionMessage {
+  action: "createCollection";
+  input: CreateCollectionInput;
+}
+
+export interface RenameCollectionMessage {
+  action: "renameCollection";
+  input: RenameCollectionInput;
+}
+
+export interface DeleteCollectionMessage {
+  action: "deleteCollection";
+  input: DeleteCollectionInput;
+}
+
+export interface SetActiveCollectionMessage {
+  action: "setActiveCollection";
+  input: SetActiveCollectionInput;
+}
+
+export interface CheckSectionFreshnessMessage {
+  action: "checkSectionFreshness";
+  input: CheckSectionFreshnessInput;
+}
+
+export interface AddClipMessage {
+  action: "addClip";
+  input: AddClipInput;
+}
+
+export interface GetClipsMessage {
+  action: "getClips";
+  input?: GetClipsInput;
+}
+
+export interface RemoveClipMessage {
+  action: "removeClip";
+  input: RemoveClipInput;
+}
+
+export interface ExportBackupMessage {
+  action: "exportBackup";
+}
+
+export interface ImportBackupMessage {
+  action: "importBackup";
+  input: ImportBackupInput;
+}
+
+export interface GetSavedSearchesMessage {
+  action: "getSavedSearches";
+}
+
+export interface CreateSavedSearchMessage {
+  action: "createSavedSearch";
+  input: CreateSavedSearchInput;
+}
+
+export interface DeleteSavedSearchMessage {
+  action: "deleteSavedSearch";
+  input: DeleteSavedSearchInput;
+}
+
 export type Message =
   | SwitchTabMessage
   | CheckCanSwitchMessage
   | AddHeadingSectionMessage
+  | AddHeadingSectionsMessage
   | GetHeadingSectionsMessage
   | ClearAllHeadingSectionsMessage
-  | RemoveHeadingSectionMessage;
+  | RemoveHeadingSectionMessage
+  | UpdateHeadingSectionTagsMessage
+  | UpdateHeadingSectionMessage
+  | GetCollectionsMessage
+  | CreateCollectionMessage
+  | RenameCollectionMessage
+  | DeleteCollectionMessage
+  | SetActiveCollectionMessage
+  | CheckSectionFreshnessMessage
+  | AddClipMessage
+  | GetClipsMessage
+  | RemoveClipMessage
+  | ExportBackupMessage
+  | ImportBackupMessage
+  | GetSavedSearchesMessage
+  | CreateSavedSearchMessage
+  | DeleteSavedSearchMessage;
@@ -0,0 +1,92 @@
+/**
+ * Builds search result snippets with the matching words marked
+ */
+
+import { tokenize } from "./section-search-index";
+
+export interface SnippetPart {
+  text: string;
+  /** Whether the part is a matching word */
+  match: boolean;
+}
+
+// Context kept before the first match of a snippet
+const LEAD_LENGTH = 40;
+
+/**
+ * Picks the part of a text with the most matching words and marks them
+ *
+ * Without matches the snippet is the start of the text.
+ *
+ * @param text - Plain text to take the snippet from
+ * @param matchedTerms - Indexed terms the search matched
+ * @param maxLength - Maximum snippet length, not counting ellipses
+ * @returns The snippet as plain and matching parts
+ */
+export function buildSearchSnippet(
+  text: string,
+  matchedTerms: ReadonlyArray<string>,
+  maxLength = 150
+): SnippetPart[] {
+  const content = text.replace(/\s+/g, " ").trim();
+  const terms = new Set(matchedTerms);
+  const matches = Array.from(content.matchAll(/[\p{L}\p{N}_]+/gu), (match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    word: match[0],
+  })).filter(({ word }) => tokenize(word).some((term) => terms.has(term)));
+
+  // Start shortly before the match that has the most others after it
+  let start = 0;
+  let bestCount = 0;
+  matches.forEach((match, index) => {
+    const windowStart = Math.max(0, match.start - LEAD_LENGTH);
+    const count = matches
+      .slice(index)
+      .filter((other) => other.end <= windowStart + maxLength).length;
+    if (count > bestCount) {
+      bestCount = count;
+      start = windowStart;
+    }
+  });
+
+  // Cut at word boundaries
+  if (start > 0) {
+    const space = content.indexOf(" ", start);
+    const firstMatch = matches.find((match) => match.start >= start);
+    if (space !== -1 && (!firstMatch || space < firstMatch.start)) {
+      start = space + 1;
+    }
+  }
+  let end = Math.min(content.length, start + maxLength);
+  if (end < content.length) {
+    const space = content.lastIndexOf(" ", end);
+    if (space > start) {
+      end = space;
+    }
+  }
+
+  const parts: SnippetPart[] = [];
+  let position = start;
+  for (const match of matches) {
+    if (match.start < start || match.end > end) {
+      continue;
+    }
+    if (match.start > position) {
+      parts.push({ text: content.slice(position, match.start), match: false });
+    }
+    parts.push({ text: match.word, match: true });
+    position = match.end;
+  }
+  if (position < end) {
+    parts.push({ text: content.slice(position, end), match: false });
+  }
+
+  if (start > 0) {
+    parts.unshift({ text: "…", match: false });
+  }
+  if (end < content.length) {
+    parts.push({ text: "…", match: false });
+  }
+  return parts;
+}
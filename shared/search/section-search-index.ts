@@ -0,0 +1,420 @@
+/**
+ * Full-text index over collected sections
+ *
+ * Keeps an inverted index of the terms in each section's title, note, plain
+ * text content and page URL so that a query looks up postings instead of
+ * scanning every stored HTML string. Results are ranked with BM25, weighting
+ * title matches above note, content and URL matches, and tolerate typos.
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import { htmlToPlainText } from "../html/html-to-text";
+
+export type SearchField = "title" | "note" | "content" | "url";
+
+export const SEARCH_FIELDS: ReadonlyArray<SearchField> = [
+  "title",
+  "note",
+  "content",
+  "url",
+];
+
+export interface SearchHit {
+  sectionId: string;
+  /** Relevance; higher is better */
+  score: number;
+  /** Indexed terms the query matched, for highlighting */
+  matchedTerms: string[];
+}
+
+export interface SearchOptions {
+  /** Fields to match in (default: all fields) */
+  fields?: ReadonlyArray<SearchField>;
+  /** Match whole terms only, without prefixes or typos */
+  exact?: boolean;
+}
+
+type FieldCounts = Partial<Record<SearchField, number>>;
+
+interface IndexedDocument {
+  /** When the indexed content was captured, as milliseconds */
+  capturedAt: number;
+  /** Indexed note; notes change without a new capture */
+  note: string;
+  lengths: Record<SearchField, number>;
+  terms: string[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  note: 1.5,
+  content: 1,
+  url: 0.5,
+};
+
+// Matches of a query term as the start of a longer term, or with typos,
+// count for less
+const PREFIX_MATCH_WEIGHT = 0.5;
+const TYPO_MATCH_WEIGHTS = [0.4, 0.2];
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Splits text into lowercase search terms; camelCase and snake_case
+ * identifiers are indexed whole and by their parts
+ */
+export function tokenize(text: string, splitIdentifiers = true): string[] {
+  const terms: string[] = [];
+  for (const word of text.normalize("NFKC").match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const parts = word
+      .split("_")
+      .flatMap((part) =>
+        splitIdentifiers
+          ? part.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?[\p{Ll}\p{Lo}]+|\p{N}+/gu) ?? [
+              part,
+            ]
+          : [part]
+      )
+      .filter(Boolean);
+
+    terms.push(word.toLowerCase());
+    if (parts.length > 1) {
+      terms.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return terms;
+}
+
+export class SectionSearchIndex {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Map<string, FieldCounts>>();
+  private readonly totalLengths: Record<SearchField, number> = {
+    title: 0,
+    note: 0,
+    content: 0,
+    url: 0,
+  };
+  // Terms in order, built on demand for prefix lookups
+  private sortedTerms: string[] | null = null;
+
+  /**
+   * Number of indexed sections
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Adds a section or reindexes it if its text changed
+   *
+   * The title and URL are part of the section ID and the content only
+   * changes with a new capture, so a section changed when its capture time
+   * or note did; the content is not compared.
+   */
+  upsert(section: HeadingSection): void {
+    const capturedAt = (section.updatedAt ?? section.addedAt).getTime();
+    const note = section.note ?? "";
+
+    const existing = this.documents.get(section.sectionId);
+    if (existing?.capturedAt === capturedAt && existing.note === note) {
+      return;
+    }
+    if (existing) {
+      this.remove(section.sectionId);
+    }
+
+    const fieldTerms: Record<SearchField, string[]> = {
+      title: tokenize(section.titleText),
+      note: tokenize(note),
+      content: tokenize(htmlToPlainText(section.contentHtml)),
+      url: tokenize(urlText(section.sourceUrl)),
+    };
+
+    const counts = new Map<string, FieldCounts>();
+    const lengths = {} as Record<SearchField, number>;
+    for (const field of SEARCH_FIELDS) {
+      lengths[field] = fieldTerms[field].length;
+      this.totalLengths[field] += lengths[field];
+      for (const term of fieldTerms[field]) {
+        const termCounts = counts.get(term) ?? {};
+        termCounts[field] = (termCounts[field] ?? 0) + 1;
+        counts.set(term, termCounts);
+      }
+    }
+
+    for (const [term, termCounts] of counts) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.sortedTerms = null;
+      }
+      posting.set(section.sectionId, termCounts);
+    }
+
+    this.documents.set(section.sectionId, {
+      capturedAt,
+      note,
+      lengths,
+      terms: Array.from(counts.keys()),
+    });
+  }
+
+  /**
+   * Removes a section from the index
+   *
+   * @returns true if the section was indexed
+   */
+  remove(sectionId: string): boolean {
+    const document = this.documents.get(sectionId);
+    if (!document) {
+      return false;
+    }
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(sectionId);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    for (const field of SEARCH_FIELDS) {
+      this.totalLengths[field] -= document.lengths[field];
+    }
+    this.documents.delete(sectionId);
+    return true;
+  }
+
+  /**
+   * Brings the index in line with the given sections: new and changed
+   * sections are indexed and sections that are gone are removed. Unchanged
+   * sections are not tokenized again.
+   */
+  sync(sections: ReadonlyArray<HeadingSection>): void {
+    const ids = new Set(sections.map((section) => section.sectionId));
+    for (const sectionId of Array.from(this.documents.keys())) {
+      if (!ids.has(sectionId)) {
+        this.remove(sectionId);
+      }
+    }
+    sections.forEach((section) => this.upsert(section));
+  }
+
+  /**
+   * Removes all sections
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    for (const field of SEARCH_FIELDS) {
+      this.totalLengths[field] = 0;
+    }
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Finds the sections matching every term of the query, best match first
+   *
+   * Each query term matches indexed terms equal to it, starting with it, or
+   * differing by a typo (one edit, two for long words), scored in that order.
+   * Word order does not matter.
+   *
+   * @param query - Search text
+   * @param options - Fields to search in
+   * @returns Matching sections ranked by relevance
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query, false)));
+    const fields = options.fields ?? SEARCH_FIELDS;
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    let matches: Map<string, SearchHit> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termMatches = this.scoreTerm(queryTerm, fields, !!options.exact);
+      if (matches === null) {
+        matches = termMatches;
+        continue;
+      }
+      // Every query term has to match
+      const combined = new Map<string, SearchHit>();
+      for (const [sectionId, hit] of matches) {
+        const termMatch = termMatches.get(sectionId);
+        if (termMatch) {
+          combined.set(sectionId, {
+            sectionId,
+            score: hit.score + termMatch.score,
+            matchedTerms: [...hit.matchedTerms, ...termMatch.matchedTerms],
+          });
+        }
+      }
+      matches = combined;
+      if (matches.size === 0) {
+        break;
+      }
+    }
+
+    return Array.from(matches?.values() ?? []).sort(
+      (a, b) => b.score - a.score
+    );
+  }
+
+  /**
+   * Scores the sections matching one query term, keeping the best of the
+   * indexed terms it matches for each section
+   */
+  private scoreTerm(
+    queryTerm: string,
+    fields: ReadonlyArray<SearchField>,
+    exact: boolean
+  ): Map<string, SearchHit> {
+    const matches = new Map<string, SearchHit>();
+    const terms = exact
+      ? this.postings.has(queryTerm)
+        ? [{ term: queryTerm, weight: 1 }]
+        : []
+      : this.findTerms(queryTerm);
+
+    for (const { term, weight } of terms) {
+      const posting = this.postings.get(term)!;
+      const idf = Math.log(
+        1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5)
+      );
+
+      for (const [sectionId, counts] of posting) {
+        const document = this.documents.get(sectionId)!;
+        let score = 0;
+        for (const field of fields) {
+          const count = counts[field];
+          if (!count) {
+            continue;
+          }
+          const averageLength =
+            this.totalLengths[field] / this.documents.size || 1;
+          const normalizedCount =
+            (count * (K1 + 1)) /
+            (count +
+              K1 * (1 - B + (B * document.lengths[field]) / averageLength));
+          score += FIELD_WEIGHTS[field] * idf * normalizedCount;
+        }
+
+        const best = matches.get(sectionId);
+        if (score > 0 && (!best || score * weight > best.score)) {
+          matches.set(sectionId, {
+            sectionId,
+            score: score * weight,
+            matchedTerms: [term],
+          });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds the indexed terms a query term matches, with the weight of the
+   * match
+   */
+  private findTerms(queryTerm: string): { term: string; weight: number }[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+    const terms = this.sortedTerms;
+
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (terms[middle] < queryTerm) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const matches: { term: string; weight: number }[] = [];
+    let i = low;
+    for (; i < terms.length && terms[i].startsWith(queryTerm); i++) {
+      matches.push({
+        term: terms[i],
+        weight: terms[i] === queryTerm ? 1 : PREFIX_MATCH_WEIGHT,
+      });
+    }
+
+    const maxDistance = maxTypos(queryTerm);
+    if (maxDistance > 0) {
+      // Prefix matches (from low to i) are already covered
+      terms.forEach((term, index) => {
+        if (index >= low && index < i) {
+          return;
+        }
+        const distance = editDistance(queryTerm, term, maxDistance);
+        if (distance <= maxDistance) {
+          matches.push({ term, weight: TYPO_MATCH_WEIGHTS[distance - 1] });
+        }
+      });
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Number of typos tolerated in a query term; short terms have to match
+ * exactly, or too many unrelated terms would match
+ */
+function maxTypos(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent characters; stops early once it exceeds the limit
+ *
+ * @returns The distance, or limit + 1 if it is larger than the limit
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > limit) {
+      return limit + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], limit + 1);
+}
+
+// Repository and page slug are what identify a page to a reader
+function urlText(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return url;
+  }
+}
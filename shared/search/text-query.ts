@@ -0,0 +1,135 @@
+/**
+ * Runs the text part of a search query against the search index
+ */
+
+import { HeadingSection } from "../../domain/heading-collection/heading-section";
+import { htmlToPlainText } from "../html/html-to-text";
+import {
+  SEARCH_FIELDS,
+  SearchField,
+  SectionSearchIndex,
+  tokenize,
+} from "./section-search-index";
+
+export interface TextQuery {
+  /** Words that must match, typos allowed */
+  terms: ReadonlyArray<string>;
+  /** Text that must appear as written, ignoring case */
+  phrases: ReadonlyArray<string>;
+  /** Words or text that must not appear */
+  excluded: ReadonlyArray<string>;
+}
+
+export interface TextQueryMatch {
+  section: HeadingSection;
+  score: number;
+  /** Indexed terms the query matched, for highlighting */
+  matchedTerms: string[];
+}
+
+/**
+ * Finds the sections matching a text query, best match first
+ *
+ * Terms and the words of phrases are looked up in the index; phrases and
+ * excluded text are then checked against the section text. A query with only
+ * excluded text keeps the given order.
+ *
+ * @param index - Index holding at least the given sections
+ * @param sections - Sections to search
+ * @param query - Text to match
+ * @param fields - Fields to match in (default: all fields)
+ * @returns The matching sections
+ */
+export function runTextQuery(
+  index: SectionSearchIndex,
+  sections: ReadonlyArray<HeadingSection>,
+  query: TextQuery,
+  fields: ReadonlyArray<SearchField> = SEARCH_FIELDS
+): TextQueryMatch[] {
+  const words = [...query.terms, ...query.phrases].join(" ");
+
+  let matches: TextQueryMatch[];
+  if (tokenize(words, false).length === 0) {
+    matches = sections.map((section) => ({
+      section,
+      score: 0,
+      matchedTerms: [],
+    }));
+  } else {
+    const byId = new Map(
+      sections.map((section) => [section.sectionId, section])
+    );
+    matches = [];
+    for (const hit of index.search(words, { fields })) {
+      const section = byId.get(hit.sectionId);
+      if (section) {
+        matches.push({ ...hit, section });
+      }
+    }
+  }
+
+  const texts = new Map<string, string>();
+  const sectionText = (section: HeadingSection): string => {
+    let text = texts.get(section.sectionId);
+    if (text === undefined) {
+      text = normalizeText(
+        fields.map((field) => fieldText(section, field)).join("\n")
+      );
+      texts.set(section.sectionId, text);
+    }
+    return text;
+  };
+
+  const phrases = query.phrases.map(normalizeText).filter(Boolean);
+  if (phrases.length > 0) {
+    matches = matches.filter(({ section }) =>
+      phrases.every((phrase) => sectionText(section).includes(phrase))
+    );
+  }
+
+  for (const excluded of query.excluded) {
+    const excludedTerms = tokenize(excluded, false);
+    if (excludedTerms.length === 1 && !/\s/.test(excluded.trim())) {
+      // A single word is excluded as a whole term, like it is matched
+      const ids = new Set(
+        index
+          .search(excluded, { fields, exact: true })
+          .map((hit) => hit.sectionId)
+      );
+      matches = matches.filter(({ section }) => !ids.has(section.sectionId));
+    } else if (excludedTerms.length > 0) {
+      const phrase = normalizeText(excluded);
+      matches = matches.filter(
+        ({ section }) => !sectionText(section).includes(phrase)
+      );
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Checks whether a text query has anything to match or exclude
+ */
+export function hasTextQuery(query: TextQuery): boolean {
+  return [...query.terms, ...query.phrases, ...query.excluded].some(
+    (text) => text.trim() !== ""
+  );
+}
+
+function fieldText(section: HeadingSection, field: SearchField): string {
+  switch (field) {
+    case "title":
+      return section.titleText;
+    case "note":
+      return section.note ?? "";
+    case "content":
+      return htmlToPlainText(section.contentHtml);
+    case "url":
+      return section.sourceUrl;
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,64 @@
+/**
+ * URL helpers for DeepWiki pages
+ */
+
+/**
+ * Repository and page of a DeepWiki URL
+ */
+export interface DeepWikiUrlInfo {
+  /** Repository as "owner/name" */
+  repo: string;
+  /** Readable page title, "Overview" for the repository top page */
+  pageTitle: string;
+  /** URL of the repository top page */
+  repoUrl: string;
+}
+
+/**
+ * Extracts repository and page info from a DeepWiki URL
+ *
+ * @param url - A DeepWiki page URL such as https://deepwiki.com/owner/repo/1-page
+ * @returns The repository and page, with fallbacks for other URLs
+ */
+export function parseDeepWikiUrl(url: string): DeepWikiUrlInfo {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split("/").filter((p) => p);
+
+    if (pathParts.length >= 2) {
+      const repo = `${pathParts[0]}/${pathParts[1]}`;
+      const repoUrl = `${urlObj.origin}/${repo}`;
+
+      if (pathParts.length > 2) {
+        // Extract page title from slug
+        const pageSlug = pathParts.slice(2).join("-");
+        const pageTitle = formatPageTitle(pageSlug);
+        return { repo, pageTitle, repoUrl };
+      }
+
+      // Repository top page
+      return { repo, pageTitle: "Overview", repoUrl };
+    }
+
+    return { repo: urlObj.hostname, pageTitle: "", repoUrl: url };
+  } catch {
+    return { repo: "Unknown", pageTitle: "", repoUrl: url };
+  }
+}
+
+/**
+ * Converts a URL slug to a readable title
+ *
+ * @param slug - Page slug such as "1.1-application-startup"
+ * @returns Title Case text without the numbering prefix
+ */
+export function formatPageTitle(slug: string): string {
+  // Remove number prefix (e.g., "1.1-", "1-", "2.3.1-")
+  const cleanSlug = slug.replace(/^\d+(\.\d+)*-/, "");
+
+  // Convert kebab-case to Title Case
+  return cleanSlug
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
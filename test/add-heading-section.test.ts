@@ -7,6 +7,10 @@ import {
 import {
   HeadingSection,
   IHeadingSectionRepository,
+  SectionPageQuery,
+  generateSectionId,
+  sectionMatchesTags,
+  TagMatchMode,
 } from "../domain/heading-collection";
 import { RepositoryError, ValidationError, Result } from "../domain/shared";
 
@@ -52,6 +56,14 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
     return Result.success(undefined);
   }
 
+  async addSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (this.shouldThrowError) {
+      throw this.shouldThrowError;
+    }
+    this.sections.push(...sections);
+    return Result.success(undefined);
+  }
+
   async removeSection(sectionId: string): Promise<Result<boolean>> {
     const initialLength = this.sections.length;
     this.sections = this.sections.filter((s) => s.sectionId !== sectionId);
@@ -68,6 +80,14 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
     return Result.success(removedCount);
   }
 
+  async replaceAllSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (this.shouldThrowError) {
+      throw this.shouldThrowError;
+    }
+    this.sections = [...sections];
+    return Result.success(undefined);
+  }
+
   async clearAllSections(): Promise<Result<void>> {
     this.sections = [];
     return Result.success(undefined);
@@ -81,6 +101,13 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
     return this.sections.filter((s) => s.level === level);
   }
 
+  async findSectionsByTags(
+    tags: string[],
+    match: TagMatchMode
+  ): Promise<HeadingSection[]> {
+    return this.sections.filter((s) => sectionMatchesTags(s, tags, match));
+  }
+
   async searchSectionsByTitle(searchTerm: string): Promise<HeadingSection[]> {
     return this.sections.filter((s) =>
       s.titleText.toLowerCase().includes(searchTerm.toLowerCase())
@@ -89,14 +116,21 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
 
   async getSectionsPage(
     offset: number,
-    limit: number
+    limit: number,
+    query: SectionPageQuery = {}
   ): Promise<{
     sections: HeadingSection[];
     total: number;
     hasMore: boolean;
   }> {
-    const total = this.sections.length;
-    const sections = this.sections.slice(offset, offset + limit);
+    let matching = query.filter
+      ? this.sections.filter(query.filter)
+      : [...this.sections];
+    if (query.compare) {
+      matching.sort(query.compare);
+    }
+    const total = matching.length;
+    const sections = matching.slice(offset, offset + limit);
     const hasMore = offset + limit < total;
     return { sections, total, hasMore };
   }
@@ -223,13 +257,15 @@ describe("AddHeadingSectionUseCase", () => {
       // Assert
       expect(result.success).toBe(true);
       if (result.success) {
-        // Check that sectionId follows the new format: hostname-h{level}-title-timestamp-random
-        expect(result.sectionId).toMatch(
-          /^example-com-h1-auto-generated-id-test-[a-z0-9]+-[a-z0-9]+$/
+        // The ID is derived from the page URL, heading path and title
+        expect(result.sectionId).toMatch(/^sec-[0-9a-f]{32}$/);
+        expect(result.sectionId).toBe(
+          generateSectionId({
+            sourceUrl: "https://example.com/auto-id",
+            level: 1,
+            titleText: "Auto Generated ID Test",
+          })
         );
-        expect(result.sectionId).toContain("example-com");
-        expect(result.sectionId).toContain("h1");
-        expect(result.sectionId).toContain("auto-generated-id-test");
       }
     });
 
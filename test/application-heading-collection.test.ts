@@ -9,6 +9,9 @@ import {
 import {
   HeadingSection,
   IHeadingSectionRepository,
+  SectionPageQuery,
+  sectionMatchesTags,
+  TagMatchMode,
 } from "../domain/heading-collection";
 import { RepositoryError, ValidationError, Result, Id } from "../domain/shared";
 
@@ -80,6 +83,14 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
     return this.createSuccessResult<void>(undefined);
   }
 
+  async addSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (this.shouldThrowError) {
+      return this.createErrorResult<void>("Test error in addSections");
+    }
+    this.sections.push(...sections);
+    return this.createSuccessResult<void>(undefined);
+  }
+
   async removeSection(sectionId: Id): Promise<Result<boolean>> {
     if (this.shouldThrowError) {
       return this.createErrorResult<boolean>("Test error in removeSection");
@@ -106,6 +117,14 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
     return this.createSuccessResult(removed);
   }
 
+  async replaceAllSections(sections: HeadingSection[]): Promise<Result<void>> {
+    if (this.shouldThrowError) {
+      return this.createErrorResult<void>("Test error in replaceAllSections");
+    }
+    this.sections = [...sections];
+    return this.createSuccessResult<void>(undefined);
+  }
+
   async clearAllSections(): Promise<Result<void>> {
     if (this.shouldThrowError) {
       return this.createErrorResult<void>("Test error in clearAllSections");
@@ -124,6 +143,14 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
     return this.sections.filter((s) => s.level === level);
   }
 
+  async findSectionsByTags(
+    tags: string[],
+    match: TagMatchMode
+  ): Promise<HeadingSection[]> {
+    this.throwIfErrorSet();
+    return this.sections.filter((s) => sectionMatchesTags(s, tags, match));
+  }
+
   async searchSectionsByTitle(searchTerm: string): Promise<HeadingSection[]> {
     this.throwIfErrorSet();
     const lowerSearchTerm = searchTerm.toLowerCase();
@@ -134,15 +161,22 @@ class MockHeadingSectionRepository implements IHeadingSectionRepository {
 
   async getSectionsPage(
     offset: number,
-    limit: number
+    limit: number,
+    query: SectionPageQuery = {}
   ): Promise<{
     sections: HeadingSection[];
     total: number;
     hasMore: boolean;
   }> {
     this.throwIfErrorSet();
-    const total = this.sections.length;
-    const sections = this.sections.slice(offset, offset + limit);
+    let matching = query.filter
+      ? this.sections.filter(query.filter)
+      : [...this.sections];
+    if (query.compare) {
+      matching.sort(query.compare);
+    }
+    const total = matching.length;
+    const sections = matching.slice(offset, offset + limit);
     const hasMore = offset + limit < total;
     return { sections, total, hasMore };
   }
@@ -561,6 +595,57 @@ describe("Application Layer - Heading Collection Use Cases", () => {
           expect(result.metadata.wasLimited).toBe(false);
         }
       });
+
+      test("should page through filtered and sorted sections", async () => {
+        const first = await getUseCase.execute({
+          level: 1,
+          sortBy: "addedAt",
+          sortOrder: "asc",
+          limit: 1,
+        });
+        const second = await getUseCase.execute({
+          level: 1,
+          sortBy: "addedAt",
+          sortOrder: "asc",
+          limit: 1,
+          offset: 1,
+        });
+
+        expect(first.success && first.sections.map((s) => s.sectionId)).toEqual(
+          ["section-1"]
+        );
+        expect(first.success && first.metadata.wasLimited).toBe(true);
+        expect(
+          second.success && second.sections.map((s) => s.sectionId)
+        ).toEqual(["section-3"]);
+        expect(second.success && second.totalCount).toBe(2);
+        expect(second.success && second.metadata.wasLimited).toBe(false);
+      });
+
+      test("should page search results after ranking them", async () => {
+        const result = await getUseCase.execute({
+          searchText: "title",
+          limit: 1,
+          offset: 1,
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          // "Subtitle" does not contain the word "title"
+          expect(result.sections).toHaveLength(1);
+          expect(result.totalCount).toBe(2);
+          expect(result.metadata.wasLimited).toBe(false);
+        }
+      });
+
+      test("should reject a negative offset", async () => {
+        const result = await getUseCase.execute({ offset: -1 });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.errorCode).toBe("INVALID_INPUT");
+        }
+      });
     });
 
     describe("Input Validation", () => {
@@ -0,0 +1,175 @@
+/**
+ * Tests for adding many heading sections in one operation
+ */
+
+import {
+  createHeadingSection,
+  isSameHeading,
+} from "../domain/heading-collection";
+import { AddHeadingSectionsUseCase } from "../application/usecases/heading-collection";
+import { ChromeStorageHeadingSectionRepository } from "../infrastructure/repositories/chrome/heading-section/chrome-storage-heading-section-repository";
+import { createStorageArea } from "./storage-area";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+const setUpRepository = () => {
+  const storage = createStorageArea();
+  global.chrome = {
+    storage: { local: storage, sync: createStorageArea() },
+  } as any;
+  return { storage, repository: new ChromeStorageHeadingSectionRepository() };
+};
+
+describe("Batch capture", () => {
+  test("isSameHeading ignores title case and surrounding whitespace", () => {
+    const section = createHeadingSection({
+      level: 2,
+      tagName: "H2",
+      titleText: "State Hooks",
+      contentHtml: "<h2>State Hooks</h2>",
+      sourceUrl: PAGE_URL,
+    });
+
+    expect(
+      isSameHeading(section, {
+        sourceUrl: PAGE_URL,
+        level: 2,
+        titleText: "  state hooks ",
+      })
+    ).toBe(true);
+    expect(
+      isSameHeading(section, {
+        sourceUrl: PAGE_URL,
+        level: 3,
+        titleText: "State Hooks",
+      })
+    ).toBe(false);
+  });
+
+  test("adds all sections with a single storage write", async () => {
+    const { storage, repository } = setUpRepository();
+    const useCase = new AddHeadingSectionsUseCase(repository);
+
+    const result = await useCase.execute({
+      sections: [
+        { level: 2, title: "Overview", sourceUrl: PAGE_URL },
+        { level: 2, title: "State Hooks", sourceUrl: PAGE_URL },
+        { level: 3, title: "useState", sourceUrl: PAGE_URL },
+      ],
+      collectionIds: ["react"],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.added.map((s) => s.title)).toEqual([
+        "Overview",
+        "State Hooks",
+        "useState",
+      ]);
+      expect(result.skipped).toEqual([]);
+    }
+    expect(storage.set).toHaveBeenCalledTimes(1);
+
+    const saved = await repository.getAllSections();
+    expect(saved).toHaveLength(3);
+    expect(saved.every((s) => s.collectionIds?.includes("react"))).toBe(true);
+  });
+
+  test("skips headings that are already collected or repeated", async () => {
+    const { repository } = setUpRepository();
+    const useCase = new AddHeadingSectionsUseCase(repository);
+    await useCase.execute({
+      sections: [{ level: 2, title: "Overview", sourceUrl: PAGE_URL }],
+    });
+    const existingId = (await repository.getAllSections())[0].sectionId;
+
+    const result = await useCase.execute({
+      sections: [
+        { level: 2, title: "overview", sourceUrl: PAGE_URL },
+        { level: 2, title: "State Hooks", sourceUrl: PAGE_URL },
+        { level: 2, title: "State Hooks", sourceUrl: PAGE_URL },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.added.map((s) => s.title)).toEqual(["State Hooks"]);
+      expect(result.skipped).toEqual([
+        expect.objectContaining({
+          index: 0,
+          reason: "duplicate",
+          existingSectionId: existingId,
+        }),
+        expect.objectContaining({ index: 2, reason: "duplicate" }),
+      ]);
+    }
+    expect(await repository.getAllSections()).toHaveLength(2);
+  });
+
+  test("tells apart same-title headings under different parents", async () => {
+    const { repository } = setUpRepository();
+    const useCase = new AddHeadingSectionsUseCase(repository);
+    const sections = ["Auth", "Build"].map((parent) => ({
+      level: 3,
+      title: "Example",
+      sourceUrl: PAGE_URL,
+      headingPath: [parent],
+    }));
+
+    const first = await useCase.execute({ sections });
+    const again = await useCase.execute({ sections });
+
+    expect(first.success && first.added).toHaveLength(2);
+    expect(
+      again.success && again.skipped.map((s) => s.existingSectionId)
+    ).toEqual(first.success && first.added.map((s) => s.sectionId));
+  });
+
+  test("reports invalid sections without failing the batch", async () => {
+    const { repository } = setUpRepository();
+    const useCase = new AddHeadingSectionsUseCase(repository);
+
+    const result = await useCase.execute({
+      sections: [
+        { level: 7, title: "Too deep", sourceUrl: PAGE_URL },
+        { level: 2, title: "Overview", sourceUrl: "not a url" },
+        { level: 2, title: "Overview", sourceUrl: PAGE_URL },
+        { level: 2, title: "Hooks", sourceUrl: PAGE_URL, tags: [" "] },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.added).toHaveLength(1);
+      expect(result.skipped.map((s) => [s.index, s.reason])).toEqual([
+        [0, "invalid"],
+        [1, "invalid"],
+        [3, "invalid"],
+      ]);
+    }
+  });
+
+  test("does not write when every section is skipped", async () => {
+    const { storage, repository } = setUpRepository();
+    const useCase = new AddHeadingSectionsUseCase(repository);
+
+    const result = await useCase.execute({
+      sections: [{ level: 0, title: "Nope", sourceUrl: PAGE_URL }],
+    });
+
+    expect(result.success && result.added).toEqual([]);
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  test("rejects an empty batch", async () => {
+    const { repository } = setUpRepository();
+    const useCase = new AddHeadingSectionsUseCase(repository);
+
+    const result = await useCase.execute({ sections: [] });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errorCode).toBe("INVALID_INPUT");
+    }
+  });
+});
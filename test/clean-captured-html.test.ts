@@ -0,0 +1,63 @@
+/**
+ * Tests for preparing captured content for use outside DeepWiki
+ */
+
+import { cleanCapturedHtml } from "../shared/html/clean-captured-html";
+import { serializeHtml } from "../shared/html/html-parser";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+const clean = (html: string, keepFragments = false) =>
+  serializeHtml(cleanCapturedHtml(html, { baseUrl: PAGE_URL, keepFragments }));
+
+describe("cleanCapturedHtml", () => {
+  test("makes links and images absolute", () => {
+    expect(
+      clean('<p><a href="/facebook/react/3-refs">refs</a><img src="a.png"></p>')
+    ).toBe(
+      '<p><a href="https://deepwiki.com/facebook/react/3-refs">refs</a><img src="https://deepwiki.com/facebook/react/a.png"></p>'
+    );
+  });
+
+  test("keeps fragment links only when asked to", () => {
+    expect(clean('<a href="#usage">x</a>', true)).toBe(
+      '<a href="#usage">x</a>'
+    );
+    expect(clean('<a href="#usage">x</a>')).toBe(
+      `<a href="${PAGE_URL}#usage">x</a>`
+    );
+  });
+
+  test.each([
+    [
+      "an encoded newline in the scheme",
+      '<a href="java&#x0A;script:alert(1)">x</a>',
+    ],
+    [
+      "an encoded tab in the scheme",
+      '<a href="java&Tab;script:alert(1)">x</a>',
+    ],
+    [
+      "an SVG link",
+      '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+    ],
+    ["a form", '<form action="javascript:alert(1)"><button>x</button></form>'],
+    [
+      "a meta refresh",
+      '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+    ],
+    [
+      "an SVG animation",
+      '<svg><a><animate attributeName="href" values="javascript:alert(1)"></animate><text>x</text></a></svg>',
+    ],
+  ])("removes script URLs in %s", (_, html) => {
+    expect(clean(html)).not.toMatch(/script:|alert/i);
+  });
+
+  test("keeps only URLs with safe schemes", () => {
+    expect(clean('<a href="\u0000javascript:alert(1)">x</a>')).toBe("<a>x</a>");
+    expect(clean('<img src="data:image/png;base64,AAAA">')).toBe(
+      '<img src="data:image/png;base64,AAAA">'
+    );
+  });
+});
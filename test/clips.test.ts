@@ -0,0 +1,236 @@
+/**
+ * Tests for clips (saved text selections) and their text anchors
+ */
+
+import {
+  Clip,
+  createClip,
+  createHeadingSection,
+  createTextAnchor,
+  deserializeClip,
+  isClipOfSection,
+  resolveTextAnchor,
+  serializeClip,
+} from "../domain/heading-collection";
+import {
+  AddClipUseCase,
+  GetClipsUseCase,
+  RemoveClipUseCase,
+} from "../application/usecases/heading-collection";
+import { ChromeStorageClipRepository } from "../infrastructure/repositories/chrome/clip";
+import { Result } from "../domain/shared";
+import { createStorageArea } from "./storage-area";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+const PAGE_TEXT =
+  "Hooks let you use state. The useState hook returns a pair. Hooks are functions.";
+
+const createTestClip = (
+  text: string,
+  sourceUrl = PAGE_URL,
+  collectionIds?: string[]
+): Clip => {
+  const start = PAGE_TEXT.indexOf(text);
+  return createClip({
+    sourceUrl,
+    contentHtml: `<p>${text}</p>`,
+    anchor: createTextAnchor(PAGE_TEXT, start, start + text.length),
+    heading: { level: 2, titleText: "State Hooks" },
+    collectionIds,
+  });
+};
+
+describe("Clips", () => {
+  describe("text anchors", () => {
+    test("resolves at the stored position when the text is unchanged", () => {
+      const anchor = createTextAnchor(PAGE_TEXT, 0, 5);
+
+      expect(resolveTextAnchor(PAGE_TEXT, anchor)).toEqual({
+        start: 0,
+        end: 5,
+      });
+    });
+
+    test("uses the surrounding text to find moved text", () => {
+      // The second "Hooks" is selected, then text is inserted before it
+      const start = PAGE_TEXT.lastIndexOf("Hooks");
+      const anchor = createTextAnchor(PAGE_TEXT, start, start + 5);
+      const edited = `Intro. ${PAGE_TEXT}`;
+
+      const range = resolveTextAnchor(edited, anchor);
+
+      expect(range).toEqual({ start: start + 7, end: start + 12 });
+    });
+
+    test("returns null when the text no longer exists", () => {
+      const anchor = createTextAnchor(PAGE_TEXT, 30, 38);
+
+      expect(resolveTextAnchor("Completely different", anchor)).toBeNull();
+    });
+
+    test("rejects empty ranges", () => {
+      expect(() => createTextAnchor(PAGE_TEXT, 5, 5)).toThrow(
+        "Invalid text range"
+      );
+    });
+  });
+
+  describe("domain", () => {
+    test("a clip is linked to the section of its nearest heading", () => {
+      const clip = createTestClip("The useState hook returns a pair.");
+      const section = createHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "State Hooks",
+        contentHtml: "<h2>State Hooks</h2>",
+        sourceUrl: `${PAGE_URL}#state-hooks`,
+      });
+
+      expect(isClipOfSection(clip, section)).toBe(true);
+    });
+
+    test("a clip is linked by the enclosing headings of its heading", () => {
+      const start = PAGE_TEXT.indexOf("Hooks are functions.");
+      const clip = createClip({
+        sourceUrl: PAGE_URL,
+        contentHtml: "<p>Hooks are functions.</p>",
+        anchor: createTextAnchor(PAGE_TEXT, start, start + 20),
+        heading: { level: 3, titleText: "Example", headingPath: ["Build"] },
+      });
+      const createExample = (parent: string) =>
+        createHeadingSection({
+          level: 3,
+          tagName: "H3",
+          titleText: "Example",
+          contentHtml: "<h3>Example</h3>",
+          sourceUrl: PAGE_URL,
+          headingPath: [parent],
+        });
+
+      expect(isClipOfSection(clip, createExample("Auth"))).toBe(false);
+      expect(isClipOfSection(clip, createExample("Build"))).toBe(true);
+    });
+
+    test("clips saved before stable IDs are linked by their heading", () => {
+      const clip = createTestClip("The useState hook returns a pair.");
+      const saved = deserializeClip({
+        ...serializeClip(clip),
+        heading: {
+          level: 2,
+          titleText: "State Hooks",
+          sectionKey:
+            "content-deepwiki-com-facebook-react-2-state-h2-state-hooks",
+        },
+      });
+      const section = createHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "state hooks",
+        contentHtml: "<h2>State Hooks</h2>",
+        sourceUrl: `${PAGE_URL}#state-hooks`,
+      });
+
+      expect(isClipOfSection(saved, section)).toBe(true);
+    });
+
+    test("clips survive serialization", () => {
+      const clip = createTestClip("Hooks are functions.");
+
+      const restored = deserializeClip(
+        JSON.parse(JSON.stringify(serializeClip(clip)))
+      );
+
+      expect(restored).toEqual(clip);
+    });
+  });
+
+  describe("ChromeStorageClipRepository", () => {
+    test("finds clips of a page regardless of the fragment", async () => {
+      const storage = createStorageArea();
+      global.chrome = {
+        storage: { local: storage, sync: createStorageArea() },
+      } as any;
+      const repository = new ChromeStorageClipRepository();
+
+      await repository.addClip(createTestClip("Hooks are functions."));
+      await repository.addClip(
+        createTestClip("Hooks are functions.", `${PAGE_URL}-other`)
+      );
+
+      const clips = await repository.findClipsByUrl(`${PAGE_URL}#hooks`);
+
+      expect(clips.map((c) => c.sourceUrl)).toEqual([PAGE_URL]);
+      expect(storage.data.deepwiki_clips).toHaveLength(2);
+    });
+  });
+
+  describe("use cases", () => {
+    test("AddClipUseCase saves the selection with its heading", async () => {
+      const repository = {
+        addClip: jest.fn().mockResolvedValue(Result.success(undefined)),
+      };
+      const useCase = new AddClipUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sourceUrl: PAGE_URL,
+        contentHtml: "<p>Hooks let you use state.</p>",
+        anchor: createTextAnchor(PAGE_TEXT, 0, 24),
+        heading: { level: 2, title: "State Hooks" },
+        collectionIds: ["react"],
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.clip.heading?.titleText).toBe("State Hooks");
+        expect(result.clip.collectionIds).toEqual(["react"]);
+      }
+      expect(repository.addClip).toHaveBeenCalledTimes(1);
+    });
+
+    test("AddClipUseCase rejects an invalid anchor", async () => {
+      const useCase = new AddClipUseCase({ addClip: jest.fn() } as any);
+
+      const result = await useCase.execute({
+        sourceUrl: PAGE_URL,
+        contentHtml: "<p>x</p>",
+        anchor: { exact: "", prefix: "", suffix: "", start: 0, end: 0 },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("INVALID_INPUT");
+      }
+    });
+
+    test("GetClipsUseCase filters by collection", async () => {
+      const repository = {
+        getAllClips: jest
+          .fn()
+          .mockResolvedValue([
+            createTestClip("Hooks are functions.", PAGE_URL, ["react"]),
+            createTestClip("Hooks let you use state."),
+          ]),
+      };
+      const useCase = new GetClipsUseCase(repository as any);
+
+      const result = await useCase.execute({ collectionId: "react" });
+
+      expect(result.success && result.clips.map((c) => c.anchor.exact)).toEqual(
+        ["Hooks are functions."]
+      );
+    });
+
+    test("RemoveClipUseCase returns CLIP_NOT_FOUND", async () => {
+      const useCase = new RemoveClipUseCase({
+        removeClip: jest.fn().mockResolvedValue(Result.success(false)),
+      } as any);
+
+      const result = await useCase.execute({ clipId: "missing" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("CLIP_NOT_FOUND");
+      }
+    });
+  });
+});
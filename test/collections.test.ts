@@ -0,0 +1,355 @@
+/**
+ * Tests for named collections of heading sections
+ */
+
+import {
+  Collection,
+  HeadingSection,
+  ICollectionRepository,
+  createCollection,
+  createHeadingSection,
+  deserializeHeadingSection,
+  getSectionCollectionIds,
+  removeSectionFromCollection,
+  renameCollection,
+  DEFAULT_COLLECTION_ID,
+} from "../domain/heading-collection";
+import {
+  AddHeadingSectionUseCase,
+  CreateCollectionUseCase,
+  DeleteCollectionUseCase,
+  GetCollectionsUseCase,
+  GetHeadingSectionsUseCase,
+  RenameCollectionUseCase,
+} from "../application/usecases/heading-collection";
+import {
+  ChromeStorageCollectionRepository,
+  migrateToDefaultCollection,
+} from "../infrastructure/repositories/chrome/collection";
+import { Result } from "../domain/shared";
+import { createStorageArea } from "./storage-area";
+
+const createSection = (
+  titleText: string,
+  collectionIds?: string[]
+): HeadingSection =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml: `<h2>${titleText}</h2>`,
+    sourceUrl: "https://deepwiki.com/facebook/react/1-overview",
+    sectionId: titleText.toLowerCase().replace(/\s+/g, "-"),
+    collectionIds,
+  });
+
+class InMemoryCollectionRepository implements ICollectionRepository {
+  constructor(
+    public collections: Collection[] = [
+      createCollection({ name: "Default", collectionId: "default" }),
+    ],
+    public activeCollectionId = DEFAULT_COLLECTION_ID
+  ) {}
+
+  async getAllCollections() {
+    return [...this.collections];
+  }
+  async getCollectionById(collectionId: string) {
+    return (
+      this.collections.find((c) => c.collectionId === collectionId) || null
+    );
+  }
+  async addCollection(collection: Collection) {
+    this.collections.push(collection);
+    return Result.success(undefined);
+  }
+  async updateCollection(collection: Collection) {
+    this.collections = this.collections.map((c) =>
+      c.collectionId === collection.collectionId ? collection : c
+    );
+    return Result.success(undefined);
+  }
+  async removeCollection(collectionId: string) {
+    this.collections = this.collections.filter(
+      (c) => c.collectionId !== collectionId
+    );
+    return Result.success(true);
+  }
+  async getActiveCollectionId() {
+    return this.activeCollectionId;
+  }
+  async setActiveCollectionId(collectionId: string) {
+    this.activeCollectionId = collectionId;
+    return Result.success(undefined);
+  }
+}
+
+describe("Collections", () => {
+  describe("domain", () => {
+    test("new sections belong to the default collection", () => {
+      expect(createSection("Login Flow").collectionIds).toEqual([
+        DEFAULT_COLLECTION_ID,
+      ]);
+    });
+
+    test("sections stored before collections load into the default one", () => {
+      const restored = deserializeHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "Legacy",
+        contentHtml: "<h2>Legacy</h2>",
+        sourceUrl: "https://deepwiki.com/a/b",
+        addedAt: "2025-01-01T00:00:00.000Z",
+        sectionId: "legacy-1",
+      });
+
+      expect(getSectionCollectionIds(restored)).toEqual([
+        DEFAULT_COLLECTION_ID,
+      ]);
+    });
+
+    test("removing the last collection falls back to the default one", () => {
+      const section = createSection("Login Flow", ["react"]);
+
+      expect(
+        removeSectionFromCollection(section, "react").collectionIds
+      ).toEqual([DEFAULT_COLLECTION_ID]);
+    });
+
+    test("collection names are trimmed and must not be empty", () => {
+      const collection = createCollection({ name: "  React   notes " });
+
+      expect(collection.name).toBe("React notes");
+      expect(() => renameCollection(collection, "   ")).toThrow(
+        "Collection name cannot be empty"
+      );
+    });
+  });
+
+  describe("migrateToDefaultCollection", () => {
+    test("assigns legacy sections to the default collection once", async () => {
+      const storage = createStorageArea({
+        deepwiki_heading_sections: [
+          { sectionId: "a", titleText: "A" },
+          { sectionId: "b", titleText: "B", collectionIds: ["react"] },
+        ],
+      });
+
+      const first = await migrateToDefaultCollection(storage as any);
+      const second = await migrateToDefaultCollection(storage as any);
+
+      expect(first.migratedSections).toBe(1);
+      expect(second.migratedSections).toBe(0);
+      expect(
+        storage.data.deepwiki_heading_sections.map((s: any) => s.collectionIds)
+      ).toEqual([[DEFAULT_COLLECTION_ID], ["react"]]);
+      expect(storage.data.deepwiki_collections).toEqual([
+        expect.objectContaining({ collectionId: "default", name: "Default" }),
+      ]);
+      expect(storage.set).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("ChromeStorageCollectionRepository", () => {
+    let storage: ReturnType<typeof createStorageArea>;
+    let repository: ChromeStorageCollectionRepository;
+
+    beforeEach(() => {
+      storage = createStorageArea();
+      global.chrome = {
+        storage: { local: storage, sync: createStorageArea() },
+      } as any;
+      repository = new ChromeStorageCollectionRepository();
+    });
+
+    test("always returns the default collection", async () => {
+      const collections = await repository.getAllCollections();
+
+      expect(collections.map((c) => c.collectionId)).toEqual(["default"]);
+      expect(await repository.getActiveCollectionId()).toBe("default");
+    });
+
+    test("resets the active collection when it is removed", async () => {
+      const react = createCollection({ name: "React" });
+      await repository.addCollection(react);
+      await repository.setActiveCollectionId(react.collectionId);
+
+      const result = await repository.removeCollection(react.collectionId);
+
+      expect(result).toEqual({ success: true, data: true });
+      expect(storage.data.deepwiki_active_collection).toBe("default");
+    });
+
+    test("refuses to remove the default collection", async () => {
+      const result = await repository.removeCollection("default");
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("use cases", () => {
+    test("CreateCollectionUseCase rejects duplicate names", async () => {
+      const repository = new InMemoryCollectionRepository();
+      const useCase = new CreateCollectionUseCase(repository);
+
+      const created = await useCase.execute({
+        name: "React",
+        makeActive: true,
+      });
+      const duplicate = await useCase.execute({ name: "react" });
+
+      expect(created.success).toBe(true);
+      if (created.success) {
+        expect(repository.activeCollectionId).toBe(
+          created.collection.collectionId
+        );
+      }
+      expect(duplicate.success).toBe(false);
+      if (!duplicate.success) {
+        expect(duplicate.errorCode).toBe("DUPLICATE_NAME");
+      }
+    });
+
+    test("RenameCollectionUseCase returns COLLECTION_NOT_FOUND", async () => {
+      const useCase = new RenameCollectionUseCase(
+        new InMemoryCollectionRepository()
+      );
+
+      const result = await useCase.execute({
+        collectionId: "missing",
+        name: "Vue",
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("COLLECTION_NOT_FOUND");
+      }
+    });
+
+    test("DeleteCollectionUseCase keeps sections and moves orphans to default", async () => {
+      const react = createCollection({ name: "React", collectionId: "react" });
+      const collections = new InMemoryCollectionRepository([
+        createCollection({ name: "Default", collectionId: "default" }),
+        react,
+      ]);
+      const sections = [
+        createSection("Only React", ["react"]),
+        createSection("Shared", ["react", "default"]),
+        createSection("Unrelated"),
+      ];
+      const sectionRepository = {
+        getAllSections: jest.fn().mockResolvedValue(sections),
+        updateSection: jest.fn().mockResolvedValue(Result.success(undefined)),
+      };
+      const useCase = new DeleteCollectionUseCase(
+        collections,
+        sectionRepository as any
+      );
+
+      const result = await useCase.execute({ collectionId: "react" });
+
+      expect(result).toEqual({
+        success: true,
+        collectionId: "react",
+        movedToDefaultCount: 1,
+      });
+      expect(sectionRepository.updateSection).toHaveBeenCalledTimes(2);
+      expect(
+        sectionRepository.updateSection.mock.calls.map(
+          ([s]: [HeadingSection]) => s.collectionIds
+        )
+      ).toEqual([["default"], ["default"]]);
+      expect(collections.collections.map((c) => c.collectionId)).toEqual([
+        "default",
+      ]);
+    });
+
+    test("DeleteCollectionUseCase refuses to delete the default collection", async () => {
+      const useCase = new DeleteCollectionUseCase(
+        new InMemoryCollectionRepository(),
+        {} as any
+      );
+
+      const result = await useCase.execute({ collectionId: "default" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("INVALID_INPUT");
+      }
+    });
+
+    test("GetCollectionsUseCase counts sections per collection", async () => {
+      const collections = new InMemoryCollectionRepository([
+        createCollection({ name: "Default", collectionId: "default" }),
+        createCollection({ name: "React", collectionId: "react" }),
+      ]);
+      const sectionRepository = {
+        getAllSections: jest
+          .fn()
+          .mockResolvedValue([
+            createSection("A", ["react"]),
+            createSection("B", ["react", "default"]),
+            createSection("C"),
+          ]),
+      };
+      const useCase = new GetCollectionsUseCase(
+        collections,
+        sectionRepository as any
+      );
+
+      const result = await useCase.execute();
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.sectionCounts).toEqual({ default: 2, react: 2 });
+        expect(result.activeCollectionId).toBe("default");
+      }
+    });
+
+    test("GetHeadingSectionsUseCase filters by collection", async () => {
+      const repository = {
+        getAllSections: jest
+          .fn()
+          .mockResolvedValue([
+            createSection("A", ["react"]),
+            createSection("B"),
+          ]),
+      };
+      const useCase = new GetHeadingSectionsUseCase(repository as any);
+
+      const result = await useCase.execute({ collectionId: "react" });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.sections.map((s) => s.titleText)).toEqual(["A"]);
+      }
+    });
+
+    test("AddHeadingSectionUseCase adds a known section to another collection", async () => {
+      const existing = createSection("Login Flow");
+      const repository = {
+        findDuplicateSection: jest.fn().mockResolvedValue(existing),
+        updateSection: jest.fn().mockResolvedValue(Result.success(undefined)),
+        addSection: jest.fn(),
+      };
+      const useCase = new AddHeadingSectionUseCase(repository as any);
+
+      const result = await useCase.execute({
+        level: 2,
+        title: "Login Flow",
+        sourceUrl: existing.sourceUrl,
+        collectionIds: ["react"],
+      });
+
+      expect(result).toEqual({
+        success: true,
+        sectionId: existing.sectionId,
+        status: "addedToCollection",
+      });
+      expect(repository.updateSection).toHaveBeenCalledWith(
+        expect.objectContaining({ collectionIds: ["default", "react"] })
+      );
+      expect(repository.addSection).not.toHaveBeenCalled();
+    });
+  });
+});
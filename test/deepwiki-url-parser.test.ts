@@ -2,47 +2,9 @@
  * Tests for DeepWiki URL parsing functionality
  */
 
-describe("DeepWiki URL Parser", () => {
-  // Helper functions that match the implementation in sidepanel
-  const parseDeepWikiUrl = (
-    url: string
-  ): { repo: string; pageTitle: string; repoUrl: string } => {
-    try {
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split("/").filter((p) => p);
-
-      if (pathParts.length >= 2) {
-        const repo = `${pathParts[0]}/${pathParts[1]}`;
-        const repoUrl = `${urlObj.origin}/${repo}`;
-
-        if (pathParts.length > 2) {
-          // Extract page title from slug
-          const pageSlug = pathParts.slice(2).join("-");
-          const pageTitle = formatPageTitle(pageSlug);
-          return { repo, pageTitle, repoUrl };
-        }
-
-        // Repository top page
-        return { repo, pageTitle: "Overview", repoUrl };
-      }
-
-      return { repo: urlObj.hostname, pageTitle: "", repoUrl: url };
-    } catch {
-      return { repo: "Unknown", pageTitle: "", repoUrl: url };
-    }
-  };
-
-  const formatPageTitle = (slug: string): string => {
-    // Remove number prefix (e.g., "1.1-", "1-", "2.3.1-")
-    const cleanSlug = slug.replace(/^\d+(\.\d+)*-/, "");
-
-    // Convert kebab-case to Title Case
-    return cleanSlug
-      .split("-")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
-  };
+import { formatPageTitle, parseDeepWikiUrl } from "../shared/url/deepwiki-url";
 
+describe("DeepWiki URL Parser", () => {
   describe("parseDeepWikiUrl", () => {
     test("should parse repository top page URL correctly", () => {
       const url = "https://deepwiki.com/microsoft/vscode";
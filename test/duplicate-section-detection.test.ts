@@ -9,93 +9,90 @@
 import {
   HeadingSection,
   createHeadingSection,
-  generateContentBasedId,
+  isSectionOfHeading,
 } from "../domain/heading-collection";
 
 import { AddHeadingSectionUseCase } from "../application/usecases/heading-collection/add-heading-section";
 
 describe("Duplicate Section Detection", () => {
-  describe("generateContentBasedId", () => {
-    it("should generate consistent IDs for identical content", () => {
-      const params = {
-        sourceUrl: "https://example.com/page",
-        level: 2,
-        titleText: "Introduction to Testing",
-      };
-
-      const id1 = generateContentBasedId(params);
-      const id2 = generateContentBasedId(params);
+  describe("isSectionOfHeading", () => {
+    const PAGE_URL = "https://example.com/guide";
+    const createExample = (headingPath: string[]) =>
+      createHeadingSection({
+        level: 3,
+        tagName: "H3",
+        titleText: "Example",
+        contentHtml: "<h3>Example</h3>",
+        sourceUrl: PAGE_URL,
+        headingPath,
+      });
 
-      expect(id1).toBe(id2);
-      expect(id1).toMatch(
-        /^content-example-com-.*-h2-introduction-to-testing$/
-      );
+    it("should match the heading under the same enclosing headings", () => {
+      const section = createExample(["Guide", "Auth"]);
+
+      expect(
+        isSectionOfHeading(section, {
+          sourceUrl: `${PAGE_URL}#example`,
+          level: 3,
+          titleText: " example ",
+          headingPath: ["guide", "Auth"],
+        })
+      ).toBe(true);
     });
 
-    it("should generate different IDs for different content", () => {
-      const params1 = {
-        sourceUrl: "https://example.com/page",
-        level: 2,
-        titleText: "Introduction to Testing",
-      };
-
-      const params2 = {
-        sourceUrl: "https://example.com/page",
-        level: 2,
-        titleText: "Advanced Testing Techniques",
-      };
-
-      const id1 = generateContentBasedId(params1);
-      const id2 = generateContentBasedId(params2);
-
-      expect(id1).not.toBe(id2);
+    it("should tell apart same-title headings under different parents", () => {
+      const section = createExample(["Guide", "Auth"]);
+
+      expect(
+        isSectionOfHeading(section, {
+          sourceUrl: PAGE_URL,
+          level: 3,
+          titleText: "Example",
+          headingPath: ["Guide", "Build"],
+        })
+      ).toBe(false);
     });
 
-    it("should handle special characters in title text", () => {
-      const params = {
-        sourceUrl: "https://example.com/page",
-        level: 1,
-        titleText: "Chapter 1: Getting Started (Part A) - The Basics!",
+    it("should match a section by its legacy ID", () => {
+      const current = createExample(["Guide", "Auth"]);
+      const moved = {
+        ...createExample(["Auth"]),
+        legacyIds: [current.sectionId],
       };
 
-      const id = generateContentBasedId(params);
-
-      expect(id).toBeDefined();
-      expect(id).toMatch(
-        /^content-example-com-.*-h1-chapter-1-getting-started-part-a-the-basics$/
-      );
+      expect(
+        isSectionOfHeading(moved, {
+          sourceUrl: PAGE_URL,
+          level: 3,
+          titleText: "Example",
+          headingPath: ["Guide", "Auth"],
+        })
+      ).toBe(true);
     });
 
-    it("should handle different URLs correctly", () => {
-      const params1 = {
-        sourceUrl: "https://example.com/page1",
-        level: 2,
-        titleText: "Introduction",
+    it("should match a partial heading path that the full path completes", () => {
+      const migrated = {
+        ...createExample(["Auth"]),
+        headingPathPartial: true,
       };
-
-      const params2 = {
-        sourceUrl: "https://example.com/page2",
-        level: 2,
-        titleText: "Introduction",
-      };
-
-      const id1 = generateContentBasedId(params1);
-      const id2 = generateContentBasedId(params2);
-
-      expect(id1).not.toBe(id2);
-    });
-
-    it("should handle invalid URLs gracefully", () => {
-      const params = {
-        sourceUrl: "not-a-valid-url",
-        level: 1,
-        titleText: "Test Title",
+      const heading = {
+        sourceUrl: PAGE_URL,
+        level: 3,
+        titleText: "Example",
       };
 
-      const id = generateContentBasedId(params);
-
-      expect(id).toBeDefined();
-      expect(id).toMatch(/^content-not-a-valid-url-h1-test-title$/);
+      expect(
+        isSectionOfHeading(migrated, {
+          ...heading,
+          headingPath: ["Guide", "Auth"],
+        })
+      ).toBe(true);
+      expect(
+        isSectionOfHeading(migrated, {
+          ...heading,
+          headingPath: ["Guide", "Build"],
+        })
+      ).toBe(false);
     });
   });
 
@@ -108,6 +105,7 @@ describe("Duplicate Section Detection", () => {
         findDuplicateSection: jest.fn(),
         sectionExists: jest.fn(),
         addSection: jest.fn(),
+        updateSection: jest.fn(),
       };
       useCase = new AddHeadingSectionUseCase(mockRepository);
     });
@@ -128,8 +126,7 @@ describe("Duplicate Section Detection", () => {
         level: 2,
         title: "Introduction to Testing", // Same title
         sourceUrl: "https://example.com/testing-guide", // Same URL
-        content:
-          "<h2>Introduction to Testing</h2><p>This is about testing...</p>",
+        content: "<h2>Introduction to Testing</h2>", // Same content
       };
 
       const result = await useCase.execute(input);
@@ -148,6 +145,89 @@ describe("Duplicate Section Detection", () => {
 
       // Repository should not be called for adding since duplicate was detected
       expect(mockRepository.addSection).not.toHaveBeenCalled();
+      expect(mockRepository.updateSection).not.toHaveBeenCalled();
+    });
+
+    it("should record a new version when a duplicate is re-captured with changed content", async () => {
+      const existingSection: HeadingSection = createHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "Introduction to Testing",
+        contentHtml: "<h2>Introduction to Testing</h2>",
+        sourceUrl: "https://example.com/testing-guide",
+      });
+
+      mockRepository.findDuplicateSection.mockResolvedValue(existingSection);
+      mockRepository.updateSection.mockResolvedValue({ success: true });
+
+      const result = await useCase.execute({
+        level: 2,
+        title: "Introduction to Testing",
+        sourceUrl: "https://example.com/testing-guide",
+        content:
+          "<h2>Introduction to Testing</h2><p>This is about testing...</p>",
+      });
+
+      expect(result).toEqual({
+        success: true,
+        sectionId: existingSection.sectionId,
+        status: "newVersion",
+      });
+      expect(mockRepository.addSection).not.toHaveBeenCalled();
+      expect(mockRepository.updateSection).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sectionId: existingSection.sectionId,
+          contentHtml:
+            "<h2>Introduction to Testing</h2><p>This is about testing...</p>",
+          versions: [
+            expect.objectContaining({
+              contentHtml: "<h2>Introduction to Testing</h2>",
+            }),
+          ],
+        })
+      );
+    });
+
+    it("should not record a new version for a section saved before sanitizing", async () => {
+      const existingSection: HeadingSection = createHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "Introduction to Testing",
+        contentHtml:
+          '<h2>Introduction to Testing</h2><p onclick="track()">Tests</p><script>track()</script>',
+        sourceUrl: "https://example.com/testing-guide",
+      });
+      const input = {
+        level: 2,
+        title: "Introduction to Testing",
+        sourceUrl: "https://example.com/testing-guide",
+        content: existingSection.contentHtml,
+      };
+
+      mockRepository.findDuplicateSection.mockResolvedValue(existingSection);
+      mockRepository.updateSection.mockResolvedValue({ success: true });
+
+      const unchanged = await useCase.execute(input);
+
+      expect(unchanged.success).toBe(false);
+      expect(mockRepository.updateSection).not.toHaveBeenCalled();
+
+      // Adding it to another collection stores the sanitized content
+      const added = await useCase.execute({
+        ...input,
+        collectionIds: ["reading-list"],
+      });
+
+      expect(added).toEqual({
+        success: true,
+        sectionId: existingSection.sectionId,
+        status: "addedToCollection",
+      });
+      const updated = mockRepository.updateSection.mock.calls[0][0];
+      expect(updated.contentHtml).toBe(
+        "<h2>Introduction to Testing</h2><p>Tests</p>"
+      );
+      expect(updated.versions ?? []).toEqual([]);
     });
 
     it("should allow adding sections with same title but different URL", async () => {
@@ -234,7 +314,7 @@ describe("Duplicate Section Detection", () => {
         level: 2,
         title: "Introduction To Testing", // Different case
         sourceUrl: "https://example.com/testing-guide",
-        content: "<h2>Introduction To Testing</h2>",
+        content: "<h2>introduction to testing</h2>", // Unchanged content
       };
 
       const result = await useCase.execute(input);
@@ -0,0 +1,162 @@
+/**
+ * Tests for exporting sections as an EPUB 3 book
+ */
+
+import { createHeadingSection } from "../domain/heading-collection";
+import { buildEpub, buildEpubFiles } from "../shared/export/epub-export";
+import { parseHtml } from "../shared/html/html-parser";
+import {
+  serializeSvgDocument,
+  serializeXhtml,
+} from "../shared/html/serialize-xhtml";
+
+const STATE_URL = "https://deepwiki.com/facebook/react/2-state";
+const REFS_URL = "https://deepwiki.com/facebook/react/3-refs";
+
+const createSection = (
+  titleText: string,
+  level: number,
+  position: number,
+  extra: object = {}
+) =>
+  createHeadingSection({
+    level,
+    tagName: `H${level}`,
+    titleText,
+    contentHtml: `<h${level} id="${titleText}">${titleText}</h${level}><p>About ${titleText}.<br></p>`,
+    sourceUrl: STATE_URL,
+    position,
+    ...extra,
+  });
+
+const OPTIONS = {
+  title: "React & Co",
+  exportedAt: new Date("2024-05-01T12:00:00.123Z"),
+  identifier: "urn:uuid:1234",
+};
+
+const fileContent = (
+  files: { path: string; content: unknown }[],
+  path: string
+) => String(files.find((file) => file.path === path)?.content);
+
+describe("EPUB export", () => {
+  test("lays out the container, package and navigation documents", () => {
+    const files = buildEpubFiles([createSection("State", 2, 0)], OPTIONS);
+
+    expect(files[0]).toEqual({
+      path: "mimetype",
+      content: "application/epub+zip",
+    });
+    expect(files.map((file) => file.path)).toEqual([
+      "mimetype",
+      "META-INF/container.xml",
+      "OEBPS/content.opf",
+      "OEBPS/nav.xhtml",
+      "OEBPS/styles.css",
+      "OEBPS/chapter-1.xhtml",
+    ]);
+
+    const opf = fileContent(files, "OEBPS/content.opf");
+    expect(opf).toContain(
+      '<dc:identifier id="book-id">urn:uuid:1234</dc:identifier>'
+    );
+    expect(opf).toContain("<dc:title>React &amp; Co</dc:title>");
+    expect(opf).toContain(
+      '<meta property="dcterms:modified">2024-05-01T12:00:00Z</meta>'
+    );
+    expect(opf).toContain('properties="nav"');
+    expect(opf).toContain('<itemref idref="chapter-1"/>');
+  });
+
+  test("makes one chapter per page with sections in heading order", () => {
+    const files = buildEpubFiles(
+      [
+        createSection("Setters", 3, 2),
+        createSection("Refs", 2, 0, { sourceUrl: REFS_URL }),
+        createSection("State", 2, 1),
+      ],
+      OPTIONS
+    );
+
+    const chapter = fileContent(files, "OEBPS/chapter-1.xhtml");
+    expect(chapter).toContain("<h1>facebook/react › State</h1>");
+    expect(chapter.indexOf("<h2>State</h2>")).toBeLessThan(
+      chapter.indexOf("<h3>Setters</h3>")
+    );
+    expect(chapter).toContain('<section id="section-2">');
+    expect(chapter).toContain("<p>About State.<br/></p>");
+    expect(fileContent(files, "OEBPS/chapter-2.xhtml")).toContain(
+      "<h2>Refs</h2>"
+    );
+
+    const nav = fileContent(files, "OEBPS/nav.xhtml");
+    expect(nav).toContain('<nav epub:type="toc" id="toc">');
+    expect(nav).toContain(
+      '<li><a href="chapter-1.xhtml">facebook/react › State</a><ol><li><a href="chapter-1.xhtml#section-1">State</a><ol><li><a href="chapter-1.xhtml#section-2">Setters</a></li></ol></li></ol></li>'
+    );
+  });
+
+  test("stores Mermaid diagrams as SVG images", () => {
+    const files = buildEpubFiles(
+      [
+        createSection("Flow", 2, 0, {
+          contentHtml:
+            '<h2>Flow</h2><svg id="mermaid-1" viewBox="0 0 10 10" aria-roledescription="flowchart-v2"><style>#mermaid-1 > g{}</style><marker markerwidth="8"></marker><foreignObject><div>A<br>B</div></foreignObject></svg><svg class="icon"><path d="M0 0"></path></svg><img src="https://example.com/a.png" alt="Chart">',
+        }),
+      ],
+      OPTIONS
+    );
+
+    const chapter = fileContent(files, "OEBPS/chapter-1.xhtml");
+    expect(chapter).toContain(
+      '<img class="diagram" src="images/diagram-1.svg" alt="Diagram: Flow"/>'
+    );
+    expect(chapter).not.toContain("<svg");
+    expect(chapter).toContain(
+      '<a href="https://example.com/a.png">[Chart]</a>'
+    );
+    expect(fileContent(files, "OEBPS/content.opf")).toContain(
+      '<item id="image-1" href="images/diagram-1.svg" media-type="image/svg+xml"/>'
+    );
+
+    const svg = fileContent(files, "OEBPS/images/diagram-1.svg");
+    expect(svg).toContain(
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" id="mermaid-1" viewBox="0 0 10 10"'
+    );
+    expect(svg).toContain("<style>#mermaid-1 &gt; g{}</style>");
+    expect(svg).toContain('<marker markerWidth="8"/>');
+    expect(svg).toContain(
+      '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">A<br/>B</div></foreignObject>'
+    );
+  });
+
+  test("packs the files into a zip with the mimetype first", () => {
+    const bytes = buildEpub([createSection("State", 2, 0)], OPTIONS);
+    const text = new TextDecoder().decode(bytes.slice(30, 58));
+
+    expect(text).toBe("mimetypeapplication/epub+zip");
+  });
+});
+
+describe("XHTML serialization", () => {
+  test("writes well-formed markup", () => {
+    expect(
+      serializeXhtml(
+        parseHtml(
+          '<p a="1 &amp; 2" @click="x" xmlns:v="y">x<img src="i.png">\u0001</p>'
+        )
+      )
+    ).toBe('<p a="1 &amp; 2">x<img src="i.png"/></p>');
+  });
+
+  test("declares namespaces on standalone SVG", () => {
+    const [svg] = parseHtml(
+      '<svg xmlns="http://www.w3.org/2000/svg"><use xlink:href="#a"></use></svg>'
+    );
+
+    expect(serializeSvgDocument(svg as any)).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><use xlink:href="#a"/></svg>\n'
+    );
+  });
+});
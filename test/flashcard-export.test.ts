@@ -0,0 +1,124 @@
+/**
+ * Tests for exporting sections as Anki flashcards
+ */
+
+import { createHeadingSection } from "../domain/heading-collection";
+import {
+  buildAnkiTsv,
+  buildFlashcards,
+} from "../shared/export/flashcard-export";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+const SOURCE = `<a href="${PAGE_URL}">facebook/react › State</a>`;
+
+const createSection = (contentHtml: string, extra: object = {}) =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText: "State <hooks>",
+    contentHtml,
+    sourceUrl: PAGE_URL,
+    ...extra,
+  });
+
+describe("Flashcard export", () => {
+  test("asks for a section's content by its heading", () => {
+    const cards = buildFlashcards([
+      createSection(
+        '<h2 id="state">State &lt;hooks&gt;<button>Copy</button></h2><p onclick="x()">Holds <a href="/facebook/react/3-refs">values</a>.</p><svg><path></path></svg><script>alert(1)</script>',
+        { tags: ["react hooks"] }
+      ),
+    ]);
+
+    expect(cards).toEqual([
+      {
+        type: "basic",
+        front: "State &lt;hooks&gt;",
+        back: '<p>Holds <a href="https://deepwiki.com/facebook/react/3-refs">values</a>.</p>',
+        source: SOURCE,
+        tags: ["deepwiki", "react_hooks"],
+      },
+    ]);
+  });
+
+  test("hides inline code terms in cloze cards", () => {
+    const cards = buildFlashcards(
+      [
+        createSection(
+          "<h2>State</h2><p>Call <code>useState</code> or <code>useReducer</code>; <code>useState</code> returns a pair.</p><ul><li>Uses <code>setState</code><ul><li>Plain text</li></ul></li></ul><pre><code>const x = 1;</code></pre><p>No code here.</p>"
+        ),
+      ],
+      { cloze: true }
+    );
+
+    expect(cards.filter((card) => card.type === "cloze")).toEqual([
+      expect.objectContaining({
+        front:
+          "Call <code>{{c1::useState}}</code> or <code>{{c2::useReducer}}</code>; <code>{{c1::useState}}</code> returns a pair.",
+        back: "State &lt;hooks&gt;",
+        source: SOURCE,
+      }),
+      expect.objectContaining({
+        front: "Uses <code>{{c1::setState}}</code>",
+      }),
+    ]);
+  });
+
+  test("adds the personal note to the back of each card", () => {
+    const cards = buildFlashcards(
+      [
+        createSection("<h2>State</h2><p>Holds <code>useState</code>.</p>", {
+          note: "  Ask about <batching>\nin review  ",
+        }),
+      ],
+      { cloze: true }
+    );
+    const note =
+      "<blockquote>Ask about &lt;batching&gt;<br>in review</blockquote>";
+
+    expect(cards.map((card) => card.back)).toEqual([
+      `<p>Holds <code>useState</code>.</p>${note}`,
+      `State &lt;hooks&gt;${note}`,
+    ]);
+    expect(buildAnkiTsv(cards)).toContain(`${note}\t`);
+  });
+
+  test("writes an Anki import file with quoted fields where needed", () => {
+    const tsv = buildAnkiTsv(
+      [
+        {
+          type: "basic",
+          front: "Q",
+          back: '<pre>a\tb\n"c"</pre>',
+          source: SOURCE,
+          tags: ["deepwiki", "state"],
+        },
+        {
+          type: "cloze",
+          front: "{{c1::x}}",
+          back: "Q",
+          source: SOURCE,
+          tags: ["deepwiki"],
+        },
+      ],
+      { deck: "React  docs" }
+    );
+
+    expect(tsv).toBe(
+      [
+        "#separator:tab",
+        "#html:true",
+        "#notetype column:1",
+        "#tags column:5",
+        "#deck:React docs",
+        "#columns:Note type\tFront\tBack\tSource\tTags",
+        `Basic\tQ\t"<pre>a\tb\n""c""</pre>"\t"${SOURCE.replace(
+          /"/g,
+          '""'
+        )}"\tdeepwiki state`,
+        `Cloze\t{{c1::x}}\tQ\t"${SOURCE.replace(/"/g, '""')}"\tdeepwiki`,
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for personal notes on heading sections
+ */
+
+import {
+  HeadingSection,
+  MAX_NOTE_LENGTH,
+  createHeadingSection,
+  deserializeHeadingSection,
+  serializeHeadingSection,
+  normalizeNote,
+  updateSectionNote,
+} from "../domain/heading-collection";
+import {
+  GetHeadingSectionsUseCase,
+  UpdateHeadingSectionUseCase,
+} from "../application/usecases/heading-collection";
+import { RepositoryError, Result } from "../domain/shared";
+
+const createSection = (titleText: string, note?: string): HeadingSection =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml: `<h2>${titleText}</h2><p>Body of ${titleText}</p>`,
+    sourceUrl: "https://deepwiki.com/facebook/react/1-overview",
+    sectionId: titleText.toLowerCase().replace(/\s+/g, "-"),
+    note,
+  });
+
+describe("Heading section notes", () => {
+  describe("domain helpers", () => {
+    test("normalizeNote trims and unifies line endings", () => {
+      expect(normalizeNote("  first\r\nsecond\rthird  ")).toBe(
+        "first\nsecond\nthird"
+      );
+    });
+
+    test("normalizeNote rejects notes that are too long", () => {
+      expect(() => normalizeNote("a".repeat(MAX_NOTE_LENGTH + 1))).toThrow(
+        "Note exceeds"
+      );
+    });
+
+    test("updateSectionNote replaces the note immutably", () => {
+      const section = createSection("Login Flow", "old");
+      const updated = updateSectionNote(section, " new ");
+
+      expect(updated.note).toBe("new");
+      expect(section.note).toBe("old");
+    });
+  });
+
+  describe("serialization", () => {
+    test("round-trips notes", () => {
+      const section = createSection("Login Flow", "**check** this");
+      const restored = deserializeHeadingSection(
+        serializeHeadingSection(section)
+      );
+
+      expect(restored.note).toBe("**check** this");
+    });
+
+    test("loads stored data without a note", () => {
+      const restored = deserializeHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "Legacy",
+        contentHtml: "<h2>Legacy</h2>",
+        sourceUrl: "https://deepwiki.com/a/b",
+        addedAt: "2025-01-01T00:00:00.000Z",
+        sectionId: "legacy-1",
+      });
+
+      expect(restored.note).toBe("");
+    });
+
+    test("rejects malformed notes", () => {
+      expect(() =>
+        deserializeHeadingSection({
+          level: 2,
+          tagName: "H2",
+          titleText: "Broken",
+          contentHtml: "<h2>Broken</h2>",
+          sourceUrl: "https://deepwiki.com/a/b",
+          addedAt: "2025-01-01T00:00:00.000Z",
+          sectionId: "broken-1",
+          note: 42,
+        })
+      ).toThrow("Invalid note");
+    });
+  });
+
+  describe("UpdateHeadingSectionUseCase", () => {
+    test("persists the note", async () => {
+      const section = createSection("Login Flow");
+      const repository = {
+        getSectionById: jest.fn().mockResolvedValue(section),
+        updateSection: jest.fn().mockResolvedValue(Result.success(undefined)),
+      };
+      const useCase = new UpdateHeadingSectionUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sectionId: section.sectionId,
+        note: "Remember to re-read this",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.section.note).toBe("Remember to re-read this");
+      }
+      expect(repository.updateSection).toHaveBeenCalledWith(
+        expect.objectContaining({ note: "Remember to re-read this" })
+      );
+    });
+
+    test("returns SECTION_NOT_FOUND for unknown sections", async () => {
+      const repository = {
+        getSectionById: jest.fn().mockResolvedValue(null),
+        updateSection: jest.fn(),
+      };
+      const useCase = new UpdateHeadingSectionUseCase(repository as any);
+
+      const result = await useCase.execute({ sectionId: "missing", note: "x" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("SECTION_NOT_FOUND");
+      }
+      expect(repository.updateSection).not.toHaveBeenCalled();
+    });
+
+    test("rejects requests without changes", async () => {
+      const useCase = new UpdateHeadingSectionUseCase({} as any);
+
+      const result = await useCase.execute({ sectionId: "any" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("INVALID_INPUT");
+      }
+    });
+
+    test("maps failed writes to REPOSITORY_ERROR", async () => {
+      const section = createSection("Login Flow");
+      const repository = {
+        getSectionById: jest.fn().mockResolvedValue(section),
+        updateSection: jest
+          .fn()
+          .mockResolvedValue(Result.failure(new RepositoryError("quota"))),
+      };
+      const useCase = new UpdateHeadingSectionUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sectionId: section.sectionId,
+        note: "x",
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("REPOSITORY_ERROR");
+      }
+    });
+  });
+
+  describe("GetHeadingSectionsUseCase search", () => {
+    const sections = [
+      createSection("Login Flow", "Ask about OAuth scopes"),
+      createSection("CI Setup"),
+    ];
+
+    test("matches search text against notes", async () => {
+      const repository = {
+        getAllSections: jest.fn().mockResolvedValue(sections),
+      };
+      const useCase = new GetHeadingSectionsUseCase(repository as any);
+
+      const result = await useCase.execute({ searchText: "oauth" });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.sections.map((s) => s.titleText)).toEqual(["Login Flow"]);
+      }
+    });
+  });
+});
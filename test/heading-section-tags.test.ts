@@ -0,0 +1,238 @@
+/**
+ * Tests for user-defined tags on heading sections
+ */
+
+import {
+  HeadingSection,
+  createHeadingSection,
+  deserializeHeadingSection,
+  serializeHeadingSection,
+  normalizeTags,
+  updateSectionTags,
+  sectionMatchesTags,
+} from "../domain/heading-collection";
+import {
+  GetHeadingSectionsUseCase,
+  UpdateHeadingSectionTagsUseCase,
+} from "../application/usecases/heading-collection";
+import { Result } from "../domain/shared";
+
+const createSection = (titleText: string, tags: string[]): HeadingSection =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml: `<h2>${titleText}</h2>`,
+    sourceUrl: "https://deepwiki.com/facebook/react/1-overview",
+    sectionId: titleText.toLowerCase().replace(/\s+/g, "-"),
+    tags,
+  });
+
+describe("Heading section tags", () => {
+  describe("domain helpers", () => {
+    test("normalizeTags trims, lowercases and removes duplicates", () => {
+      expect(normalizeTags([" Auth ", "auth", "Build   Pipeline"])).toEqual([
+        "auth",
+        "build pipeline",
+      ]);
+    });
+
+    test("normalizeTags rejects empty tags", () => {
+      expect(() => normalizeTags(["  "])).toThrow("Tag cannot be empty");
+    });
+
+    test("updateSectionTags adds and removes tags immutably", () => {
+      const section = createSection("Login Flow", ["auth"]);
+      const updated = updateSectionTags(section, {
+        add: ["Onboarding"],
+        remove: ["AUTH"],
+      });
+
+      expect(updated.tags).toEqual(["onboarding"]);
+      expect(section.tags).toEqual(["auth"]);
+    });
+
+    test("sectionMatchesTags supports any and all modes", () => {
+      const section = createSection("Login Flow", ["auth", "onboarding"]);
+
+      expect(sectionMatchesTags(section, ["auth", "build"], "any")).toBe(true);
+      expect(sectionMatchesTags(section, ["auth", "build"], "all")).toBe(false);
+      expect(sectionMatchesTags(section, ["auth", "onboarding"], "all")).toBe(
+        true
+      );
+    });
+
+    test("sectionMatchesTags normalizes tags as they are stored", () => {
+      const section = {
+        ...createSection("Login Flow", ["getting started"]),
+        tags: ["Getting  Started", "  Auth "],
+      };
+
+      expect(
+        sectionMatchesTags(section, ["GETTING   started", "auth"], "all")
+      ).toBe(true);
+      expect(sectionMatchesTags(section, ["getting\tstarted"], "any")).toBe(
+        true
+      );
+      expect(sectionMatchesTags(section, ["", "  "], "any")).toBe(false);
+    });
+  });
+
+  describe("serialization", () => {
+    test("round-trips tags", () => {
+      const section = createSection("Login Flow", ["auth"]);
+      const restored = deserializeHeadingSection(
+        serializeHeadingSection(section)
+      );
+
+      expect(restored.tags).toEqual(["auth"]);
+    });
+
+    test("loads stored data without tags", () => {
+      const restored = deserializeHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText: "Legacy",
+        contentHtml: "<h2>Legacy</h2>",
+        sourceUrl: "https://deepwiki.com/a/b",
+        addedAt: "2025-01-01T00:00:00.000Z",
+        sectionId: "legacy-1",
+      });
+
+      expect(restored.tags).toEqual([]);
+    });
+
+    test("rejects malformed tags", () => {
+      expect(() =>
+        deserializeHeadingSection({
+          level: 2,
+          tagName: "H2",
+          titleText: "Broken",
+          contentHtml: "<h2>Broken</h2>",
+          sourceUrl: "https://deepwiki.com/a/b",
+          addedAt: "2025-01-01T00:00:00.000Z",
+          sectionId: "broken-1",
+          tags: "auth",
+        })
+      ).toThrow("Invalid tags");
+    });
+  });
+
+  describe("GetHeadingSectionsUseCase tag filtering", () => {
+    const sections = [
+      createSection("Login Flow", ["auth", "onboarding"]),
+      createSection("Token Refresh", ["auth"]),
+      createSection("CI Setup", ["build pipeline"]),
+    ];
+
+    const createRepository = () => ({
+      getAllSections: jest.fn().mockResolvedValue(sections),
+      findSectionsByTags: jest.fn(async (tags: string[], match: any) =>
+        sections.filter((s) => sectionMatchesTags(s, tags, match))
+      ),
+    });
+
+    test("uses the repository tag query for tag-only filters", async () => {
+      const repository = createRepository();
+      const useCase = new GetHeadingSectionsUseCase(repository as any);
+
+      const result = await useCase.execute({ tags: ["auth"] });
+
+      expect(repository.findSectionsByTags).toHaveBeenCalledWith(
+        ["auth"],
+        "any"
+      );
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.sections.map((s) => s.titleText).sort()).toEqual([
+          "Login Flow",
+          "Token Refresh",
+        ]);
+      }
+    });
+
+    test("requires every tag in all mode", async () => {
+      const useCase = new GetHeadingSectionsUseCase(createRepository() as any);
+
+      const result = await useCase.execute({
+        tags: ["auth", "onboarding"],
+        tagMatch: "all",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.sections.map((s) => s.titleText)).toEqual(["Login Flow"]);
+      }
+    });
+
+    test("rejects an invalid tag match mode", async () => {
+      const useCase = new GetHeadingSectionsUseCase(createRepository() as any);
+
+      const result = await useCase.execute({
+        tags: ["auth"],
+        tagMatch: "some" as any,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("INVALID_INPUT");
+      }
+    });
+  });
+
+  describe("UpdateHeadingSectionTagsUseCase", () => {
+    test("persists added and removed tags", async () => {
+      const section = createSection("Login Flow", ["auth"]);
+      const repository = {
+        getSectionById: jest.fn().mockResolvedValue(section),
+        updateSection: jest.fn().mockResolvedValue(Result.success(undefined)),
+      };
+      const useCase = new UpdateHeadingSectionTagsUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sectionId: section.sectionId,
+        addTags: ["Onboarding"],
+        removeTags: ["auth"],
+      });
+
+      expect(result).toEqual({
+        success: true,
+        sectionId: section.sectionId,
+        tags: ["onboarding"],
+      });
+      expect(repository.updateSection).toHaveBeenCalledWith(
+        expect.objectContaining({ tags: ["onboarding"] })
+      );
+    });
+
+    test("returns SECTION_NOT_FOUND for unknown sections", async () => {
+      const repository = {
+        getSectionById: jest.fn().mockResolvedValue(null),
+        updateSection: jest.fn(),
+      };
+      const useCase = new UpdateHeadingSectionTagsUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sectionId: "missing",
+        addTags: ["auth"],
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("SECTION_NOT_FOUND");
+      }
+      expect(repository.updateSection).not.toHaveBeenCalled();
+    });
+
+    test("rejects requests without tag changes", async () => {
+      const useCase = new UpdateHeadingSectionTagsUseCase({} as any);
+
+      const result = await useCase.execute({ sectionId: "any" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("INVALID_INPUT");
+      }
+    });
+  });
+});
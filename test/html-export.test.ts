@@ -0,0 +1,107 @@
+/**
+ * Tests for exporting sections as a standalone HTML document
+ */
+
+import { createHeadingSection } from "../domain/heading-collection";
+import { buildHtmlDocument } from "../shared/export/html-export";
+import { parseHtml, serializeHtml } from "../shared/html/html-parser";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+const createSection = (
+  titleText: string,
+  contentHtml: string,
+  extra: object = {}
+) =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml,
+    sourceUrl: PAGE_URL,
+    ...extra,
+  });
+
+describe("HTML export", () => {
+  test("builds a standalone document with a table of contents", () => {
+    const html = buildHtmlDocument(
+      [
+        createSection("State", "<h2>State</h2><p>About state.</p>", {
+          tags: ["hooks"],
+          note: "Read <twice>",
+        }),
+        createSection("Effects", "<p>No heading captured</p>"),
+      ],
+      { title: "React & Co", exportedAt: new Date("2024-05-01T12:00:00Z") }
+    );
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<title>React &amp; Co</title>");
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<link|<script/);
+    expect(html).toContain('<a href="#section-1">State</a>');
+    expect(html).toContain('<a href="#section-2">Effects</a>');
+    expect(html).toContain('<article class="dwpp-section" id="section-2">');
+    expect(html).toContain("<h2>Effects</h2><p>No heading captured</p>");
+    expect(html).toContain(
+      `Source: <a href="${PAGE_URL}">facebook/react › State</a>`
+    );
+    expect(html).toContain("#hooks");
+    expect(html).toContain("Read &lt;twice&gt;");
+  });
+
+  test("keeps diagrams inline with the Mermaid class", () => {
+    const html = buildHtmlDocument(
+      [
+        createSection(
+          "Flow",
+          '<h2>Flow</h2><svg id="mermaid-1" viewBox="0 0 10 10"><style>#mermaid-1 .node{fill:red}</style><g><path d="M0 0"/></g></svg>'
+        ),
+      ],
+      { title: "React" }
+    );
+
+    expect(html).toContain('<div class="dwpp-diagram-wrapper">');
+    expect(html).toMatch(/<svg id="mermaid-1"[^>]*class="dwpp-mermaid-svg"/);
+    expect(html).toContain("<style>#mermaid-1 .node{fill:red}</style>");
+  });
+
+  test("removes active content and makes links absolute", () => {
+    const html = buildHtmlDocument(
+      [
+        createSection(
+          "State",
+          '<h2>State</h2><p onclick="steal()">Text <a href="/facebook/react/3-refs">refs</a> <a href="javascript:alert(1)">x</a></p><script>alert(1)</script><iframe src="https://example.com"></iframe>'
+        ),
+      ],
+      { title: "React" }
+    );
+
+    expect(html).not.toMatch(/onclick|alert|<iframe/);
+    expect(html).toContain(
+      '<a href="https://deepwiki.com/facebook/react/3-refs">refs</a>'
+    );
+  });
+
+  test("sanitizes stored content before exporting it", () => {
+    const html = buildHtmlDocument(
+      [
+        createSection(
+          "State",
+          '<h2>State</h2><base href="https://example.com/"><link rel="stylesheet" href="https://example.com/a.css"><p>Text</p>'
+        ),
+      ],
+      { title: "React" }
+    );
+
+    expect(html).not.toMatch(/<base|example\.com/);
+    expect(html).toContain("<p>Text</p>");
+  });
+
+  test("serializes parsed HTML back to equivalent markup", () => {
+    const source =
+      '<p class="a">x &amp; &lt;y&gt;<br><img src="i.png" alt="&quot;q&quot;"></p><style>a > b {}</style>';
+
+    expect(serializeHtml(parseHtml(source))).toBe(source);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for sanitizing captured HTML before it is stored or rendered
+ */
+
+import { isSafeCss, sanitizeHtml } from "../shared/html/html-sanitizer";
+import {
+  SECTION_BACKUP_FORMAT,
+  SECTION_BACKUP_VERSION,
+  createHeadingSection,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+import {
+  AddClipUseCase,
+  ImportBackupUseCase,
+  buildHeadingSection,
+} from "../application/usecases/heading-collection";
+import { Result } from "../domain/shared";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/1-overview";
+
+// Markup as Mermaid renders a flowchart into the page
+const MERMAID_SVG =
+  '<svg id="mermaid-1" width="100%" xmlns="http://www.w3.org/2000/svg" ' +
+  'class="flowchart" style="max-width: 200px;" viewBox="0 0 200 100" ' +
+  'role="graphics-document document" aria-roledescription="flowchart-v2">' +
+  "<style>#mermaid-1{font-family:trebuchet ms;fill:#333;}" +
+  "#mermaid-1 .node rect{fill:#ECECFF;stroke:#9370DB;}" +
+  "#mermaid-1 .cluster>rect{stroke-width:1px;}</style>" +
+  '<g><marker id="mermaid-1_arrow" viewBox="0 0 10 10" refX="5" refY="5" ' +
+  'markerUnits="userSpaceOnUse" markerWidth="8" markerHeight="8" orient="auto">' +
+  '<path d="M 0 0 L 10 5 L 0 10 z" class="arrowMarkerPath"></path></marker>' +
+  '<g class="edgePaths"><path d="M50,50L150,50" class="flowchart-link" ' +
+  'marker-end="url(#mermaid-1_arrow)"></path></g>' +
+  '<g class="node default" id="flowchart-A-0" transform="translate(50, 50)">' +
+  '<rect class="basic label-container" x="-30" y="-15" width="60" height="30"></rect>' +
+  '<g class="label" transform="translate(-20, -10)">' +
+  '<foreignObject width="40" height="20"><div style="display: table-cell; white-space: nowrap;">' +
+  '<span class="nodeLabel"><p>Fiber</p></span></div></foreignObject>' +
+  '<text x="0" y="0" text-anchor="middle"><tspan dy="1em">Fiber</tspan></text>' +
+  "</g></g></g></svg>";
+
+describe("HTML sanitizer", () => {
+  describe("sanitizeHtml", () => {
+    test("keeps ordinary content as it is", () => {
+      const html =
+        '<h2 id="state">State</h2><p>Use <code>useState</code> and <a href="https://react.dev/learn">the docs</a>.</p>' +
+        '<ul><li>One</li><li>Two</li></ul><pre><code class="language-ts">a &lt; b</code></pre>' +
+        '<table><thead><tr><th scope="col">Name</th></tr></thead><tbody><tr><td colspan="2">x</td></tr></tbody></table>' +
+        '<img src="https://github.com/logo.png" alt="Logo" width="20">';
+
+      expect(sanitizeHtml(html)).toBe(html);
+    });
+
+    test("keeps Mermaid diagrams intact", () => {
+      expect(sanitizeHtml(MERMAID_SVG)).toBe(MERMAID_SVG);
+    });
+
+    test("removes scripts and other elements that run code, with their content", () => {
+      expect(
+        sanitizeHtml(
+          "<p>Before</p><script>alert(1)</script><SCRIPT SRC=//evil.example></SCRIPT>" +
+            '<iframe src="javascript:alert(1)"></iframe><object data="x.swf"></object>' +
+            "<embed src=x.swf><noscript><p>No</p></noscript><template><img src=x onerror=alert(1)></template>" +
+            "<math><mi>x</mi></math><p>After</p>"
+        )
+      ).toBe("<p>Before</p><p>After</p>");
+    });
+
+    test("removes event handlers in any case", () => {
+      expect(
+        sanitizeHtml(
+          '<img src=x onerror="alert(1)"><p ONCLICK=alert(1) class="a">Text</p>' +
+            '<svg onload=alert(1)><g onmouseover="alert(1)"></g></svg>' +
+            "<img/src=x/onerror=alert(1)>"
+        )
+      ).toBe(
+        '<img src="x"><p class="a">Text</p><svg><g></g></svg>' +
+          '<img src="x/onerror=alert(1)">'
+      );
+    });
+
+    test("drops script URLs, also when obfuscated", () => {
+      const hrefs = [
+        "javascript:alert(1)",
+        " JavaScript:alert(1)",
+        "jav&#x61;script:alert(1)",
+        "jav&#97script:alert(1)",
+        "java&Tab;script:alert(1)",
+        "javascript&colon;alert(1)",
+        "java\nscript:alert(1)",
+        "&#x01;javascript:alert(1)",
+        "vbscript:msgbox(1)",
+        "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+      ];
+
+      for (const href of hrefs) {
+        expect(sanitizeHtml(`<a href="${href}">Link</a>`)).toBe("<a>Link</a>");
+      }
+      expect(
+        sanitizeHtml(
+          '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>'
+        )
+      ).toBe("<svg><a><text>x</text></a></svg>");
+    });
+
+    test("keeps safe URLs and image data URLs", () => {
+      expect(
+        sanitizeHtml(
+          '<a href="https://example.com/?a=1&amp;b=2">A</a><a href="#state">B</a>' +
+            '<a href="mailto:dev@example.com">C</a><a href="../2-hooks">D</a>' +
+            '<img src="data:image/png;base64,iVBORw0KGgo="><img src="data:image/svg+xml,<svg onload=alert(1)>">'
+        )
+      ).toBe(
+        '<a href="https://example.com/?a=1&amp;b=2">A</a><a href="#state">B</a>' +
+          '<a href="mailto:dev@example.com">C</a><a href="../2-hooks">D</a>' +
+          '<img src="data:image/png;base64,iVBORw0KGgo="><img>'
+      );
+    });
+
+    test("does not let text inside an SVG style break out of it", () => {
+      expect(
+        sanitizeHtml("<svg><style><img src=x onerror=alert(1)></style></svg>")
+      ).toBe("<svg><style>\\3c img src=x onerror=alert(1)></style></svg>");
+      expect(
+        sanitizeHtml(
+          '<svg></p><style><a id="</style><img src=1 onerror=alert(1)>">'
+        )
+      ).toBe('<svg><style>\\3c a id="</style>"&gt;</svg>');
+      expect(
+        sanitizeHtml("<style>body{}</style><title><script>x</script></title>")
+      ).toBe("");
+    });
+
+    test("removes unsafe styles", () => {
+      expect(
+        sanitizeHtml(
+          '<p style="color: red">A</p><p style="width: expression(alert(1))">B</p>' +
+            '<p style="background: url(&quot;javascript:alert(1)&quot;)">C</p>' +
+            '<p style="background: u\\72l(https://evil.example/track)">D</p>' +
+            "<svg><style>@import url(https://evil.example/x.css);</style>" +
+            '<rect fill="url(https://evil.example/#a)"></rect></svg>'
+        )
+      ).toBe(
+        '<p style="color: red">A</p><p>B</p><p>C</p><p>D</p><svg><rect></rect></svg>'
+      );
+      expect(isSafeCss("stroke: url(#gradient)")).toBe(true);
+    });
+
+    test("unwraps unknown elements and forms, keeping their text", () => {
+      expect(
+        sanitizeHtml(
+          '<custom-card data-id="1"><form action="https://evil.example"><input value="x"><button formaction="javascript:alert(1)">Go</button></form></custom-card>'
+        )
+      ).toBe("Go");
+    });
+
+    test("balances unclosed and stray tags and escapes stray brackets", () => {
+      expect(
+        sanitizeHtml("<div><p>a < b > c<b>bold</div></i><!-- <script> -->")
+      ).toBe("<div><p>a &lt; b &gt; c<b>bold</b></p></div>");
+      expect(sanitizeHtml('<a href="x" title="a&quot;b')).toBe("");
+    });
+
+    test("keeps only same-document references in SVG use", () => {
+      expect(
+        sanitizeHtml(
+          '<svg><use href="#icon"></use><use xlink:href="https://evil.example/x.svg#a"></use></svg>'
+        )
+      ).toBe('<svg><use href="#icon"></use></svg>');
+    });
+  });
+
+  describe("where content enters the extension", () => {
+    const payload = '<p>Intro</p><img src=x onerror="alert(1)">';
+
+    test("sanitizes captured sections and clips", async () => {
+      const section = buildHeadingSection({
+        level: 2,
+        title: "State",
+        content: payload,
+        sourceUrl: PAGE_URL,
+      });
+      const repository = { addClip: jest.fn(async () => ({ success: true })) };
+
+      const result = await new AddClipUseCase(repository as any).execute({
+        sourceUrl: PAGE_URL,
+        contentHtml: payload,
+        anchor: { exact: "Intro", prefix: "", suffix: "", start: 0, end: 5 },
+      });
+
+      expect(section.contentHtml).toBe('<p>Intro</p><img src="x">');
+      expect(result.success && result.clip.contentHtml).toBe(
+        '<p>Intro</p><img src="x">'
+      );
+    });
+
+    test("sanitizes imported sections and their versions", async () => {
+      const section = {
+        ...createHeadingSection({
+          level: 2,
+          tagName: "H2",
+          titleText: "State",
+          contentHtml: payload,
+          sourceUrl: PAGE_URL,
+        }),
+        versions: [
+          {
+            contentHtml: '<a href="javascript:alert(1)">Old</a>',
+            capturedAt: new Date(2026, 0, 1),
+          },
+        ],
+      };
+
+      const sectionRepository = {
+        getAllSections: jest.fn(async () => []),
+        replaceAllSections: jest.fn(async (_sections: any[]) =>
+          Result.success(undefined)
+        ),
+      };
+      const collectionRepository = {
+        getAllCollections: jest.fn(async () => []),
+      };
+
+      await new ImportBackupUseCase(
+        sectionRepository as any,
+        collectionRepository as any
+      ).execute({
+        backup: {
+          format: SECTION_BACKUP_FORMAT,
+          version: SECTION_BACKUP_VERSION,
+          exportedAt: new Date().toISOString(),
+          sections: [serializeHeadingSection(section)],
+          collections: [],
+        },
+        conflictStrategy: "skip",
+      });
+
+      const [imported] = sectionRepository.replaceAllSections.mock.calls[0][0];
+      expect(imported.contentHtml).toBe('<p>Intro</p><img src="x">');
+      expect(imported.versions?.[0].contentHtml).toBe("<a>Old</a>");
+    });
+  });
+});
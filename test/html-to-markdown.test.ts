@@ -0,0 +1,136 @@
+import { htmlToMarkdown } from "../shared/html/html-to-markdown";
+import { parseHtml } from "../shared/html/html-parser";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+describe("parseHtml", () => {
+  it("should build a tree with decoded text and attributes", () => {
+    expect(
+      parseHtml('<p class="a">x &amp; <b title="&quot;t&quot;">y</b></p>')
+    ).toEqual([
+      {
+        type: "element",
+        tagName: "p",
+        attributes: { class: "a" },
+        children: [
+          { type: "text", text: "x & " },
+          {
+            type: "element",
+            tagName: "b",
+            attributes: { title: '"t"' },
+            children: [{ type: "text", text: "y" }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should close list items and cells implicitly", () => {
+    const [list] = parseHtml("<ul><li>One<li>Two</ul><p>After");
+
+    expect(list.type === "element" && list.children).toHaveLength(2);
+  });
+
+  it("should tolerate truncated and stray markup", () => {
+    expect(() => parseHtml("<p>a < b</span><div><code>x")).not.toThrow();
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  it("should convert headings, emphasis and inline code", () => {
+    expect(
+      htmlToMarkdown(
+        "<h2>State</h2><p>Use <code>useState</code> for <strong>local</strong> <em>state</em>.</p>"
+      )
+    ).toBe("## State\n\nUse `useState` for **local** *state*.");
+  });
+
+  it("should keep the language of fenced code blocks", () => {
+    expect(
+      htmlToMarkdown(
+        '<pre><code class="language-ts">const a = 1;\nconst b = `x`;\n</code></pre>'
+      )
+    ).toBe("```ts\nconst a = 1;\nconst b = `x`;\n```");
+  });
+
+  it("should lengthen fences around code containing backticks", () => {
+    expect(htmlToMarkdown("<pre>```\nnested\n```</pre>")).toBe(
+      "````\n```\nnested\n```\n````"
+    );
+    expect(htmlToMarkdown("<p><code>a`b</code></p>")).toBe("``a`b``");
+  });
+
+  it("should convert nested and ordered lists", () => {
+    expect(
+      htmlToMarkdown(
+        '<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><ol start="3"><li>Three</li><li>Four</li></ol>'
+      )
+    ).toBe("- One\n  - Nested\n- Two\n\n3. Three\n4. Four");
+  });
+
+  it("should convert tables with alignment and escaped pipes", () => {
+    expect(
+      htmlToMarkdown(
+        '<table><thead><tr><th>Name</th><th align="right">Value</th></tr></thead><tbody><tr><td>a|b</td><td><code>x</code><br>y</td></tr><tr><td>only</td></tr></tbody></table>'
+      )
+    ).toBe(
+      [
+        "| Name | Value |",
+        "| --- | ---: |",
+        "| a\\|b | `x`<br>y |",
+        "| only |  |",
+      ].join("\n")
+    );
+  });
+
+  it("should resolve links and images against the base URL", () => {
+    expect(
+      htmlToMarkdown(
+        '<p>See <a href="/facebook/react/3-refs">refs</a> <img src="diagram.png" alt="Flow"></p>',
+        { baseUrl: PAGE_URL }
+      )
+    ).toBe(
+      "See [refs](https://deepwiki.com/facebook/react/3-refs) ![Flow](https://deepwiki.com/facebook/react/diagram.png)"
+    );
+  });
+
+  it("should drop script links and heading permalinks", () => {
+    expect(
+      htmlToMarkdown(
+        '<h3 id="a">Hooks <a href="#a">#</a></h3><p><a href="javascript:alert(1)">click</a></p>'
+      )
+    ).toBe("### Hooks\n\nclick");
+  });
+
+  it("should turn Mermaid diagrams with a source into fenced blocks", () => {
+    expect(
+      htmlToMarkdown(
+        '<pre class="mermaid">graph TD\n  A--&gt;B</pre><div data-mermaid-source="graph LR; X--&gt;Y"><svg id="mermaid-2"></svg></div><pre><code class="language-mermaid">sequenceDiagram</code></pre>'
+      )
+    ).toBe(
+      "```mermaid\ngraph TD\n  A-->B\n```\n\n```mermaid\ngraph LR; X-->Y\n```\n\n```mermaid\nsequenceDiagram\n```"
+    );
+  });
+
+  it("should mark rendered diagrams without a source", () => {
+    expect(
+      htmlToMarkdown(
+        '<svg id="mermaid-1" aria-roledescription="flowchart-v2"><text>A</text></svg>'
+      )
+    ).toBe("_[Diagram not exported: source not available]_");
+  });
+
+  it("should escape text that would read as Markdown syntax", () => {
+    expect(
+      htmlToMarkdown("<p>1. not a list</p><p># not a heading</p><p>a_b *c*</p>")
+    ).toBe("1\\. not a list\n\n\\# not a heading\n\na\\_b \\*c\\*");
+  });
+
+  it("should keep blockquotes, line breaks and drop buttons", () => {
+    expect(
+      htmlToMarkdown(
+        "<blockquote><p>Quote</p><p>More</p></blockquote><p>a<br>b</p><button>Copy</button><hr>"
+      )
+    ).toBe("> Quote\n>\n> More\n\na  \nb\n\n---");
+  });
+});
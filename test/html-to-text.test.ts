@@ -0,0 +1,35 @@
+import { htmlToPlainText } from "../shared/html/html-to-text";
+
+describe("htmlToPlainText", () => {
+  it("should strip inline tags", () => {
+    expect(htmlToPlainText("<p>Use <code>useState</code> here</p>")).toBe(
+      "Use useState here"
+    );
+  });
+
+  it("should keep block boundaries as line breaks", () => {
+    expect(
+      htmlToPlainText(
+        "<h2>Title</h2><p>First</p><ul><li>One</li><li>Two</li></ul>"
+      )
+    ).toBe("Title\n\nFirst\n\nOne\n\nTwo");
+  });
+
+  it("should decode entities", () => {
+    expect(
+      htmlToPlainText("<p>a &lt; b &amp;&amp; c &#62; d&nbsp;&#x41;</p>")
+    ).toBe("a < b && c > d A");
+  });
+
+  it("should drop scripts and replace diagrams with a marker", () => {
+    expect(
+      htmlToPlainText(
+        '<p>Before</p><svg id="mermaid-1"><text>Node</text></svg><script>x()</script><p>After</p>'
+      )
+    ).toBe("Before\n\n[diagram]\n\nAfter");
+  });
+
+  it("should return an empty string for empty input", () => {
+    expect(htmlToPlainText("")).toBe("");
+  });
+});
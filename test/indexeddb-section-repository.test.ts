@@ -0,0 +1,359 @@
+/**
+ * Tests for the IndexedDB heading section repository and for switching the
+ * section storage backend
+ */
+
+import {
+  HeadingSection,
+  createHeadingSection,
+  deserializeHeadingSection,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+import { RepositoryError, Result } from "../domain/shared";
+import {
+  ChromeStorageHeadingSectionRepository,
+  SECTION_CHANGE_KEY,
+} from "../infrastructure/repositories/chrome/heading-section";
+import { IndexedDbHeadingSectionRepository } from "../infrastructure/repositories/indexeddb";
+import {
+  ACTIVE_SECTION_STORAGE_BACKEND_KEY,
+  SECTION_STORAGE_BACKEND_ERROR_KEY,
+  SECTION_STORAGE_BACKEND_KEY,
+  SwitchableHeadingSectionRepository,
+} from "../infrastructure/repositories/section-backend";
+import { createStorageArea } from "./storage-area";
+
+// Minimal in-memory IndexedDB with the parts the repository uses: one object
+// store per database with a key path and single-field indexes. Requests
+// succeed on a later task, and a transaction completes after its requests.
+const createFakeIndexedDb = () => {
+  const databases = new Map<string, any>();
+
+  const createTransaction = (database: any) => {
+    let pending = 0;
+    const transaction: any = { error: null };
+    const finish = () =>
+      setTimeout(() => {
+        if (pending === 0) {
+          transaction.oncomplete?.();
+        }
+      });
+    const request = (run: () => any) => {
+      const req: any = {};
+      pending++;
+      const result = run();
+      setTimeout(() => {
+        req.result = result;
+        req.onsuccess?.();
+        pending--;
+        finish();
+      });
+      return req;
+    };
+    const sortedBy = (records: any[], field: string) =>
+      [...records].sort((a, b) =>
+        a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0
+      );
+
+    transaction.objectStore = (name: string) => {
+      const store = database.stores.get(name);
+      const all = () =>
+        sortedBy([...store.records.values()], store.keyPath).map((r) =>
+          structuredClone(r)
+        );
+      return {
+        get: (key: string) =>
+          request(() => structuredClone(store.records.get(key))),
+        getKey: (key: string) =>
+          request(() => (store.records.has(key) ? key : undefined)),
+        getAll: () => request(all),
+        count: () => request(() => store.records.size),
+        put: (value: any) =>
+          request(() =>
+            store.records.set(value[store.keyPath], structuredClone(value))
+          ),
+        delete: (key: string) => request(() => store.records.delete(key)),
+        clear: () => request(() => store.records.clear()),
+        index: (indexName: string) => {
+          const field = store.indexes.get(indexName);
+          return {
+            getAll: (key?: any) =>
+              request(() =>
+                sortedBy(all(), field).filter(
+                  (record) => key === undefined || record[field] === key
+                )
+              ),
+          };
+        },
+      };
+    };
+    finish();
+    return transaction;
+  };
+
+  return {
+    open: (name: string, version: number) => {
+      const request: any = {};
+      setTimeout(() => {
+        let database = databases.get(name);
+        const upgrade = !database || database.version < version;
+        if (!database) {
+          database = {
+            version,
+            stores: new Map(),
+            objectStoreNames: {
+              contains: (store: string) => database.stores.has(store),
+            },
+            createObjectStore: (store: string, options: any) => {
+              const created = {
+                keyPath: options.keyPath,
+                records: new Map(),
+                indexes: new Map(),
+              };
+              database.stores.set(store, created);
+              return {
+                createIndex: (indexName: string, field: string) =>
+                  created.indexes.set(indexName, field),
+              };
+            },
+            transaction: () => createTransaction(database),
+          };
+          databases.set(name, database);
+        }
+        request.result = database;
+        if (upgrade) {
+          request.onupgradeneeded?.();
+        }
+        request.onsuccess?.();
+      });
+      return request;
+    },
+  };
+};
+
+// Sections as they read back from storage
+const createSection = (
+  titleText: string,
+  level: number,
+  addedAt: Date,
+  sourceUrl = "https://deepwiki.com/acme/app/1-overview"
+): HeadingSection =>
+  deserializeHeadingSection(
+    serializeHeadingSection({
+      ...createHeadingSection({
+        level,
+        tagName: `H${level}`,
+        titleText,
+        contentHtml: `<h${level}>${titleText}</h${level}>`,
+        sourceUrl,
+      }),
+      addedAt,
+    })
+  );
+
+describe("IndexedDbHeadingSectionRepository", () => {
+  const overview = createSection("Overview", 1, new Date(2026, 0, 3));
+  const setup = createSection("Setup", 2, new Date(2026, 0, 1));
+  const usage = createSection(
+    "Usage",
+    2,
+    new Date(2026, 0, 2),
+    "https://deepwiki.com/acme/app/2-usage"
+  );
+
+  const createRepository = async (sections: HeadingSection[] = []) => {
+    const changeStorage = createStorageArea();
+    const repository = new IndexedDbHeadingSectionRepository({
+      indexedDB: createFakeIndexedDb() as unknown as IDBFactory,
+      changeStorage: changeStorage as any,
+    });
+    if (sections.length > 0) {
+      await repository.addSections(sections);
+    }
+    return { repository, changeStorage };
+  };
+
+  test("stores one record per section and lists them oldest first", async () => {
+    const { repository } = await createRepository([overview, setup, usage]);
+
+    expect(await repository.getAllSections()).toEqual([setup, usage, overview]);
+    expect(await repository.getSectionCount()).toBe(3);
+    expect(await repository.getSectionById(usage.sectionId)).toEqual(usage);
+  });
+
+  test("finds sections through the URL and level indexes", async () => {
+    const { repository } = await createRepository([overview, setup, usage]);
+
+    expect(await repository.findSectionsByLevel(2)).toEqual([setup, usage]);
+    expect(await repository.findSectionsByUrl(usage.sourceUrl)).toEqual([
+      usage,
+    ]);
+    expect(
+      await repository.findDuplicateSection({
+        sourceUrl: setup.sourceUrl,
+        level: 2,
+        titleText: "setup",
+      })
+    ).toEqual(setup);
+  });
+
+  test("pages filtered and sorted sections", async () => {
+    const { repository } = await createRepository([overview, setup, usage]);
+
+    const page = await repository.getSectionsPage(1, 1, {
+      filter: (section) => section.level === 2,
+      compare: (a, b) => a.titleText.localeCompare(b.titleText),
+    });
+
+    expect(page).toEqual({ sections: [usage], total: 2, hasMore: false });
+  });
+
+  test("updates and removes sections, also by legacy ID", async () => {
+    const legacy = { ...setup, legacyIds: ["old-random-id"] };
+    const { repository } = await createRepository([overview, legacy]);
+
+    const updated = await repository.updateSection({
+      ...overview,
+      note: "Start here",
+    });
+    const missing = await repository.updateSection(usage);
+    const removed = await repository.removeSection("old-random-id");
+
+    expect(updated.success).toBe(true);
+    expect(missing.success).toBe(false);
+    expect(removed).toEqual({ success: true, data: true });
+    expect(await repository.getAllSections()).toEqual([
+      { ...overview, note: "Start here" },
+    ]);
+  });
+
+  test("announces writes with the IDs of added sections", async () => {
+    const { repository, changeStorage } = await createRepository();
+
+    await repository.addSection(setup);
+
+    expect(changeStorage.data[SECTION_CHANGE_KEY]).toMatchObject({
+      addedIds: [setup.sectionId],
+    });
+  });
+});
+
+describe("SwitchableHeadingSectionRepository", () => {
+  const first = createSection("First", 2, new Date(2026, 0, 1));
+  const second = createSection("Second", 2, new Date(2026, 0, 2));
+
+  const setUp = async (settings: Record<string, any>) => {
+    const local = createStorageArea(settings);
+    global.chrome = {
+      storage: { local, sync: createStorageArea() },
+    } as any;
+    const chromeStorage = new ChromeStorageHeadingSectionRepository();
+    await chromeStorage.addSections([first, second]);
+    const indexedDb = new IndexedDbHeadingSectionRepository({
+      indexedDB: createFakeIndexedDb() as unknown as IDBFactory,
+      changeStorage: local as any,
+    });
+    const repository = new SwitchableHeadingSectionRepository(
+      {
+        "chrome-storage": chromeStorage,
+        indexeddb: indexedDb,
+        "chrome-sync": new ChromeStorageHeadingSectionRepository({
+          useSync: true,
+        }),
+      },
+      local as any
+    );
+    return { local, chromeStorage, indexedDb, repository };
+  };
+
+  test("waits for the storage migrations before using a backend", async () => {
+    const { local, chromeStorage } = await setUp({});
+    let finishMigrations = () => {};
+    const migrated = new Promise<void>((resolve) => {
+      finishMigrations = resolve;
+    });
+    const addSection = jest.spyOn(chromeStorage, "addSection");
+    const repository = new SwitchableHeadingSectionRepository(
+      {
+        "chrome-storage": chromeStorage,
+        indexeddb: chromeStorage,
+        "chrome-sync": chromeStorage,
+      },
+      local as any,
+      migrated
+    );
+
+    const added = repository.addSection(
+      createSection("Third", 2, new Date(2026, 0, 3))
+    );
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(addSection).not.toHaveBeenCalled();
+
+    finishMigrations();
+
+    expect((await added).success).toBe(true);
+    expect(addSection).toHaveBeenCalledTimes(1);
+  });
+
+  test("keeps using chrome.storage without a setting", async () => {
+    const { repository, indexedDb } = await setUp({});
+
+    expect(await repository.getAllSections()).toEqual([first, second]);
+    expect(await indexedDb.getSectionCount()).toBe(0);
+  });
+
+  test("moves existing sections when IndexedDB is chosen", async () => {
+    const { local, repository, chromeStorage, indexedDb } = await setUp({
+      [SECTION_STORAGE_BACKEND_KEY]: "indexeddb",
+    });
+
+    expect(await repository.getSectionCount()).toBe(2);
+    expect(await indexedDb.getAllSections()).toEqual([first, second]);
+    expect(await chromeStorage.getAllSections()).toEqual([]);
+    expect(local.data[ACTIVE_SECTION_STORAGE_BACKEND_KEY]).toBe("indexeddb");
+
+    // Switching back moves them again after a reset
+    local.data[SECTION_STORAGE_BACKEND_KEY] = "chrome-storage";
+    repository.reset();
+    await repository.removeSection(first.sectionId);
+
+    expect(await chromeStorage.getAllSections()).toEqual([second]);
+    expect(await indexedDb.getSectionCount()).toBe(0);
+  });
+
+  test("keeps the active backend when moving the sections fails", async () => {
+    const { local, repository, chromeStorage, indexedDb } = await setUp({
+      [SECTION_STORAGE_BACKEND_KEY]: "indexeddb",
+    });
+    const replaceAllSections = jest
+      .spyOn(indexedDb, "replaceAllSections")
+      .mockResolvedValue(Result.failure(new RepositoryError("Quota exceeded")));
+
+    expect(await repository.getAllSections()).toEqual([first, second]);
+    expect(await chromeStorage.getAllSections()).toEqual([first, second]);
+    expect(local.data[SECTION_STORAGE_BACKEND_KEY]).toBe("chrome-storage");
+    expect(local.data[SECTION_STORAGE_BACKEND_ERROR_KEY]).toMatchObject({
+      backend: "indexeddb",
+      activeBackend: "chrome-storage",
+      message: "Quota exceeded",
+    });
+
+    // Later calls keep the active backend without moving again
+    repository.reset();
+    expect((await repository.removeSection(first.sectionId)).success).toBe(
+      true
+    );
+    expect(await chromeStorage.getAllSections()).toEqual([second]);
+    expect(replaceAllSections).toHaveBeenCalledTimes(1);
+
+    // Choosing it again retries and clears the error once the move works
+    replaceAllSections.mockRestore();
+    local.data[SECTION_STORAGE_BACKEND_KEY] = "indexeddb";
+    repository.reset();
+
+    expect(await repository.getSectionCount()).toBe(1);
+    expect(await indexedDb.getAllSections()).toEqual([second]);
+    expect(local.data[ACTIVE_SECTION_STORAGE_BACKEND_KEY]).toBe("indexeddb");
+    expect(local.data[SECTION_STORAGE_BACKEND_ERROR_KEY]).toBeUndefined();
+  });
+});
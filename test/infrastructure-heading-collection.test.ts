@@ -98,6 +98,19 @@ const mockWindow = {
 global.document = mockDocument as any;
 global.window = mockWindow as any;
 
+// Makes the storage mock return the given items for the keys asked for
+const mockStoredItems = (items: Record<string, any>) => {
+  mockChromeStorage.local.get.mockImplementation(
+    async (keys: string | string[]) =>
+      Object.fromEntries(
+        [keys]
+          .flat()
+          .filter((key) => key in items)
+          .map((key) => [key, items[key]])
+      )
+  );
+};
+
 describe("ChromeStorageHeadingSectionRepository", () => {
   let repository: ChromeStorageHeadingSectionRepository;
 
@@ -123,17 +136,26 @@ describe("ChromeStorageHeadingSectionRepository", () => {
         sectionId: "test-1",
       });
 
-      mockChromeStorage.local.get.mockResolvedValue({
-        deepwiki_heading_sections: [],
+      mockStoredItems({
+        deepwiki_heading_sections_manifest: { sectionIds: [] },
       });
       mockChromeStorage.local.set.mockResolvedValue(undefined);
 
       await repository.addSection(section);
 
       expect(mockChromeStorage.local.get).toHaveBeenCalledWith(
-        "deepwiki_heading_sections"
+        "deepwiki_heading_sections_manifest"
       );
-      expect(mockChromeStorage.local.set).toHaveBeenCalled();
+      expect(mockChromeStorage.local.set).toHaveBeenCalledWith({
+        "deepwiki_heading_section:test-1": expect.objectContaining({
+          sectionId: "test-1",
+        }),
+        deepwiki_heading_sections_manifest: { sectionIds: ["test-1"] },
+        deepwiki_heading_sections_changed: {
+          changedAt: expect.any(String),
+          addedIds: ["test-1"],
+        },
+      });
     });
 
     it("should throw error when storage quota is exceeded", async () => {
@@ -146,8 +168,8 @@ describe("ChromeStorageHeadingSectionRepository", () => {
         sectionId: "test-1",
       });
 
-      mockChromeStorage.local.get.mockResolvedValue({
-        deepwiki_heading_sections: [],
+      mockStoredItems({
+        deepwiki_heading_sections_manifest: { sectionIds: [] },
       });
       mockChromeStorage.local.set.mockRejectedValue(
         new Error("QUOTA_EXCEEDED")
@@ -185,8 +207,12 @@ describe("ChromeStorageHeadingSectionRepository", () => {
         },
       ];
 
-      mockChromeStorage.local.get.mockResolvedValue({
-        deepwiki_heading_sections: sectionsData,
+      mockStoredItems({
+        deepwiki_heading_sections_manifest: {
+          sectionIds: ["test-1", "test-2"],
+        },
+        "deepwiki_heading_section:test-1": sectionsData[0],
+        "deepwiki_heading_section:test-2": sectionsData[1],
       });
 
       const results = await repository.getAllSections();
@@ -194,6 +220,10 @@ describe("ChromeStorageHeadingSectionRepository", () => {
       expect(results).toHaveLength(2);
       expect(results[0].titleText).toBe("Test Heading 1");
       expect(results[1].titleText).toBe("Test Heading 2");
+      expect(mockChromeStorage.local.get).toHaveBeenCalledWith([
+        "deepwiki_heading_section:test-1",
+        "deepwiki_heading_section:test-2",
+      ]);
     });
 
     it("should return empty array when no sections exist", async () => {
@@ -228,8 +258,12 @@ describe("ChromeStorageHeadingSectionRepository", () => {
         },
       ];
 
-      mockChromeStorage.local.get.mockResolvedValue({
-        deepwiki_heading_sections: sectionsData,
+      mockStoredItems({
+        deepwiki_heading_sections_manifest: {
+          sectionIds: ["test-1", "test-2"],
+        },
+        "deepwiki_heading_section:test-1": sectionsData[0],
+        "deepwiki_heading_section:test-2": sectionsData[1],
       });
       mockChromeStorage.local.set.mockResolvedValue(undefined);
 
@@ -239,12 +273,19 @@ describe("ChromeStorageHeadingSectionRepository", () => {
       if (result.success) {
         expect(result.data).toBe(true);
       }
-      expect(mockChromeStorage.local.set).toHaveBeenCalled();
+      expect(mockChromeStorage.local.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          deepwiki_heading_sections_manifest: { sectionIds: ["test-2"] },
+        })
+      );
+      expect(mockChromeStorage.local.remove).toHaveBeenCalledWith([
+        "deepwiki_heading_section:test-1",
+      ]);
     });
 
     it("should return false when section not found", async () => {
-      mockChromeStorage.local.get.mockResolvedValue({
-        deepwiki_heading_sections: [],
+      mockStoredItems({
+        deepwiki_heading_sections_manifest: { sectionIds: [] },
       });
 
       const result = await repository.removeSection("non-existent");
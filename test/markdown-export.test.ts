@@ -0,0 +1,140 @@
+/**
+ * Tests for exporting sections as Markdown
+ */
+
+import { createHeadingSection } from "../domain/heading-collection";
+import {
+  buildMarkdownDocument,
+  buildMarkdownFiles,
+  toFileSlug,
+} from "../shared/export/markdown-export";
+import { crc32, createZip } from "../shared/zip/create-zip";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+const createSection = (titleText: string, extra: object = {}) =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml: `<h2>${titleText}</h2><p>About ${titleText}.</p>`,
+    sourceUrl: PAGE_URL,
+    ...extra,
+  });
+
+describe("Markdown export", () => {
+  test("builds one document with the sections in the given order", () => {
+    const markdown = buildMarkdownDocument(
+      [
+        createSection("Effects"),
+        createSection("State", { tags: ["hooks"], note: "Read twice" }),
+      ],
+      { title: "React", exportedAt: new Date("2024-05-01T12:00:00Z") }
+    );
+
+    expect(markdown).toBe(
+      [
+        "# React",
+        "",
+        "> Exported from DeepWiki++ on 2024-05-01 · 2 sections",
+        "",
+        "---",
+        "",
+        "## Effects",
+        "",
+        "About Effects.",
+        "",
+        `Source: [facebook/react › State](${PAGE_URL})`,
+        "",
+        "---",
+        "",
+        "## State",
+        "",
+        "About State.",
+        "",
+        `Source: [facebook/react › State](${PAGE_URL})  `,
+        "Tags: #hooks",
+        "",
+        "> Read twice",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("adds the heading when the content was captured without it", () => {
+    const markdown = buildMarkdownDocument(
+      [
+        createSection("Refs", {
+          contentHtml: "<p>Body</p>",
+          level: 3,
+          tagName: "H3",
+        }),
+      ],
+      { title: "React" }
+    );
+
+    expect(markdown).toContain("### Refs\n\nBody");
+  });
+
+  test("sanitizes stored content before converting it", () => {
+    const markdown = buildMarkdownDocument(
+      [
+        createSection("Refs", {
+          contentHtml:
+            '<h2>Refs</h2><p><a href="java&#x0A;script:alert(1)">x</a> <img src="vbscript:alert(1)" alt="y"></p>',
+        }),
+      ],
+      { title: "React" }
+    );
+
+    expect(markdown).not.toMatch(/script:/);
+    expect(markdown).toContain("## Refs\n\nx\n");
+  });
+
+  test("builds numbered files with front matter", () => {
+    const files = buildMarkdownFiles([
+      createSection("State: Hooks?", { tags: ["a"] }),
+      createSection("Effects"),
+    ]);
+
+    expect(files.map((file) => file.path)).toEqual([
+      "1-state-hooks.md",
+      "2-effects.md",
+    ]);
+    expect(files[0].content).toMatch(
+      /^---\ntitle: "State: Hooks\?"\nsource: "https:\/\/deepwiki\.com\/facebook\/react\/2-state"\nlevel: 2\ntags: \["a"\]\nadded: "[^"]+"\n---\n\n## State: Hooks\?/
+    );
+  });
+
+  test("makes file slugs from any title", () => {
+    expect(toFileSlug("  Über  Ünicode / 状態 ")).toBe("über-ünicode-状態");
+    expect(toFileSlug("???")).toBe("section");
+  });
+});
+
+describe("createZip", () => {
+  test("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  test("stores files with local headers and a central directory", () => {
+    const zip = createZip(
+      [
+        { path: "a.md", content: "Hello" },
+        { path: "b/ü.md", content: new Uint8Array([1, 2, 3]) },
+      ],
+      new Date(2024, 0, 2, 3, 4, 6)
+    );
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.slice(30, 34))).toBe("a.md");
+    expect(new TextDecoder().decode(zip.slice(34, 39))).toBe("Hello");
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for exporting sections as an Obsidian vault
+ */
+
+import { createHeadingSection } from "../domain/heading-collection";
+import {
+  buildObsidianVault,
+  toNoteName,
+} from "../shared/export/obsidian-export";
+
+const STATE_URL = "https://deepwiki.com/facebook/react/2-state";
+const VUE_URL = "https://deepwiki.com/vuejs/core/1-overview";
+
+const createSection = (
+  titleText: string,
+  level: number,
+  position: number,
+  extra: object = {}
+) =>
+  createHeadingSection({
+    level,
+    tagName: `H${level}`,
+    titleText,
+    contentHtml: `<h${level}>${titleText}</h${level}><p>About ${titleText}.</p>`,
+    sourceUrl: STATE_URL,
+    position,
+    ...extra,
+  });
+
+const fileContent = (
+  files: { path: string; content: string }[],
+  path: string
+) => files.find((file) => file.path === path)?.content;
+
+describe("Obsidian vault export", () => {
+  test("creates a note per section and an index note per repository", () => {
+    const files = buildObsidianVault([
+      createSection("State", 2, 0),
+      createSection("Reactivity", 2, 0, { sourceUrl: VUE_URL }),
+      createSection("Setters", 3, 1),
+    ]);
+
+    expect(files.map((file) => file.path)).toEqual([
+      "facebook-react/facebook-react.md",
+      "facebook-react/State/State.md",
+      "facebook-react/State/Setters.md",
+      "vuejs-core/vuejs-core.md",
+      "vuejs-core/Overview/Reactivity.md",
+    ]);
+    expect(fileContent(files, "facebook-react/facebook-react.md")).toBe(
+      [
+        "---",
+        'repo: "facebook/react"',
+        'source: "https://deepwiki.com/facebook/react"',
+        "---",
+        "",
+        "# facebook/react",
+        "",
+        "## State",
+        "",
+        `[Open on DeepWiki](${STATE_URL})`,
+        "",
+        "- [[facebook-react/State/State|State]]",
+        "  - [[facebook-react/State/Setters|Setters]]",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("writes frontmatter and links sections of the same page", () => {
+    const files = buildObsidianVault([
+      createSection("State", 2, 0),
+      createSection("Setters", 3, 1, {
+        tags: ["react hooks", "state"],
+        note: "Batching\n\nmatters",
+      }),
+    ]);
+    const note = fileContent(files, "facebook-react/State/Setters.md")!;
+
+    expect(note).toContain(
+      [
+        "---",
+        'title: "Setters"',
+        `source: "${STATE_URL}"`,
+        'repo: "facebook/react"',
+        "level: 3",
+      ].join("\n")
+    );
+    expect(note).toMatch(/added: "\d{4}-\d{2}-\d{2}T/);
+    expect(note).toContain('tags: ["react-hooks","state"]');
+    expect(note).toContain("### Setters\n\nAbout Setters.");
+    expect(note).toContain("> [!note]\n> Batching\n>\n> matters");
+    expect(note).toContain(
+      "Page: [[facebook-react/facebook-react#State|facebook/react › State]]"
+    );
+    expect(note).toContain("Up: [[facebook-react/State/State|State]]");
+    expect(note).toContain(
+      "On this page:\n- [[facebook-react/State/State|State]]\n  - **Setters**"
+    );
+  });
+
+  test("keeps note names unique and valid", () => {
+    const files = buildObsidianVault([
+      createSection("Hooks: use|State?", 2, 0),
+      createSection("Hooks: use|State?", 2, 1),
+    ]);
+
+    expect(files.map((file) => file.path)).toEqual([
+      "facebook-react/facebook-react.md",
+      "facebook-react/State/Hooks use State.md",
+      "facebook-react/State/Hooks use State (2).md",
+    ]);
+    expect(toNoteName("  ...  ")).toBe("Untitled");
+  });
+});
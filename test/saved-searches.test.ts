@@ -0,0 +1,267 @@
+/**
+ * Tests for saved searches shown as smart collections
+ */
+
+import {
+  HeadingSection,
+  SavedSearch,
+  createHeadingSection,
+  createSavedSearch,
+  deserializeSavedSearch,
+  parseSearchQuery,
+  serializeSavedSearch,
+} from "../domain/heading-collection";
+import { ParseError, ValidationError } from "../domain/shared";
+import {
+  CreateSavedSearchUseCase,
+  DeleteSavedSearchUseCase,
+  GetHeadingSectionsUseCase,
+  GetSavedSearchesUseCase,
+  savedSearchToInput,
+} from "../application/usecases/heading-collection";
+import { ChromeStorageSavedSearchRepository } from "../infrastructure/repositories/chrome/saved-search";
+import { createStorageArea } from "./storage-area";
+
+const NOW = new Date(2026, 5, 15, 14, 30);
+
+const createSection = (
+  titleText: string,
+  level: number,
+  addedAt: Date,
+  sourceUrl = "https://deepwiki.com/acme/monorepo/1-overview"
+): HeadingSection => ({
+  ...createHeadingSection({
+    level,
+    tagName: `H${level}`,
+    titleText,
+    contentHtml: `<h${level}>${titleText}</h${level}>`,
+    sourceUrl,
+  }),
+  addedAt,
+});
+
+describe("Saved searches", () => {
+  describe("relative dates in queries", () => {
+    test("counts days and weeks back from the start of today", () => {
+      expect(parseSearchQuery("after:30d", NOW).after).toEqual(
+        new Date(2026, 4, 16)
+      );
+      expect(parseSearchQuery("before:2w", NOW).before).toEqual(
+        new Date(2026, 5, 1)
+      );
+      expect(parseSearchQuery("after:0d", NOW).after).toEqual(
+        new Date(2026, 5, 15)
+      );
+    });
+  });
+
+  describe("domain", () => {
+    test("creates a saved search with normalized name and tags", () => {
+      const savedSearch = createSavedSearch({
+        name: "  Recent   monorepo H2s ",
+        query: " repo:acme/monorepo after:30d ",
+        level: 2,
+        tags: ["Auth"],
+        tagMatch: "all",
+        sortBy: "addedAt",
+        sortOrder: "desc",
+      });
+
+      expect(savedSearch).toMatchObject({
+        name: "Recent monorepo H2s",
+        query: "repo:acme/monorepo after:30d",
+        level: 2,
+        tags: ["auth"],
+        tagMatch: "all",
+      });
+    });
+
+    test("rejects invalid queries and filters", () => {
+      expect(() =>
+        createSavedSearch({ name: "Bad", query: "author:dan" })
+      ).toThrow(ParseError);
+      expect(() => createSavedSearch({ name: "Bad", level: 7 })).toThrow(
+        ValidationError
+      );
+      expect(() => createSavedSearch({ name: " " })).toThrow(ValidationError);
+    });
+
+    test("serializes and deserializes without loss", () => {
+      const savedSearch = createSavedSearch({
+        name: "Auth",
+        query: '"access token" -legacy',
+        tags: ["auth"],
+        searchInContent: true,
+      });
+
+      const restored = deserializeSavedSearch(
+        JSON.parse(JSON.stringify(serializeSavedSearch(savedSearch)))
+      );
+
+      expect(restored).toEqual(savedSearch);
+    });
+  });
+
+  describe("savedSearchToInput", () => {
+    test("resolves relative dates at the given time", () => {
+      const savedSearch = createSavedSearch({
+        name: "Recent monorepo H2s",
+        query: "repo:acme/monorepo after:30d",
+        level: 2,
+        sortBy: "titleText",
+        sortOrder: "asc",
+      });
+
+      expect(savedSearchToInput(savedSearch, NOW)).toEqual({
+        level: 2,
+        repo: "acme/monorepo",
+        startDate: new Date(2026, 4, 16),
+        sortBy: "titleText",
+        sortOrder: "asc",
+      });
+    });
+
+    test("lets query fields override the saved filters", () => {
+      const savedSearch = createSavedSearch({
+        name: "Auth",
+        query: "level:3 tag:oauth",
+        level: 2,
+        tags: ["auth"],
+      });
+
+      expect(savedSearchToInput(savedSearch, NOW)).toMatchObject({
+        level: 3,
+        tags: ["oauth"],
+        tagMatch: "all",
+      });
+    });
+  });
+
+  describe("ChromeStorageSavedSearchRepository", () => {
+    test("stores, lists and removes saved searches", async () => {
+      const storage = createStorageArea();
+      global.chrome = {
+        storage: { local: storage, sync: createStorageArea() },
+      } as any;
+      const repository = new ChromeStorageSavedSearchRepository();
+      const savedSearch = createSavedSearch({
+        name: "Recent",
+        query: "after:7d",
+      });
+
+      await repository.addSavedSearch(savedSearch);
+
+      expect(storage.data.deepwiki_saved_searches).toHaveLength(1);
+      expect(await repository.getAllSavedSearches()).toEqual([savedSearch]);
+
+      const removed = await repository.removeSavedSearch(
+        savedSearch.savedSearchId
+      );
+      expect(removed).toEqual({ success: true, data: true });
+      expect(await repository.getAllSavedSearches()).toEqual([]);
+    });
+  });
+
+  describe("use cases", () => {
+    const createRepository = async (savedSearches: SavedSearch[] = []) => {
+      global.chrome = {
+        storage: { local: createStorageArea(), sync: createStorageArea() },
+      } as any;
+      const repository = new ChromeStorageSavedSearchRepository();
+      for (const savedSearch of savedSearches) {
+        await repository.addSavedSearch(savedSearch);
+      }
+      return repository;
+    };
+
+    test("CreateSavedSearchUseCase rejects duplicate names and bad queries", async () => {
+      const repository = await createRepository([
+        createSavedSearch({ name: "Recent", query: "after:7d" }),
+      ]);
+      const useCase = new CreateSavedSearchUseCase(repository);
+
+      const duplicate = await useCase.execute({ name: "recent" });
+      const invalid = await useCase.execute({
+        name: "Other",
+        query: "level:9",
+      });
+      const created = await useCase.execute({
+        name: "Monorepo",
+        query: "repo:acme/monorepo",
+      });
+
+      expect(!duplicate.success && duplicate.errorCode).toBe("DUPLICATE_NAME");
+      expect(!invalid.success && invalid.errorCode).toBe("INVALID_INPUT");
+      expect(created.success).toBe(true);
+      expect(await repository.getAllSavedSearches()).toHaveLength(2);
+    });
+
+    test("GetSavedSearchesUseCase counts the sections each search matches now", async () => {
+      const recentH2 = createSection("Setup", 2, new Date(2026, 5, 1));
+      const oldH2 = createSection("History", 2, new Date(2026, 0, 1));
+      const recentH3 = createSection("Details", 3, new Date(2026, 5, 10));
+      const otherRepo = createSection(
+        "Elsewhere",
+        2,
+        new Date(2026, 5, 1),
+        "https://deepwiki.com/acme/website/1-overview"
+      );
+      const sections = [recentH2, oldH2, recentH3, otherRepo];
+      const sectionRepository = {
+        getAllSections: jest.fn().mockResolvedValue(sections),
+        findSectionsByLevel: jest.fn(async (level: number) =>
+          sections.filter((section) => section.level === level)
+        ),
+      };
+      const recent = createSavedSearch({
+        name: "Recent monorepo H2s",
+        query: "repo:acme/monorepo after:30d",
+        level: 2,
+      });
+      const all = createSavedSearch({ name: "All" });
+      const repository = await createRepository([recent, all]);
+      const useCase = new GetSavedSearchesUseCase(
+        repository,
+        new GetHeadingSectionsUseCase(sectionRepository as any)
+      );
+
+      const result = await useCase.execute({ now: NOW });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.savedSearches.map((s) => s.name)).toEqual([
+          "All",
+          "Recent monorepo H2s",
+        ]);
+        expect(result.sectionCounts).toEqual({
+          [recent.savedSearchId]: 1,
+          [all.savedSearchId]: 4,
+        });
+      }
+
+      // A month later the same search no longer matches the section
+      const later = await useCase.execute({ now: new Date(2026, 6, 15) });
+      expect(later.success && later.sectionCounts[recent.savedSearchId]).toBe(
+        0
+      );
+    });
+
+    test("DeleteSavedSearchUseCase reports unknown saved searches", async () => {
+      const savedSearch = createSavedSearch({ name: "Recent" });
+      const repository = await createRepository([savedSearch]);
+      const useCase = new DeleteSavedSearchUseCase(repository);
+
+      const deleted = await useCase.execute({
+        savedSearchId: savedSearch.savedSearchId,
+      });
+      const missing = await useCase.execute({
+        savedSearchId: savedSearch.savedSearchId,
+      });
+
+      expect(deleted.success).toBe(true);
+      expect(!missing.success && missing.errorCode).toBe(
+        "SAVED_SEARCH_NOT_FOUND"
+      );
+    });
+  });
+});
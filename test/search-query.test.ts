@@ -0,0 +1,210 @@
+/**
+ * Tests for the structured query syntax of the search box
+ */
+
+import {
+  HeadingSection,
+  createHeadingSection,
+  isTextOnlySearchQuery,
+  parseSearchQuery,
+} from "../domain/heading-collection";
+import { ParseError } from "../domain/shared";
+import { SectionSearchIndex } from "../shared/search/section-search-index";
+import { runTextQuery } from "../shared/search/text-query";
+import { GetHeadingSectionsUseCase, searchQueryToInput } from "../application";
+
+const createSection = (
+  titleText: string,
+  contentHtml: string,
+  sourceUrl = "https://deepwiki.com/facebook/react/2-state-management",
+  level = 2
+): HeadingSection =>
+  createHeadingSection({
+    level,
+    tagName: `H${level}`,
+    titleText,
+    contentHtml,
+    sourceUrl,
+  });
+
+describe("parseSearchQuery", () => {
+  test("parses fields, phrases, exclusions and terms", () => {
+    const query = parseSearchQuery(
+      'level:2 repo:facebook/react after:2026-01-01 tag:auth "exact phrase" -excluded hooks'
+    );
+
+    expect(query).toEqual({
+      terms: ["hooks"],
+      phrases: ["exact phrase"],
+      excluded: ["excluded"],
+      tags: ["auth"],
+      level: 2,
+      repo: "facebook/react",
+      after: new Date(2026, 0, 1),
+    });
+    expect(isTextOnlySearchQuery(query)).toBe(false);
+  });
+
+  test("treats plain text and URLs as text", () => {
+    const query = parseSearchQuery(
+      'state -"class component" https://deepwiki.com/facebook/react'
+    );
+
+    expect(query.terms).toEqual([
+      "state",
+      "https://deepwiki.com/facebook/react",
+    ]);
+    expect(query.excluded).toEqual(["class component"]);
+    expect(isTextOnlySearchQuery(query)).toBe(true);
+  });
+
+  test("accepts h-prefixed levels and collects several tags", () => {
+    const query = parseSearchQuery("level:h3 tag:Auth tag:api");
+
+    expect(query.level).toBe(3);
+    expect(query.tags).toEqual(["auth", "api"]);
+  });
+
+  test("rejects unknown fields with the list of supported ones", () => {
+    expect(() => parseSearchQuery("author:dan")).toThrow(ParseError);
+    expect(() => parseSearchQuery("author:dan")).toThrow(
+      'Unknown search field "author:". Use level:, repo:, tag:, after:, before:'
+    );
+    expect(() => parseSearchQuery("-todo:later")).toThrow(
+      'Unknown search field "todo:"'
+    );
+  });
+
+  test("searches words ending in a colon as text", () => {
+    const query = parseSearchQuery("note: hooks -warning: tag:api");
+
+    expect(query.terms).toEqual(["note:", "hooks"]);
+    expect(query.excluded).toEqual(["warning:"]);
+    expect(query.tags).toEqual(["api"]);
+  });
+
+  test.each([
+    ["level:7", '"level:" must be a number from 1 to 6'],
+    ["level:two", '"level:" must be a number from 1 to 6'],
+    ["repo:react", '"repo:" must be written as owner/name'],
+    ["after:2026-02-30", '"after:" must be a date written as YYYY-MM-DD'],
+    ["before:yesterday", '"before:" must be a date written as YYYY-MM-DD'],
+    ["after:2026-02-01 before:2026-01-01", '"after:" must be earlier'],
+    ["level:2 level:3", '"level:" can only be used once'],
+    ["-tag:auth", '"tag:" cannot be excluded'],
+    ["tag:", '"tag:" needs a value'],
+  ])("rejects %s", (input, message) => {
+    expect(() => parseSearchQuery(input)).toThrow(message);
+  });
+});
+
+describe("searchQueryToInput", () => {
+  test("maps fields to use case filters", () => {
+    const query = parseSearchQuery(
+      'level:2 repo:facebook/react after:2026-01-01 before:2026-02-01 tag:auth "exact phrase" -excluded hooks'
+    );
+
+    expect(searchQueryToInput(query)).toEqual({
+      level: 2,
+      repo: "facebook/react",
+      startDate: new Date(2026, 0, 1),
+      endDate: new Date(new Date(2026, 1, 1).getTime() - 1),
+      tags: ["auth"],
+      tagMatch: "all",
+      searchText: "hooks",
+      phrases: ["exact phrase"],
+      excludedText: ["excluded"],
+    });
+  });
+
+  test("maps a text-only query to text alone", () => {
+    expect(searchQueryToInput(parseSearchQuery("state"))).toEqual({
+      searchText: "state",
+    });
+  });
+});
+
+describe("runTextQuery", () => {
+  const updates = createSection(
+    "State updates",
+    "<p>Updates are batched in an exact order.</p>"
+  );
+  const classes = createSection(
+    "Class components",
+    "<p>Class components keep state in this.state.</p>"
+  );
+  const effects = createSection(
+    "Effects",
+    "<p>Effects run after the exact render.</p>"
+  );
+  const sections = [updates, classes, effects];
+  const index = new SectionSearchIndex();
+  index.sync(sections);
+
+  const run = (input: string) =>
+    runTextQuery(index, sections, parseSearchQuery(input), [
+      "title",
+      "content",
+    ]).map((match) => match.section.titleText);
+
+  test("requires phrases to appear as written", () => {
+    expect(run('"exact order"')).toEqual(["State updates"]);
+    expect(run('"order exact"')).toEqual([]);
+  });
+
+  test("drops sections with excluded words or text", () => {
+    expect(run("state -class")).toEqual(["State updates"]);
+    expect(run('-"exact render"')).toEqual([
+      "State updates",
+      "Class components",
+    ]);
+  });
+});
+
+describe("GetHeadingSectionsUseCase with query filters", () => {
+  test("filters by repository, phrases and excluded text", async () => {
+    const reactState = createSection(
+      "State",
+      "<p>Keep state with useState hooks.</p>"
+    );
+    const reactClasses = createSection(
+      "Classes",
+      "<p>Keep state in class components.</p>"
+    );
+    const vueState = createSection(
+      "State",
+      "<p>Keep state with reactive refs.</p>",
+      "https://deepwiki.com/vuejs/core/3-reactivity"
+    );
+    const repository = {
+      getAllSections: jest
+        .fn()
+        .mockResolvedValue([reactState, reactClasses, vueState]),
+    };
+    const useCase = new GetHeadingSectionsUseCase(repository as any);
+
+    const result = await useCase.execute({
+      ...searchQueryToInput(
+        parseSearchQuery('repo:Facebook/React "keep state" -class')
+      ),
+      searchInContent: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.sections).toEqual([reactState]);
+    }
+  });
+
+  test("rejects an invalid repository filter", async () => {
+    const repository = { getAllSections: jest.fn().mockResolvedValue([]) };
+    const useCase = new GetHeadingSectionsUseCase(repository as any);
+
+    const result = await useCase.execute({ repo: "react" });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errorCode).toBe("INVALID_INPUT");
+    }
+  });
+});
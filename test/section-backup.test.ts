@@ -0,0 +1,201 @@
+/**
+ * Tests for backing up and restoring all sections as JSON
+ */
+
+import {
+  createCollection,
+  createHeadingSection,
+  readSectionBackup,
+  SECTION_BACKUP_FORMAT,
+  SECTION_BACKUP_VERSION,
+} from "../domain/heading-collection";
+import {
+  ExportBackupUseCase,
+  ImportBackupUseCase,
+} from "../application/usecases/heading-collection";
+import { ChromeStorageHeadingSectionRepository } from "../infrastructure/repositories/chrome/heading-section";
+import { ChromeStorageCollectionRepository } from "../infrastructure/repositories/chrome/collection";
+import { createStorageArea } from "./storage-area";
+
+const createSection = (
+  titleText: string,
+  extra: { note?: string; collectionIds?: string[] } = {}
+) =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml: `<h2>${titleText}</h2>`,
+    sourceUrl: "https://deepwiki.com/facebook/react/1-overview",
+    ...extra,
+  });
+
+const setUp = () => {
+  global.chrome = {
+    storage: { local: createStorageArea(), sync: createStorageArea() },
+  } as any;
+  const sectionRepository = new ChromeStorageHeadingSectionRepository();
+  const collectionRepository = new ChromeStorageCollectionRepository();
+  return {
+    sectionRepository,
+    collectionRepository,
+    exportBackup: new ExportBackupUseCase(
+      sectionRepository,
+      collectionRepository
+    ),
+    importBackup: new ImportBackupUseCase(
+      sectionRepository,
+      collectionRepository
+    ),
+  };
+};
+
+describe("Section backup", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("exports every section and collection as versioned JSON", async () => {
+    const { sectionRepository, collectionRepository, exportBackup } = setUp();
+    const reading = createCollection({ name: "Reading" });
+    await collectionRepository.addCollection(reading);
+    await sectionRepository.addSections([
+      createSection("State"),
+      createSection("Effects", { collectionIds: [reading.collectionId] }),
+    ]);
+
+    const result = await exportBackup.execute();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const backup = JSON.parse(JSON.stringify(result.backup));
+    expect(backup.format).toBe(SECTION_BACKUP_FORMAT);
+    expect(backup.version).toBe(SECTION_BACKUP_VERSION);
+    expect(backup.sections.map((s: any) => s.titleText)).toEqual([
+      "State",
+      "Effects",
+    ]);
+    expect(backup.collections.map((c: any) => c.name)).toContain("Reading");
+  });
+
+  test("restores a backup into empty storage", async () => {
+    const source = setUp();
+    const reading = createCollection({ name: "Reading" });
+    await source.collectionRepository.addCollection(reading);
+    await source.sectionRepository.addSections([
+      createSection("State", { collectionIds: [reading.collectionId] }),
+    ]);
+    const exported = await source.exportBackup.execute();
+    if (!exported.success) throw new Error("export failed");
+    const file = JSON.parse(JSON.stringify(exported.backup));
+
+    const target = setUp();
+    const result = await target.importBackup.execute({
+      backup: file,
+      conflictStrategy: "skip",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      added: 1,
+      collectionsAdded: 1,
+      rejected: [],
+    });
+    const [restored] = await target.sectionRepository.getAllSections();
+    expect(restored.collectionIds).toEqual([reading.collectionId]);
+  });
+
+  test.each([
+    ["skip", 0, 0, 1, ["Original"]],
+    ["overwrite", 0, 1, 0, ["Backed up"]],
+    ["keep-both", 1, 0, 0, ["Original", "Backed up"]],
+  ] as const)(
+    "resolves ID collisions with %s",
+    async (conflictStrategy, added, overwritten, skipped, notes) => {
+      const { sectionRepository, importBackup } = setUp();
+      const stored = createSection("State", { note: "Original" });
+      await sectionRepository.addSection(stored);
+      const backup = {
+        format: SECTION_BACKUP_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        sections: [{ ...stored, note: "Backed up" }].map((s) => ({
+          ...s,
+          addedAt: s.addedAt.toISOString(),
+        })),
+        collections: [],
+      };
+
+      const result = await importBackup.execute({ backup, conflictStrategy });
+
+      expect(result).toMatchObject({
+        success: true,
+        added,
+        overwritten,
+        skipped,
+      });
+      const sections = await sectionRepository.getAllSections();
+      expect(sections.map((s) => s.note)).toEqual(notes);
+      expect(new Set(sections.map((s) => s.sectionId)).size).toBe(
+        sections.length
+      );
+    }
+  );
+
+  test("reports rejected entries and restores the rest", async () => {
+    const { sectionRepository, importBackup } = setUp();
+    const valid = createSection("State");
+    const serialized = { ...valid, addedAt: valid.addedAt.toISOString() };
+
+    const result = await importBackup.execute({
+      backup: {
+        format: SECTION_BACKUP_FORMAT,
+        version: 1,
+        sections: [
+          serialized,
+          { sectionId: "broken", titleText: "Broken" },
+          { ...serialized, level: 9 },
+          serialized,
+        ],
+      },
+      conflictStrategy: "skip",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.added).toBe(1);
+    expect(result.rejected.map((entry) => entry.index)).toEqual([1, 2, 3]);
+    expect(result.rejected[0]).toMatchObject({
+      sectionId: "broken",
+      title: "Broken",
+      reason: "Missing required field: level",
+    });
+    expect(await sectionRepository.getSectionCount()).toBe(1);
+  });
+
+  test("rejects files that are not a supported backup", async () => {
+    const { importBackup } = setUp();
+
+    await expect(
+      importBackup.execute({ backup: [], conflictStrategy: "skip" })
+    ).resolves.toMatchObject({ success: false, errorCode: "INVALID_INPUT" });
+    expect(() =>
+      readSectionBackup({
+        format: SECTION_BACKUP_FORMAT,
+        version: SECTION_BACKUP_VERSION + 1,
+        sections: [],
+      })
+    ).toThrow("newer than supported");
+    await expect(
+      importBackup.execute({
+        backup: { format: SECTION_BACKUP_FORMAT, version: 1, sections: [] },
+        conflictStrategy: "merge" as any,
+      })
+    ).resolves.toMatchObject({ success: false, errorCode: "INVALID_INPUT" });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for rebuilding the heading hierarchy of stored sections
+ */
+
+import {
+  HeadingSection,
+  buildPageOutlines,
+  buildSectionOutline,
+  countOutlineSections,
+  createHeadingSection,
+  deserializeHeadingSection,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+const createSection = (
+  level: number,
+  titleText: string,
+  position?: number,
+  sourceUrl = PAGE_URL
+): HeadingSection =>
+  createHeadingSection({
+    level,
+    tagName: `H${level}`,
+    titleText,
+    contentHtml: `<h${level}>${titleText}</h${level}>`,
+    sourceUrl,
+    position,
+  });
+
+// Reduces an outline to [title, children] pairs for readable assertions
+const shape = (nodes: ReturnType<typeof buildSectionOutline>): any[] =>
+  nodes.map((node) => [node.section.titleText, shape([...node.children])]);
+
+describe("Section outline", () => {
+  test("nests sections by level in page order", () => {
+    const outline = buildSectionOutline([
+      createSection(3, "useState", 2),
+      createSection(2, "Effects", 4),
+      createSection(2, "State", 1),
+      createSection(4, "Lazy initial state", 3),
+      createSection(3, "useEffect", 5),
+    ]);
+
+    expect(shape(outline)).toEqual([
+      ["State", [["useState", [["Lazy initial state", []]]]]],
+      ["Effects", [["useEffect", []]]],
+    ]);
+  });
+
+  test("attaches a section to its nearest stored ancestor", () => {
+    // The H3 between the H2 and the H4 was not stored
+    const outline = buildSectionOutline([
+      createSection(2, "State", 0),
+      createSection(4, "Lazy initial state", 2),
+    ]);
+
+    expect(shape(outline)).toEqual([["State", [["Lazy initial state", []]]]]);
+  });
+
+  test("places sections without a position after positioned ones", () => {
+    const outline = buildSectionOutline([
+      createSection(2, "Legacy"),
+      createSection(2, "State", 1),
+    ]);
+
+    expect(shape(outline).map(([title]) => title)).toEqual(["State", "Legacy"]);
+  });
+
+  test("groups sections by page ignoring the fragment", () => {
+    const pages = buildPageOutlines([
+      createSection(2, "State", 0, `${PAGE_URL}#state`),
+      createSection(2, "Refs", 0, "https://deepwiki.com/facebook/react/3-refs"),
+      createSection(3, "useState", 1, PAGE_URL),
+    ]);
+
+    expect(pages.map((page) => page.pageUrl)).toEqual([
+      PAGE_URL,
+      "https://deepwiki.com/facebook/react/3-refs",
+    ]);
+    expect(countOutlineSections(pages[0].roots)).toBe(2);
+  });
+
+  test("position survives serialization and is validated", () => {
+    const section = createSection(2, "State", 7);
+
+    expect(
+      deserializeHeadingSection(
+        JSON.parse(JSON.stringify(serializeHeadingSection(section)))
+      ).position
+    ).toBe(7);
+    expect(() => createSection(2, "State", -1)).toThrow("Invalid position");
+  });
+});
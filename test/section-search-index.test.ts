@@ -0,0 +1,228 @@
+/**
+ * Tests for the full-text index over collected sections
+ */
+
+import {
+  HeadingSection,
+  addSectionVersion,
+  createHeadingSection,
+  updateSectionNote,
+} from "../domain/heading-collection";
+import { buildSearchSnippet } from "../shared/search/search-snippet";
+import {
+  SectionSearchIndex,
+  editDistance,
+  tokenize,
+} from "../shared/search/section-search-index";
+import { GetHeadingSectionsUseCase } from "../application";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state-management";
+
+const createSection = (
+  titleText: string,
+  contentHtml: string,
+  extra: object = {}
+): HeadingSection =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml,
+    sourceUrl: PAGE_URL,
+    ...extra,
+  });
+
+const ids = (hits: { sectionId: string }[]) => hits.map((hit) => hit.sectionId);
+
+describe("tokenize", () => {
+  test("splits text into lowercase terms and identifiers into parts", () => {
+    expect(tokenize("Call useState() in HTMLParser, snake_case!")).toEqual([
+      "call",
+      "usestate",
+      "use",
+      "state",
+      "in",
+      "htmlparser",
+      "html",
+      "parser",
+      "snake_case",
+      "snake",
+      "case",
+    ]);
+  });
+});
+
+describe("SectionSearchIndex", () => {
+  const hooks = createSection(
+    "Hooks",
+    "<h2>Hooks</h2><p>Call <code>useState</code> to keep state.</p>"
+  );
+  const state = createSection(
+    "State Updates",
+    "<h2>State Updates</h2><p>Updates are batched.</p>"
+  );
+  const diagram = createSection(
+    "Render Flow",
+    '<h2>Render Flow</h2><svg id="mermaid-1"><text>state</text></svg><p>Rendering.</p>'
+  );
+
+  test("ranks title matches above content matches", () => {
+    const index = new SectionSearchIndex();
+    index.sync([hooks, state, diagram]);
+
+    // Diagram text is not indexed
+    expect(
+      ids(index.search("state", { fields: ["title", "content"] }))
+    ).toEqual([state.sectionId, hooks.sectionId]);
+  });
+
+  test("requires every query term and matches prefixes", () => {
+    const index = new SectionSearchIndex();
+    index.sync([hooks, state, diagram]);
+
+    expect(ids(index.search("batch upd"))).toEqual([state.sectionId]);
+    expect(ids(index.search("render xyz"))).toEqual([]);
+    expect(ids(index.search("management"))).toHaveLength(3);
+    expect(ids(index.search("management", { fields: ["title"] }))).toEqual([]);
+  });
+
+  test("updates on add, update and remove", () => {
+    const index = new SectionSearchIndex();
+    index.upsert(hooks);
+    expect(ids(index.search("oauth"))).toEqual([]);
+
+    index.upsert(updateSectionNote(hooks, "Ask about OAuth"));
+    expect(ids(index.search("oauth"))).toEqual([hooks.sectionId]);
+
+    index.upsert(state);
+    expect(index.size).toBe(2);
+    expect(index.remove(hooks.sectionId)).toBe(true);
+    expect(ids(index.search("oauth"))).toEqual([]);
+
+    index.sync([diagram]);
+    expect(index.size).toBe(1);
+    expect(ids(index.search("updates"))).toEqual([]);
+  });
+
+  test("reindexes a section when it is captured again", () => {
+    const index = new SectionSearchIndex();
+    index.upsert(hooks);
+
+    index.upsert(
+      addSectionVersion(
+        hooks,
+        "<p>Hooks and reducers.</p>",
+        new Date(hooks.addedAt.getTime() + 1000)
+      )
+    );
+
+    expect(ids(index.search("reducers"))).toEqual([hooks.sectionId]);
+    expect(index.size).toBe(1);
+  });
+});
+
+describe("GetHeadingSectionsUseCase search", () => {
+  test("returns ranked results from the index", async () => {
+    const hooks = createSection(
+      "Hooks",
+      "<p>Keep state with <code>useState</code>.</p>"
+    );
+    const state = createSection("State", "<p>State updates.</p>");
+    const repository = {
+      getAllSections: jest.fn().mockResolvedValue([hooks, state]),
+    };
+    const useCase = new GetHeadingSectionsUseCase(repository as any);
+
+    const result = await useCase.execute({
+      searchText: "state",
+      searchInContent: true,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.sections.map((s) => s.titleText)).toEqual([
+        "State",
+        "Hooks",
+      ]);
+      expect(result.metadata.sortBy).toBe("relevance");
+      expect(result.matchedTerms).toEqual({
+        [state.sectionId]: ["state"],
+        [hooks.sectionId]: ["state"],
+      });
+    }
+
+    const titlesOnly = await useCase.execute({ searchText: "state" });
+    expect(titlesOnly.success && titlesOnly.sections).toEqual([state]);
+  });
+});
+
+describe("Fuzzy search", () => {
+  const reducer = createSection(
+    "Reducer Pattern",
+    "<p>A reducer receives the current state and an action.</p>",
+    { sourceUrl: "https://deepwiki.com/facebook/react/5-reducers" }
+  );
+  const context = createSection(
+    "Context",
+    "<p>Context passes values down. Combine it with a reducer.</p>",
+    { sourceUrl: "https://deepwiki.com/facebook/react/6-context" }
+  );
+
+  test("tolerates typos and word order", () => {
+    const index = new SectionSearchIndex();
+    index.sync([reducer, context]);
+
+    const hits = index.search("patern reduser");
+    expect(ids(hits)).toEqual([reducer.sectionId]);
+    expect(hits[0].matchedTerms).toEqual(["pattern", "reducer"]);
+    expect(ids(index.search("reducer"))).toEqual([
+      reducer.sectionId,
+      context.sectionId,
+    ]);
+    expect(ids(index.search("contxt"))).toEqual([context.sectionId]);
+    // Short terms have to match exactly
+    expect(ids(index.search("rex"))).toEqual([]);
+  });
+
+  test("measures edit distance with swaps", () => {
+    expect(editDistance("reducer", "reducer", 1)).toBe(0);
+    expect(editDistance("recuder", "reducer", 2)).toBe(2);
+    expect(editDistance("reudcer", "reducer", 1)).toBe(1);
+    expect(editDistance("state", "reducer", 2)).toBe(3);
+  });
+});
+
+describe("buildSearchSnippet", () => {
+  const text =
+    "Hooks let components keep local data. " +
+    "Other paragraphs talk about rendering and effects for a long while. ".repeat(
+      3
+    ) +
+    "Calling useState returns the state and a setter to update the state.";
+
+  test("shows the part of the text around the matches", () => {
+    const parts = buildSearchSnippet(text, ["state"], 100);
+    const snippet = parts.map((part) => part.text).join("");
+
+    expect(parts[0]).toEqual({ text: "…", match: false });
+    expect(parts.filter((part) => part.match)).toEqual([
+      { text: "useState", match: true },
+      { text: "state", match: true },
+      { text: "state", match: true },
+    ]);
+    expect(snippet).toMatch(/^… ?\S/);
+    expect(snippet.endsWith("to update the state.")).toBe(true);
+    expect(snippet.length).toBeLessThanOrEqual(101);
+  });
+
+  test("starts at the beginning without matches", () => {
+    expect(buildSearchSnippet("Short text.", [])).toEqual([
+      { text: "Short text.", match: false },
+    ]);
+    expect(
+      buildSearchSnippet(text, [], 20)
+        .map((part) => part.text)
+        .join("")
+    ).toBe("Hooks let components…");
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Tests for storing each heading section under its own storage key
+ */
+
+import {
+  HeadingSection,
+  createHeadingSection,
+  deserializeHeadingSection,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+import {
+  ChromeStorageHeadingSectionRepository,
+  SECTION_CHANGE_KEY,
+  SECTION_LIST_KEY,
+  SECTION_MANIFEST_KEY,
+  REJECTED_SECTIONS_KEY,
+  getSectionKey,
+  readRejectedSections,
+  migrateToSectionShards,
+} from "../infrastructure/repositories/chrome/heading-section";
+import { createStorageArea } from "./storage-area";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+// Sections as they read back from storage
+const createSection = (titleText: string, level = 2): HeadingSection =>
+  deserializeHeadingSection(
+    serializeHeadingSection(
+      createHeadingSection({
+        level,
+        tagName: `H${level}`,
+        titleText,
+        contentHtml: `<h${level}>${titleText}</h${level}>`,
+        sourceUrl: PAGE_URL,
+      })
+    )
+  );
+
+const setUpRepository = (initial: Record<string, any> = {}) => {
+  // Like the real API, calls land after a tick so that unqueued
+  // read-modify-writes would interleave
+  const storage = createStorageArea(initial, { interleave: true });
+  global.chrome = {
+    storage: { local: storage, sync: createStorageArea() },
+  } as any;
+  return { storage, repository: new ChromeStorageHeadingSectionRepository() };
+};
+
+describe("Section shards", () => {
+  const state = createSection("State");
+  const effects = createSection("Effects");
+  const refs = createSection("Refs");
+
+  describe("migrateToSectionShards", () => {
+    test("moves the section array to one key per section, once, setting aside entries without a key", async () => {
+      const storage = createStorageArea({
+        [SECTION_LIST_KEY]: [
+          serializeHeadingSection(state),
+          { titleText: "No ID" },
+          serializeHeadingSection(effects),
+          serializeHeadingSection({ ...state, note: "Duplicate" }),
+        ],
+      });
+
+      const first = await migrateToSectionShards(storage as any);
+      const second = await migrateToSectionShards(storage as any);
+
+      expect(first.migratedSections).toBe(2);
+      expect(second.migratedSections).toBe(0);
+      expect(storage.set).toHaveBeenCalledTimes(1);
+      expect(storage.data).toEqual({
+        [SECTION_MANIFEST_KEY]: {
+          sectionIds: [state.sectionId, effects.sectionId],
+        },
+        [getSectionKey(state.sectionId)]: serializeHeadingSection(state),
+        [getSectionKey(effects.sectionId)]: serializeHeadingSection(effects),
+        [REJECTED_SECTIONS_KEY]: [
+          {
+            data: { titleText: "No ID" },
+            reason: "Section has no ID",
+            rejectedAt: expect.any(String),
+          },
+          {
+            data: serializeHeadingSection({ ...state, note: "Duplicate" }),
+            reason: "Another section has the same ID",
+            rejectedAt: expect.any(String),
+          },
+        ],
+      });
+    });
+
+    test("reads the array until the first write moves it", async () => {
+      const { storage, repository } = setUpRepository({
+        [SECTION_LIST_KEY]: [serializeHeadingSection(state)],
+      });
+
+      expect(await repository.getAllSections()).toEqual([state]);
+      expect(storage.set).not.toHaveBeenCalled();
+
+      await repository.addSection(effects);
+
+      expect(storage.data[SECTION_LIST_KEY]).toBeUndefined();
+      expect(await repository.getAllSections()).toEqual([state, effects]);
+    });
+  });
+
+  describe("ChromeStorageHeadingSectionRepository", () => {
+    test("updates only the key of the changed section", async () => {
+      const { storage, repository } = setUpRepository();
+      await repository.addSections([state, effects]);
+      storage.set.mockClear();
+
+      const result = await repository.updateSection({
+        ...effects,
+        note: "Read later",
+      });
+
+      expect(result.success).toBe(true);
+      expect(storage.set).toHaveBeenCalledTimes(1);
+      expect(Object.keys(storage.set.mock.calls[0][0])).toEqual([
+        getSectionKey(effects.sectionId),
+        SECTION_CHANGE_KEY,
+      ]);
+      expect(await repository.getSectionById(effects.sectionId)).toEqual({
+        ...effects,
+        note: "Read later",
+      });
+    });
+
+    test("reads sections in batches", async () => {
+      const sections = Array.from({ length: 150 }, (_, i) =>
+        createSection(`Section ${i}`)
+      );
+      const { storage, repository } = setUpRepository();
+      await repository.addSections(sections);
+      storage.get.mockClear();
+
+      expect(await repository.getAllSections()).toEqual(sections);
+      const batchSizes = storage.get.mock.calls
+        .map(([keys]) => keys)
+        .filter((keys) => Array.isArray(keys) && keys.length > 2)
+        .map((keys) => (keys as string[]).length);
+      expect(batchSizes).toEqual([100, 50]);
+    });
+
+    test("keeps every section when adds run concurrently", async () => {
+      const { storage, repository } = setUpRepository();
+
+      await Promise.all([
+        repository.addSection(state),
+        repository.addSection(effects),
+        new ChromeStorageHeadingSectionRepository().addSection(refs),
+      ]);
+
+      expect(await repository.getAllSections()).toEqual([state, effects, refs]);
+      expect(storage.data[SECTION_CHANGE_KEY].addedIds).toEqual([
+        refs.sectionId,
+      ]);
+    });
+
+    test("removes sections by current or legacy ID and clears their keys", async () => {
+      const legacy = { ...effects, legacyIds: ["old-effects"] };
+      const { storage, repository } = setUpRepository();
+      await repository.addSections([state, legacy, refs]);
+
+      const removed = await repository.removeSections([
+        state.sectionId,
+        "old-effects",
+        "missing",
+      ]);
+
+      expect(removed).toEqual({ success: true, data: 2 });
+      expect(storage.data[getSectionKey(state.sectionId)]).toBeUndefined();
+      expect(storage.data[getSectionKey(effects.sectionId)]).toBeUndefined();
+      expect(storage.data[SECTION_MANIFEST_KEY]).toEqual({
+        sectionIds: [refs.sectionId],
+      });
+
+      await repository.clearAllSections();
+
+      expect(
+        Object.keys(storage.data).filter((key) =>
+          key.startsWith("deepwiki_heading_section:")
+        )
+      ).toEqual([]);
+      expect(await repository.getSectionCount()).toBe(0);
+    });
+
+    test("repairs a manifest listing missing or invalid sections", async () => {
+      const { storage, repository } = setUpRepository({
+        [SECTION_MANIFEST_KEY]: {
+          sectionIds: [state.sectionId, "missing", "broken"],
+        },
+        [getSectionKey(state.sectionId)]: serializeHeadingSection(state),
+        [getSectionKey("broken")]: { sectionId: "broken" },
+      });
+
+      const result = await repository.validateAndRepairStorage();
+
+      expect(result).toMatchObject({ isValid: false, repaired: true });
+      expect(result.errors).toHaveLength(2);
+      expect(storage.data[SECTION_MANIFEST_KEY]).toEqual({
+        sectionIds: [state.sectionId],
+      });
+      expect(storage.data[getSectionKey("broken")]).toBeUndefined();
+      expect(await readRejectedSections(storage as any)).toEqual([
+        expect.objectContaining({ data: { sectionId: "broken" } }),
+      ]);
+    });
+
+    test("sets aside unreadable sections before replacing them", async () => {
+      const broken = { sectionId: "broken", titleText: 42 };
+      const { storage, repository } = setUpRepository({
+        [SECTION_MANIFEST_KEY]: {
+          sectionIds: [state.sectionId, "broken"],
+        },
+        [getSectionKey(state.sectionId)]: serializeHeadingSection(state),
+        [getSectionKey("broken")]: broken,
+      });
+
+      // As when moving the sections to another backend or restoring a backup
+      const sections = await repository.getAllSections();
+      await repository.replaceAllSections([...sections, effects]);
+
+      expect(await repository.getAllSections()).toEqual([state, effects]);
+      expect(storage.data[getSectionKey("broken")]).toBeUndefined();
+      expect(await readRejectedSections(storage as any)).toEqual([
+        {
+          data: broken,
+          reason: expect.any(String),
+          rejectedAt: expect.any(String),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the version history of heading sections
+ */
+
+import {
+  HeadingSection,
+  MAX_SECTION_VERSIONS,
+  addSectionVersion,
+  createHeadingSection,
+  deserializeHeadingSection,
+  getSectionVersions,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+
+const createSection = (contentHtml: string): HeadingSection =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText: "State Management",
+    contentHtml,
+    sourceUrl: "https://deepwiki.com/facebook/react/2-state",
+    sectionId: "state-management",
+  });
+
+describe("Heading section versions", () => {
+  test("a new section has only its current version", () => {
+    const section = createSection("<p>v1</p>");
+
+    expect(getSectionVersions(section)).toEqual([
+      { contentHtml: "<p>v1</p>", capturedAt: section.addedAt },
+    ]);
+  });
+
+  test("addSectionVersion keeps the previous content", () => {
+    const section = createSection("<p>v1</p>");
+    const capturedAt = new Date("2030-01-01T00:00:00.000Z");
+
+    const updated = addSectionVersion(section, "<p>v2</p>", capturedAt);
+
+    expect(updated.contentHtml).toBe("<p>v2</p>");
+    expect(updated.updatedAt).toBe(capturedAt);
+    expect(getSectionVersions(updated).map((v) => v.contentHtml)).toEqual([
+      "<p>v1</p>",
+      "<p>v2</p>",
+    ]);
+    expect(updated.addedAt).toBe(section.addedAt);
+  });
+
+  test("addSectionVersion ignores unchanged content", () => {
+    const section = createSection("<p>v1</p>");
+
+    expect(addSectionVersion(section, "<p>v1</p>")).toBe(section);
+  });
+
+  test("only the latest earlier versions are kept", () => {
+    let section = createSection("<p>v0</p>");
+    for (let i = 1; i <= MAX_SECTION_VERSIONS + 5; i++) {
+      section = addSectionVersion(section, `<p>v${i}</p>`);
+    }
+
+    expect(section.versions).toHaveLength(MAX_SECTION_VERSIONS);
+    expect(section.versions![0].contentHtml).toBe("<p>v5</p>");
+  });
+
+  test("versions survive serialization", () => {
+    const section = addSectionVersion(
+      createSection("<p>v1</p>"),
+      "<p>v2</p>",
+      new Date("2030-01-01T00:00:00.000Z")
+    );
+
+    const restored = deserializeHeadingSection(
+      serializeHeadingSection(section)
+    );
+
+    expect(restored.updatedAt).toEqual(section.updatedAt);
+    expect(restored.versions).toEqual(section.versions);
+  });
+
+  test("rejects malformed versions", () => {
+    expect(() =>
+      deserializeHeadingSection({
+        ...serializeHeadingSection(createSection("<p>v1</p>")),
+        versions: [{ contentHtml: "<p>old</p>", capturedAt: "not a date" }],
+      })
+    ).toThrow("Invalid version");
+  });
+});
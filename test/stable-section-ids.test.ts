@@ -0,0 +1,244 @@
+/**
+ * Tests for stable, content-based section IDs and the migration to them
+ */
+
+import {
+  HeadingParser,
+  createHeadingSection,
+  generateSectionId,
+  isStableSectionId,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+import { sha256Hex } from "../domain/shared";
+import { AddHeadingSectionUseCase } from "../application/usecases/heading-collection";
+import {
+  ChromeStorageHeadingSectionRepository,
+  migrateToStableSectionIds,
+} from "../infrastructure/repositories/chrome/heading-section";
+import { createStorageArea } from "./storage-area";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+// A section as stored before stable IDs existed
+const createLegacySection = (
+  sectionId: string,
+  level: number,
+  titleText: string,
+  sourceUrl = PAGE_URL
+) =>
+  serializeHeadingSection(
+    createHeadingSection({
+      sectionId,
+      level,
+      tagName: `H${level}`,
+      titleText,
+      contentHtml: `<h${level}>${titleText}</h${level}>`,
+      sourceUrl,
+    })
+  );
+
+describe("Stable section IDs", () => {
+  test("sha256Hex matches known digests", () => {
+    expect(sha256Hex("")).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    );
+    expect(sha256Hex("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+    expect(sha256Hex("a".repeat(1000))).toBe(
+      "41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3"
+    );
+  });
+
+  test("the same heading always gets the same ID", () => {
+    const id = generateSectionId({
+      sourceUrl: `${PAGE_URL}#state`,
+      level: 2,
+      titleText: "  State   Hooks ",
+      headingPath: ["State"],
+    });
+
+    expect(isStableSectionId(id)).toBe(true);
+    expect(
+      generateSectionId({
+        sourceUrl: PAGE_URL,
+        level: 2,
+        titleText: "state hooks",
+        headingPath: ["state"],
+      })
+    ).toBe(id);
+    expect(
+      generateSectionId({
+        sourceUrl: PAGE_URL,
+        level: 2,
+        titleText: "State Hooks",
+        headingPath: ["Effects"],
+      })
+    ).not.toBe(id);
+  });
+
+  test("createHeadingSection derives the ID from the content", () => {
+    const create = () =>
+      createHeadingSection({
+        level: 3,
+        tagName: "H3",
+        titleText: "useState",
+        contentHtml: "<h3>useState</h3>",
+        sourceUrl: PAGE_URL,
+        headingPath: ["State"],
+      });
+
+    expect(create().sectionId).toBe(create().sectionId);
+    expect(create().headingPath).toEqual(["State"]);
+  });
+
+  test("same-title headings under different parents are separate sections", async () => {
+    global.chrome = {
+      storage: { local: createStorageArea(), sync: createStorageArea() },
+    } as any;
+    const repository = new ChromeStorageHeadingSectionRepository();
+    const useCase = new AddHeadingSectionUseCase(repository);
+    const capture = (parent: string, content: string) =>
+      useCase.execute({
+        level: 3,
+        title: "Example",
+        content,
+        sourceUrl: PAGE_URL,
+        headingPath: [parent],
+      });
+
+    const auth = await capture("Auth", "<p>Log in</p>");
+    const build = await capture("Build", "<p>Run the build</p>");
+
+    expect(auth.success && auth.status).toBe("created");
+    expect(build.success && build.status).toBe("created");
+    const sections = await repository.getAllSections();
+    expect(sections.map((section) => section.contentHtml)).toEqual([
+      "<p>Log in</p>",
+      "<p>Run the build</p>",
+    ]);
+  });
+
+  describe("migrateToStableSectionIds", () => {
+    test("replaces legacy IDs once and keeps them resolvable", async () => {
+      const storage = createStorageArea({
+        deepwiki_heading_sections: [
+          createLegacySection("old-state", 2, "State"),
+          createLegacySection("old-use-state", 3, "useState"),
+        ],
+      });
+
+      const first = await migrateToStableSectionIds(storage as any);
+      const second = await migrateToStableSectionIds(storage as any);
+
+      expect(first.migratedSections).toBe(2);
+      expect(second.migratedSections).toBe(0);
+      expect(storage.set).toHaveBeenCalledTimes(1);
+
+      // The H3 is nested under the stored H2, as on the page
+      const [state, useState] = storage.data.deepwiki_heading_sections;
+      expect(useState.sectionId).toBe(
+        generateSectionId({
+          sourceUrl: PAGE_URL,
+          level: 3,
+          titleText: "useState",
+          headingPath: ["State"],
+        })
+      );
+      expect(state.legacyIds).toEqual(["old-state"]);
+
+      global.chrome = {
+        storage: { local: storage, sync: createStorageArea() },
+      } as any;
+      const repository = new ChromeStorageHeadingSectionRepository();
+      const found = await repository.getSectionById("old-use-state");
+      expect(found?.sectionId).toBe(useState.sectionId);
+    });
+
+    test("gives colliding sections distinct IDs", async () => {
+      const storage = createStorageArea({
+        deepwiki_heading_sections: [
+          createLegacySection("a", 2, "State", `${PAGE_URL}#one`),
+          createLegacySection("b", 2, "State", `${PAGE_URL}#two`),
+          { sectionId: "broken" },
+        ],
+      });
+
+      await migrateToStableSectionIds(storage as any);
+      await migrateToStableSectionIds(storage as any);
+
+      const [a, b, broken] = storage.data.deepwiki_heading_sections;
+      expect(b.sectionId).toBe(`${a.sectionId}-2`);
+      expect(broken).toEqual({ sectionId: "broken" });
+      expect(storage.set).toHaveBeenCalledTimes(1);
+    });
+
+    test("gives a section the ID of a fresh capture when it is captured again", async () => {
+      // The page nests useState under State, which was never collected
+      const headings = [
+        [2, "Hooks"],
+        [3, "State"],
+        [4, "useState"],
+      ].map(([level, title]) => ({
+        tagName: `H${level}`,
+        textContent: title,
+        nextElementSibling: null,
+      }));
+      global.document = {
+        createElement: () => ({ innerHTML: "<p>About</p>", appendChild() {} }),
+      } as any;
+      const parsed = new HeadingParser({ includeHeadingInContent: false })
+        .parseFromContainer(
+          { querySelectorAll: () => headings } as any,
+          PAGE_URL
+        )
+        .sections.find((section) => section.titleText === "useState")!;
+
+      const storage = createStorageArea({
+        deepwiki_heading_sections: [
+          createLegacySection("old-hooks", 2, "Hooks"),
+          createLegacySection("old-use-state", 4, "useState"),
+        ],
+      });
+      await migrateToStableSectionIds(storage as any);
+
+      // Only the collected Hooks is known to enclose it
+      const migrated = storage.data.deepwiki_heading_sections[1];
+      expect(migrated.headingPath).toEqual(["Hooks"]);
+      expect(migrated.headingPathPartial).toBe(true);
+      expect(migrated.sectionId).not.toBe(parsed.sectionId);
+
+      global.chrome = {
+        storage: { local: storage, sync: createStorageArea() },
+      } as any;
+      const repository = new ChromeStorageHeadingSectionRepository();
+      const result = await new AddHeadingSectionUseCase(repository).execute({
+        level: parsed.level,
+        title: parsed.titleText,
+        content: migrated.contentHtml,
+        sourceUrl: PAGE_URL,
+        position: parsed.position,
+        headingPath: [...parsed.headingPath!],
+      });
+
+      expect(result.success).toBe(false);
+      const sections = await repository.getAllSections();
+      expect(sections.map((section) => section.sectionId)).toEqual([
+        generateSectionId({
+          sourceUrl: PAGE_URL,
+          level: 2,
+          titleText: "Hooks",
+        }),
+        parsed.sectionId,
+      ]);
+      expect(sections[1]).toMatchObject({
+        headingPath: ["Hooks", "State"],
+        legacyIds: ["old-use-state", migrated.sectionId],
+      });
+      expect(sections[1].headingPathPartial).toBeUndefined();
+      expect(
+        (await repository.getSectionById("old-use-state"))?.sectionId
+      ).toBe(parsed.sectionId);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for detecting saved sections that are stale compared to the live page
+ */
+
+import {
+  HeadingSection,
+  createHeadingSection,
+  deserializeHeadingSection,
+  markSectionUpstream,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+import {
+  AddHeadingSectionUseCase,
+  CheckSectionFreshnessUseCase,
+} from "../application/usecases/heading-collection";
+import { Result } from "../domain/shared";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+
+const createSection = (
+  titleText: string,
+  contentHtml: string,
+  sourceUrl = PAGE_URL,
+  headingPath: string[] = []
+): HeadingSection =>
+  createHeadingSection({
+    level: 2,
+    tagName: "H2",
+    titleText,
+    contentHtml,
+    sourceUrl,
+    headingPath,
+  });
+
+const createRepository = (sections: HeadingSection[]) => ({
+  getAllSections: jest.fn().mockResolvedValue(sections),
+  updateSection: jest.fn().mockResolvedValue(Result.success(undefined)),
+});
+
+describe("Stale section detection", () => {
+  describe("domain", () => {
+    test("markSectionUpstream keeps the first detection time", () => {
+      const section = createSection("Hooks", "<p>a</p>");
+      const first = markSectionUpstream(
+        section,
+        "changed",
+        new Date("2030-01-01T00:00:00.000Z")
+      );
+
+      expect(markSectionUpstream(first, "changed")).toBe(first);
+      expect(markSectionUpstream(first, null).upstream).toBeUndefined();
+    });
+
+    test("upstream state survives serialization", () => {
+      const section = markSectionUpstream(
+        createSection("Hooks", "<p>a</p>"),
+        "removed",
+        new Date("2030-01-01T00:00:00.000Z")
+      );
+
+      const restored = deserializeHeadingSection(
+        JSON.parse(JSON.stringify(serializeHeadingSection(section)))
+      );
+
+      expect(restored.upstream).toEqual({
+        status: "removed",
+        detectedAt: new Date("2030-01-01T00:00:00.000Z"),
+      });
+    });
+  });
+
+  describe("CheckSectionFreshnessUseCase", () => {
+    test("marks changed and removed sections of the same page", async () => {
+      const context = createSection("Context", "<p>Old text</p>");
+      const legacy = createSection("Legacy API", "<p>Gone</p>");
+      const repository = createRepository([
+        createSection("Hooks", "<p>useState</p>"),
+        context,
+        legacy,
+        createSection("Elsewhere", "<p>Other page</p>", `${PAGE_URL}-other`),
+      ]);
+      const useCase = new CheckSectionFreshnessUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sourceUrl: `${PAGE_URL}#hooks`,
+        liveSections: [
+          // Markup differences alone do not count as a change
+          { level: 2, title: "Hooks", content: "<div><p>useState</p></div>" },
+          { level: 2, title: "Context", content: "<p>New text</p>" },
+        ],
+      });
+
+      expect(result).toEqual({
+        success: true,
+        checkedCount: 3,
+        changedSectionIds: [context.sectionId],
+        removedSectionIds: [legacy.sectionId],
+      });
+      expect(
+        repository.updateSection.mock.calls.map(([s]: [HeadingSection]) => [
+          s.sectionId,
+          s.upstream?.status,
+        ])
+      ).toEqual([
+        [context.sectionId, "changed"],
+        [legacy.sectionId, "removed"],
+      ]);
+    });
+
+    test("matches same-title headings by their enclosing headings", async () => {
+      const repository = createRepository([
+        createSection("Example", "<p>Log in</p>", PAGE_URL, ["Auth"]),
+        createSection("Example", "<p>Run the build</p>", PAGE_URL, ["Build"]),
+      ]);
+      const useCase = new CheckSectionFreshnessUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sourceUrl: PAGE_URL,
+        liveSections: [
+          {
+            level: 2,
+            title: "Example",
+            content: "<p>Log in</p>",
+            headingPath: ["Auth"],
+          },
+          {
+            level: 2,
+            title: "Example",
+            content: "<p>Run the build</p>",
+            headingPath: ["Build"],
+          },
+        ],
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          checkedCount: 2,
+          changedSectionIds: [],
+          removedSectionIds: [],
+        })
+      );
+      expect(repository.updateSection).not.toHaveBeenCalled();
+    });
+
+    test("clears the mark when the page matches again", async () => {
+      const stale = markSectionUpstream(
+        createSection("Hooks", "<p>useState</p>"),
+        "changed"
+      );
+      const repository = createRepository([stale]);
+      const useCase = new CheckSectionFreshnessUseCase(repository as any);
+
+      await useCase.execute({
+        sourceUrl: PAGE_URL,
+        liveSections: [
+          { level: 2, title: "Hooks", content: "<p>useState</p>" },
+        ],
+      });
+
+      expect(repository.updateSection).toHaveBeenCalledWith(
+        expect.not.objectContaining({ upstream: expect.anything() })
+      );
+    });
+
+    test("ignores content that sanitizing removes", async () => {
+      const repository = createRepository([
+        createSection("Hooks", "<p>useState</p>"),
+        createSection(
+          "Context",
+          "<p>useContext</p><noscript><p>Enable JavaScript</p></noscript>"
+        ),
+      ]);
+      const useCase = new CheckSectionFreshnessUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sourceUrl: PAGE_URL,
+        liveSections: [
+          {
+            level: 2,
+            title: "Hooks",
+            content:
+              "<p>useState</p><noscript><p>Enable JavaScript</p></noscript>",
+          },
+          { level: 2, title: "Context", content: "<p>useContext</p>" },
+        ],
+      });
+
+      expect(result.success && result.changedSectionIds).toEqual([]);
+      expect(repository.updateSection).not.toHaveBeenCalled();
+    });
+
+    test("does nothing when the page has no sections", async () => {
+      const repository = createRepository([createSection("Hooks", "<p>a</p>")]);
+      const useCase = new CheckSectionFreshnessUseCase(repository as any);
+
+      const result = await useCase.execute({
+        sourceUrl: PAGE_URL,
+        liveSections: [],
+      });
+
+      expect(result.success && result.checkedCount).toBe(0);
+      expect(repository.getAllSections).not.toHaveBeenCalled();
+    });
+
+    test("rejects invalid live sections", async () => {
+      const useCase = new CheckSectionFreshnessUseCase(
+        createRepository([]) as any
+      );
+
+      const result = await useCase.execute({
+        sourceUrl: PAGE_URL,
+        liveSections: [{ level: 2 } as any],
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorCode).toBe("INVALID_INPUT");
+      }
+    });
+  });
+
+  test("re-capturing a section clears its stale mark", async () => {
+    const stale = markSectionUpstream(
+      createSection("Hooks", "<p>old</p>"),
+      "changed"
+    );
+    const repository = {
+      findDuplicateSection: jest.fn().mockResolvedValue(stale),
+      updateSection: jest.fn().mockResolvedValue(Result.success(undefined)),
+    };
+    const useCase = new AddHeadingSectionUseCase(repository as any);
+
+    const result = await useCase.execute({
+      level: 2,
+      title: "Hooks",
+      content: "<p>new</p>",
+      sourceUrl: PAGE_URL,
+    });
+
+    expect(result.success && result.status).toBe("newVersion");
+    expect(repository.updateSection.mock.calls[0][0].upstream).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * In-memory stand-in for a chrome.storage area, shared by the tests
+ */
+
+/**
+ * Creates a storage area holding the given items
+ *
+ * The stored items are exposed as `data` for assertions. With `interleave`,
+ * each call first yields to other tasks, so that concurrent calls interleave
+ * as they can with chrome.storage.
+ */
+export const createStorageArea = (
+  initial: Record<string, any> = {},
+  options: { interleave?: boolean } = {}
+) => {
+  const data: Record<string, any> = { ...initial };
+  const tick = () =>
+    options.interleave
+      ? new Promise((resolve) => setTimeout(resolve))
+      : Promise.resolve();
+
+  return {
+    data,
+    get: jest.fn(async (keys: string | string[] | null) => {
+      await tick();
+      if (keys === null) {
+        return JSON.parse(JSON.stringify(data));
+      }
+      const result: Record<string, any> = {};
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        if (key in data) result[key] = data[key];
+      }
+      return result;
+    }),
+    set: jest.fn(async (items: Record<string, any>) => {
+      await tick();
+      Object.assign(data, items);
+    }),
+    remove: jest.fn(async (keys: string | string[]) => {
+      await tick();
+      for (const key of Array.isArray(keys) ? keys : [keys]) delete data[key];
+    }),
+    clear: jest.fn(async () => {
+      await tick();
+      for (const key of Object.keys(data)) delete data[key];
+    }),
+    getBytesInUse: jest.fn(async () => 0),
+  };
+};
@@ -0,0 +1,191 @@
+/**
+ * Tests for the versioned storage schema and its migration runner
+ */
+
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATION_BACKUP_KEY,
+  SCHEMA_VERSION_KEY,
+  STORAGE_MIGRATIONS,
+  StorageMigration,
+  StorageMigrationRunner,
+} from "../infrastructure/repositories/chrome/migrations";
+import { createStorageArea } from "./storage-area";
+
+const createAreas = (
+  local: Record<string, any> = {},
+  sync: Record<string, any> = {}
+) => ({ local: createStorageArea(local), sync: createStorageArea(sync) });
+
+// Migration that records a value in local storage
+const recordingMigration = (version: number): StorageMigration => ({
+  version,
+  description: `Record v${version}`,
+  migrate: async ({ local }) => {
+    const result = await local.get("applied");
+    await local.set({ applied: [...(result.applied ?? []), version] });
+  },
+});
+
+describe("Storage migrations", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("registry versions are ascending and unique", () => {
+    const versions = STORAGE_MIGRATIONS.map((migration) => migration.version);
+
+    expect(versions).toEqual([...new Set(versions)].sort((a, b) => a - b));
+    expect(CURRENT_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  test("applies pending migrations in order and stores the version", async () => {
+    const areas = createAreas({ [SCHEMA_VERSION_KEY]: 1 });
+    const runner = new StorageMigrationRunner(areas as any, [
+      recordingMigration(3),
+      recordingMigration(1),
+      recordingMigration(2),
+    ]);
+
+    const result = await runner.run();
+
+    expect(result).toEqual({
+      success: true,
+      fromVersion: 1,
+      toVersion: 3,
+      applied: [2, 3],
+    });
+    expect(areas.local.data.applied).toEqual([2, 3]);
+    expect(await runner.getSchemaVersion()).toBe(3);
+    expect(areas.local.data[MIGRATION_BACKUP_KEY]).toBeUndefined();
+  });
+
+  test("does nothing when the schema is up to date", async () => {
+    const areas = createAreas({ [SCHEMA_VERSION_KEY]: 2 });
+    const runner = new StorageMigrationRunner(areas as any, [
+      recordingMigration(1),
+      recordingMigration(2),
+    ]);
+
+    const result = await runner.run();
+
+    expect(result).toEqual({
+      success: true,
+      fromVersion: 2,
+      toVersion: 2,
+      applied: [],
+    });
+    expect(areas.local.set).not.toHaveBeenCalled();
+  });
+
+  test("rolls back all data when a migration fails", async () => {
+    const areas = createAreas(
+      { items: ["a"] },
+      { settings: { theme: "dark" } }
+    );
+    const failing: StorageMigration = {
+      version: 2,
+      description: "Break everything",
+      migrate: async ({ local, sync }) => {
+        await local.set({ items: [] });
+        await sync.clear();
+        throw new Error("boom");
+      },
+    };
+    const runner = new StorageMigrationRunner(areas as any, [
+      recordingMigration(1),
+      failing,
+    ]);
+
+    const result = await runner.run();
+
+    expect(result).toEqual({
+      success: false,
+      fromVersion: 0,
+      failedVersion: 2,
+      error: "boom",
+      rolledBack: true,
+    });
+    expect(areas.local.data).toEqual({ items: ["a"] });
+    expect(areas.sync.data).toEqual({ settings: { theme: "dark" } });
+    expect(await runner.getSchemaVersion()).toBe(0);
+  });
+
+  test("keeps the backup when restoring it fails, and restores it on the next run", async () => {
+    const areas = createAreas(
+      { items: ["a"] },
+      { settings: { theme: "dark" } }
+    );
+    const failing: StorageMigration = {
+      version: 1,
+      description: "Break and fail",
+      migrate: async ({ local }) => {
+        await local.set({ items: [], added: true });
+        throw new Error("boom");
+      },
+    };
+    const runner = new StorageMigrationRunner(areas as any, [failing]);
+    // The write of the restored items fails, as when the worker stops
+    areas.sync.set.mockRejectedValueOnce(new Error("stopped"));
+
+    const result = await runner.run();
+
+    expect(result).toMatchObject({ success: false, rolledBack: false });
+    expect(areas.local.clear).not.toHaveBeenCalled();
+    expect(areas.sync.clear).not.toHaveBeenCalled();
+    expect(areas.local.data[MIGRATION_BACKUP_KEY]).toMatchObject({
+      local: { items: ["a"] },
+      sync: { settings: { theme: "dark" } },
+    });
+
+    await new StorageMigrationRunner(areas as any, []).run();
+
+    expect(areas.local.data).toEqual({ items: ["a"] });
+    expect(areas.sync.data).toEqual({ settings: { theme: "dark" } });
+  });
+
+  test("restores the backup of an interrupted run before migrating", async () => {
+    const areas = createAreas({
+      items: ["half-migrated"],
+      [SCHEMA_VERSION_KEY]: 1,
+      [MIGRATION_BACKUP_KEY]: {
+        fromVersion: 0,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        local: { items: ["original"] },
+        sync: {},
+      },
+    });
+    const runner = new StorageMigrationRunner(areas as any, [
+      recordingMigration(1),
+    ]);
+
+    const result = await runner.run();
+
+    expect(result).toEqual({
+      success: true,
+      fromVersion: 0,
+      toVersion: 1,
+      applied: [1],
+    });
+    expect(areas.local.data).toEqual({
+      items: ["original"],
+      applied: [1],
+      [SCHEMA_VERSION_KEY]: 1,
+    });
+  });
+
+  test("migrates legacy data to the current schema", async () => {
+    const areas = createAreas({ deepwiki_heading_sections: [] });
+
+    const result = await new StorageMigrationRunner(areas as any).run();
+
+    expect(result.success).toBe(true);
+    expect(areas.local.data[SCHEMA_VERSION_KEY]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Tests for storing heading sections in chrome.storage.sync
+ */
+
+import {
+  HeadingSection,
+  createHeadingSection,
+  deserializeHeadingSection,
+  serializeHeadingSection,
+} from "../domain/heading-collection";
+import {
+  compressText,
+  decompressText,
+} from "../shared/compression/compress-text";
+import {
+  ChromeStorageHeadingSectionRepository,
+  ChunkedSyncStorageArea,
+  SECTION_CHANGE_KEY,
+  SECTION_SYNC_CONTENT_KEY,
+  StorageItemLimitExceededError,
+  StorageQuotaExceededError,
+  StorageWriteRateExceededError,
+  getSectionContentKey,
+  getSectionKey,
+} from "../infrastructure/repositories/chrome/heading-section";
+import {
+  ACTIVE_SECTION_STORAGE_BACKEND_KEY,
+  SECTION_STORAGE_BACKEND_KEY,
+  SwitchableHeadingSectionRepository,
+} from "../infrastructure/repositories/section-backend";
+import { createStorageArea } from "./storage-area";
+
+const PAGE_URL = "https://deepwiki.com/facebook/react/2-state";
+const QUOTA_BYTES_PER_ITEM = 8192;
+
+// Text that compresses poorly, so that it needs several chunks
+const createNoise = (length: number) => {
+  const alphabet =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let seed = 42;
+  let text = "";
+  for (let i = 0; i < length; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    text += alphabet[(seed >>> 16) % alphabet.length];
+  }
+  return text;
+};
+
+const itemBytes = (key: string, value: unknown) =>
+  new TextEncoder().encode(key + JSON.stringify(value)).length;
+
+// Sections as they read back from storage
+const createSection = (
+  titleText: string,
+  extra: { contentHtml?: string; note?: string } = {}
+): HeadingSection =>
+  deserializeHeadingSection(
+    serializeHeadingSection({
+      ...createHeadingSection({
+        level: 2,
+        tagName: "H2",
+        titleText,
+        contentHtml:
+          extra.contentHtml ?? `<h2>${titleText}</h2><p>About ${titleText}</p>`,
+        sourceUrl: PAGE_URL,
+      }),
+      ...(extra.note && { note: extra.note }),
+    })
+  );
+
+const setUpChrome = (localData: Record<string, any> = {}) => {
+  const local = createStorageArea(localData);
+  const sync = createStorageArea();
+  global.chrome = { storage: { local, sync } } as any;
+  return { local, sync };
+};
+
+describe("Sync storage", () => {
+  describe("compressText", () => {
+    test("restores the compressed text", async () => {
+      const html = "<p>Ünïcödé → 日本語</p>".repeat(200);
+
+      const compressed = await compressText(html);
+
+      expect(compressed.length).toBeLessThan(html.length / 10);
+      expect(await decompressText(compressed)).toBe(html);
+    });
+  });
+
+  describe("ChunkedSyncStorageArea", () => {
+    test("splits large values into chunks below the per-item quota", async () => {
+      const sync = createStorageArea({ host1: "github.com" });
+      const area = ChunkedSyncStorageArea.for(sync as any);
+      const value = { text: createNoise(20000) };
+
+      await area.set({ big: value });
+
+      expect(sync.data.big).toEqual({ deflatedChunks: expect.any(Number) });
+      expect(sync.data.big.deflatedChunks).toBeGreaterThan(1);
+      for (const [key, stored] of Object.entries(sync.data)) {
+        expect(itemBytes(key, stored)).toBeLessThanOrEqual(
+          QUOTA_BYTES_PER_ITEM
+        );
+      }
+      expect(await area.get(["big", "host1"])).toEqual({
+        big: value,
+        host1: "github.com",
+      });
+      expect(await area.get(null)).toEqual({
+        big: value,
+        host1: "github.com",
+      });
+    });
+
+    test("removes chunks a value no longer needs", async () => {
+      const sync = createStorageArea();
+      const area = ChunkedSyncStorageArea.for(sync as any);
+
+      await area.set({ big: createNoise(20000) });
+      await area.set({ big: "small" });
+
+      expect(Object.keys(sync.data)).toEqual(["big"]);
+      expect(await area.get("big")).toEqual({ big: "small" });
+
+      await area.set({ big: createNoise(20000) });
+      await area.remove("big");
+
+      expect(sync.data).toEqual({});
+    });
+
+    test("refuses writes beyond the sync quota", async () => {
+      const sync = createStorageArea();
+      const area = ChunkedSyncStorageArea.for(sync as any);
+
+      await expect(area.set({ big: createNoise(150000) })).rejects.toThrow(
+        StorageQuotaExceededError
+      );
+      expect(sync.set).not.toHaveBeenCalled();
+    });
+
+    test("writes all chunks at once and refuses writes beyond the item limit", async () => {
+      const sync = createStorageArea(
+        Object.fromEntries(
+          Array.from({ length: 510 }, (_, i) => [`item${i}`, i])
+        )
+      );
+      const area = ChunkedSyncStorageArea.for(sync as any);
+
+      await expect(area.set({ big: createNoise(20000) })).rejects.toThrow(
+        StorageItemLimitExceededError
+      );
+      expect(sync.set).not.toHaveBeenCalled();
+
+      await area.remove(["item0", "item1", "item2", "item3", "item4"]);
+      await area.set({ big: createNoise(20000) });
+
+      expect(sync.set).toHaveBeenCalledTimes(1);
+      expect(sync.data.big.deflatedChunks).toBeGreaterThan(1);
+      expect(Object.keys(sync.data)).toHaveLength(
+        505 + 1 + sync.data.big.deflatedChunks
+      );
+    });
+
+    test("refuses writes beyond the write rate limits", async () => {
+      const sync = createStorageArea();
+      const area = ChunkedSyncStorageArea.for(sync as any);
+      const now = jest.spyOn(Date, "now").mockReturnValue(0);
+
+      try {
+        for (let i = 0; i < 120; i++) {
+          await area.set({ [`item${i}`]: i });
+        }
+        await expect(area.set({ late: 1 })).rejects.toThrow(
+          StorageWriteRateExceededError
+        );
+        await expect(area.remove("item0")).rejects.toThrow(
+          StorageWriteRateExceededError
+        );
+        expect(sync.set).toHaveBeenCalledTimes(120);
+        expect(sync.remove).not.toHaveBeenCalled();
+
+        // A minute later writes go through again, up to the hourly limit
+        for (let minute = 1; minute < 15; minute++) {
+          now.mockReturnValue(minute * 60 * 1000 + 1);
+          for (let i = 0; i < 120; i++) {
+            await area.set({ [`item${i}`]: minute });
+          }
+        }
+        now.mockReturnValue(15 * 60 * 1000 + 1);
+        await expect(area.set({ late: 1 })).rejects.toThrow("per hour");
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    test("leaves out values whose chunks have not all arrived", async () => {
+      const sync = createStorageArea();
+      const area = ChunkedSyncStorageArea.for(sync as any);
+      await area.set({ big: createNoise(20000), other: 1 });
+
+      delete sync.data["big#1"];
+
+      expect(await area.get(["big", "other"])).toEqual({ other: 1 });
+    });
+  });
+
+  describe("ChromeStorageHeadingSectionRepository in sync mode", () => {
+    const state = createSection("State", { note: "Read first" });
+    const large = createSection("Large", {
+      contentHtml: `<p>${createNoise(12000)}</p>`,
+    });
+
+    test("syncs full sections in compressed chunks", async () => {
+      const { local, sync } = setUpChrome({
+        [SECTION_SYNC_CONTENT_KEY]: "full",
+      });
+      const repository = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+
+      const result = await repository.addSections([state, large]);
+
+      expect(result.success).toBe(true);
+      expect(await repository.getAllSections()).toEqual([state, large]);
+      for (const [key, stored] of Object.entries(sync.data)) {
+        expect(itemBytes(key, stored)).toBeLessThanOrEqual(
+          QUOTA_BYTES_PER_ITEM
+        );
+      }
+      // Listeners of chrome.storage.local still learn about the new sections
+      expect(local.data[SECTION_CHANGE_KEY].addedIds).toEqual([
+        state.sectionId,
+        large.sectionId,
+      ]);
+      expect(local.data[getSectionContentKey(state.sectionId)]).toBeUndefined();
+    });
+
+    test("keeps content on the device when only metadata syncs", async () => {
+      const { local, sync } = setUpChrome();
+      const repository = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+
+      await repository.addSection(state);
+
+      const synced = await ChunkedSyncStorageArea.for(sync as any).get(
+        getSectionKey(state.sectionId)
+      );
+      expect(synced[getSectionKey(state.sectionId)]).toMatchObject({
+        titleText: "State",
+        note: "Read first",
+        contentHtml: "",
+      });
+      expect(local.data[getSectionContentKey(state.sectionId)]).toEqual({
+        contentHtml: state.contentHtml,
+        versions: [],
+      });
+      expect(await repository.getSectionById(state.sectionId)).toEqual(state);
+
+      // Another device sees the metadata without the content
+      global.chrome = {
+        storage: { local: createStorageArea(), sync },
+      } as any;
+      expect(await repository.getAllSections()).toEqual([
+        { ...state, contentHtml: "" },
+      ]);
+    });
+
+    test("resyncs the content when the setting changes", async () => {
+      const { local, sync } = setUpChrome();
+      const repository = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+      await repository.addSection(state);
+
+      local.data[SECTION_SYNC_CONTENT_KEY] = "full";
+      const result = await repository.resyncSections();
+
+      expect(result.success).toBe(true);
+      expect(local.data[getSectionContentKey(state.sectionId)]).toBeUndefined();
+      global.chrome = {
+        storage: { local: createStorageArea(), sync },
+      } as any;
+      expect(await repository.getAllSections()).toEqual([state]);
+    });
+
+    test("never syncs content another device keeps over it", async () => {
+      // Device A syncs metadata only and keeps the content
+      const { local: localA, sync } = setUpChrome();
+      const repository = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+      await repository.addSection(state);
+
+      // Device B syncs full sections, but has no content to sync
+      const localB = createStorageArea({ [SECTION_SYNC_CONTENT_KEY]: "full" });
+      global.chrome = { storage: { local: localB, sync } } as any;
+      expect(
+        (
+          await repository.updateSection({
+            ...state,
+            contentHtml: "",
+            note: "Edited",
+          })
+        ).success
+      ).toBe(true);
+      expect((await repository.resyncSections()).success).toBe(true);
+      expect(
+        localB.data[getSectionContentKey(state.sectionId)]
+      ).toBeUndefined();
+
+      global.chrome = { storage: { local: localA, sync } } as any;
+      expect(await repository.getAllSections()).toEqual([
+        { ...state, note: "Edited" },
+      ]);
+
+      // Once A syncs full sections too, B receives the content
+      localA.data[SECTION_SYNC_CONTENT_KEY] = "full";
+      await repository.resyncSections();
+      global.chrome = { storage: { local: localB, sync } } as any;
+      expect(await repository.getAllSections()).toEqual([
+        { ...state, note: "Edited" },
+      ]);
+    });
+
+    test("reports a full sync quota as a failure", async () => {
+      setUpChrome({ [SECTION_SYNC_CONTENT_KEY]: "full" });
+      const repository = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+
+      const result = await repository.addSection(
+        createSection("Huge", { contentHtml: createNoise(150000) })
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain("sync storage quota exceeded");
+      }
+    });
+  });
+
+  describe("switching to and from sync", () => {
+    const first = createSection("First");
+    const second = createSection("Second");
+
+    test("adds local sections to those other devices synced, and leaves them synced", async () => {
+      const { local } = setUpChrome({
+        [SECTION_STORAGE_BACKEND_KEY]: "chrome-sync",
+      });
+      const chromeStorage = new ChromeStorageHeadingSectionRepository();
+      const chromeSync = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+      await chromeSync.addSection(first);
+      await chromeStorage.addSection(second);
+      const repository = new SwitchableHeadingSectionRepository(
+        {
+          "chrome-storage": chromeStorage,
+          indexeddb: new ChromeStorageHeadingSectionRepository(),
+          "chrome-sync": chromeSync,
+        },
+        local as any
+      );
+
+      expect(await repository.getAllSections()).toEqual([first, second]);
+      expect(await chromeStorage.getSectionCount()).toBe(0);
+
+      local.data[SECTION_STORAGE_BACKEND_KEY] = "chrome-storage";
+      repository.reset();
+
+      expect(await repository.getAllSections()).toEqual([first, second]);
+      expect(await chromeSync.getSectionCount()).toBe(2);
+    });
+
+    test("keeps edits and deletions made while away from sync", async () => {
+      const { local } = setUpChrome({
+        [SECTION_STORAGE_BACKEND_KEY]: "chrome-storage",
+        [ACTIVE_SECTION_STORAGE_BACKEND_KEY]: "chrome-sync",
+      });
+      const chromeStorage = new ChromeStorageHeadingSectionRepository();
+      const chromeSync = new ChromeStorageHeadingSectionRepository({
+        useSync: true,
+      });
+      await chromeSync.addSections([first, second]);
+      const repository = new SwitchableHeadingSectionRepository(
+        {
+          "chrome-storage": chromeStorage,
+          indexeddb: new ChromeStorageHeadingSectionRepository(),
+          "chrome-sync": chromeSync,
+        },
+        local as any
+      );
+
+      const edited = { ...first, note: "Edited while away" };
+      await repository.updateSection(edited);
+      await repository.removeSection(second.sectionId);
+      // Added by another device after this one moved out of sync
+      const third = {
+        ...createSection("Third"),
+        addedAt: new Date(Date.now() + 1000),
+      };
+      await chromeSync.addSection(third);
+
+      local.data[SECTION_STORAGE_BACKEND_KEY] = "chrome-sync";
+      repository.reset();
+
+      expect(await repository.getAllSections()).toEqual([third, edited]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { diffWords, hasChanges } from "../shared/diff/word-diff";
+
+describe("diffWords", () => {
+  it("should report identical texts as a single equal segment", () => {
+    expect(diffWords("same text here", "same text here")).toEqual([
+      { type: "equal", text: "same text here" },
+    ]);
+  });
+
+  it("should mark replaced words", () => {
+    expect(diffWords("the quick fox", "the slow fox")).toEqual([
+      { type: "equal", text: "the " },
+      { type: "delete", text: "quick" },
+      { type: "insert", text: "slow" },
+      { type: "equal", text: " fox" },
+    ]);
+  });
+
+  it("should mark inserted and deleted words", () => {
+    const segments = diffWords("a b c d", "a c d e");
+
+    expect(segments.filter((s) => s.type === "delete")).toEqual([
+      { type: "delete", text: "b " },
+    ]);
+    expect(segments.filter((s) => s.type === "insert")).toEqual([
+      { type: "insert", text: " e" },
+    ]);
+  });
+
+  it("should reconstruct both texts from the segments", () => {
+    const oldText = "Hooks let you use state\nwithout writing a class.";
+    const newText = "Hooks let you use state and effects\nwithout a class.";
+    const segments = diffWords(oldText, newText);
+
+    const rebuild = (skip: string) =>
+      segments
+        .filter((s) => s.type !== skip)
+        .map((s) => s.text)
+        .join("");
+
+    expect(rebuild("insert")).toBe(oldText);
+    expect(rebuild("delete")).toBe(newText);
+  });
+
+  it("should handle empty texts", () => {
+    expect(diffWords("", "")).toEqual([]);
+    expect(diffWords("", "new")).toEqual([{ type: "insert", text: "new" }]);
+    expect(diffWords("old", "")).toEqual([{ type: "delete", text: "old" }]);
+  });
+});
+
+describe("hasChanges", () => {
+  it("should detect whether a diff contains changes", () => {
+    expect(hasChanges(diffWords("a b", "a b"))).toBe(false);
+    expect(hasChanges(diffWords("a b", "a c"))).toBe(true);
+  });
+});
@@ -10,7 +10,7 @@ export default defineConfig({
     name: "DeepWiki++",
     version: "0.2.3",
     description: "Enhanced browsing tool for DeepWiki",
-    permissions: ["tabs", "storage", "activeTab"],
+    permissions: ["tabs", "storage", "unlimitedStorage", "activeTab"],
     host_permissions: ["https://github.com/*", "https://deepwiki.com/*"],
     action: {
       default_title: "DeepWiki++",